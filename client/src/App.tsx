@@ -3,9 +3,18 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import InvitationPage from "@/pages/invitation-page";
+import ForgotPasswordPage from "@/pages/forgot-password-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
 import DashboardPage from "@/pages/dashboard-page";
 import UserManagementPage from "@/pages/user-management-page";
+import RolesPage from "@/pages/roles-page";
+import CompaniesPage from "@/pages/companies-page";
+import DistributorsPage from "@/pages/distributors-page";
+import TerritoriesPage from "@/pages/territories-page";
+import AuditPage from "@/pages/audit-page";
 import { ProtectedRoute } from "./lib/protected-route";
+import { Permission } from "@shared/permissions";
 import { ThemeProvider } from "next-themes";
 
 function Router() {
@@ -13,7 +22,15 @@ function Router() {
     <Switch>
       <ProtectedRoute path="/" component={DashboardPage} />
       <ProtectedRoute path="/users" component={UserManagementPage} />
+      <ProtectedRoute path="/companies" component={CompaniesPage} requiredPermission={Permission.ORGANIZATIONS_VIEW} />
+      <ProtectedRoute path="/distributors" component={DistributorsPage} requiredPermission={Permission.ORGANIZATIONS_VIEW} />
+      <ProtectedRoute path="/territories" component={TerritoriesPage} requiredPermission={Permission.ORGANIZATIONS_VIEW} />
+      <ProtectedRoute path="/roles" component={RolesPage} requiredPermission={Permission.PERMISSIONS_MANAGE} />
+      <ProtectedRoute path="/audit" component={AuditPage} requiredPermission={Permission.AUDIT_VIEW} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/invitation" component={InvitationPage} />
+      <Route path="/forgot-password" component={ForgotPasswordPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -1,33 +1,29 @@
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
 import { format, formatDistanceToNow } from "date-fns";
-
-interface ActivityItem {
-  id: number;
-  userId: number;
-  action: string;
-  description: string;
-  timestamp: string;
-  user?: {
-    id: number;
-    username: string;
-    fullName: string;
-  };
-}
+import { ActivityPage } from "@shared/schema";
+import { can, Permission } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
 
 export function ActivityLog() {
-  // Fetch activities
-  const { data: activities, isLoading } = useQuery<ActivityItem[]>({
+  const { user } = useAuth();
+
+  // Fetch the latest activities
+  const { data, isLoading } = useQuery<ActivityPage>({
     queryKey: ["/api/activities?limit=4"],
   });
+  const activities = data?.items;
 
   // Get appropriate icon for activity type
   const getActivityIcon = (action: string) => {
     switch (action) {
       case "REGISTER":
       case "CREATE_USER":
+      case "INVITE_USER":
+      case "ACCEPT_INVITATION":
         return (
           <div className="h-8 w-8 rounded-full bg-green-100 flex items-center justify-center mr-3">
             <svg
@@ -50,6 +46,9 @@ export function ActivityLog() {
           </div>
         );
       case "UPDATE_USER":
+      case "CHANGE_USER_STATUS":
+      case "RESEND_INVITATION":
+      case "REVOKE_INVITATION":
         return (
           <div className="h-8 w-8 rounded-full bg-amber-100 flex items-center justify-center mr-3">
             <svg
@@ -185,7 +184,7 @@ export function ActivityLog() {
   };
 
   // Format time since activity
-  const formatTimeSince = (dateString: string) => {
+  const formatTimeSince = (dateString: string | Date) => {
     const date = new Date(dateString);
     return formatDistanceToNow(date, { addSuffix: true });
   };
@@ -210,9 +209,11 @@ export function ActivityLog() {
       <div className="p-6 border-b border-slate-200">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold text-slate-800">Recent Activity</h2>
-          <Button variant="link" className="text-primary-700 text-sm font-medium hover:text-primary-800">
-            View All
-          </Button>
+          {can(user, Permission.AUDIT_VIEW) && (
+            <Button variant="link" className="text-primary-700 text-sm font-medium hover:text-primary-800" asChild>
+              <Link href="/audit">View All</Link>
+            </Button>
+          )}
         </div>
       </div>
       <div>
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Loader2, ShieldCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { AuditChainBreak, AuditChainBreakType, AuditChainVerification } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { AuditEntryDetails } from "./audit-entry-details";
+
+const breakReasons: Record<AuditChainBreakType, string> = {
+  [AuditChainBreak.UNSEALED]: "The entry carries no hash although it was logged after the chain started.",
+  [AuditChainBreak.PREVIOUS_HASH_MISMATCH]: "The entry does not point at the entry before it: an entry was removed, inserted or reordered.",
+  [AuditChainBreak.HASH_MISMATCH]: "The entry's content no longer matches its hash: it was modified after being logged.",
+};
+
+export function AuditChainStatus() {
+  const { toast } = useToast();
+  const [result, setResult] = useState<AuditChainVerification | null>(null);
+  const [viewEntryId, setViewEntryId] = useState<number | undefined>(undefined);
+
+  // Walking the whole chain is expensive, so it only runs when asked
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/activities/verify");
+      return (await res.json()) as AuditChainVerification;
+    },
+    onSuccess: (verification) => {
+      setResult(verification);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to verify the audit log",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="shadow-sm border border-slate-200 mb-6">
+      <div className="p-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">Integrity</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Each entry is hashed together with the entry before it, so any edit or removal breaks the chain.
+          </p>
+        </div>
+        <Button onClick={() => verifyMutation.mutate()} disabled={verifyMutation.isPending}>
+          {verifyMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            <>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Verify Chain
+            </>
+          )}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="px-6 pb-6">
+          {result.valid ? (
+            <div className="rounded-md border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+              <div className="flex items-center font-medium">
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Chain intact
+              </div>
+              <p className="mt-1">
+                All {result.checkedCount} sealed entries verified on {format(new Date(result.verifiedAt), "dd MMM yyyy, HH:mm:ss")}.
+              </p>
+            </div>
+          ) : (
+            <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+              <div className="flex items-center font-medium">
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                Chain broken at entry #{result.firstBreak!.activityId}
+              </div>
+              <p className="mt-1">{breakReasons[result.firstBreak!.reason]}</p>
+              <p className="mt-1">
+                {result.checkedCount} entries before it verified on {format(new Date(result.verifiedAt), "dd MMM yyyy, HH:mm:ss")}.
+              </p>
+              <dl className="mt-3 grid grid-cols-1 gap-2 font-mono text-xs">
+                <div>
+                  <dt className="text-red-600">Expected</dt>
+                  <dd className="break-all">{result.firstBreak!.expectedHash}</dd>
+                </div>
+                <div>
+                  <dt className="text-red-600">Found</dt>
+                  <dd className="break-all">{result.firstBreak!.actualHash ?? "—"}</dd>
+                </div>
+              </dl>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                onClick={() => setViewEntryId(result.firstBreak!.activityId)}
+              >
+                View Entry
+              </Button>
+            </div>
+          )}
+          {result.legacyCount > 0 && (
+            <p className="mt-2 text-xs text-slate-500">
+              {result.legacyCount} entries logged before the chain was introduced are not covered.
+            </p>
+          )}
+        </div>
+      )}
+
+      <AuditEntryDetails entryId={viewEntryId} onClose={() => setViewEntryId(undefined)} />
+    </Card>
+  );
+}
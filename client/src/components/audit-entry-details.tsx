@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { ActivityWithActor } from "@shared/schema";
+
+interface AuditEntryDetailsProps {
+  entryId?: number;
+  onClose: () => void;
+}
+
+// Long values given a full row
+const wideDetails = ["User Agent", "Hash"];
+
+// Show a changed value compactly; dates and arrays arrive as JSON
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export function AuditEntryDetails({ entryId, onClose }: AuditEntryDetailsProps) {
+  // Fetch the full audit entry
+  const { data: entry, isLoading } = useQuery<ActivityWithActor>({
+    queryKey: [`/api/activities/${entryId}`],
+    enabled: entryId !== undefined,
+  });
+
+  const details = entry
+    ? [
+        { label: "Time", value: format(new Date(entry.timestamp), "dd MMM yyyy, HH:mm:ss") },
+        { label: "Actor", value: entry.user ? `${entry.user.fullName} (${entry.user.username})` : "System" },
+        { label: "Target", value: entry.entityType ? `${entry.entityType.replace(/_/g, " ")} #${entry.entityId}` : "N/A" },
+        { label: "IP Address", value: entry.ipAddress || "N/A" },
+        { label: "Request ID", value: entry.requestId || "N/A" },
+        { label: "User Agent", value: entry.userAgent || "N/A" },
+        { label: "Hash", value: entry.hash || "Not sealed" },
+      ]
+    : [];
+  const changes = entry?.changes ? Object.entries(entry.changes) : [];
+
+  return (
+    <Dialog open={entryId !== undefined} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{entry?.action.replace(/_/g, " ") ?? "Audit Entry"}</DialogTitle>
+          <DialogDescription>{entry?.description}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm">
+              {details.map((detail) => (
+                <div key={detail.label} className={wideDetails.includes(detail.label) ? "col-span-2" : undefined}>
+                  <dt className="text-xs text-slate-500">{detail.label}</dt>
+                  <dd className="text-slate-800 break-all">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div>
+              <h3 className="text-sm font-medium text-slate-800 mb-2">Changes</h3>
+              {changes.length > 0 ? (
+                <table className="min-w-full divide-y divide-slate-200 border border-slate-200 rounded-md text-sm">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Field</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Before</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">After</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200">
+                    {changes.map(([field, change]) => (
+                      <tr key={field}>
+                        <td className="px-4 py-2 font-medium text-slate-700">{field}</td>
+                        <td className="px-4 py-2 text-red-700 break-all">{formatValue(change.old)}</td>
+                        <td className="px-4 py-2 text-green-700 break-all">{formatValue(change.new)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="py-6 text-center text-slate-500 text-sm">No field changes recorded</div>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
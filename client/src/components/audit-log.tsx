@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, Loader2, Search, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { ActivityPage, ActivityWithActor, AuditExportFormat, MAX_USER_PAGE_SIZE, Organization, UserPage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AuditEntryDetails } from "./audit-entry-details";
+
+interface AuditFilters {
+  actorId: string;
+  action: string;
+  targetUserId: string;
+  organizationId: string;
+  from: string;
+  to: string;
+}
+
+const ALL = "all";
+
+const emptyFilters: AuditFilters = {
+  actorId: ALL,
+  action: ALL,
+  targetUserId: ALL,
+  organizationId: ALL,
+  from: "",
+  to: "",
+};
+
+const PAGE_SIZE = 25;
+
+const exportFormats = [
+  { format: AuditExportFormat.CSV, label: "CSV (spreadsheet)" },
+  { format: AuditExportFormat.NDJSON, label: "JSON Lines" },
+  { format: AuditExportFormat.PDF, label: "PDF report" },
+];
+
+export function AuditLog() {
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [selectedEntry, setSelectedEntry] = useState<ActivityWithActor | undefined>(undefined);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  // Fetch the options of the filters
+  const userOptionsQuery = `pageSize=${MAX_USER_PAGE_SIZE}`;
+  const { data: userPage } = useQuery<UserPage>({
+    queryKey: ["/api/users", userOptionsQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/users?${userOptionsQuery}`);
+      return res.json();
+    },
+  });
+  const users = userPage?.items;
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+  const { data: actionTypes } = useQuery<string[]>({
+    queryKey: ["/api/activities/actions"],
+  });
+
+  // Build the query string shared by every page and by exports
+  const params = new URLSearchParams();
+  for (const key of ["actorId", "action", "targetUserId", "organizationId"] as const) {
+    if (filters[key] !== ALL) {
+      params.set(key, filters[key]);
+    }
+  }
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (search) params.set("q", search);
+  const filterQuery = params.toString();
+  const query = `limit=${PAGE_SIZE}${filterQuery ? `&${filterQuery}` : ""}`;
+
+  // Fetch audit entries a page at a time, following the cursor of the last page
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/activities", query],
+    queryFn: async ({ pageParam }): Promise<ActivityPage> => {
+      const cursor = pageParam !== null ? `&cursor=${pageParam}` : "";
+      const res = await apiRequest("GET", `/api/activities?${query}${cursor}`);
+      return res.json();
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // New events are logged all the time; always reload when the screen opens
+    staleTime: 0,
+  });
+  const entries = data?.pages.flatMap((page) => page.items) ?? [];
+
+  const setFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const hasFilters = search !== "" || Object.entries(filters).some(
+    ([key, value]) => value !== emptyFilters[key as keyof AuditFilters]
+  );
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    setSearchInput("");
+  };
+
+  return (
+    <Card className="shadow-sm border border-slate-200 mb-6">
+      <div className="p-6 border-b border-slate-200 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-slate-800">Audit Trail</h2>
+          <div className="flex items-center space-x-2 w-full sm:w-auto">
+            <div className="relative w-full sm:w-72">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+              <Input
+                className="pl-9"
+                placeholder="Search descriptions..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {exportFormats.map(({ format: exportFormat, label }) => (
+                  <DropdownMenuItem key={exportFormat} asChild>
+                    <a href={`/api/activities/export?format=${exportFormat}${filterQuery ? `&${filterQuery}` : ""}`} download>
+                      {label}
+                    </a>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-3">
+          <Select value={filters.actorId} onValueChange={(value) => setFilter("actorId", value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Actor" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actors</SelectItem>
+              {users?.map((user) => (
+                <SelectItem key={user.id} value={user.id.toString()}>
+                  {user.fullName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.action} onValueChange={(value) => setFilter("action", value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Action" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {actionTypes?.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {action.replace(/_/g, " ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.targetUserId} onValueChange={(value) => setFilter("targetUserId", value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Target user" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any target user</SelectItem>
+              {users?.map((user) => (
+                <SelectItem key={user.id} value={user.id.toString()}>
+                  {user.fullName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.organizationId} onValueChange={(value) => setFilter("organizationId", value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Organization" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All organizations</SelectItem>
+              {organizations?.map((org) => (
+                <SelectItem key={org.id} value={org.id.toString()}>
+                  {org.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="date"
+            aria-label="From date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => setFilter("from", e.target.value)}
+          />
+          <Input
+            type="date"
+            aria-label="To date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => setFilter("to", e.target.value)}
+          />
+        </div>
+
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="mr-1 h-4 w-4" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Time</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Actor</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Action</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Description</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-slate-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={4} className="py-10">
+                  <div className="flex justify-center">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                </td>
+              </tr>
+            ) : entries.length > 0 ? (
+              entries.map((entry) => (
+                <tr
+                  key={entry.id}
+                  className="hover:bg-slate-50 cursor-pointer"
+                  onClick={() => setSelectedEntry(entry)}
+                >
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-slate-500">
+                    {format(new Date(entry.timestamp), "dd MMM yyyy, HH:mm:ss")}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-slate-800">
+                    {entry.user?.fullName ?? "System"}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-xs font-medium text-slate-600">
+                    {entry.action.replace(/_/g, " ")}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-slate-700">{entry.description}</td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={4} className="px-6 py-8 text-center text-slate-500 text-sm">
+                  No audit entries match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {hasNextPage && (
+        <div className="border-t border-slate-200 px-6 py-4 flex justify-center">
+          <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading...
+              </>
+            ) : (
+              "Load more"
+            )}
+          </Button>
+        </div>
+      )}
+
+      <AuditEntryDetails entryId={selectedEntry?.id} onClose={() => setSelectedEntry(undefined)} />
+    </Card>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { Organization, UserDirectoryEntry } from "@shared/schema";
+import {
+  BulkUserAction, BulkUserActionLabels, BulkUserActionType, BulkUserReport, BulkUserRequest
+} from "@shared/user-bulk";
+import { MAX_STATUS_REASON_LENGTH } from "@shared/user-lifecycle";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ManagerPicker } from "./manager-picker";
+import { TerritorySelect } from "./territory-select";
+
+interface BulkUserActionDialogProps {
+  action: BulkUserActionType | null;
+  users: UserDirectoryEntry[];
+  onClose: () => void;
+  // Called once the action has been applied, whatever the outcome for each user
+  onComplete: () => void;
+}
+
+// The value every user shares, or undefined when they differ
+function sharedValue<T>(users: UserDirectoryEntry[], pick: (user: UserDirectoryEntry) => T): T | undefined {
+  const values = Array.from(new Set(users.map(pick)));
+  return values.length === 1 ? values[0] : undefined;
+}
+
+export function BulkUserActionDialog({ action, users, onClose, onComplete }: BulkUserActionDialogProps) {
+  const { toast } = useToast();
+  const [organizationId, setOrganizationId] = useState<number | null>(null);
+  const [managerId, setManagerId] = useState<number | null>(null);
+  const [territoryId, setTerritoryId] = useState<number | null>(null);
+  const [reason, setReason] = useState("");
+  const [report, setReport] = useState<BulkUserReport | null>(null);
+
+  // Start over whenever the dialog opens for another action
+  useEffect(() => {
+    setOrganizationId(null);
+    setManagerId(null);
+    setTerritoryId(null);
+    setReason("");
+    setReport(null);
+  }, [action]);
+
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    enabled: action === BulkUserAction.CHANGE_ORGANIZATION,
+  });
+
+  // A manager or territory can only be chosen for users of one role and organization
+  const sharedRole = sharedValue(users, (user) => user.role);
+  const sharedOrganizationId = sharedValue(users, (user) => user.organizationId);
+
+  const bulkMutation = useMutation({
+    mutationFn: async (request: BulkUserRequest) => {
+      const res = await apiRequest("POST", "/api/users/bulk", request);
+      return (await res.json()) as BulkUserReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities?limit=4"] });
+      onComplete();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply the bulk action",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!action) {
+    return null;
+  }
+
+  const label = BulkUserActionLabels[action];
+  const changesStatus = action === BulkUserAction.ACTIVATE || action === BulkUserAction.DEACTIVATE;
+  const needsInput: Partial<Record<BulkUserActionType, boolean>> = {
+    [BulkUserAction.ACTIVATE]: reason.trim() === "",
+    [BulkUserAction.DEACTIVATE]: reason.trim() === "",
+    [BulkUserAction.CHANGE_ORGANIZATION]: organizationId === null,
+    [BulkUserAction.REASSIGN_MANAGER]: !sharedRole || !sharedOrganizationId,
+    [BulkUserAction.MOVE_TERRITORY]: !sharedOrganizationId,
+  };
+  const canApply = users.length > 0 && !needsInput[action] && !bulkMutation.isPending;
+
+  const handleApply = () => {
+    bulkMutation.mutate({
+      action,
+      userIds: users.map((user) => user.id),
+      ...(action === BulkUserAction.CHANGE_ORGANIZATION ? { organizationId: organizationId! } : {}),
+      ...(action === BulkUserAction.REASSIGN_MANAGER ? { managerId } : {}),
+      ...(action === BulkUserAction.MOVE_TERRITORY ? { territoryId } : {}),
+      ...(changesStatus ? { reason: reason.trim() } : {}),
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{label}</DialogTitle>
+          <DialogDescription>
+            {report
+              ? `${report.succeededCount} of ${report.results.length} users were processed.`
+              : `This will apply to the ${users.length} selected users. Each user is checked on its own; users you may not change are skipped.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!report && (
+          <div className="space-y-4">
+            {action === BulkUserAction.CHANGE_ORGANIZATION && (
+              <div className="space-y-2">
+                <Label>New organization</Label>
+                <Select
+                  value={organizationId !== null ? organizationId.toString() : undefined}
+                  onValueChange={(value) => setOrganizationId(parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select organization" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {organizations?.map((org) => (
+                      <SelectItem key={org.id} value={org.id.toString()}>
+                        {org.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-500">The users leave their current manager and territory.</p>
+              </div>
+            )}
+
+            {action === BulkUserAction.REASSIGN_MANAGER && (
+              sharedRole && sharedOrganizationId ? (
+                <div className="space-y-2">
+                  <Label>New manager</Label>
+                  <ManagerPicker
+                    role={sharedRole}
+                    organizationId={sharedOrganizationId}
+                    value={managerId}
+                    onChange={setManagerId}
+                  />
+                </div>
+              ) : (
+                <p className="text-sm text-slate-600">
+                  Select users with the same role and organization to reassign their manager.
+                </p>
+              )
+            )}
+
+            {action === BulkUserAction.MOVE_TERRITORY && (
+              sharedOrganizationId ? (
+                <div className="space-y-2">
+                  <Label>New territory</Label>
+                  <TerritorySelect organizationId={sharedOrganizationId} value={territoryId} onChange={setTerritoryId} />
+                </div>
+              ) : (
+                <p className="text-sm text-slate-600">
+                  Select users of the same organization to move them to a territory.
+                </p>
+              )
+            )}
+
+            {changesStatus && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-status-reason">Reason</Label>
+                <Textarea
+                  id="bulk-status-reason"
+                  value={reason}
+                  maxLength={MAX_STATUS_REASON_LENGTH}
+                  placeholder="Why is the status changing?"
+                  onChange={(e) => setReason(e.target.value)}
+                />
+                <p className="text-xs text-slate-500">
+                  Users whose current status does not allow this change are skipped.
+                </p>
+              </div>
+            )}
+
+            {action === BulkUserAction.FORCE_PASSWORD_RESET && (
+              <p className="text-sm text-slate-600">
+                The users will have to choose a new password the next time they use the application.
+              </p>
+            )}
+
+            {action === BulkUserAction.DELETE && (
+              <div className="flex items-start rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                <AlertTriangle className="mr-2 h-4 w-4 mt-0.5 shrink-0" />
+                The selected users will no longer be able to sign in. They can be restored from Deleted users;
+                users who manage others are skipped and must be deleted on their own to choose a successor.
+              </div>
+            )}
+          </div>
+        )}
+
+        {report && (
+          <table className="min-w-full divide-y divide-slate-200 border border-slate-200 rounded-md text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">User</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {report.results.map((result) => (
+                <tr key={result.userId}>
+                  <td className="px-4 py-2 text-slate-800 align-top">{result.username ?? `#${result.userId}`}</td>
+                  <td className="px-4 py-2">
+                    {result.success ? (
+                      <span className="flex items-center text-green-700">
+                        <CheckCircle2 className="mr-1 h-4 w-4" />
+                        {result.unchanged ? "Already up to date" : "Done"}
+                      </span>
+                    ) : (
+                      <span className="flex items-start text-red-700">
+                        <XCircle className="mr-1 h-4 w-4 mt-0.5 shrink-0" />
+                        {result.error}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {report ? "Close" : "Cancel"}
+          </Button>
+          {!report && (
+            <Button
+              variant={action === BulkUserAction.DELETE ? "destructive" : "default"}
+              disabled={!canApply}
+              onClick={handleApply}
+            >
+              {bulkMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {label} {users.length} Users
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { UserDirectoryEntry, UserPage } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ManagerPicker } from "./manager-picker";
+
+interface DeleteUserDialogProps {
+  user: UserDirectoryEntry | null;
+  onClose: () => void;
+}
+
+// Confirms deleting a user; a manager's direct reports need a successor first
+export function DeleteUserDialog({ user, onClose }: DeleteUserDialogProps) {
+  const { toast } = useToast();
+  const [successorId, setSuccessorId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setSuccessorId(null);
+  }, [user?.id]);
+
+  // One report is enough to know how many there are and which role the successor manages
+  const reportsQuery = `managerId=${user?.id}&pageSize=1`;
+  const { data: reports, isLoading: reportsLoading } = useQuery<UserPage>({
+    queryKey: ["/api/users", reportsQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/users?${reportsQuery}`);
+      return res.json();
+    },
+    enabled: !!user,
+  });
+  const reportCount = reports?.total ?? 0;
+  const firstReport = reports?.items[0];
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async () => {
+      const query = reportCount > 0 && successorId !== null ? `?successorId=${successorId}` : "";
+      await apiRequest("DELETE", `/api/users/${user!.id}${query}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "User deleted",
+        description: "The user has been moved to Deleted users.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const needsSuccessor = reportCount > 0 && successorId === null;
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Delete {user.fullName}?</DialogTitle>
+          <DialogDescription>
+            The user will no longer be able to sign in and is hidden from the user list.
+            They can be restored from Deleted users.
+          </DialogDescription>
+        </DialogHeader>
+
+        {reportsLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : firstReport && (
+          <div className="space-y-2">
+            <Label>Successor</Label>
+            <ManagerPicker
+              role={firstReport.role}
+              organizationId={firstReport.organizationId}
+              value={successorId}
+              onChange={setSuccessorId}
+              excludeUserId={user.id}
+            />
+            <p className="text-xs text-slate-500">
+              {user.fullName} manages {reportCount} user{reportCount === 1 ? "" : "s"}, who will report to the successor.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={reportsLoading || needsSuccessor || deleteUserMutation.isPending}
+            onClick={() => deleteUserMutation.mutate()}
+          >
+            {deleteUserMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Delete
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
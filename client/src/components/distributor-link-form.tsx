@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  insertDistributorLinkSchema, DistributorLinkDetails, DistributorLinkStatus, Organization, OrganizationType
+} from "@shared/schema";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { IndiaLocationService } from "@/lib/india-location-service";
+
+interface DistributorLinkFormProps {
+  open: boolean;
+  onClose: () => void;
+  organization: Organization;
+  link?: DistributorLinkDetails;
+}
+
+// Create a schema for the link form
+const distributorLinkFormSchema = insertDistributorLinkSchema.extend({
+  distributorId: z.number().positive({ message: "Distributor is required" }),
+  companyId: z.number().positive({ message: "Pharma company is required" }),
+});
+
+type DistributorLinkFormData = z.infer<typeof distributorLinkFormSchema>;
+
+// Refresh every distributor link query and the organizations visible through active links
+export function invalidateDistributorLinks() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/distributor-links"),
+  });
+  queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+}
+
+export function DistributorLinkForm({ open, onClose, organization, link }: DistributorLinkFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!link;
+  const isDistributor = organization.type === OrganizationType.DISTRIBUTOR;
+  const [states, setStates] = useState<{id: string, name: string}[]>([]);
+
+  // Get organizations to link with
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    enabled: open,
+  });
+  const counterpartType = isDistributor ? OrganizationType.PHARMA_COMPANY : OrganizationType.DISTRIBUTOR;
+  const counterparts = (organizations ?? []).filter((org) => org.type === counterpartType);
+
+  const getDefaultValues = (): DistributorLinkFormData => ({
+    distributorId: link?.distributorId ?? (isDistributor ? organization.id : 0),
+    companyId: link?.companyId ?? (isDistributor ? 0 : organization.id),
+    coverageStates: link?.coverageStates ?? [],
+    appointmentDate: link?.appointmentDate ?? "",
+    status: link?.status ?? DistributorLinkStatus.ACTIVE,
+    agreementReference: link?.agreementReference ?? "",
+  });
+
+  const form = useForm<DistributorLinkFormData>({
+    resolver: zodResolver(distributorLinkFormSchema),
+    defaultValues: getDefaultValues(),
+  });
+
+  useEffect(() => {
+    form.reset(getDefaultValues());
+  }, [link, organization, open]);
+
+  // Fetch Indian states when form opens
+  useEffect(() => {
+    if (open) {
+      IndiaLocationService.getAllStates().then(setStates).catch((error) => {
+        console.error("Error fetching states:", error);
+      });
+    }
+  }, [open]);
+
+  // Save link mutation
+  const saveLinkMutation = useMutation({
+    mutationFn: async (data: DistributorLinkFormData) => {
+      if (link) {
+        const { distributorId, companyId, ...terms } = data;
+        const res = await apiRequest("PUT", `/api/distributor-links/${link.id}`, terms);
+        return res.json();
+      }
+      const res = await apiRequest("POST", "/api/distributor-links", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: isEditing ? "Distributor link updated successfully" : "Distributor link created successfully",
+      });
+      invalidateDistributorLinks();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save distributor link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const counterpartField = isDistributor ? "companyId" : "distributorId";
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Distribution Link" : "Add Distribution Link"}</DialogTitle>
+          <DialogDescription>
+            {isDistributor
+              ? `Record a pharma company that ${organization.name} distributes for.`
+              : `Record a distributor appointed by ${organization.name}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveLinkMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name={counterpartField}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{isDistributor ? "Pharma Company" : "Distributor"}</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(parseInt(value))}
+                    value={field.value ? field.value.toString() : undefined}
+                    disabled={isEditing}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder={isDistributor ? "Select a company" : "Select a distributor"} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {counterparts.map((org) => (
+                        <SelectItem key={org.id} value={org.id.toString()}>
+                          {org.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="appointmentDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Appointment Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={(field.value as string | null | undefined) ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select status" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={DistributorLinkStatus.ACTIVE}>Active</SelectItem>
+                        <SelectItem value={DistributorLinkStatus.SUSPENDED}>Suspended</SelectItem>
+                        <SelectItem value={DistributorLinkStatus.TERMINATED}>Terminated</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="agreementReference"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Agreement Reference</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter agreement number" {...field} value={(field.value as string | null | undefined) ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="coverageStates"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Territory Coverage</FormLabel>
+                  <div className="grid grid-cols-2 gap-2 border rounded-md p-3 bg-slate-50 max-h-48 overflow-y-auto">
+                    {states.map((state) => (
+                      <label key={state.id} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={field.value?.includes(state.id)}
+                          onCheckedChange={(checked) => {
+                            const current = (field.value ?? []).filter((s) => s !== state.id);
+                            field.onChange(checked === true ? [...current, state.id] : current);
+                          }}
+                        />
+                        <span>{state.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button variant="outline" type="button" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveLinkMutation.isPending}>
+                {saveLinkMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Link"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
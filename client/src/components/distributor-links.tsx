@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { DistributorLinkDetails, Organization, OrganizationType } from "@shared/schema";
+import { can, Permission } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+import { Pencil, Trash2, Plus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { DistributorLinkForm, invalidateDistributorLinks } from "./distributor-link-form";
+
+interface DistributorLinksProps {
+  organization: Organization;
+}
+
+export function DistributorLinks({ organization }: DistributorLinksProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [formOpen, setFormOpen] = useState(false);
+  const [selectedLink, setSelectedLink] = useState<DistributorLinkDetails | undefined>(undefined);
+  const [deleteLink, setDeleteLink] = useState<DistributorLinkDetails | null>(null);
+  const canManage = can(user, Permission.ORGANIZATIONS_MANAGE);
+  const isDistributor = organization.type === OrganizationType.DISTRIBUTOR;
+
+  // Fetch links on either side of this organization
+  const { data: links, isLoading } = useQuery<DistributorLinkDetails[]>({
+    queryKey: [`/api/distributor-links?organizationId=${organization.id}`],
+  });
+
+  // Delete link mutation
+  const deleteLinkMutation = useMutation({
+    mutationFn: async (linkId: number) => {
+      await apiRequest("DELETE", `/api/distributor-links/${linkId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Link removed",
+        description: "The distribution link has been successfully removed.",
+      });
+      invalidateDistributorLinks();
+      setDeleteLink(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove distribution link",
+        variant: "destructive",
+      });
+      setDeleteLink(null);
+    },
+  });
+
+  const handleCreate = () => {
+    setSelectedLink(undefined);
+    setFormOpen(true);
+  };
+
+  const handleEdit = (link: DistributorLinkDetails) => {
+    setSelectedLink(link);
+    setFormOpen(true);
+  };
+
+  const handleCloseForm = () => {
+    setFormOpen(false);
+    setSelectedLink(undefined);
+  };
+
+  // Link status badge
+  const StatusBadge = ({ status }: { status: string }) => {
+    let colors = "bg-green-100 text-green-800";
+    if (status === "SUSPENDED") {
+      colors = "bg-yellow-100 text-yellow-800";
+    } else if (status === "TERMINATED") {
+      colors = "bg-red-100 text-red-800";
+    }
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${colors}`}>
+        {status.charAt(0) + status.slice(1).toLowerCase()}
+      </span>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-slate-800">
+          {isDistributor ? "Pharma Companies" : "Distributors"} {links ? `(${links.length})` : ""}
+        </h3>
+        {canManage && (
+          <Button variant="outline" size="sm" onClick={handleCreate}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add Link
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : links && links.length > 0 ? (
+        <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md max-h-60 overflow-y-auto">
+          {links.map((link) => (
+            <li key={link.id} className="px-4 py-3 flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-slate-800">
+                  {isDistributor ? link.companyName : link.distributorName}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {link.coverageStates.length > 0 ? link.coverageStates.join(", ") : "No states assigned"}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {link.appointmentDate ? `Appointed ${format(new Date(link.appointmentDate), "dd MMM yyyy")}` : "Appointment date N/A"}
+                  {link.agreementReference ? ` · Agreement ${link.agreementReference}` : ""}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <StatusBadge status={link.status} />
+                {canManage && (
+                  <>
+                    <button
+                      className="text-slate-500 hover:text-primary p-1"
+                      onClick={() => handleEdit(link)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      className="text-slate-500 hover:text-red-500 p-1"
+                      onClick={() => setDeleteLink(link)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="py-6 text-center text-slate-500 text-sm">
+          {isDistributor ? "Not linked to any pharma company" : "No distributors appointed"}
+        </div>
+      )}
+
+      {/* Link Form Dialog */}
+      <DistributorLinkForm
+        open={formOpen}
+        onClose={handleCloseForm}
+        organization={organization}
+        link={selectedLink}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deleteLink} onOpenChange={(open) => !open && setDeleteLink(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove distribution link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will remove the link between {deleteLink?.distributorName} and {deleteLink?.companyName}.
+              Consider marking it terminated instead to keep the appointment history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleteLink && deleteLinkMutation.mutate(deleteLink.id)}
+            >
+              {deleteLinkMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                "Remove"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
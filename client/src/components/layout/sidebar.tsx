@@ -1,12 +1,14 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth";
+import { can, Permission } from "@shared/permissions";
 import {
   LogOut,
   LayoutDashboard,
   Users,
   Building2,
   Store,
+  MapPin,
   Settings,
   ShieldCheck,
   FileText,
@@ -53,14 +55,16 @@ export function Sidebar({ isMobileSidebarOpen, setMobileSidebarOpen }: SidebarPr
     { icon: Users, label: "User Management", href: "/users", current: location === "/users" },
     { icon: Building2, label: "Companies", href: "/companies", current: location === "/companies" },
     { icon: Store, label: "Distributors", href: "/distributors", current: location === "/distributors" },
+    { icon: MapPin, label: "Territories", href: "/territories", current: location === "/territories" },
     { icon: Settings, label: "Settings", href: "/settings", current: location === "/settings" }
   ];
 
+  // Only show the administration links the user's role is permitted to use
   const adminLinks = [
-    { icon: ShieldCheck, label: "Roles & Permissions", href: "/roles", current: location === "/roles" },
-    { icon: FileText, label: "Audit Logs", href: "/audit", current: location === "/audit" },
-    { icon: Database, label: "System Status", href: "/system", current: location === "/system" }
-  ];
+    { icon: ShieldCheck, label: "Roles & Permissions", href: "/roles", current: location === "/roles", permission: Permission.PERMISSIONS_MANAGE },
+    { icon: FileText, label: "Audit Logs", href: "/audit", current: location === "/audit", permission: Permission.AUDIT_VIEW },
+    { icon: Database, label: "System Status", href: "/system", current: location === "/system", permission: Permission.SYSTEM_VIEW }
+  ].filter((link) => can(user, link.permission));
 
   const sidebarClass = cn(
     "bg-white w-64 h-full border-r border-slate-200 fixed inset-y-0 left-0 z-20 flex flex-col",
@@ -118,7 +122,7 @@ export function Sidebar({ isMobileSidebarOpen, setMobileSidebarOpen }: SidebarPr
             ))}
           </ul>
           
-          {user?.role === "SUPER_ADMIN" && (
+          {adminLinks.length > 0 && (
             <>
               <div className="pt-4 mt-4 px-3">
                 <span className="px-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { User, UserRoleType } from "@shared/schema";
+import { ManagerRoles } from "@shared/org-chart";
+import { cn } from "@/lib/utils";
+
+interface ManagerPickerProps {
+  role: UserRoleType;
+  organizationId: number | null | undefined;
+  value: number | null | undefined;
+  onChange: (managerId: number | null) => void;
+  // The user being edited, who cannot manage themselves
+  excludeUserId?: number;
+}
+
+export function ManagerPicker({ role, organizationId, value, onChange, excludeUserId }: ManagerPickerProps) {
+  const [open, setOpen] = useState(false);
+  const managerRole = ManagerRoles[role];
+
+  // Fetch active users of the role immediately above in the same organization
+  const { data: managers, isLoading } = useQuery<Omit<User, "password">[]>({
+    queryKey: [`/api/users/eligible-managers?role=${role}&organizationId=${organizationId}`],
+    enabled: !!managerRole && !!organizationId,
+  });
+
+  const options = (managers ?? []).filter((manager) => manager.id !== excludeUserId);
+  const selected = options.find((manager) => manager.id === value);
+
+  if (!managerRole) {
+    return (
+      <Button variant="outline" className="w-full justify-start font-normal text-slate-500" disabled>
+        No manager for this role
+      </Button>
+    );
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          disabled={!organizationId}
+        >
+          <span className="truncate">
+            {!organizationId
+              ? "Select organization first"
+              : selected?.fullName ?? (isLoading ? "Loading managers..." : "Select manager")}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+        <Command>
+          <CommandInput placeholder={`Search ${managerRole.replace(/_/g, " ").toLowerCase()}s...`} />
+          <CommandList>
+            <CommandEmpty>No eligible managers found.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem
+                value="no manager"
+                onSelect={() => {
+                  onChange(null);
+                  setOpen(false);
+                }}
+              >
+                <Check className={cn("mr-2 h-4 w-4", value ? "opacity-0" : "opacity-100")} />
+                No manager
+              </CommandItem>
+              {options.map((manager) => (
+                <CommandItem
+                  key={manager.id}
+                  value={`${manager.fullName} ${manager.username} ${manager.region ?? ""}`}
+                  onSelect={() => {
+                    onChange(manager.id);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value === manager.id ? "opacity-100" : "opacity-0")} />
+                  <div>
+                    <div>{manager.fullName}</div>
+                    <div className="text-xs text-slate-500">{manager.region || manager.email}</div>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Mail, Send, X } from "lucide-react";
+import { UserDirectoryEntry, UserPage, UserStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+
+const invitedQuery = `status=${UserStatus.PENDING}&invited=true&sort=fullName&pageSize=50`;
+
+// Invitations that were sent but not accepted yet, with actions to resend or revoke them
+export function OpenInvitations() {
+  const { toast } = useToast();
+  const [revoking, setRevoking] = useState<UserDirectoryEntry | null>(null);
+
+  const { data: invited } = useQuery<UserPage>({
+    queryKey: ["/api/users", invitedQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/users?${invitedQuery}`);
+      return res.json();
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (user: UserDirectoryEntry) => {
+      const res = await apiRequest("POST", `/api/users/${user.id}/invitation/resend`);
+      return (await res.json()) as { expiresAt: string; sendCount: number };
+    },
+    onSuccess: ({ expiresAt }, user) => {
+      toast({
+        title: "Invitation resent",
+        description: `A new link was sent to ${user.email}; it expires on ${new Date(expiresAt).toLocaleDateString()}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities?limit=4"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resend invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (user: UserDirectoryEntry) => {
+      await apiRequest("DELETE", `/api/users/${user.id}/invitation`);
+    },
+    onSuccess: (_, user) => {
+      toast({
+        title: "Invitation revoked",
+        description: `The invitation link of ${user.fullName} no longer works.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities?limit=4"] });
+      setRevoking(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!invited || invited.total === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-sm border border-slate-200 mb-6">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex items-center">
+        <Mail className="mr-2 h-5 w-5 text-primary" />
+        <h2 className="text-base font-semibold text-slate-800">Open Invitations</h2>
+        <span className="ml-2 text-sm text-slate-500">
+          {invited.total} invitation{invited.total === 1 ? "" : "s"} not accepted yet
+        </span>
+      </div>
+      <ul className="divide-y divide-slate-200">
+        {invited.items.map((user) => (
+          <li key={user.id} className="px-6 py-3 flex items-center justify-between">
+            <div>
+              <div className="text-sm font-medium text-slate-800">{user.fullName}</div>
+              <div className="text-xs text-slate-500">
+                {user.email} · {user.role.replace(/_/g, " ")}
+                {user.organizationName && ` · ${user.organizationName}`}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={resendMutation.isPending && resendMutation.variables?.id === user.id}
+                onClick={() => resendMutation.mutate(user)}
+              >
+                <Send className="mr-1 h-4 w-4" />
+                Resend
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-600 hover:text-red-800"
+                onClick={() => setRevoking(user)}
+              >
+                <X className="mr-1 h-4 w-4" />
+                Revoke
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <AlertDialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke the invitation of {revoking?.fullName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The links already sent to {revoking?.email} stop working and the account becomes inactive.
+              It can be reactivated from the user list later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              disabled={revokeMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                revokeMutation.mutate(revoking!);
+              }}
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
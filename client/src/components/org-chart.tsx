@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ChevronDown, ChevronRight, Loader2, ZoomIn, ZoomOut, Maximize2 } from "lucide-react";
+import { Organization } from "@shared/schema";
+import { OrgChart as OrgChartData, OrgChartIssue, OrgChartIssueType, OrgChartNode } from "@shared/org-chart";
+import { can, Permission } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+import { ReassignDialog, ReassignRequest } from "./reassign-dialog";
+
+const issueLabels: Record<OrgChartIssueType, string> = {
+  [OrgChartIssue.ORPHAN]: "No manager",
+  [OrgChartIssue.CYCLE]: "Reporting cycle",
+  [OrgChartIssue.RANK_VIOLATION]: "Manager not senior",
+};
+
+const MIN_ZOOM = 0.4;
+const MAX_ZOOM = 1.6;
+const ZOOM_STEP = 0.2;
+
+// Collect the ids of every node that has reports
+function managerIds(nodes: OrgChartNode[]): number[] {
+  return nodes.flatMap((node) =>
+    node.children.length > 0 ? [node.id, ...managerIds(node.children)] : []
+  );
+}
+
+interface OrgChartBranchProps {
+  node: OrgChartNode;
+  collapsed: Set<number>;
+  onToggle: (id: number) => void;
+  // Drag and drop reassignment, only wired when the user may edit users
+  onDragNode?: (node: OrgChartNode) => void;
+  onDropNode?: (manager: OrgChartNode) => void;
+}
+
+function OrgChartBranch({ node, collapsed, onToggle, onDragNode, onDropNode }: OrgChartBranchProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const isCollapsed = collapsed.has(node.id);
+  const territory = [node.territoryName ?? node.region, node.city, node.state].filter(Boolean).join(", ");
+  const statusColor = node.status === "ACTIVE"
+    ? "bg-green-600"
+    : node.status === "INACTIVE" ? "bg-red-600"
+    : node.status === "SUSPENDED" ? "bg-orange-600" : "bg-yellow-600";
+
+  return (
+    <div className="flex flex-col items-center">
+      <div
+        className={`w-52 rounded-md border bg-white px-3 py-2 text-left shadow-sm ${
+          isDragOver ? "ring-2 ring-primary" : ""
+        } ${node.issues.length > 0 ? "border-red-300" : "border-slate-200"} ${onDragNode ? "cursor-grab" : ""}`}
+        draggable={!!onDragNode}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.effectAllowed = "move";
+          onDragNode?.(node);
+        }}
+        onDragOver={(e) => {
+          if (!onDropNode) return;
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragOver(false);
+          onDropNode?.(node);
+        }}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-slate-800 truncate">{node.fullName}</span>
+          <span className={`w-2 h-2 ml-2 rounded-full shrink-0 ${statusColor}`} title={node.status}></span>
+        </div>
+        <div className="text-xs text-slate-500">{node.role.replace(/_/g, " ")}</div>
+        <div className="text-xs text-slate-400 truncate">{territory || "No territory"}</div>
+        {node.issues.map((issue) => (
+          <div key={issue} className="mt-1 flex items-center text-xs text-red-600">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            {issueLabels[issue]}
+          </div>
+        ))}
+        {node.children.length > 0 && (
+          <button
+            className="mt-1 flex items-center text-xs text-primary hover:underline"
+            onClick={() => onToggle(node.id)}
+          >
+            {isCollapsed ? <ChevronRight className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+            {node.children.length} {node.children.length === 1 ? "report" : "reports"}
+          </button>
+        )}
+      </div>
+
+      {!isCollapsed && node.children.length > 0 && (
+        <>
+          <div className="w-px h-6 bg-slate-300"></div>
+          <div className="flex">
+            {node.children.map((child, index) => (
+              <div key={child.id} className="relative flex flex-col items-center px-2">
+                {node.children.length > 1 && (
+                  <div
+                    className={`absolute top-0 h-px bg-slate-300 ${
+                      index === 0 ? "left-1/2 right-0" : index === node.children.length - 1 ? "left-0 right-1/2" : "left-0 right-0"
+                    }`}
+                  ></div>
+                )}
+                <div className="w-px h-6 bg-slate-300"></div>
+                <OrgChartBranch
+                  node={child}
+                  collapsed={collapsed}
+                  onToggle={onToggle}
+                  onDragNode={onDragNode}
+                  onDropNode={onDropNode}
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function OrgChart() {
+  const { user } = useAuth();
+  const [organizationId, setOrganizationId] = useState<number | null>(user?.organizationId ?? null);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [zoom, setZoom] = useState(1);
+  const [draggedNode, setDraggedNode] = useState<OrgChartNode | null>(null);
+  const [reassignRequest, setReassignRequest] = useState<ReassignRequest | null>(null);
+  const canReassign = can(user, Permission.USERS_EDIT);
+
+  // Fetch organizations to chart
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  // Fall back to the first visible organization
+  useEffect(() => {
+    if (organizationId === null && organizations && organizations.length > 0) {
+      setOrganizationId(organizations[0].id);
+    }
+  }, [organizations, organizationId]);
+
+  // Fetch the reporting tree of the selected organization
+  const { data: chart, isLoading } = useQuery<OrgChartData>({
+    queryKey: [`/api/organizations/${organizationId}/tree`],
+    enabled: organizationId !== null,
+  });
+
+  useEffect(() => {
+    setCollapsed(new Set());
+  }, [organizationId]);
+
+  const handleToggle = (id: number) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Dropping a user onto another opens a preview of the reassignment
+  const handleDrop = (manager: OrgChartNode) => {
+    if (draggedNode && draggedNode.id !== manager.id) {
+      setReassignRequest({ node: draggedNode, manager });
+    }
+    setDraggedNode(null);
+  };
+
+  const changeZoom = (delta: number) => {
+    setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round((current + delta) * 10) / 10)));
+  };
+
+  const issueSummary = chart
+    ? (Object.keys(issueLabels) as OrgChartIssueType[]).filter((issue) => chart.issueCounts[issue] > 0)
+    : [];
+
+  return (
+    <Card className="shadow-sm border border-slate-200 mb-6">
+      <div className="p-6 border-b border-slate-200">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-800">Organization Chart</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              Reporting lines built from each user's manager{canReassign ? ". Drag a person onto a new manager to reassign them." : ""}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Select
+              value={organizationId !== null ? organizationId.toString() : undefined}
+              onValueChange={(value) => setOrganizationId(parseInt(value))}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select organization" />
+              </SelectTrigger>
+              <SelectContent>
+                {organizations?.map((org) => (
+                  <SelectItem key={org.id} value={org.id.toString()}>
+                    {org.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => changeZoom(-ZOOM_STEP)} disabled={zoom <= MIN_ZOOM}>
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => changeZoom(ZOOM_STEP)} disabled={zoom >= MAX_ZOOM}>
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setZoom(1)}>
+              <Maximize2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {chart && (
+          <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+            <Button variant="ghost" size="sm" onClick={() => setCollapsed(new Set())}>
+              Expand all
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setCollapsed(new Set(managerIds(chart.roots)))}>
+              Collapse all
+            </Button>
+            {issueSummary.map((issue) => (
+              <span
+                key={issue}
+                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+              >
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {issueLabels[issue]}: {chart.issueCounts[issue]}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      <CardContent className="p-6 overflow-auto max-h-[600px]">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : chart && chart.roots.length > 0 ? (
+          <div className="w-max mx-auto" style={{ transform: `scale(${zoom})`, transformOrigin: "top center" }}>
+            <div className="flex items-start gap-8">
+              {chart.roots.map((root) => (
+                <OrgChartBranch
+                  key={root.id}
+                  node={root}
+                  collapsed={collapsed}
+                  onToggle={handleToggle}
+                  onDragNode={canReassign ? setDraggedNode : undefined}
+                  onDropNode={canReassign ? handleDrop : undefined}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="py-10 text-center text-slate-500 text-sm">No users in this organization</div>
+        )}
+      </CardContent>
+
+      {/* Reassignment Preview Dialog */}
+      <ReassignDialog request={reassignRequest} onClose={() => setReassignRequest(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Loader2 } from "lucide-react";
+import { format, isPast } from "date-fns";
+import { Organization, OrganizationType, User } from "@shared/schema";
+import { DistributorLinks } from "./distributor-links";
+
+interface OrganizationDetailsProps {
+  organization?: Organization;
+  onClose: () => void;
+}
+
+export function OrganizationDetails({ organization, onClose }: OrganizationDetailsProps) {
+  // Fetch organization members
+  const { data: members, isLoading } = useQuery<Omit<User, "password">[]>({
+    queryKey: [`/api/organizations/${organization?.id}/users`],
+    enabled: !!organization,
+  });
+
+  // Format a license expiry date, flagging licenses that have lapsed
+  const renderExpiry = (expiry: string | null) => {
+    if (!expiry) return "N/A";
+    const date = new Date(expiry);
+    return isPast(date) ? (
+      <span className="text-red-600 font-medium">{format(date, "dd MMM yyyy")} (expired)</span>
+    ) : (
+      format(date, "dd MMM yyyy")
+    );
+  };
+
+  const details = organization
+    ? [
+        { label: "Drug License (Form 20)", value: organization.drugLicenseForm20 || "N/A" },
+        { label: "Form 20 Expiry", value: renderExpiry(organization.drugLicenseForm20Expiry) },
+        { label: "Drug License (Form 21)", value: organization.drugLicenseForm21 || "N/A" },
+        { label: "Form 21 Expiry", value: renderExpiry(organization.drugLicenseForm21Expiry) },
+        { label: "GSTIN", value: organization.gstin || "N/A" },
+        { label: "PAN", value: organization.pan || "N/A" },
+        {
+          label: "Registered Address",
+          value: [organization.address, organization.city, organization.state, organization.pincode]
+            .filter(Boolean)
+            .join(", ") || "N/A",
+        },
+        {
+          label: "Contact",
+          value: [organization.contactName, organization.contactPhone, organization.contactEmail]
+            .filter(Boolean)
+            .join(" · ") || "N/A",
+        },
+      ]
+    : [];
+
+  // Get user initials for avatar
+  const getUserInitials = (name: string) => {
+    const nameParts = name.split(" ");
+    if (nameParts.length > 1) {
+      return `${nameParts[0][0]}${nameParts[1][0]}`;
+    } else if (nameParts.length === 1) {
+      return `${nameParts[0][0]}${nameParts[0][1] || ""}`;
+    }
+    return "U";
+  };
+
+  return (
+    <Dialog open={!!organization} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{organization?.name}</DialogTitle>
+          <DialogDescription>
+            {organization?.type.replace(/_/g, " ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm">
+          {details.map((detail) => (
+            <div key={detail.label}>
+              <dt className="text-xs text-slate-500">{detail.label}</dt>
+              <dd className="text-slate-800">{detail.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {organization && organization.type !== OrganizationType.SYSTEM && (
+          <DistributorLinks organization={organization} />
+        )}
+
+        <div>
+          <h3 className="text-sm font-medium text-slate-800 mb-2">
+            Members {members ? `(${members.length})` : ""}
+          </h3>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : members && members.length > 0 ? (
+            <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md max-h-80 overflow-y-auto">
+              {members.map((member) => (
+                <li key={member.id} className="px-4 py-3 flex items-center justify-between">
+                  <div className="flex items-center">
+                    <Avatar className="h-8 w-8">
+                      <AvatarFallback className="bg-primary-100 text-primary text-xs">
+                        {getUserInitials(member.fullName || member.username)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="ml-3">
+                      <div className="text-sm font-medium text-slate-800">{member.fullName}</div>
+                      <div className="text-xs text-slate-500">{member.email}</div>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm text-slate-700">{member.role.replace(/_/g, " ")}</div>
+                    <div className="text-xs text-slate-500">{member.status}</div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="py-10 text-center text-slate-500 text-sm">No members in this organization</div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
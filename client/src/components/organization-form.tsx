@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { insertOrganizationSchema, Organization, OrganizationTypeType } from "@shared/schema";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { IndiaLocationService } from "@/lib/india-location-service";
+
+interface OrganizationFormProps {
+  open: boolean;
+  onClose: () => void;
+  type: OrganizationTypeType;
+  organization?: Organization;
+}
+
+// Create a schema for the organization form
+const organizationFormSchema = insertOrganizationSchema.extend({
+  name: z.string().min(1, { message: "Name is required" }),
+});
+
+type OrganizationFormData = z.infer<typeof organizationFormSchema>;
+
+// Text inputs of the organization profile, grouped into form sections
+const licenseFields = [
+  { name: "drugLicenseForm20", label: "Drug License No. (Form 20)", placeholder: "e.g. MH-MZ1-123456" },
+  { name: "drugLicenseForm20Expiry", label: "Form 20 Expiry", type: "date" },
+  { name: "drugLicenseForm21", label: "Drug License No. (Form 21)", placeholder: "e.g. MH-MZ1-123457" },
+  { name: "drugLicenseForm21Expiry", label: "Form 21 Expiry", type: "date" },
+  { name: "gstin", label: "GSTIN", placeholder: "e.g. 27AAPFU0939F1ZV" },
+  { name: "pan", label: "PAN", placeholder: "e.g. AAPFU0939F" },
+] as const;
+
+const contactFields = [
+  { name: "contactName", label: "Contact Person", placeholder: "Enter contact name" },
+  { name: "contactPhone", label: "Contact Phone", placeholder: "Enter phone number" },
+  { name: "contactEmail", label: "Contact Email", placeholder: "Enter email address", type: "email" },
+] as const;
+
+// Build form values, replacing null database values with empty inputs
+function toFormValues(type: OrganizationTypeType, organization?: Organization): OrganizationFormData {
+  return {
+    name: organization?.name ?? "",
+    type,
+    drugLicenseForm20: organization?.drugLicenseForm20 ?? "",
+    drugLicenseForm20Expiry: organization?.drugLicenseForm20Expiry ?? "",
+    drugLicenseForm21: organization?.drugLicenseForm21 ?? "",
+    drugLicenseForm21Expiry: organization?.drugLicenseForm21Expiry ?? "",
+    gstin: organization?.gstin ?? "",
+    pan: organization?.pan ?? "",
+    address: organization?.address ?? "",
+    state: organization?.state ?? "",
+    city: organization?.city ?? "",
+    pincode: organization?.pincode ?? "",
+    contactName: organization?.contactName ?? "",
+    contactEmail: organization?.contactEmail ?? "",
+    contactPhone: organization?.contactPhone ?? "",
+  };
+}
+
+export function OrganizationForm({ open, onClose, type, organization }: OrganizationFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!organization;
+  const typeLabel = type === "DISTRIBUTOR" ? "Distributor" : "Company";
+
+  // India location state
+  const [states, setStates] = useState<{id: string, name: string}[]>([]);
+  const [cities, setCities] = useState<{id: string, name: string, state_id: string}[]>([]);
+
+  // Initialize form with default values or organization data
+  const form = useForm<OrganizationFormData>({
+    resolver: zodResolver(organizationFormSchema),
+    defaultValues: toFormValues(type, organization),
+  });
+  const selectedState = form.watch("state");
+
+  useEffect(() => {
+    form.reset(toFormValues(type, organization));
+  }, [organization, type, form]);
+
+  // Fetch Indian states when form opens
+  useEffect(() => {
+    if (open) {
+      IndiaLocationService.getAllStates().then(setStates).catch((error) => {
+        console.error("Error fetching states:", error);
+      });
+    }
+  }, [open]);
+
+  // Fetch cities when state changes
+  useEffect(() => {
+    if (selectedState) {
+      IndiaLocationService.getCitiesByState(selectedState).then(setCities).catch((error) => {
+        console.error("Error fetching cities:", error);
+      });
+    } else {
+      setCities([]);
+    }
+  }, [selectedState]);
+
+  // Create organization mutation
+  const createOrganizationMutation = useMutation({
+    mutationFn: async (data: OrganizationFormData) => {
+      const res = await apiRequest("POST", "/api/organizations", { ...data, type });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `${typeLabel} created successfully`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || `Failed to create ${typeLabel.toLowerCase()}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Update organization mutation
+  const updateOrganizationMutation = useMutation({
+    mutationFn: async (data: OrganizationFormData) => {
+      if (!organization) return null;
+      const res = await apiRequest("PUT", `/api/organizations/${organization.id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `${typeLabel} updated successfully`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || `Failed to update ${typeLabel.toLowerCase()}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: OrganizationFormData) => {
+    if (isEditing) {
+      updateOrganizationMutation.mutate(data);
+    } else {
+      createOrganizationMutation.mutate(data);
+    }
+  };
+
+  const isPending = createOrganizationMutation.isPending || updateOrganizationMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? `Edit ${typeLabel}` : `Add New ${typeLabel}`}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? `Update the ${typeLabel.toLowerCase()}'s information.`
+              : `Add a new ${typeLabel.toLowerCase()} to the system.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder={`Enter ${typeLabel.toLowerCase()} name`} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Licensing and tax details */}
+            <div className="border rounded-md p-4 bg-slate-50">
+              <h3 className="text-md font-medium mb-3">Licensing & Tax</h3>
+              <div className="grid grid-cols-2 gap-4">
+                {licenseFields.map((input) => (
+                  <FormField
+                    key={input.name}
+                    control={form.control}
+                    name={input.name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{input.label}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type={"type" in input ? input.type : "text"}
+                            placeholder={"placeholder" in input ? input.placeholder : undefined}
+                            {...field}
+                            value={(field.value as string | null | undefined) ?? ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {/* Registered address */}
+            <div className="border rounded-md p-4 bg-slate-50">
+              <h3 className="text-md font-medium mb-3">Registered Address</h3>
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter address" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-3 gap-4 mt-4">
+                <FormField
+                  control={form.control}
+                  name="state"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>State</FormLabel>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("city", "");
+                        }}
+                        value={field.value ?? ""}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select state" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {states.map((state) => (
+                            <SelectItem key={state.id} value={state.id}>
+                              {state.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="city"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>City</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value ?? ""}
+                        disabled={!selectedState}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={!selectedState ? "Select state first" : "Select city"} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {cities.map((city) => (
+                            <SelectItem key={city.id} value={city.id}>
+                              {city.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="pincode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pincode</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter pincode" maxLength={6} {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            {/* Contact details */}
+            <div className="border rounded-md p-4 bg-slate-50">
+              <h3 className="text-md font-medium mb-3">Contact Details</h3>
+              <div className="grid grid-cols-3 gap-4">
+                {contactFields.map((input) => (
+                  <FormField
+                    key={input.name}
+                    control={form.control}
+                    name={input.name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{input.label}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type={"type" in input ? input.type : "text"}
+                            placeholder={input.placeholder}
+                            {...field}
+                            value={(field.value as string | null | undefined) ?? ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" type="button" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {isEditing ? "Updating..." : "Saving..."}
+                  </>
+                ) : (
+                  isEditing ? `Update ${typeLabel}` : `Save ${typeLabel}`
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Organization, OrganizationTypeType } from "@shared/schema";
+import { can, Permission } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+import { Eye, Pencil, Trash2, RotateCcw, Search, Plus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { OrganizationForm } from "./organization-form";
+import { OrganizationDetails } from "./organization-details";
+
+interface OrganizationTableProps {
+  type: OrganizationTypeType;
+  title: string;
+}
+
+export function OrganizationTable({ type, title }: OrganizationTableProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+  const [selectedOrganization, setSelectedOrganization] = useState<Organization | undefined>(undefined);
+  const [viewOrganization, setViewOrganization] = useState<Organization | undefined>(undefined);
+  const [deleteOrganization, setDeleteOrganization] = useState<Organization | null>(null);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const canManage = can(user, Permission.ORGANIZATIONS_MANAGE);
+
+  // Fetch organizations, or the deleted ones when they are shown
+  const { data: organizations, isLoading } = useQuery<Organization[]>({
+    queryKey: [showDeleted ? "/api/organizations/deleted" : "/api/organizations"],
+  });
+
+  // Delete organization mutation
+  const deleteOrganizationMutation = useMutation({
+    mutationFn: async (organizationId: number) => {
+      await apiRequest("DELETE", `/api/organizations/${organizationId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Organization deleted",
+        description: "The organization has been successfully deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/deleted"] });
+      setDeleteOrganization(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete organization",
+        variant: "destructive",
+      });
+      setDeleteOrganization(null);
+    },
+  });
+
+  // Restore organization mutation
+  const restoreOrganizationMutation = useMutation({
+    mutationFn: async (organizationId: number) => {
+      await apiRequest("POST", `/api/organizations/${organizationId}/restore`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Organization restored",
+        description: "The organization has been successfully restored.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/deleted"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Filter organizations of this type by search query
+  const filteredOrganizations = (organizations ?? []).filter((org) => {
+    if (org.type !== type) {
+      return false;
+    }
+    return !searchQuery || org.name.toLowerCase().includes(searchQuery.toLowerCase());
+  });
+
+  const handleCreate = () => {
+    setSelectedOrganization(undefined);
+    setFormOpen(true);
+  };
+
+  const handleEdit = (org: Organization) => {
+    setSelectedOrganization(org);
+    setFormOpen(true);
+  };
+
+  const handleCloseForm = () => {
+    setFormOpen(false);
+    setSelectedOrganization(undefined);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="shadow-sm border border-slate-200 mb-6">
+      <div className="p-6 border-b border-slate-200">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-800">{showDeleted ? `Deleted ${title}` : title}</h2>
+          {canManage && (
+            <div className="flex items-center space-x-2">
+              <Button variant={showDeleted ? "secondary" : "outline"} onClick={() => setShowDeleted((prev) => !prev)}>
+                <Trash2 className="mr-1 h-4 w-4" />
+                {showDeleted ? "Back to List" : "Show Deleted"}
+              </Button>
+              {!showDeleted && (
+                <Button onClick={handleCreate}>
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add New
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6 relative max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-500" />
+          <Input
+            type="text"
+            placeholder="Search by name..."
+            className="w-full pl-10 pr-4 py-2 bg-slate-50 border border-slate-300 text-slate-700 rounded-md"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200">
+          <thead className="bg-slate-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Name</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-slate-200">
+            {filteredOrganizations.length > 0 ? (
+              filteredOrganizations.map((org) => (
+                <tr key={org.id} className="hover:bg-slate-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-slate-800">{org.name}</div>
+                    {org.deletedAt && (
+                      <div className="text-xs text-slate-500">
+                        Deleted {new Date(org.deletedAt).toLocaleDateString()}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                    {showDeleted ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8"
+                        onClick={() => restoreOrganizationMutation.mutate(org.id)}
+                        disabled={restoreOrganizationMutation.isPending}
+                      >
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                        Restore
+                      </Button>
+                    ) : (
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-slate-600 hover:text-slate-800 h-8 w-8"
+                          onClick={() => setViewOrganization(org)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        {canManage && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-primary-600 hover:text-primary-800 h-8 w-8"
+                              onClick={() => handleEdit(org)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-red-600 hover:text-red-800 h-8 w-8"
+                              onClick={() => setDeleteOrganization(org)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={2} className="px-6 py-8 text-center text-slate-500 text-sm">
+                  No organizations found.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Organization Form Modal */}
+      <OrganizationForm
+        open={formOpen}
+        onClose={handleCloseForm}
+        type={type}
+        organization={selectedOrganization}
+      />
+
+      {/* Organization Details Modal */}
+      <OrganizationDetails
+        organization={viewOrganization}
+        onClose={() => setViewOrganization(undefined)}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={deleteOrganization !== null} onOpenChange={() => setDeleteOrganization(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteOrganization?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The organization is hidden from lists and can be restored later. Organizations that still
+              have users cannot be deleted; move or remove their users first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => {
+                if (deleteOrganization !== null) {
+                  deleteOrganizationMutation.mutate(deleteOrganization.id);
+                }
+              }}
+              disabled={deleteOrganizationMutation.isPending}
+            >
+              {deleteOrganizationMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, UserPlus, X } from "lucide-react";
+import { UserDirectoryEntry, UserPage, UserStatus, UserStatusType } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { UserStatusDialog } from "./user-status-dialog";
+
+// Pending accounts the signed-in user can see: their would-be reports, or everyone in their scope.
+// Invited users activate themselves and are listed with the open invitations instead.
+const pendingQuery = `status=${UserStatus.PENDING}&invited=false&sort=fullName&pageSize=50`;
+
+// Queue of new accounts waiting to be approved or rejected
+export function PendingApprovals() {
+  const [decision, setDecision] = useState<{ user: UserDirectoryEntry; status: UserStatusType } | null>(null);
+
+  const { data: pending } = useQuery<UserPage>({
+    queryKey: ["/api/users", pendingQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/users?${pendingQuery}`);
+      return res.json();
+    },
+  });
+
+  if (!pending || pending.total === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-sm border border-yellow-200 mb-6">
+      <div className="px-6 py-4 border-b border-yellow-200 bg-yellow-50 flex items-center">
+        <UserPlus className="mr-2 h-5 w-5 text-yellow-700" />
+        <h2 className="text-base font-semibold text-slate-800">Pending Approvals</h2>
+        <span className="ml-2 text-sm text-slate-500">
+          {pending.total} account{pending.total === 1 ? "" : "s"} waiting
+        </span>
+      </div>
+      <ul className="divide-y divide-slate-200">
+        {pending.items.map((user) => (
+          <li key={user.id} className="px-6 py-3 flex items-center justify-between">
+            <div>
+              <div className="text-sm font-medium text-slate-800">{user.fullName}</div>
+              <div className="text-xs text-slate-500">
+                {user.email} · {user.role.replace(/_/g, " ")}
+                {user.organizationName && ` · ${user.organizationName}`}
+                {user.managerName && ` · reports to ${user.managerName}`}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button size="sm" onClick={() => setDecision({ user, status: UserStatus.ACTIVE })}>
+                <Check className="mr-1 h-4 w-4" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-600 hover:text-red-800"
+                onClick={() => setDecision({ user, status: UserStatus.INACTIVE })}
+              >
+                <X className="mr-1 h-4 w-4" />
+                Reject
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <UserStatusDialog
+        user={decision?.user ?? null}
+        status={decision?.status ?? null}
+        onClose={() => setDecision(null)}
+      />
+    </Card>
+  );
+}
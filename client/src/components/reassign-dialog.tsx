@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, ArrowRight, Loader2 } from "lucide-react";
+import { OrgChartNode, ReassignmentPreview } from "@shared/org-chart";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ReassignRequest {
+  node: OrgChartNode;
+  manager: OrgChartNode;
+}
+
+interface ReassignDialogProps {
+  request: ReassignRequest | null;
+  onClose: () => void;
+}
+
+export function ReassignDialog({ request, onClose }: ReassignDialogProps) {
+  const { toast } = useToast();
+  const [reportsOnly, setReportsOnly] = useState(false);
+
+  useEffect(() => {
+    setReportsOnly(false);
+  }, [request]);
+
+  // Move the dragged user, or only their direct reports when they are leaving
+  const userIds = request
+    ? reportsOnly ? request.node.children.map((child) => child.id) : [request.node.id]
+    : [];
+  const managerId = request?.manager.id;
+
+  // Preview the changes and any rule violations before applying them
+  const { data: preview, isLoading, error } = useQuery<ReassignmentPreview>({
+    queryKey: ["/api/users/reassign/preview", userIds, managerId],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/users/reassign/preview", { userIds, managerId });
+      return res.json();
+    },
+    enabled: !!request && userIds.length > 0,
+  });
+
+  // Apply reassignment mutation
+  const reassignMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/users/reassign", { userIds, managerId });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Reporting lines updated",
+        description: `${preview?.changes.length ?? 0} user(s) now report to ${request?.manager.fullName}.`,
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => /^\/api\/organizations\/\d+\/tree$/.test(String(query.queryKey[0])),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities?limit=4"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reassign users",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canApply = !!preview && preview.violations.length === 0 && preview.changes.length > 0;
+
+  return (
+    <Dialog open={!!request} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reassign Reporting Line</DialogTitle>
+          <DialogDescription>
+            Review who will report to {request?.manager.fullName} before applying the change.
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && request.node.children.length > 0 && (
+          <div className="flex items-center space-x-2">
+            <Switch id="reports-only" checked={reportsOnly} onCheckedChange={setReportsOnly} />
+            <Label htmlFor="reports-only">
+              Move only {request.node.fullName}'s {request.node.children.length} direct report(s)
+            </Label>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="py-6 text-center text-red-600 text-sm">{(error as Error).message}</div>
+        ) : preview ? (
+          <div className="space-y-4 text-sm">
+            {preview.violations.length > 0 && (
+              <ul className="rounded-md border border-red-200 bg-red-50 p-3 space-y-1">
+                {preview.violations.map((violation, index) => (
+                  <li key={index} className="flex items-start text-red-700">
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                    {violation.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div>
+              <h3 className="font-medium text-slate-800 mb-2">Changes ({preview.changes.length})</h3>
+              {preview.changes.length > 0 ? (
+                <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md">
+                  {preview.changes.map((change) => (
+                    <li key={change.id} className="px-3 py-2">
+                      <div className="font-medium text-slate-800">{change.fullName}</div>
+                      <div className="flex items-center text-xs text-slate-500">
+                        {change.fromManager?.fullName ?? "No manager"}
+                        <ArrowRight className="h-3 w-3 mx-1" />
+                        {preview.manager?.fullName}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-slate-500">Everyone selected already reports to this manager.</p>
+              )}
+            </div>
+
+            {preview.carried.length > 0 && (
+              <div>
+                <h3 className="font-medium text-slate-800 mb-1">Moving with them ({preview.carried.length})</h3>
+                <p className="text-slate-500">
+                  {preview.carried.map((user) => user.fullName).join(", ")}
+                </p>
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" type="button" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => reassignMutation.mutate()} disabled={!canApply || reassignMutation.isPending}>
+            {reassignMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Applying...
+              </>
+            ) : (
+              "Apply Changes"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
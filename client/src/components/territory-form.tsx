@@ -0,0 +1,207 @@
+import { useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { insertTerritorySchema, TerritoryLevelOrder, TerritoryWithUsage } from "@shared/schema";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatTerritoryLevel } from "@/lib/territory-tree";
+
+interface TerritoryFormProps {
+  open: boolean;
+  onClose: () => void;
+  organizationId: number;
+  territories: TerritoryWithUsage[];
+  // Territory being edited, or the parent of a new territory (none for a new zone)
+  territory?: TerritoryWithUsage;
+  parent?: TerritoryWithUsage;
+}
+
+// Coverage is edited as one list of pincodes and ranges separated by commas or new lines
+const splitPincodes = (value: string) => value.split(/[,\s]+/).filter(Boolean);
+
+const territoryFormSchema = insertTerritorySchema.extend({
+  pincodes: z.string().refine(
+    (value) => insertTerritorySchema.shape.pincodes.safeParse(splitPincodes(value)).success,
+    "Use 6-digit pincodes or ascending ranges like 400001-400010, separated by commas"
+  ),
+});
+
+type TerritoryFormData = z.infer<typeof territoryFormSchema>;
+
+export function TerritoryForm({ open, onClose, organizationId, territories, territory, parent }: TerritoryFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!territory;
+
+  // A new territory sits one level below its parent; without a parent it is a zone
+  const level = territory?.level
+    ?? (parent ? TerritoryLevelOrder[TerritoryLevelOrder.indexOf(parent.level) + 1] : TerritoryLevelOrder[0]);
+  const levelLabel = formatTerritoryLevel(level);
+  const parentLevel = TerritoryLevelOrder[TerritoryLevelOrder.indexOf(level) - 1];
+  const parentOptions = territories.filter((option) => option.level === parentLevel);
+
+  const getDefaultValues = (): TerritoryFormData => ({
+    organizationId,
+    level,
+    parentId: territory?.parentId ?? parent?.id ?? null,
+    name: territory?.name ?? "",
+    code: territory?.code ?? "",
+    pincodes: territory?.pincodes.join(", ") ?? "",
+  });
+
+  const form = useForm<TerritoryFormData>({
+    resolver: zodResolver(territoryFormSchema),
+    defaultValues: getDefaultValues(),
+  });
+
+  useEffect(() => {
+    form.reset(getDefaultValues());
+  }, [territory, parent, organizationId, open]);
+
+  // Save territory mutation
+  const saveTerritoryMutation = useMutation({
+    mutationFn: async (formData: TerritoryFormData) => {
+      const data = { ...formData, pincodes: splitPincodes(formData.pincodes) };
+      if (territory) {
+        const { name, code, parentId, pincodes } = data;
+        const res = await apiRequest("PUT", `/api/territories/${territory.id}`, { name, code, parentId, pincodes });
+        return res.json();
+      }
+      const res = await apiRequest("POST", "/api/territories", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `${levelLabel} ${isEditing ? "updated" : "created"} successfully`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/territories?organizationId=${organizationId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/territories/overlaps?organizationId=${organizationId}`] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || `Failed to save ${levelLabel.toLowerCase()}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? `Edit ${levelLabel}` : `Add ${levelLabel}`}</DialogTitle>
+          <DialogDescription>
+            {parent && !isEditing
+              ? `Add a ${levelLabel.toLowerCase()} under ${parent.name}.`
+              : isEditing
+                ? `Rename the ${levelLabel.toLowerCase()} or move it to another ${parentLevel ? formatTerritoryLevel(parentLevel).toLowerCase() : "zone"}.`
+                : "Add a new top-level zone."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveTerritoryMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder={`Enter ${levelLabel.toLowerCase()} name`} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Optional short code, e.g. WZ-01" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="pincodes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pincode Coverage</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="e.g. 400051, 400601-400615" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isEditing && parentLevel && (
+              <FormField
+                control={form.control}
+                name="parentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parent {formatTerritoryLevel(parentLevel)}</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      value={field.value ? field.value.toString() : undefined}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder={`Select ${formatTerritoryLevel(parentLevel).toLowerCase()}`} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {parentOptions.map((option) => (
+                          <SelectItem key={option.id} value={option.id.toString()}>
+                            {option.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" type="button" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveTerritoryMutation.isPending}>
+                {saveTerritoryMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  `Save ${levelLabel}`
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
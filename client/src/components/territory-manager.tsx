@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { CoverageOverlap, Organization, OrganizationType, TerritoryLevelOrder, TerritoryWithUsage } from "@shared/schema";
+import { can, Permission } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+import { Pencil, Trash2, Plus, Loader2, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { flattenTerritories, formatTerritoryLevel } from "@/lib/territory-tree";
+import { TerritoryForm } from "./territory-form";
+
+export function TerritoryManager() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [organizationId, setOrganizationId] = useState<number | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [selectedTerritory, setSelectedTerritory] = useState<TerritoryWithUsage | undefined>(undefined);
+  const [parentTerritory, setParentTerritory] = useState<TerritoryWithUsage | undefined>(undefined);
+  const [deleteTerritory, setDeleteTerritory] = useState<TerritoryWithUsage | null>(null);
+  const canManage = can(user, Permission.ORGANIZATIONS_MANAGE);
+
+  // Fetch pharma companies, which own territories
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+  const companies = (organizations ?? []).filter((org) => org.type === OrganizationType.PHARMA_COMPANY);
+
+  // Default to the user's own company, or the first one visible
+  useEffect(() => {
+    if (organizationId === null && companies.length > 0) {
+      setOrganizationId(companies.find((org) => org.id === user?.organizationId)?.id ?? companies[0].id);
+    }
+  }, [companies, organizationId, user]);
+
+  // Fetch the territories of the selected company
+  const territoriesKey = `/api/territories?organizationId=${organizationId}`;
+  const { data: territories, isLoading } = useQuery<TerritoryWithUsage[]>({
+    queryKey: [territoriesKey],
+    enabled: organizationId !== null,
+  });
+
+  // Fetch pincodes claimed by more than one branch of the hierarchy
+  const overlapsKey = `/api/territories/overlaps?organizationId=${organizationId}`;
+  const { data: overlaps } = useQuery<CoverageOverlap[]>({
+    queryKey: [overlapsKey],
+    enabled: organizationId !== null,
+  });
+
+  // Delete territory mutation
+  const deleteTerritoryMutation = useMutation({
+    mutationFn: async (territoryId: number) => {
+      await apiRequest("DELETE", `/api/territories/${territoryId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Territory deleted",
+        description: "The territory has been successfully deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: [territoriesKey] });
+      queryClient.invalidateQueries({ queryKey: [overlapsKey] });
+      setDeleteTerritory(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete territory",
+        variant: "destructive",
+      });
+      setDeleteTerritory(null);
+    },
+  });
+
+  const handleCreate = (parent?: TerritoryWithUsage) => {
+    setSelectedTerritory(undefined);
+    setParentTerritory(parent);
+    setFormOpen(true);
+  };
+
+  const handleEdit = (territory: TerritoryWithUsage) => {
+    setSelectedTerritory(territory);
+    setParentTerritory(undefined);
+    setFormOpen(true);
+  };
+
+  const handleCloseForm = () => {
+    setFormOpen(false);
+    setSelectedTerritory(undefined);
+    setParentTerritory(undefined);
+  };
+
+  const lastLevel = TerritoryLevelOrder[TerritoryLevelOrder.length - 1];
+
+  return (
+    <Card className="shadow-sm border border-slate-200 mb-6">
+      <div className="p-6 border-b border-slate-200">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-800">Territories</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              Zone → Region → Area → Headquarter → Patch
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Select
+              value={organizationId !== null ? organizationId.toString() : undefined}
+              onValueChange={(value) => setOrganizationId(parseInt(value))}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select company" />
+              </SelectTrigger>
+              <SelectContent>
+                {companies.map((org) => (
+                  <SelectItem key={org.id} value={org.id.toString()}>
+                    {org.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canManage && organizationId !== null && (
+              <Button onClick={() => handleCreate()}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add Zone
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {overlaps && overlaps.length > 0 && (
+        <div className="px-6 py-4 border-b border-amber-200 bg-amber-50">
+          <div className="flex items-center text-sm font-medium text-amber-800">
+            <AlertTriangle className="mr-2 h-4 w-4" />
+            {overlaps.length} overlapping pincode {overlaps.length === 1 ? "range" : "ranges"}
+          </div>
+          <ul className="mt-2 space-y-1 text-xs text-amber-700">
+            {overlaps.map((overlap) => (
+              <li key={`${overlap.territories[0].id}-${overlap.territories[1].id}-${overlap.from}`}>
+                {overlap.from === overlap.to ? overlap.from : `${overlap.from}–${overlap.to}`} is covered by both{" "}
+                {overlap.territories[0].name} ({formatTerritoryLevel(overlap.territories[0].level)}) and{" "}
+                {overlap.territories[1].name} ({formatTerritoryLevel(overlap.territories[1].level)})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : territories && territories.length > 0 ? (
+        <ul className="divide-y divide-slate-200">
+          {flattenTerritories(territories).map(({ territory, depth }) => (
+            <li key={territory.id} className="px-6 py-3 flex items-center justify-between hover:bg-slate-50">
+              <div style={{ paddingLeft: `${depth * 24}px` }}>
+                <div className="text-sm font-medium text-slate-800">
+                  {territory.name}
+                  {territory.code && <span className="ml-2 text-xs text-slate-400">{territory.code}</span>}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {formatTerritoryLevel(territory.level)} · {territory.userCount} {territory.userCount === 1 ? "user" : "users"}
+                  {territory.pincodes.length > 0 && ` · ${territory.pincodes.join(", ")}`}
+                </div>
+              </div>
+              {canManage && (
+                <div className="flex items-center space-x-2">
+                  {territory.level !== lastLevel && (
+                    <Button variant="ghost" size="sm" onClick={() => handleCreate(territory)}>
+                      <Plus className="mr-1 h-4 w-4" />
+                      {formatTerritoryLevel(TerritoryLevelOrder[TerritoryLevelOrder.indexOf(territory.level) + 1])}
+                    </Button>
+                  )}
+                  <button
+                    className="text-slate-500 hover:text-primary p-1"
+                    onClick={() => handleEdit(territory)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    className="text-slate-500 hover:text-red-500 p-1"
+                    onClick={() => setDeleteTerritory(territory)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="py-20 text-center text-slate-500">
+          {organizationId === null ? "No pharma companies found" : "No territories defined yet"}
+        </div>
+      )}
+
+      {/* Territory Form Dialog */}
+      {organizationId !== null && (
+        <TerritoryForm
+          open={formOpen}
+          onClose={handleCloseForm}
+          organizationId={organizationId}
+          territories={territories ?? []}
+          territory={selectedTerritory}
+          parent={parentTerritory}
+        />
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deleteTerritory} onOpenChange={(open) => !open && setDeleteTerritory(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTerritory?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTerritory && (deleteTerritory.childCount > 0 || deleteTerritory.userCount > 0)
+                ? `This territory still has ${deleteTerritory.childCount} sub-territories and ${deleteTerritory.userCount} assigned users. Move them before deleting it.`
+                : "This action cannot be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              disabled={!!deleteTerritory && (deleteTerritory.childCount > 0 || deleteTerritory.userCount > 0)}
+              onClick={() => deleteTerritory && deleteTerritoryMutation.mutate(deleteTerritory.id)}
+            >
+              {deleteTerritoryMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                "Delete"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
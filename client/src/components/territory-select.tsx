@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TerritoryWithUsage } from "@shared/schema";
+import { flattenTerritories, formatTerritoryLevel } from "@/lib/territory-tree";
+
+interface TerritorySelectProps {
+  organizationId: number | null | undefined;
+  value: number | null | undefined;
+  onChange: (territoryId: number | null) => void;
+}
+
+const NO_TERRITORY = "none";
+
+export function TerritorySelect({ organizationId, value, onChange }: TerritorySelectProps) {
+  // Fetch the territory hierarchy of the organization
+  const { data: territories, isLoading } = useQuery<TerritoryWithUsage[]>({
+    queryKey: [`/api/territories?organizationId=${organizationId}`],
+    enabled: !!organizationId,
+  });
+
+  return (
+    <Select
+      onValueChange={(selected) => onChange(selected === NO_TERRITORY ? null : parseInt(selected))}
+      value={value ? value.toString() : NO_TERRITORY}
+      disabled={!organizationId}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder={!organizationId ? "Select organization first" : "Select territory"} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_TERRITORY}>No territory</SelectItem>
+        {isLoading ? (
+          <SelectItem value="loading" disabled>
+            Loading territories...
+          </SelectItem>
+        ) : (
+          flattenTerritories(territories ?? []).map(({ territory, depth }) => (
+            <SelectItem key={territory.id} value={territory.id.toString()}>
+              <span style={{ paddingLeft: `${depth * 12}px` }}>
+                {territory.name}
+                <span className="ml-2 text-xs text-slate-400">{formatTerritoryLevel(territory.level)}</span>
+              </span>
+            </SelectItem>
+          ))
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { Organization, OrganizationType, PINCODE_PATTERN, PincodeCoverage, UserDirectoryEntry, UserRole } from "@shared/schema";
+import { UserStatusLabels } from "@shared/user-lifecycle";
+import { formatTerritoryLevel } from "@/lib/territory-tree";
+
+interface UserDetailsProps {
+  user?: UserDirectoryEntry;
+  onClose: () => void;
+}
+
+// Field roles answering "who covers this pincode"
+const fieldRoles: string[] = [UserRole.MEDICAL_REPRESENTATIVE, UserRole.AREA_SALES_MANAGER];
+
+export function UserDetails({ user, onClose }: UserDetailsProps) {
+  const [pincode, setPincode] = useState("");
+  const [companyId, setCompanyId] = useState<number | null>(null);
+
+  // Fetch pharma companies, whose territories define coverage
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    enabled: !!user,
+  });
+  const companies = (organizations ?? []).filter((org) => org.type === OrganizationType.PHARMA_COMPANY);
+
+  // Start from the user's own pincode and company
+  useEffect(() => {
+    setPincode(user?.pincode ?? "");
+    setCompanyId(null);
+  }, [user]);
+
+  useEffect(() => {
+    if (user && companyId === null && companies.length > 0) {
+      setCompanyId(companies.find((org) => org.id === user.organizationId)?.id ?? companies[0].id);
+    }
+  }, [user, companies, companyId]);
+
+  // Look up who covers the pincode for the selected company
+  const canLookUp = companyId !== null && PINCODE_PATTERN.test(pincode);
+  const { data: coverage, isLoading } = useQuery<PincodeCoverage>({
+    queryKey: [`/api/territories/coverage?organizationId=${companyId}&pincode=${pincode}`],
+    enabled: !!user && canLookUp,
+  });
+
+  const details = user
+    ? [
+        { label: "Username", value: user.username },
+        { label: "Email", value: user.email },
+        { label: "Organization", value: user.organizationName || "N/A" },
+        { label: "Reports To", value: user.managerName || "N/A" },
+        { label: "Territory", value: user.territoryName || user.region || "N/A" },
+        { label: "Status", value: UserStatusLabels[user.status] },
+        ...(user.statusReason
+          ? [{
+              label: "Status Reason",
+              value: user.statusChangedAt
+                ? `${user.statusReason} (${new Date(user.statusChangedAt).toLocaleDateString()})`
+                : user.statusReason,
+            }]
+          : []),
+        {
+          label: "Address",
+          value: [user.address, user.city, user.state, user.pincode].filter(Boolean).join(", ") || "N/A",
+        },
+      ]
+    : [];
+
+  return (
+    <Dialog open={!!user} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{user?.fullName}</DialogTitle>
+          <DialogDescription>
+            {user?.role.replace(/_/g, " ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm">
+          {details.map((detail) => (
+            <div key={detail.label}>
+              <dt className="text-xs text-slate-500">{detail.label}</dt>
+              <dd className="text-slate-800">{detail.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <div>
+          <h3 className="text-sm font-medium text-slate-800 mb-2">Pincode Coverage</h3>
+          <div className="flex items-center space-x-2 mb-3">
+            <Input
+              className="w-32"
+              placeholder="Pincode"
+              maxLength={6}
+              value={pincode}
+              onChange={(e) => setPincode(e.target.value.replace(/\D/g, ""))}
+            />
+            <Select
+              value={companyId !== null ? companyId.toString() : undefined}
+              onValueChange={(value) => setCompanyId(parseInt(value))}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select company" />
+              </SelectTrigger>
+              <SelectContent>
+                {companies.map((org) => (
+                  <SelectItem key={org.id} value={org.id.toString()}>
+                    {org.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!canLookUp ? (
+            <div className="py-6 text-center text-slate-500 text-sm">
+              Enter a 6-digit pincode and a company to see who covers it
+            </div>
+          ) : isLoading ? (
+            <div className="flex justify-center items-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : coverage && coverage.territories.length > 0 ? (
+            <>
+              <p className="text-xs text-slate-500 mb-2">
+                {coverage.territories
+                  .map((territory) => `${territory.name} (${formatTerritoryLevel(territory.level)})`)
+                  .join(" › ")}
+              </p>
+              {coverage.users.length > 0 ? (
+                <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md">
+                  {coverage.users.map((member) => (
+                    <li key={member.id} className="px-4 py-2 flex items-center justify-between">
+                      <div>
+                        <div className={fieldRoles.includes(member.role) ? "text-sm font-medium text-slate-800" : "text-sm text-slate-700"}>
+                          {member.fullName}
+                        </div>
+                        <div className="text-xs text-slate-500">{member.territoryName}</div>
+                      </div>
+                      <div className="text-sm text-slate-700">{member.role.replace(/_/g, " ")}</div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="py-6 text-center text-slate-500 text-sm">No active users are assigned to these territories</div>
+              )}
+            </>
+          ) : (
+            <div className="py-6 text-center text-slate-500 text-sm">No territory of this company covers {pincode}</div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
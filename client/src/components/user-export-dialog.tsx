@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import {
+  DefaultUserExportColumns, UserExportColumn, UserExportColumnLabels, UserExportFormat,
+  UserExportColumnType, UserExportFormatType
+} from "@shared/user-export";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+
+interface UserExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Query string of the filters applied to the user list
+  filterQuery: string;
+  matchCount: number;
+}
+
+export function UserExportDialog({ open, onClose, filterQuery, matchCount }: UserExportDialogProps) {
+  const [exportFormat, setExportFormat] = useState<UserExportFormatType>(UserExportFormat.XLSX);
+  const [columns, setColumns] = useState<UserExportColumnType[]>(DefaultUserExportColumns);
+
+  // Keep the chosen columns in the order they are listed
+  const toggleColumn = (column: UserExportColumnType, checked: boolean) => {
+    setColumns((prev) =>
+      Object.values(UserExportColumn).filter((candidate) =>
+        candidate === column ? checked : prev.includes(candidate)
+      )
+    );
+  };
+
+  // The server answers with an attachment, so the page stays where it is
+  const handleExport = () => {
+    const params = new URLSearchParams(filterQuery);
+    params.set("format", exportFormat);
+    params.set("columns", columns.join(","));
+    window.location.assign(`/api/users/export?${params}`);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Users</DialogTitle>
+          <DialogDescription>
+            Download the {matchCount} users matching the current filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Label className="w-20">Format</Label>
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as UserExportFormatType)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UserExportFormat.XLSX}>Excel (.xlsx)</SelectItem>
+                <SelectItem value={UserExportFormat.CSV}>CSV</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Columns</Label>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {Object.values(UserExportColumn).map((column) => (
+                <label key={column} className="flex items-center space-x-2 text-sm text-slate-700">
+                  <Checkbox
+                    checked={columns.includes(column)}
+                    onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                  />
+                  <span>{UserExportColumnLabels[column]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={columns.length === 0} onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
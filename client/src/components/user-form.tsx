@@ -9,17 +9,22 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { insertUserSchema, User, UserRole, UserStatus } from "@shared/schema";
+import { insertUserSchema, OrganizationType, PINCODE_PATTERN, User, UserRole, UserRoleType, UserStatus } from "@shared/schema";
+import { UserStatusLabels } from "@shared/user-lifecycle";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { IndiaLocationService } from "@/lib/india-location-service";
+import { ManagerPicker } from "./manager-picker";
+import { TerritorySelect } from "./territory-select";
 
 interface UserFormProps {
   open: boolean;
   onClose: () => void;
   user?: User;
+  // Invite the new user by email instead of setting their password
+  invite?: boolean;
 }
 
 // Create a schema for the user form
@@ -41,9 +46,10 @@ const userFormSchema = insertUserSchema.extend({
 
 type UserFormData = z.infer<typeof userFormSchema>;
 
-export function UserForm({ open, onClose, user }: UserFormProps) {
+export function UserForm({ open, onClose, user, invite }: UserFormProps) {
   const { toast } = useToast();
   const isEditing = !!user;
+  const isInviting = !isEditing && !!invite;
   const [organizations, setOrganizations] = useState<any[]>([]);
   const [region, setRegion] = useState<string>("");
   
@@ -54,7 +60,8 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
   const [selectedCity, setSelectedCity] = useState<string>(user?.city || "");
   const [loading, setLoading] = useState({
     states: false,
-    cities: false
+    cities: false,
+    pincode: false
   });
 
   // Get organizations
@@ -88,6 +95,7 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
           status: UserStatus.ACTIVE,
           organizationId: null,
           region: "",
+          territoryId: null,
           managerId: null,
         },
   });
@@ -113,7 +121,10 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
         status: UserStatus.ACTIVE,
         organizationId: null,
         region: "",
+        territoryId: null,
         managerId: null,
+        address: "",
+        pincode: "",
       });
       setRegion("");
       setSelectedState("");
@@ -171,6 +182,30 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
     }
   }, [selectedState, toast]);
 
+  // Fill in the state and city from a complete pincode
+  const handlePincodeChange = async (value: string, onChange: (value: string) => void) => {
+    const pincode = value.replace(/\D/g, "");
+    onChange(pincode);
+    if (!PINCODE_PATTERN.test(pincode)) {
+      return;
+    }
+
+    setLoading(prev => ({ ...prev, pincode: true }));
+    try {
+      const location = await IndiaLocationService.lookupPincode(pincode);
+      if (!location) {
+        form.setError("pincode", { message: "Unknown pincode" });
+        return;
+      }
+      setSelectedState(location.state);
+      setSelectedCity(location.city);
+    } catch (error) {
+      console.error("Error looking up pincode:", error);
+    } finally {
+      setLoading(prev => ({ ...prev, pincode: false }));
+    }
+  };
+
   // Create user mutation
   const createUserMutation = useMutation({
     mutationFn: async (data: UserFormData) => {
@@ -210,21 +245,60 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
     },
   });
 
+  // Invite user mutation; the server creates the user as pending and emails them a setup link
+  const inviteUserMutation = useMutation({
+    mutationFn: async (data: UserFormData) => {
+      const { confirmPassword, password, status, ...userData } = data;
+      
+      const finalUserData: any = { ...userData };
+      
+      // Add location data
+      if (region) {
+        finalUserData.region = region;
+      }
+      if (selectedState) {
+        finalUserData.state = selectedState;
+      }
+      if (selectedCity) {
+        finalUserData.city = selectedCity;
+      }
+      
+      const res = await apiRequest("POST", "/api/users/invite", finalUserData);
+      return (await res.json()) as Omit<User, "password"> & { delivered: boolean };
+    },
+    onSuccess: (invited) => {
+      toast(invited.delivered
+        ? {
+            title: "Invitation sent",
+            description: `${invited.fullName} will receive a link at ${invited.email} to set up their account.`,
+          }
+        : {
+            title: "Invitation not sent",
+            description: `${invited.fullName} was added, but the email could not be sent. Resend it from the open invitations.`,
+            variant: "destructive",
+          });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to invite user",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Update user mutation
   const updateUserMutation = useMutation({
     mutationFn: async (data: UserFormData) => {
       if (!user) return null;
       
-      const { confirmPassword, ...userData } = data;
+      const { confirmPassword, password, ...userData } = data;
       
       // Create the final data object with proper types
       const finalUserData: any = { ...userData };
       
-      // Only include password if provided (handle with type safety)
-      if (data.password) {
-        finalUserData.password = data.password;
-      }
-      
       // Add location data
       if (region) {
         finalUserData.region = region;
@@ -259,22 +333,30 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
   const onSubmit = (data: UserFormData) => {
     if (isEditing) {
       updateUserMutation.mutate(data);
+    } else if (isInviting) {
+      inviteUserMutation.mutate(data);
     } else {
       createUserMutation.mutate(data);
     }
   };
 
-  const isPending = createUserMutation.isPending || updateUserMutation.isPending;
+  const isPending = createUserMutation.isPending || updateUserMutation.isPending || inviteUserMutation.isPending;
+
+  // Pharma company users are placed on a territory; others keep a free-text region
+  const selectedOrganizationId = form.watch("organizationId");
+  const isPharmaCompany = organizations.find((org) => org.id === selectedOrganizationId)?.type === OrganizationType.PHARMA_COMPANY;
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-lg">
         <DialogHeader>
-          <DialogTitle>{isEditing ? "Edit User" : "Add New User"}</DialogTitle>
+          <DialogTitle>{isEditing ? "Edit User" : isInviting ? "Invite User" : "Add New User"}</DialogTitle>
           <DialogDescription>
             {isEditing
               ? "Update the user's information."
-              : "Add a new user to the system."}
+              : isInviting
+                ? "The user receives an email with a one-time link to choose their password."
+                : "Add a new user to the system."}
           </DialogDescription>
         </DialogHeader>
 
@@ -332,7 +414,10 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
                   <FormItem>
                     <FormLabel>User Role</FormLabel>
                     <Select
-                      onValueChange={field.onChange}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue("managerId", null);
+                      }}
                       defaultValue={field.value}
                       value={field.value}
                     >
@@ -357,7 +442,7 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
               />
             </div>
 
-            {!isEditing && (
+            {!isEditing && !isInviting && (
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -389,35 +474,13 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
               </div>
             )}
 
+            {/* Passwords change from the user's own account, or through a forced reset */}
             {isEditing && (
-              <div className="grid grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>New Password (Optional)</FormLabel>
-                      <FormControl>
-                        <Input type="password" placeholder="Enter new password" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="confirmPassword"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Confirm New Password</FormLabel>
-                      <FormControl>
-                        <Input type="password" placeholder="Confirm new password" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Password</p>
+                <p className="text-sm text-slate-600">
+                  Use "Force password reset" in the user list to make the user choose a new password.
+                </p>
               </div>
             )}
 
@@ -429,7 +492,11 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
                   <FormItem>
                     <FormLabel>Organization</FormLabel>
                     <Select
-                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      onValueChange={(value) => {
+                        field.onChange(parseInt(value));
+                        form.setValue("managerId", null);
+                        form.setValue("territoryId", null);
+                      }}
                       defaultValue={field.value?.toString()}
                       value={field.value?.toString()}
                     >
@@ -451,19 +518,52 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
                 )}
               />
 
-              <FormItem>
-                <FormLabel>Region/Territory</FormLabel>
-                <Input
-                  placeholder="Enter region or territory"
-                  value={region}
-                  onChange={(e) => setRegion(e.target.value)}
+              {isPharmaCompany ? (
+                <FormField
+                  control={form.control}
+                  name="territoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Territory</FormLabel>
+                      <TerritorySelect
+                        organizationId={selectedOrganizationId}
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-                <p className="text-xs text-gray-500 mt-1">
-                  Only applicable for RSM, ASM, and MR roles
-                </p>
-              </FormItem>
+              ) : (
+                <FormItem>
+                  <FormLabel>Region</FormLabel>
+                  <Input
+                    placeholder="Enter region"
+                    value={region}
+                    onChange={(e) => setRegion(e.target.value)}
+                  />
+                </FormItem>
+              )}
             </div>
             
+            <FormField
+              control={form.control}
+              name="managerId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reports To</FormLabel>
+                  <ManagerPicker
+                    role={form.watch("role") as UserRoleType}
+                    organizationId={form.watch("organizationId")}
+                    value={field.value}
+                    onChange={field.onChange}
+                    excludeUserId={user?.id}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             {/* India location fields */}
             <div className="border rounded-md p-4 bg-slate-50">
               <h3 className="text-md font-medium mb-3">India Location Details</h3>
@@ -528,63 +628,97 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
               
               {/* Address and Pincode */}
               <div className="grid grid-cols-2 gap-4 mt-4">
-                <div>
-                  <FormLabel>Address</FormLabel>
-                  <Input 
-                    placeholder="Enter address" 
-                    value={user?.address || ""} 
-                    onChange={(e) => form.setValue("address" as any, e.target.value)}
-                  />
-                </div>
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Address</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter address" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 
-                <div>
-                  <FormLabel>Pincode</FormLabel>
-                  <Input 
-                    placeholder="Enter pincode" 
-                    value={user?.pincode || ""} 
-                    onChange={(e) => form.setValue("pincode" as any, e.target.value)}
-                  />
-                </div>
+                <FormField
+                  control={form.control}
+                  name="pincode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pincode</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Enter pincode"
+                          maxLength={6}
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => handlePincodeChange(e.target.value, field.onChange)}
+                        />
+                      </FormControl>
+                      {loading.pincode && <p className="text-xs text-slate-500">Looking up pincode...</p>}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
             </div>
 
-            <FormField
-              control={form.control}
-              name="status"
-              render={({ field }) => (
-                <FormItem className="space-y-2">
-                  <FormLabel>Status</FormLabel>
-                  <FormControl>
-                    <RadioGroup
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                      className="flex space-x-4"
-                      value={field.value}
-                    >
-                      <FormItem className="flex items-center space-x-2 space-y-0">
-                        <FormControl>
-                          <RadioGroupItem value={UserStatus.ACTIVE} />
-                        </FormControl>
-                        <FormLabel className="font-normal">Active</FormLabel>
-                      </FormItem>
-                      <FormItem className="flex items-center space-x-2 space-y-0">
-                        <FormControl>
-                          <RadioGroupItem value={UserStatus.INACTIVE} />
-                        </FormControl>
-                        <FormLabel className="font-normal">Inactive</FormLabel>
-                      </FormItem>
-                      <FormItem className="flex items-center space-x-2 space-y-0">
-                        <FormControl>
-                          <RadioGroupItem value={UserStatus.PENDING} />
-                        </FormControl>
-                        <FormLabel className="font-normal">Pending</FormLabel>
-                      </FormItem>
-                    </RadioGroup>
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {/* Once created, the status only changes through the lifecycle actions of the user list */}
+            {isEditing ? (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Status</p>
+                <p className="text-sm text-slate-600">
+                  {UserStatusLabels[user!.status]}. Use the status actions in the user list to change it.
+                </p>
+              </div>
+            ) : isInviting ? (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Status</p>
+                <p className="text-sm text-slate-600">
+                  {UserStatusLabels[UserStatus.PENDING]} until the user accepts the invitation.
+                </p>
+              </div>
+            ) : (
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem className="space-y-2">
+                    <FormLabel>Status</FormLabel>
+                    <FormControl>
+                      <RadioGroup
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                        className="flex space-x-4"
+                        value={field.value}
+                      >
+                        <FormItem className="flex items-center space-x-2 space-y-0">
+                          <FormControl>
+                            <RadioGroupItem value={UserStatus.ACTIVE} />
+                          </FormControl>
+                          <FormLabel className="font-normal">Active</FormLabel>
+                        </FormItem>
+                        <FormItem className="flex items-center space-x-2 space-y-0">
+                          <FormControl>
+                            <RadioGroupItem value={UserStatus.INACTIVE} />
+                          </FormControl>
+                          <FormLabel className="font-normal">Inactive</FormLabel>
+                        </FormItem>
+                        <FormItem className="flex items-center space-x-2 space-y-0">
+                          <FormControl>
+                            <RadioGroupItem value={UserStatus.PENDING} />
+                          </FormControl>
+                          <FormLabel className="font-normal">Pending</FormLabel>
+                        </FormItem>
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
 
             <DialogFooter>
               <Button variant="outline" type="button" onClick={onClose}>
@@ -594,10 +728,10 @@ export function UserForm({ open, onClose, user }: UserFormProps) {
                 {isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" /> 
-                    {isEditing ? "Updating..." : "Saving..."}
+                    {isEditing ? "Updating..." : isInviting ? "Sending..." : "Saving..."}
                   </>
                 ) : (
-                  isEditing ? "Update User" : "Save User"
+                  isEditing ? "Update User" : isInviting ? "Send Invitation" : "Save User"
                 )}
               </Button>
             </DialogFooter>
@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, Loader2 } from "lucide-react";
+import { apiUpload, queryClient } from "@/lib/queryClient";
+import {
+  RequiredImportFields, UserImportField, UserImportFieldLabels,
+  UserImportFieldType, UserImportMapping, UserImportReport
+} from "@shared/user-import";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+interface UserImportWizardProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const IGNORE = "ignore";
+
+export function UserImportWizard({ open, onClose }: UserImportWizardProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<UserImportMapping | undefined>(undefined);
+  const [report, setReport] = useState<UserImportReport | null>(null);
+
+  // Start over whenever the wizard is reopened
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setMapping(undefined);
+      setReport(null);
+    }
+  }, [open]);
+
+  // Validate the file, or import its valid rows once the dry run looks right
+  const importMutation = useMutation({
+    mutationFn: async ({ dryRun, columnMapping }: { dryRun: boolean; columnMapping?: UserImportMapping }) => {
+      const params = new URLSearchParams({ dryRun: String(dryRun) });
+      if (columnMapping) {
+        params.set("mapping", JSON.stringify(columnMapping));
+      }
+      const res = await apiUpload(`/api/users/import?${params}`, file!);
+      return (await res.json()) as UserImportReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (!result.dryRun) {
+        toast({
+          title: "Users imported",
+          description: `${result.createdCount} users have been created.`,
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import users",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setMapping(undefined);
+    setReport(null);
+  };
+
+  // Remap a column and validate again with the new mapping
+  const handleMappingChange = (header: string, value: string) => {
+    const columnMapping: UserImportMapping = Object.fromEntries(
+      report!.columns.map((column) => [column.header, column.field])
+    );
+    columnMapping[header] = value === IGNORE ? null : (value as UserImportFieldType);
+    setMapping(columnMapping);
+    importMutation.mutate({ dryRun: true, columnMapping });
+  };
+
+  const imported = report !== null && !report.dryRun;
+  const invalidRows = report?.rows.filter((row) => row.errors.length > 0) ?? [];
+  const canImport = report !== null && report.dryRun && report.fileErrors.length === 0 && report.validCount > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Users</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file with one user per row. Managers are matched by username or email and
+            organizations by name. Nothing is saved until you confirm the import.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!imported && (
+          <div className="flex items-center space-x-2">
+            <Input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+            />
+            <Button
+              variant="outline"
+              disabled={!file || importMutation.isPending}
+              onClick={() => importMutation.mutate({ dryRun: true, columnMapping: mapping })}
+            >
+              {importMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+              )}
+              Check File
+            </Button>
+          </div>
+        )}
+
+        {report && !imported && (
+          <>
+            <div>
+              <h3 className="text-sm font-medium text-slate-800 mb-2">Columns</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {report.columns.map((column, index) => (
+                  <div key={index} className="flex items-center justify-between space-x-2">
+                    <span className="text-sm text-slate-700 truncate">{column.header || "(blank)"}</span>
+                    <Select
+                      value={column.field ?? IGNORE}
+                      onValueChange={(value) => handleMappingChange(column.header, value)}
+                      disabled={importMutation.isPending}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Ignore column</SelectItem>
+                        {Object.values(UserImportField).map((field) => (
+                          <SelectItem key={field} value={field}>
+                            {UserImportFieldLabels[field]}
+                            {RequiredImportFields.includes(field) ? " *" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {report.fileErrors.length > 0 ? (
+              <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+                <ul className="list-disc pl-5 space-y-1">
+                  {report.fileErrors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <div>
+                <p className="text-sm text-slate-700 mb-2">
+                  <span className="font-medium text-green-700">{report.validCount} rows ready to import</span>
+                  {report.invalidCount > 0 && (
+                    <span className="font-medium text-red-700">, {report.invalidCount} rows with errors will be skipped</span>
+                  )}
+                </p>
+                {invalidRows.length > 0 && (
+                  <table className="min-w-full divide-y divide-slate-200 border border-slate-200 rounded-md text-sm">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Row</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">User</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase">Errors</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200">
+                      {invalidRows.map((row) => (
+                        <tr key={row.row}>
+                          <td className="px-4 py-2 text-slate-500 align-top">{row.row}</td>
+                          <td className="px-4 py-2 text-slate-800 align-top">
+                            {row.username || "—"}
+                            {row.fullName && <div className="text-xs text-slate-500">{row.fullName}</div>}
+                          </td>
+                          <td className="px-4 py-2 text-red-700">
+                            <ul className="space-y-0.5">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {imported && (
+          <div className="rounded-md border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+            <div className="flex items-center font-medium">
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              {report.createdCount} users created
+            </div>
+            {report.invalidCount > 0 && (
+              <p className="mt-1 flex items-center">
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                {report.invalidCount} rows with errors were skipped.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {imported ? "Close" : "Cancel"}
+          </Button>
+          {!imported && (
+            <Button
+              disabled={!canImport || importMutation.isPending}
+              onClick={() => importMutation.mutate({ dryRun: false, columnMapping: mapping })}
+            >
+              {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import {report?.validCount ?? 0} Users
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
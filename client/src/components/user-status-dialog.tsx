@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { UserDirectoryEntry, UserStatus, UserStatusType } from "@shared/schema";
+import {
+  MAX_STATUS_REASON_LENGTH, UserStatusChange, UserStatusLabels, statusChangeLabel
+} from "@shared/user-lifecycle";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+interface UserStatusDialogProps {
+  user: UserDirectoryEntry | null;
+  // The status the user moves to
+  status: UserStatusType | null;
+  onClose: () => void;
+}
+
+// Moves a user along the lifecycle, asking why
+export function UserStatusDialog({ user, status, onClose }: UserStatusDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    setReason("");
+  }, [user?.id, status]);
+
+  const statusMutation = useMutation({
+    mutationFn: async (change: UserStatusChange) => {
+      await apiRequest("POST", `/api/users/${user!.id}/status`, change);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Status changed",
+        description: `${user!.fullName} is now ${UserStatusLabels[status!].toLowerCase()}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities?limit=4"] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change user status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || !status) {
+    return null;
+  }
+
+  const label = statusChangeLabel(user.status, status);
+  const leavesActive = status !== UserStatus.ACTIVE;
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{label} {user.fullName}</DialogTitle>
+          <DialogDescription>
+            {UserStatusLabels[user.status]} → {UserStatusLabels[status]}.
+            {leavesActive
+              ? " The user will not be able to sign in and is signed out of any open session."
+              : " The user will be able to sign in."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="status-reason">Reason</Label>
+          <Textarea
+            id="status-reason"
+            value={reason}
+            maxLength={MAX_STATUS_REASON_LENGTH}
+            placeholder="Why is the status changing?"
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <p className="text-xs text-slate-500">The reason is kept with the user and in the audit log.</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant={leavesActive ? "destructive" : "default"}
+            disabled={reason.trim() === "" || statusMutation.isPending}
+            onClick={() => statusMutation.mutate({ status, reason: reason.trim() })}
+          >
+            {statusMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {label}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,26 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { Fragment, useEffect, useState } from "react";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { User, UserStatus } from "@shared/schema";
-import { Eye, Pencil, Trash2, Search, ChevronDown } from "lucide-react";
+import {
+  User, UserDirectoryEntry, UserPage, UserRole, UserStatusType, UserSortField, UserSortFieldType, SortDirection,
+  SortDirectionType
+} from "@shared/schema";
+import { BulkUserAction, BulkUserActionLabels, BulkUserActionType } from "@shared/user-bulk";
+import { UserStatusLabels, UserStatusTransitions, statusChangeLabel } from "@shared/user-lifecycle";
+import { can, Permission } from "@shared/permissions";
+import { Eye, Pencil, Trash2, RotateCcw, MoreHorizontal, Search, ChevronDown, ChevronUp, ChevronsUpDown, Upload, Download, Mail, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Select,
   SelectContent,
@@ -25,101 +39,187 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { UserForm } from "./user-form";
+import { UserDetails } from "./user-details";
+import { UserExportDialog } from "./user-export-dialog";
+import { BulkUserActionDialog } from "./bulk-user-action-dialog";
+import { DeleteUserDialog } from "./delete-user-dialog";
+import { UserStatusDialog } from "./user-status-dialog";
 import { Loader2 } from "lucide-react";
 
 interface UserTableProps {
   onCreateUser: () => void;
   onEditUser: (user: User) => void;
+  onImportUsers?: () => void;
+  onInviteUser?: () => void;
 }
 
-export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
+export function UserTable({ onCreateUser, onEditUser, onImportUsers, onInviteUser }: UserTableProps) {
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
   const [roleFilter, setRoleFilter] = useState("All Roles");
   const [orgFilter, setOrgFilter] = useState("All Companies");
   const [statusFilter, setStatusFilter] = useState("Status: All");
+  const [searchInput, setSearchInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
-  const [deleteUserId, setDeleteUserId] = useState<number | null>(null);
+  const [sortField, setSortField] = useState<UserSortFieldType>(UserSortField.FULL_NAME);
+  const [sortDirection, setSortDirection] = useState<SortDirectionType>(SortDirection.ASC);
+  const [deleteUser, setDeleteUser] = useState<UserDirectoryEntry | null>(null);
+  const [purgeUser, setPurgeUser] = useState<UserDirectoryEntry | null>(null);
+  const [statusChange, setStatusChange] = useState<{ user: UserDirectoryEntry; status: UserStatusType } | null>(null);
+  // Deleted users are listed on their own, to restore or purge them
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [viewUser, setViewUser] = useState<UserDirectoryEntry | undefined>(undefined);
+  const [exportOpen, setExportOpen] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
-  const usersPerPage = 5;
+  const [usersPerPage, setUsersPerPage] = useState(10);
+  // Selected users by id; the selection is kept while moving between pages
+  const [selectedUsers, setSelectedUsers] = useState<Map<number, UserDirectoryEntry>>(new Map());
+  const [bulkAction, setBulkAction] = useState<BulkUserActionType | null>(null);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  // The filters as query parameters, shared by the list and the export
+  const filterParams = new URLSearchParams();
+  if (roleFilter !== "All Roles") filterParams.set("role", roleFilter);
+  if (orgFilter !== "All Companies") filterParams.set("organizationId", orgFilter);
+  if (statusFilter !== "Status: All") filterParams.set("status", statusFilter.replace("Status: ", "").toUpperCase());
+  if (searchQuery) filterParams.set("q", searchQuery);
+  if (showDeleted) filterParams.set("deleted", "true");
+  const filterQuery = filterParams.toString();
 
-  // Fetch users
-  const { data: users, isLoading } = useQuery<Omit<User, "password">[]>({
-    queryKey: ["/api/users"],
+  // Go back to the first page whenever the matching users change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [filterQuery, usersPerPage]);
+
+  const listParams = new URLSearchParams(filterParams);
+  listParams.set("sort", sortField);
+  listParams.set("direction", sortDirection);
+  listParams.set("page", String(currentPage));
+  listParams.set("pageSize", String(usersPerPage));
+  const listQuery = listParams.toString();
+
+  // Fetch the current page of users, keeping the last page on screen while the next one loads
+  const { data: userPage, isLoading } = useQuery<UserPage>({
+    queryKey: ["/api/users", listQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/users?${listQuery}`);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
   });
+  const currentUsers = userPage?.items ?? [];
+  const totalUsers = userPage?.total ?? 0;
+  const totalPages = Math.ceil(totalUsers / usersPerPage);
+
+  // Step back when the last page empties, e.g. after deleting its only user
+  useEffect(() => {
+    if (totalPages > 0 && currentPage > totalPages) {
+      setCurrentPage(totalPages);
+    }
+  }, [currentPage, totalPages]);
   
+
   // Fetch organizations
   const { data: organizations } = useQuery({
     queryKey: ["/api/organizations"],
   });
 
-  // Delete user mutation
-  const deleteUserMutation = useMutation({
+  // Restore user mutation
+  const restoreUserMutation = useMutation({
     mutationFn: async (userId: number) => {
-      await apiRequest("DELETE", `/api/users/${userId}`);
+      await apiRequest("POST", `/api/users/${userId}/restore`);
     },
     onSuccess: () => {
       toast({
-        title: "User deleted",
-        description: "The user has been successfully deleted.",
+        title: "User restored",
+        description: "The user can sign in again.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
-      setDeleteUserId(null);
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to delete user",
+        description: error.message || "Failed to restore user",
         variant: "destructive",
       });
     },
   });
 
-  // Filter users
-  const filteredUsers = users
-    ? users.filter((user) => {
-        // Role filter
-        if (roleFilter !== "All Roles" && user.role !== roleFilter) {
-          return false;
-        }
-        
-        // Organization filter
-        if (
-          orgFilter !== "All Companies" &&
-          user.organizationId !== parseInt(orgFilter)
-        ) {
-          return false;
-        }
-        
-        // Status filter
-        if (
-          statusFilter !== "Status: All" &&
-          user.status !== statusFilter.replace("Status: ", "").toUpperCase()
-        ) {
-          return false;
-        }
-        
-        // Search filter
-        if (searchQuery) {
-          const query = searchQuery.toLowerCase();
-          return (
-            user.fullName?.toLowerCase().includes(query) ||
-            user.username.toLowerCase().includes(query) ||
-            user.email.toLowerCase().includes(query)
-          );
+  // Purge user mutation
+  const purgeUserMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/users/${userId}/purge`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "User purged",
+        description: "The user has been permanently removed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setPurgeUser(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to purge user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Switch between current and deleted users; a selection only applies to the view it was made in
+  const toggleDeleted = () => {
+    setShowDeleted((prev) => !prev);
+    setSelectedUsers(new Map());
+  };
+
+  // Select or unselect users, keeping the rest of the selection
+  const setSelected = (pageUsers: UserDirectoryEntry[], selected: boolean) => {
+    setSelectedUsers((prev) => {
+      const next = new Map(prev);
+      for (const user of pageUsers) {
+        if (selected) {
+          next.set(user.id, user);
+        } else {
+          next.delete(user.id);
         }
-        
-        return true;
-      })
-    : [];
+      }
+      return next;
+    });
+  };
 
-  // Pagination
-  const totalPages = Math.ceil((filteredUsers?.length || 0) / usersPerPage);
-  const currentUsers = filteredUsers?.slice(
-    (currentPage - 1) * usersPerPage,
-    currentPage * usersPerPage
+  const selectedOnPage = currentUsers.filter((user) => selectedUsers.has(user.id)).length;
+  const bulkActions = Object.values(BulkUserAction).filter(
+    (action) => action !== BulkUserAction.DELETE || can(currentUser, Permission.USERS_DELETE)
   );
 
+  // Sort by a column, or reverse the order when it is already sorted by it
+  const toggleSort = (field: UserSortFieldType) => {
+    if (field === sortField) {
+      setSortDirection((prev) => (prev === SortDirection.ASC ? SortDirection.DESC : SortDirection.ASC));
+    } else {
+      setSortField(field);
+      setSortDirection(SortDirection.ASC);
+    }
+    setCurrentPage(1);
+  };
+
+  const SortIcon = ({ field }: { field: UserSortFieldType }) => {
+    if (field !== sortField) {
+      return <ChevronsUpDown className="h-4 w-4 ml-1 text-slate-400" />;
+    }
+    return sortDirection === SortDirection.ASC
+      ? <ChevronUp className="h-4 w-4 ml-1" />
+      : <ChevronDown className="h-4 w-4 ml-1" />;
+  };
+
   // Get user initials for avatar
   const getUserInitials = (name: string) => {
     const nameParts = name.split(" ");
@@ -131,15 +231,8 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
     return "U";
   };
 
-  // Get organization name
-  const getOrganizationName = (orgId: number | null) => {
-    if (!orgId) return "N/A";
-    const org = organizations?.find((o) => o.id === orgId);
-    return org?.name || "Unknown";
-  };
-
   // Status badge component
-  const StatusBadge = ({ status }: { status: string }) => {
+  const StatusBadge = ({ status }: { status: UserStatusType }) => {
     let bgColor = "bg-green-100";
     let textColor = "text-green-800";
     let dotColor = "bg-green-600";
@@ -148,6 +241,10 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
       bgColor = "bg-red-100";
       textColor = "text-red-800";
       dotColor = "bg-red-600";
+    } else if (status === "SUSPENDED") {
+      bgColor = "bg-orange-100";
+      textColor = "text-orange-800";
+      dotColor = "bg-orange-600";
     } else if (status === "PENDING") {
       bgColor = "bg-yellow-100";
       textColor = "text-yellow-800";
@@ -157,7 +254,7 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
     return (
       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${bgColor} ${textColor}`}>
         <span className={`w-1.5 h-1.5 mr-1.5 rounded-full ${dotColor}`}></span>
-        {status === "ACTIVE" ? "Active" : status === "INACTIVE" ? "Inactive" : "Pending"}
+        {UserStatusLabels[status]}
       </span>
     );
   };
@@ -174,27 +271,51 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
     <Card className="shadow-sm border border-slate-200 mb-6">
       <div className="p-6 border-b border-slate-200">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg font-semibold text-slate-800">User Management</h2>
-          <Button onClick={onCreateUser}>
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              width="24"
-              height="24"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              className="lucide lucide-user-plus mr-1 h-4 w-4"
-            >
-              <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
-              <circle cx="9" cy="7" r="4" />
-              <line x1="19" x2="19" y1="8" y2="14" />
-              <line x1="22" x2="16" y1="11" y2="11" />
-            </svg>
-            Add New User
-          </Button>
+          <h2 className="text-lg font-semibold text-slate-800">{showDeleted ? "Deleted Users" : "User Management"}</h2>
+          <div className="flex items-center space-x-2">
+            {can(currentUser, Permission.USERS_DELETE) && (
+              <Button variant={showDeleted ? "secondary" : "outline"} onClick={toggleDeleted}>
+                <Trash2 className="mr-1 h-4 w-4" />
+                {showDeleted ? "Back to Users" : "Deleted Users"}
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setExportOpen(true)} disabled={showDeleted}>
+              <Download className="mr-1 h-4 w-4" />
+              Export
+            </Button>
+            {onImportUsers && (
+              <Button variant="outline" onClick={onImportUsers}>
+                <Upload className="mr-1 h-4 w-4" />
+                Import
+              </Button>
+            )}
+            {onInviteUser && (
+              <Button variant="outline" onClick={onInviteUser}>
+                <Mail className="mr-1 h-4 w-4" />
+                Invite
+              </Button>
+            )}
+            <Button onClick={onCreateUser}>
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                className="lucide lucide-user-plus mr-1 h-4 w-4"
+              >
+                <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
+                <circle cx="9" cy="7" r="4" />
+                <line x1="19" x2="19" y1="8" y2="14" />
+                <line x1="22" x2="16" y1="11" y2="11" />
+              </svg>
+              Add New User
+            </Button>
+          </div>
         </div>
         
         {/* Filters and search */}
@@ -239,6 +360,7 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
                 <SelectItem value="Status: ACTIVE">Active</SelectItem>
                 <SelectItem value="Status: INACTIVE">Inactive</SelectItem>
                 <SelectItem value="Status: PENDING">Pending</SelectItem>
+                <SelectItem value="Status: SUSPENDED">Suspended</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -249,49 +371,122 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
               type="text"
               placeholder="Search users..."
               className="w-full pl-10 pr-4 py-2 bg-slate-50 border border-slate-300 text-slate-700 rounded-md"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
             />
           </div>
         </div>
       </div>
       
+      {/* Bulk actions on the selected users */}
+      {selectedUsers.size > 0 && !showDeleted && (
+        <div className="px-6 py-3 border-b border-slate-200 bg-slate-50 flex items-center justify-between">
+          <div className="flex items-center text-sm text-slate-700">
+            <span className="font-medium">{selectedUsers.size} selected</span>
+            <Button variant="ghost" size="sm" className="ml-2 h-8" onClick={() => setSelectedUsers(new Map())}>
+              <X className="mr-1 h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                Bulk Actions
+                <ChevronDown className="ml-1 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {bulkActions.map((action) => (
+                <Fragment key={action}>
+                  {action === BulkUserAction.DELETE && <DropdownMenuSeparator />}
+                  <DropdownMenuItem
+                    className={action === BulkUserAction.DELETE ? "text-red-600" : undefined}
+                    onSelect={() => setBulkAction(action)}
+                  >
+                    {BulkUserActionLabels[action]}
+                  </DropdownMenuItem>
+                </Fragment>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+
       {/* User table */}
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-slate-200">
           <thead className="bg-slate-50">
             <tr>
+              <th scope="col" className="pl-6 py-3 w-4">
+                {!showDeleted && (
+                  <Checkbox
+                    aria-label="Select all users on this page"
+                    checked={
+                      selectedOnPage > 0 && selectedOnPage === currentUsers.length
+                        ? true
+                        : selectedOnPage > 0 ? "indeterminate" : false
+                    }
+                    onCheckedChange={(checked) => setSelected(currentUsers, checked === true)}
+                    disabled={currentUsers.length === 0}
+                  />
+                )}
+              </th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                <div className="flex items-center">
+                <button
+                  type="button"
+                  className="flex items-center uppercase tracking-wider hover:text-slate-700"
+                  onClick={() => toggleSort(UserSortField.FULL_NAME)}
+                >
                   <span>User</span>
-                  <ChevronDown className="h-4 w-4 ml-1" />
-                </div>
+                  <SortIcon field={UserSortField.FULL_NAME} />
+                </button>
               </th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                <div className="flex items-center">
+                <button
+                  type="button"
+                  className="flex items-center uppercase tracking-wider hover:text-slate-700"
+                  onClick={() => toggleSort(UserSortField.ROLE)}
+                >
                   <span>Role</span>
-                  <ChevronDown className="h-4 w-4 ml-1" />
-                </div>
+                  <SortIcon field={UserSortField.ROLE} />
+                </button>
               </th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                <div className="flex items-center">
+                <button
+                  type="button"
+                  className="flex items-center uppercase tracking-wider hover:text-slate-700"
+                  onClick={() => toggleSort(UserSortField.ORGANIZATION)}
+                >
                   <span>Organization</span>
-                  <ChevronDown className="h-4 w-4 ml-1" />
-                </div>
+                  <SortIcon field={UserSortField.ORGANIZATION} />
+                </button>
               </th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                <div className="flex items-center">
+                <button
+                  type="button"
+                  className="flex items-center uppercase tracking-wider hover:text-slate-700"
+                  onClick={() => toggleSort(UserSortField.STATUS)}
+                >
                   <span>Status</span>
-                  <ChevronDown className="h-4 w-4 ml-1" />
-                </div>
+                  <SortIcon field={UserSortField.STATUS} />
+                </button>
               </th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Actions</th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-slate-200">
-            {currentUsers && currentUsers.length > 0 ? (
+            {currentUsers.length > 0 ? (
               currentUsers.map((user) => (
-                <tr key={user.id} className="hover:bg-slate-50">
+                <tr key={user.id} className={selectedUsers.has(user.id) ? "bg-primary-50" : "hover:bg-slate-50"}>
+                  <td className="pl-6 py-4 w-4">
+                    {!showDeleted && (
+                      <Checkbox
+                        aria-label={`Select ${user.fullName}`}
+                        checked={selectedUsers.has(user.id)}
+                        onCheckedChange={(checked) => setSelected([user], checked === true)}
+                      />
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       <Avatar className="h-10 w-10">
@@ -310,50 +505,102 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
                       {user.role.replace(/_/g, " ")}
                     </div>
                     <div className="text-xs text-slate-500">
-                      {user.region || "Global"}
+                      {user.territoryName || user.region || "Global"}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-slate-700">
-                      {getOrganizationName(user.organizationId)}
+                      {user.organizationName || "N/A"}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <StatusBadge status={user.status} />
+                    {user.deletedAt && (
+                      <div className="mt-1 text-xs text-slate-500">
+                        Deleted {new Date(user.deletedAt).toLocaleDateString()}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
-                    <div className="flex space-x-2">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="text-primary-600 hover:text-primary-800 h-8 w-8"
-                        onClick={() => onEditUser(user)}
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="text-slate-600 hover:text-slate-800 h-8 w-8"
-                      >
-                        <Eye className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="text-red-600 hover:text-red-800 h-8 w-8"
-                        onClick={() => setDeleteUserId(user.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
+                    {showDeleted ? (
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-8"
+                          onClick={() => restoreUserMutation.mutate(user.id)}
+                          disabled={restoreUserMutation.isPending}
+                        >
+                          <RotateCcw className="mr-1 h-4 w-4" />
+                          Restore
+                        </Button>
+                        {currentUser?.role === UserRole.SUPER_ADMIN && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-800 h-8"
+                            onClick={() => setPurgeUser(user)}
+                          >
+                            Purge
+                          </Button>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-primary-600 hover:text-primary-800 h-8 w-8"
+                          onClick={() => onEditUser(user)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-slate-600 hover:text-slate-800 h-8 w-8"
+                          onClick={() => setViewUser(user)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-red-600 hover:text-red-800 h-8 w-8"
+                          onClick={() => setDeleteUser(user)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                        {can(currentUser, Permission.USERS_EDIT) && user.id !== currentUser?.id && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-slate-600 hover:text-slate-800 h-8 w-8"
+                                aria-label={`Change the status of ${user.fullName}`}
+                              >
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {UserStatusTransitions[user.status].map((status) => (
+                                <DropdownMenuItem key={status} onSelect={() => setStatusChange({ user, status })}>
+                                  {statusChangeLabel(user.status, status)}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </div>
+                    )}
                   </td>
                 </tr>
               ))
             ) : (
               <tr>
-                <td colSpan={5} className="px-6 py-8 text-center text-slate-500 text-sm">
-                  No users found. Try adjusting your filters.
+                <td colSpan={6} className="px-6 py-8 text-center text-slate-500 text-sm">
+                  {showDeleted ? "No deleted users found." : "No users found. Try adjusting your filters."}
                 </td>
               </tr>
             )}
@@ -364,13 +611,25 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
       {/* Pagination */}
       <div className="border-t border-slate-200 px-6 py-4 flex items-center justify-between">
         <div className="text-sm text-slate-500">
-          Showing <span className="font-medium">{filteredUsers.length > 0 ? (currentPage - 1) * usersPerPage + 1 : 0}</span> to{" "}
+          Showing <span className="font-medium">{totalUsers > 0 ? (currentPage - 1) * usersPerPage + 1 : 0}</span> to{" "}
           <span className="font-medium">
-            {Math.min(currentPage * usersPerPage, filteredUsers.length)}
+            {Math.min(currentPage * usersPerPage, totalUsers)}
           </span>{" "}
-          of <span className="font-medium">{filteredUsers.length}</span> users
+          of <span className="font-medium">{totalUsers}</span> users
         </div>
-        <div className="flex space-x-2">
+        <div className="flex items-center space-x-2">
+          <Select value={String(usersPerPage)} onValueChange={(value) => setUsersPerPage(parseInt(value))}>
+            <SelectTrigger className="h-9 w-[120px] text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[10, 25, 50, 100].map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size} per page
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button
             variant="outline"
             size="sm"
@@ -385,7 +644,7 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
             variant="outline"
             size="sm"
             className="text-sm"
-            disabled={currentPage === totalPages || totalPages === 0}
+            disabled={currentPage >= totalPages}
             onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
           >
             Next
@@ -394,13 +653,38 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
         </div>
       </div>
       
-      {/* Delete Confirmation Dialog */}
-      <AlertDialog open={deleteUserId !== null} onOpenChange={() => setDeleteUserId(null)}>
+      {/* User Details Dialog */}
+      <UserDetails user={viewUser} onClose={() => setViewUser(undefined)} />
+
+      <UserExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        filterQuery={filterQuery}
+        matchCount={totalUsers}
+      />
+
+      <BulkUserActionDialog
+        action={bulkAction}
+        users={Array.from(selectedUsers.values())}
+        onClose={() => setBulkAction(null)}
+        onComplete={() => setSelectedUsers(new Map())}
+      />
+
+      <DeleteUserDialog user={deleteUser} onClose={() => setDeleteUser(null)} />
+
+      <UserStatusDialog
+        user={statusChange?.user ?? null}
+        status={statusChange?.status ?? null}
+        onClose={() => setStatusChange(null)}
+      />
+
+      {/* Purge Confirmation Dialog */}
+      <AlertDialog open={purgeUser !== null} onOpenChange={() => setPurgeUser(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>Purge {purgeUser?.fullName}?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the user and all associated data.
+              This action cannot be undone. The user will be permanently removed; their entries in the activity log are kept.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -408,19 +692,19 @@ export function UserTable({ onCreateUser, onEditUser }: UserTableProps) {
             <AlertDialogAction
               className="bg-red-600 hover:bg-red-700"
               onClick={() => {
-                if (deleteUserId !== null) {
-                  deleteUserMutation.mutate(deleteUserId);
+                if (purgeUser) {
+                  purgeUserMutation.mutate(purgeUser.id);
                 }
               }}
-              disabled={deleteUserMutation.isPending}
+              disabled={purgeUserMutation.isPending}
             >
-              {deleteUserMutation.isPending ? (
+              {purgeUserMutation.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Deleting...
+                  Purging...
                 </>
               ) : (
-                "Delete"
+                "Purge"
               )}
             </AlertDialogAction>
           </AlertDialogFooter>
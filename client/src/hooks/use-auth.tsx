@@ -4,18 +4,18 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User } from "@shared/schema";
+import { type InsertUser, type User } from "@shared/schema";
+import { type AuthenticatedUser } from "@shared/permissions";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { z } from "zod";
 
 type AuthContextType = {
-  user: User | null;
+  user: AuthenticatedUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<User, Error, LoginData>;
+  loginMutation: UseMutationResult<AuthenticatedUser, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<User, Error, RegisterData>;
+  registerMutation: UseMutationResult<Omit<User, "password">, Error, RegisterData>;
 };
 
 type LoginData = {
@@ -23,15 +23,11 @@ type LoginData = {
   password: string;
 };
 
-// Create a schema for registration that extends the insert user schema
-const registerSchema = insertUserSchema.extend({
-  confirmPassword: z.string(),
-}).refine((data) => data.password === data.confirmPassword, {
-  message: "Passwords don't match",
-  path: ["confirmPassword"],
-});
-
-type RegisterData = z.infer<typeof registerSchema>;
+// What a new user provides; the server decides the role and keeps the account pending
+type RegisterData = Pick<InsertUser, "username" | "password" | "fullName" | "email"> & {
+  // The manager who approves the new account
+  managerUsername?: string;
+};
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 
@@ -41,7 +37,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<User | undefined, Error>({
+  } = useQuery<AuthenticatedUser | undefined, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
@@ -51,7 +47,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: User) => {
+    onSuccess: (user: AuthenticatedUser) => {
       // Set the user data in the cache
       queryClient.setQueryData(["/api/user"], user);
       
@@ -79,27 +75,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const registerMutation = useMutation({
     mutationFn: async (data: RegisterData) => {
-      // Remove confirmPassword before sending to API
-      const { confirmPassword, ...userData } = data;
-      const res = await apiRequest("POST", "/api/register", userData);
+      const res = await apiRequest("POST", "/api/register", data);
       return await res.json();
     },
-    onSuccess: (user: User) => {
-      // Set the user data in the cache
-      queryClient.setQueryData(["/api/user"], user);
-      
-      // Force a refetch of user data to ensure state is updated
-      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
-      
+    onSuccess: (user: Omit<User, "password">) => {
+      // New accounts are not signed in until they have been approved
       toast({
-        title: "Registration successful",
-        description: `Welcome, ${user.fullName}!`,
+        title: "Registration received",
+        description: `Thanks, ${user.fullName}. You can sign in once your account has been approved.`,
       });
-      
-      // Manually redirect to dashboard if needed
-      if (window.location.pathname === "/auth") {
-        window.location.href = "/";
-      }
     },
     onError: (error: Error) => {
       toast({
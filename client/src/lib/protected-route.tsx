@@ -1,15 +1,17 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { can, type PermissionKey } from "@shared/permissions";
+import ChangePasswordPage from "@/pages/change-password-page";
 
 export function ProtectedRoute({
   path,
   component: Component,
-  requiredRoles = [],
+  requiredPermission,
 }: {
   path: string;
   component: () => React.JSX.Element;
-  requiredRoles?: string[];
+  requiredPermission?: PermissionKey;
 }) {
   const { user, isLoading } = useAuth();
 
@@ -31,8 +33,13 @@ export function ProtectedRoute({
     );
   }
 
-  // Check if user has required role
-  if (requiredRoles.length > 0 && !requiredRoles.includes(user.role)) {
+  // Nothing else is available until a required password change is done
+  if (user.passwordResetRequired) {
+    return <Route path={path} component={ChangePasswordPage} />;
+  }
+
+  // Check if user's role holds the required permission
+  if (requiredPermission && !can(user, requiredPermission)) {
     return (
       <Route path={path}>
         <div className="flex flex-col items-center justify-center min-h-screen p-4">
@@ -0,0 +1,39 @@
+import { Territory } from "@shared/schema";
+
+export interface FlatTerritory<T extends Territory> {
+  territory: T;
+  depth: number;
+}
+
+/**
+ * Order territories depth-first under their parents, alphabetically among siblings,
+ * recording how deep each one sits for indentation
+ */
+export function flattenTerritories<T extends Territory>(territories: T[]): FlatTerritory<T>[] {
+  const ids = new Set(territories.map((territory) => territory.id));
+  const byParent = new Map<number | null, T[]>();
+  for (const territory of territories) {
+    // Territories whose parent is not in the list are shown at the top level
+    const parentId = territory.parentId !== null && ids.has(territory.parentId) ? territory.parentId : null;
+    byParent.set(parentId, [...(byParent.get(parentId) ?? []), territory]);
+  }
+
+  const result: FlatTerritory<T>[] = [];
+  const visit = (parentId: number | null, depth: number) => {
+    const children = (byParent.get(parentId) ?? []).sort((a, b) => a.name.localeCompare(b.name));
+    for (const territory of children) {
+      result.push({ territory, depth });
+      visit(territory.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return result;
+}
+
+/**
+ * Display label of a territory level, e.g. "Headquarter"
+ */
+export function formatTerritoryLevel(level: string): string {
+  return level.charAt(0) + level.slice(1).toLowerCase();
+}
@@ -0,0 +1,16 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { AuditLog } from "@/components/audit-log";
+import { AuditChainStatus } from "@/components/audit-chain-status";
+import { useAuth } from "@/hooks/use-auth";
+import { can, Permission } from "@shared/permissions";
+
+export default function AuditPage() {
+  const { user } = useAuth();
+
+  return (
+    <DashboardLayout title="Audit Logs">
+      {can(user, Permission.AUDIT_VERIFY) && <AuditChainStatus />}
+      <AuditLog />
+    </DashboardLayout>
+  );
+}
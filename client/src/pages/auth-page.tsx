@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { Redirect } from "wouter";
+import { Link, Redirect } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -26,6 +26,7 @@ const registerFormSchema = z.object({
   email: z.string().email({ message: "Invalid email address" }),
   password: z.string().min(6, { message: "Password must be at least 6 characters" }),
   confirmPassword: z.string(),
+  managerUsername: z.string().trim().optional(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -55,6 +56,7 @@ export default function AuthPage() {
       email: "",
       password: "",
       confirmPassword: "",
+      managerUsername: "",
     },
   });
 
@@ -65,11 +67,13 @@ export default function AuthPage() {
 
   // Submit registration
   function onRegisterSubmit(data: RegisterFormValues) {
-    const { confirmPassword, ...userData } = data;
+    const { confirmPassword, managerUsername, ...userData } = data;
     registerMutation.mutate({
       ...userData,
-      role: "SUPER_ADMIN", // For first-time registration
-      status: "ACTIVE"
+      managerUsername: managerUsername || undefined,
+    }, {
+      // The account waits for approval, so go back to signing in
+      onSuccess: () => setActiveTab("login"),
     });
   }
 
@@ -132,7 +136,12 @@ export default function AuthPage() {
                       name="password"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Password</FormLabel>
+                          <div className="flex items-center justify-between">
+                            <FormLabel>Password</FormLabel>
+                            <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+                              Forgot your password?
+                            </Link>
+                          </div>
                           <FormControl>
                             <Input type="password" placeholder="Enter your password" {...field} />
                           </FormControl>
@@ -225,6 +234,19 @@ export default function AuthPage() {
                         )}
                       />
                     </div>
+                    <FormField
+                      control={registerForm.control}
+                      name="managerUsername"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Manager's Username (optional)</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Who should approve your account?" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
                       {registerMutation.isPending ? (
                         <>
@@ -0,0 +1,11 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { OrganizationTable } from "@/components/organization-table";
+import { OrganizationType } from "@shared/schema";
+
+export default function CompaniesPage() {
+  return (
+    <DashboardLayout title="Companies">
+      <OrganizationTable type={OrganizationType.PHARMA_COMPANY} title="Pharma Companies" />
+    </DashboardLayout>
+  );
+}
@@ -3,7 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { StatsCard } from "@/components/stats-card";
-import { RoleHierarchy } from "@/components/role-hierarchy";
+import { OrgChart } from "@/components/org-chart";
 import { ActivityLog } from "@/components/activity-log";
 import { UserTable } from "@/components/user-table";
 import { UserForm } from "@/components/user-form";
@@ -87,8 +87,8 @@ export default function DashboardPage() {
         onEditUser={handleEditUser}
       />
 
-      {/* Role hierarchy visualization */}
-      <RoleHierarchy />
+      {/* Organization chart */}
+      <OrgChart />
 
       {/* Recent activity */}
       <ActivityLog />
@@ -0,0 +1,11 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { OrganizationTable } from "@/components/organization-table";
+import { OrganizationType } from "@shared/schema";
+
+export default function DistributorsPage() {
+  return (
+    <DashboardLayout title="Distributors">
+      <OrganizationTable type={OrganizationType.DISTRIBUTOR} title="Distributors" />
+    </DashboardLayout>
+  );
+}
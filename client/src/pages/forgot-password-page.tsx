@@ -0,0 +1,100 @@
+import { useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Link } from "wouter";
+import { Loader2, MailCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+
+const forgotPasswordSchema = z.object({
+  identifier: z.string().trim().min(1, { message: "Enter your username or email address" }),
+});
+
+type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
+
+// First step of resetting a forgotten password: ask for a reset link by email
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+
+  const form = useForm<ForgotPasswordValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      identifier: "",
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordValues) => {
+      const res = await apiRequest("POST", "/api/password/forgot", data);
+      return (await res.json()) as { message: string };
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to request a password reset",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-md border-slate-200">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Forgot your password?</CardTitle>
+          <CardDescription>
+            Enter your username or email address and we will email you a link to choose a new password.
+          </CardDescription>
+        </CardHeader>
+
+        {forgotPasswordMutation.isSuccess ? (
+          <>
+            <CardContent className="flex items-start space-x-3">
+              <MailCheck className="h-5 w-5 text-green-600 shrink-0" />
+              <p className="text-sm text-slate-600">{forgotPasswordMutation.data.message}</p>
+            </CardContent>
+            <CardFooter>
+              <Link href="/auth" className="text-sm text-primary hover:underline">
+                Back to sign in
+              </Link>
+            </CardFooter>
+          </>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => forgotPasswordMutation.mutate(data))}>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="identifier"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username or Email</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter your username or email address" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+              <CardFooter className="flex justify-between">
+                <Link href="/auth" className="text-sm text-primary hover:underline">
+                  Back to sign in
+                </Link>
+                <Button type="submit" disabled={forgotPasswordMutation.isPending}>
+                  {forgotPasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send Reset Link
+                </Button>
+              </CardFooter>
+            </form>
+          </Form>
+        )}
+      </Card>
+    </div>
+  );
+}
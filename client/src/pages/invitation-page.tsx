@@ -0,0 +1,165 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Link, useLocation } from "wouter";
+import { Loader2 } from "lucide-react";
+import { User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+
+const setPasswordSchema = z.object({
+  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type SetPasswordValues = z.infer<typeof setPasswordSchema>;
+
+type InvitationDetails = {
+  fullName: string;
+  username: string;
+  email: string;
+  expiresAt: string;
+};
+
+// Opened from the link in an invitation email; the invited user chooses their password here
+export default function InvitationPage() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ["/api/invitation", token],
+    queryFn: async () => {
+      const res = await fetch(`/api/invitation?token=${encodeURIComponent(token)}`, {
+        credentials: "include",
+      });
+      // Invalid, used and expired links come back as 410 with the reason
+      if (res.status === 410) {
+        throw new Error((await res.json()).message);
+      }
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json();
+    },
+    enabled: token !== "",
+    retry: false,
+  });
+
+  const form = useForm<SetPasswordValues>({
+    resolver: zodResolver(setPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async ({ password }: SetPasswordValues) => {
+      const res = await apiRequest("POST", "/api/invitation/accept", { token, password });
+      return (await res.json()) as User;
+    },
+    onSuccess: (user) => {
+      toast({
+        title: "Welcome to PharmaDist",
+        description: "Your account is active.",
+      });
+      // Accepting signs the user in
+      queryClient.setQueryData(["/api/user"], user);
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept the invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const problem = token === "" ? "This invitation link is not valid" : error?.message;
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-md border-slate-200">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Set up your account</CardTitle>
+          <CardDescription>
+            {invitation
+              ? `Welcome ${invitation.fullName}. Choose a password to activate the account ${invitation.username}.`
+              : "Choose a password to activate your PharmaDist account."}
+          </CardDescription>
+        </CardHeader>
+
+        {isLoading ? (
+          <CardContent className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </CardContent>
+        ) : problem ? (
+          <>
+            <CardContent>
+              <p className="text-sm text-red-600">{problem}</p>
+            </CardContent>
+            <CardFooter>
+              <Link href="/auth" className="text-sm text-primary hover:underline">
+                Go to sign in
+              </Link>
+            </CardFooter>
+          </>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => acceptMutation.mutate(data))}>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Choose a password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Confirm the password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {invitation && (
+                  <p className="text-xs text-slate-500">
+                    This link expires on {new Date(invitation.expiresAt).toLocaleString()}.
+                  </p>
+                )}
+              </CardContent>
+              <CardFooter className="flex justify-end">
+                <Button type="submit" disabled={acceptMutation.isPending}>
+                  {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Activate Account
+                </Button>
+              </CardFooter>
+            </form>
+          </Form>
+        )}
+      </Card>
+    </div>
+  );
+}
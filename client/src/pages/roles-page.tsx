@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { PermissionRecord, UserRole, UserRoleType } from "@shared/schema";
+import { Permission, PermissionKey } from "@shared/permissions";
+
+type PermissionMatrix = Record<UserRoleType, PermissionKey[]>;
+
+interface PermissionsResponse {
+  permissions: PermissionRecord[];
+  matrix: PermissionMatrix;
+}
+
+const roles = Object.values(UserRole);
+
+export default function RolesPage() {
+  const { toast } = useToast();
+  const [matrix, setMatrix] = useState<PermissionMatrix | null>(null);
+
+  // Fetch permission catalog and current matrix
+  const { data, isLoading } = useQuery<PermissionsResponse>({
+    queryKey: ["/api/permissions"],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setMatrix(data.matrix);
+    }
+  }, [data]);
+
+  // Roles whose permissions differ from the saved matrix
+  const changedRoles = data && matrix
+    ? roles.filter((role) => {
+        const saved = [...data.matrix[role]].sort().join(",");
+        const edited = [...matrix[role]].sort().join(",");
+        return saved !== edited;
+      })
+    : [];
+
+  // Save permissions mutation
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      for (const role of changedRoles) {
+        await apiRequest("PUT", `/api/permissions/roles/${role}`, { permissions: matrix![role] });
+      }
+    },
+    onSuccess: () => {
+      toast({
+        title: "Permissions saved",
+        description: "The permission matrix has been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/permissions"] });
+      // The signed-in user's own permissions may have changed
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save permissions",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/permissions"] });
+    },
+  });
+
+  const togglePermission = (role: UserRoleType, key: PermissionKey, granted: boolean) => {
+    setMatrix((prev) => {
+      if (!prev) return prev;
+      const current = prev[role].filter((k) => k !== key);
+      return { ...prev, [role]: granted ? [...current, key] : current };
+    });
+  };
+
+  // Super admins always keep the permission to edit this matrix
+  const isLocked = (role: UserRoleType, key: PermissionKey) =>
+    role === UserRole.SUPER_ADMIN && key === Permission.PERMISSIONS_MANAGE;
+
+  return (
+    <DashboardLayout title="Roles & Permissions">
+      <Card className="shadow-sm border border-slate-200 mb-6">
+        <div className="p-6 border-b border-slate-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-800">Permission Matrix</h2>
+              <p className="text-sm text-slate-500 mt-1">Choose which permissions each role holds</p>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                disabled={changedRoles.length === 0 || saveMutation.isPending}
+                onClick={() => data && setMatrix(data.matrix)}
+              >
+                Discard Changes
+              </Button>
+              <Button
+                disabled={changedRoles.length === 0 || saveMutation.isPending}
+                onClick={() => saveMutation.mutate()}
+              >
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Changes"
+                )}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {isLoading || !data || !matrix ? (
+          <div className="flex justify-center items-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Permission
+                  </th>
+                  {roles.map((role) => (
+                    <th key={role} scope="col" className="px-3 py-3 text-center text-xs font-medium text-slate-500 uppercase tracking-wider">
+                      {role.replace(/_/g, " ")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-slate-200">
+                {data.permissions.map((permission) => {
+                  const key = permission.key as PermissionKey;
+                  return (
+                    <tr key={permission.id} className="hover:bg-slate-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-slate-800">{permission.description}</div>
+                        <div className="text-xs text-slate-500">{permission.key}</div>
+                      </td>
+                      {roles.map((role) => (
+                        <td key={role} className="px-3 py-4 text-center">
+                          <Checkbox
+                            checked={matrix[role].includes(key)}
+                            disabled={isLocked(role, key)}
+                            onCheckedChange={(checked) => togglePermission(role, key, checked === true)}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,10 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { TerritoryManager } from "@/components/territory-manager";
+
+export default function TerritoriesPage() {
+  return (
+    <DashboardLayout title="Territories">
+      <TerritoryManager />
+    </DashboardLayout>
+  );
+}
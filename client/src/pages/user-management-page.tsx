@@ -2,19 +2,35 @@ import { useState } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { UserTable } from "@/components/user-table";
 import { UserForm } from "@/components/user-form";
+import { UserImportWizard } from "@/components/user-import-wizard";
+import { PendingApprovals } from "@/components/pending-approvals";
+import { OpenInvitations } from "@/components/open-invitations";
+import { useAuth } from "@/hooks/use-auth";
 import { User } from "@shared/schema";
+import { can, Permission } from "@shared/permissions";
 
 export default function UserManagementPage() {
+  const { user } = useAuth();
   const [userFormOpen, setUserFormOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | undefined>(undefined);
+  const [importOpen, setImportOpen] = useState(false);
+  const [inviting, setInviting] = useState(false);
 
   const handleCreateUser = () => {
     setSelectedUser(undefined);
+    setInviting(false);
+    setUserFormOpen(true);
+  };
+
+  const handleInviteUser = () => {
+    setSelectedUser(undefined);
+    setInviting(true);
     setUserFormOpen(true);
   };
 
   const handleEditUser = (user: User) => {
     setSelectedUser(user);
+    setInviting(false);
     setUserFormOpen(true);
   };
 
@@ -25,9 +41,14 @@ export default function UserManagementPage() {
 
   return (
     <DashboardLayout title="User Management">
+      {can(user, Permission.USERS_EDIT) && <PendingApprovals />}
+      {can(user, Permission.USERS_CREATE) && <OpenInvitations />}
+
       <UserTable
         onCreateUser={handleCreateUser}
         onEditUser={handleEditUser}
+        onImportUsers={() => setImportOpen(true)}
+        onInviteUser={can(user, Permission.USERS_CREATE) ? handleInviteUser : undefined}
       />
       
       {/* User Form Modal */}
@@ -35,6 +56,12 @@ export default function UserManagementPage() {
         open={userFormOpen}
         onClose={handleCloseUserForm}
         user={selectedUser}
+        invite={inviting}
+      />
+
+      <UserImportWizard
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
       />
     </DashboardLayout>
   );
@@ -0,0 +1,85 @@
+import type { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import type { Activity, AuditChanges, AuditEntityType, InsertActivity } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId: string;
+    }
+  }
+}
+
+// Fields never copied into an audit diff
+const REDACTED_FIELDS = new Set(["password"]);
+
+export interface AuditEvent {
+  action: string;
+  description: string;
+  entityType?: AuditEntityType;
+  entityId?: number | string | null;
+  changes?: AuditChanges | null;
+  // Defaults to the signed-in user; set explicitly when the session has just ended
+  actorId?: number | null;
+}
+
+/**
+ * Middleware giving every request an id, taken from an upstream X-Request-Id header when present,
+ * and echoing it back so clients and logs can be matched to audit events
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction) {
+  const upstreamId = req.get("x-request-id");
+  req.requestId = upstreamId && upstreamId.length <= 128 ? upstreamId : randomUUID();
+  res.setHeader("X-Request-Id", req.requestId);
+  next();
+}
+
+/**
+ * Field-level diff between two versions of a record, or null when nothing changed.
+ * Pass null as `before` for a created record and as `after` for a deleted one.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges | null {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of Array.from(fields)) {
+    if (REDACTED_FIELDS.has(field)) {
+      continue;
+    }
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { old: oldValue, new: newValue };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Build the activity record of an audit event with the actor and origin of the request
+ */
+export function auditEvent(req: Request, event: AuditEvent): InsertActivity {
+  return {
+    userId: event.actorId !== undefined ? event.actorId : req.user?.id ?? null,
+    action: event.action,
+    description: event.description,
+    entityType: event.entityType ?? null,
+    entityId: event.entityId !== undefined && event.entityId !== null ? String(event.entityId) : null,
+    changes: event.changes ?? null,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get("user-agent") ?? null,
+    requestId: req.requestId ?? null,
+  };
+}
+
+/**
+ * Record an audit event for a request
+ */
+export function recordAudit(req: Request, event: AuditEvent): Promise<Activity> {
+  return storage.createActivity(auditEvent(req, event));
+}
@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+import { AuditChainBreak, type Activity, type AuditChainBreakType } from "@shared/schema";
+
+// Stands in for the previous hash of the first sealed entry
+export const GENESIS_HASH = "0".repeat(64);
+
+// Everything about an entry that its hash covers
+export type SealedContent = Omit<Activity, "id" | "prevHash" | "hash">;
+
+export interface ChainLinkBreak {
+  reason: AuditChainBreakType;
+  expectedHash: string;
+  actualHash: string | null;
+}
+
+/**
+ * Raised when something tries to rewrite or remove an audit log entry
+ */
+export class AuditLogImmutableError extends Error {
+  constructor(operation: "update" | "delete") {
+    super(`Audit log entries cannot be ${operation === "update" ? "modified" : "deleted"}`);
+    this.name = "AuditLogImmutableError";
+  }
+}
+
+/**
+ * Rebuild a JSON value with object keys sorted, so the same content always serializes the same way.
+ * jsonb columns do not keep key order, and dates inside them come back as strings.
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * SHA-256 of an entry's content chained to the hash of the entry before it
+ */
+export function hashActivity(entry: SealedContent, prevHash: string): string {
+  const content = canonicalize({
+    userId: entry.userId ?? null,
+    action: entry.action,
+    description: entry.description,
+    entityType: entry.entityType ?? null,
+    entityId: entry.entityId ?? null,
+    changes: entry.changes ? JSON.parse(JSON.stringify(entry.changes)) : null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    requestId: entry.requestId ?? null,
+    timestamp: new Date(entry.timestamp).toISOString(),
+  });
+
+  return createHash("sha256")
+    .update(prevHash)
+    .update(JSON.stringify(content))
+    .digest("hex");
+}
+
+/**
+ * Check one link of the chain: the entry must point at the previous entry's hash
+ * and its content must still hash to what was recorded. Returns null when the link holds.
+ */
+export function checkChainLink(entry: Activity, expectedPrevHash: string): ChainLinkBreak | null {
+  if (!entry.hash) {
+    return { reason: AuditChainBreak.UNSEALED, expectedHash: expectedPrevHash, actualHash: null };
+  }
+  if (entry.prevHash !== expectedPrevHash) {
+    return { reason: AuditChainBreak.PREVIOUS_HASH_MISMATCH, expectedHash: expectedPrevHash, actualHash: entry.prevHash };
+  }
+
+  const expectedHash = hashActivity(entry, expectedPrevHash);
+  if (entry.hash !== expectedHash) {
+    return { reason: AuditChainBreak.HASH_MISMATCH, expectedHash, actualHash: entry.hash };
+  }
+
+  return null;
+}
@@ -0,0 +1,192 @@
+import type { Response } from "express";
+import type { Writable } from "stream";
+import { finished } from "stream/promises";
+import PDFDocument from "pdfkit";
+import { format } from "date-fns";
+import { AuditExportFormat, type ActivityWithActor, type AuditExportFormatType } from "@shared/schema";
+import { csvLine, UTF8_BOM } from "./csv";
+import { drained } from "./streams";
+
+// A filter applied to the export, as shown to the reader
+export interface ExportCriterion {
+  label: string;
+  value: string;
+}
+
+export interface ExportContext {
+  criteria: ExportCriterion[];
+  generatedAt: Date;
+  exportedBy: string;
+}
+
+const contentTypes: Record<AuditExportFormatType, string> = {
+  [AuditExportFormat.CSV]: "text/csv; charset=utf-8",
+  [AuditExportFormat.NDJSON]: "application/x-ndjson; charset=utf-8",
+  [AuditExportFormat.PDF]: "application/pdf",
+};
+
+const csvColumns: { header: string; value: (entry: ActivityWithActor) => unknown }[] = [
+  { header: "ID", value: (entry) => entry.id },
+  { header: "Timestamp", value: (entry) => new Date(entry.timestamp).toISOString() },
+  { header: "Actor Username", value: (entry) => entry.user?.username },
+  { header: "Actor Name", value: (entry) => entry.user?.fullName },
+  { header: "Action", value: (entry) => entry.action },
+  { header: "Entity Type", value: (entry) => entry.entityType },
+  { header: "Entity ID", value: (entry) => entry.entityId },
+  { header: "Description", value: (entry) => entry.description },
+  { header: "Changes", value: (entry) => (entry.changes ? JSON.stringify(entry.changes) : null) },
+  { header: "IP Address", value: (entry) => entry.ipAddress },
+  { header: "User Agent", value: (entry) => entry.userAgent },
+  { header: "Request ID", value: (entry) => entry.requestId },
+  { header: "Hash", value: (entry) => entry.hash },
+];
+
+// Table layout of the PDF report, in points on a landscape A4 page
+const PDF_MARGIN = 40;
+const pdfColumns: { header: string; width: number; value: (entry: ActivityWithActor) => string }[] = [
+  { header: "Time", width: 105, value: (entry) => format(new Date(entry.timestamp), "dd MMM yyyy HH:mm:ss") },
+  { header: "Actor", width: 115, value: (entry) => entry.user ? `${entry.user.fullName} (${entry.user.username})` : "System" },
+  { header: "Action", width: 120, value: (entry) => entry.action.replace(/_/g, " ") },
+  { header: "Target", width: 90, value: (entry) => entry.entityType ? `${entry.entityType.replace(/_/g, " ")} #${entry.entityId}` : "" },
+  { header: "Description", width: 332, value: (entry) => entry.description },
+];
+
+/**
+ * The standard PDF fonts only cover Latin-1: spell out arrows and replace anything else
+ */
+function pdfText(text: string): string {
+  return text.replace(/→/g, "->").replace(/›/g, ">").replace(/[^\x00-\xff]/g, "?");
+}
+
+async function writeCsv(entries: AsyncIterable<ActivityWithActor>, out: Writable): Promise<number> {
+  let count = 0;
+  out.write(UTF8_BOM + csvLine(csvColumns.map(column => column.header)));
+  for await (const entry of entries) {
+    out.write(csvLine(csvColumns.map(column => column.value(entry))));
+    count++;
+    if (!(await drained(out))) {
+      break;
+    }
+  }
+  return count;
+}
+
+async function writeNdjson(entries: AsyncIterable<ActivityWithActor>, out: Writable): Promise<number> {
+  let count = 0;
+  for await (const entry of entries) {
+    out.write(JSON.stringify(entry) + "\n");
+    count++;
+    if (!(await drained(out))) {
+      break;
+    }
+  }
+  return count;
+}
+
+/**
+ * Render the report a page at a time: every page repeats the export's criteria and the table header
+ */
+async function writePdf(entries: AsyncIterable<ActivityWithActor>, out: Writable, context: ExportContext): Promise<number> {
+  const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: PDF_MARGIN });
+  doc.pipe(out);
+
+  const tableWidth = pdfColumns.reduce((sum, column) => sum + column.width, 0);
+  const criteria = context.criteria.length > 0
+    ? context.criteria.map(criterion => `${criterion.label}: ${criterion.value}`).join("   |   ")
+    : "All entries";
+  let pageNumber = 0;
+
+  const drawRow = (cells: string[], font: string) => {
+    doc.font(font).fontSize(8);
+    const top = doc.y;
+    let x = PDF_MARGIN;
+    let height = 0;
+    cells.forEach((cell, index) => {
+      const width = pdfColumns[index].width - 6;
+      doc.text(pdfText(cell), x, top, { width });
+      height = Math.max(height, doc.heightOfString(pdfText(cell), { width }));
+      x += pdfColumns[index].width;
+    });
+    doc.x = PDF_MARGIN;
+    doc.y = top + height + 4;
+    doc.moveTo(PDF_MARGIN, doc.y - 2).lineTo(PDF_MARGIN + tableWidth, doc.y - 2).lineWidth(0.5).strokeColor("#cbd5e1").stroke();
+  };
+
+  const startPage = () => {
+    pageNumber++;
+    doc.font("Helvetica-Bold").fontSize(14).fillColor("#0f172a").text("Audit Log Extract", PDF_MARGIN, PDF_MARGIN);
+    doc.font("Helvetica").fontSize(8).fillColor("#475569");
+    doc.text(pdfText(`Filters: ${criteria}`), { width: tableWidth });
+    doc.text(pdfText(`Generated ${format(context.generatedAt, "dd MMM yyyy, HH:mm:ss")} by ${context.exportedBy}`));
+    const tableTop = doc.y + 12;
+
+    // The footer sits in the bottom margin, which text would otherwise overflow into a new page
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.text(`Page ${pageNumber}`, PDF_MARGIN, doc.page.height - PDF_MARGIN + 10, { width: tableWidth, align: "right" });
+    doc.page.margins.bottom = bottom;
+
+    doc.x = PDF_MARGIN;
+    doc.y = tableTop;
+    doc.fillColor("#0f172a");
+    drawRow(pdfColumns.map(column => column.header), "Helvetica-Bold");
+  };
+
+  startPage();
+  let count = 0;
+  for await (const entry of entries) {
+    const cells = pdfColumns.map(column => column.value(entry));
+    doc.font("Helvetica").fontSize(8);
+    const height = Math.max(...cells.map((cell, index) =>
+      doc.heightOfString(pdfText(cell), { width: pdfColumns[index].width - 6 })
+    ));
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+      startPage();
+    }
+    drawRow(cells, "Helvetica");
+    count++;
+    if (!(await drained(out))) {
+      break;
+    }
+  }
+
+  if (count === 0) {
+    doc.font("Helvetica").fontSize(9).text("No audit entries match these filters.", PDF_MARGIN, doc.y + 6);
+  }
+
+  doc.end();
+  // Also settles when the client went away, before or while the document is flushed
+  await finished(out).catch(() => undefined);
+  return count;
+}
+
+/**
+ * Stream matching audit entries to the response as a download, one page of entries in memory at a time.
+ * Returns how many entries were written.
+ */
+export async function exportActivities(
+  res: Response,
+  exportFormat: AuditExportFormatType,
+  entries: AsyncIterable<ActivityWithActor>,
+  context: ExportContext
+): Promise<number> {
+  const filename = `audit-log-${format(context.generatedAt, "yyyyMMdd-HHmmss")}.${exportFormat}`;
+  res.setHeader("Content-Type", contentTypes[exportFormat]);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+  switch (exportFormat) {
+    case AuditExportFormat.CSV: {
+      const count = await writeCsv(entries, res);
+      res.end();
+      return count;
+    }
+    case AuditExportFormat.NDJSON: {
+      const count = await writeNdjson(entries, res);
+      res.end();
+      return count;
+    }
+    case AuditExportFormat.PDF:
+      return writePdf(entries, res, context);
+  }
+}
@@ -2,19 +2,62 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { Express } from "express";
 import session from "express-session";
-import { createHash } from "crypto";
 import { storage } from "./storage";
-import { User as SelectUser, UserRole, UserStatus } from "@shared/schema";
+import { verifyPassword, needsRehash } from "./password";
+import { auditEvent, diffFields, recordAudit } from "./audit";
+import { findInvitationByToken } from "./invitations";
+import { AppUrlError, appUrl } from "./mail";
+import {
+  findPasswordReset, startPasswordReset,
+  forgotPasswordAccountLimiter, forgotPasswordIpLimiter, resetPasswordIpLimiter
+} from "./passwordReset";
+import { User as SelectUser, UserRole, UserStatus, AuditEntity, insertUserSchema, type UserRoleType } from "@shared/schema";
+import { can, type PermissionKey } from "@shared/permissions";
+import { reportingRoleFor } from "@shared/org-chart";
+import { LoginBlockedMessages } from "@shared/user-lifecycle";
+import { z } from "zod";
+
+const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+// What a self-registrant may provide; the role, organization and status are decided by the server
+const registerSchema = insertUserSchema.pick({ username: true, fullName: true, email: true }).extend({
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  // The manager who approves the new account
+  managerUsername: z.string().trim().optional(),
+});
+
+// Accounts registered without a manager start with the least privileged role, outside any organization
+const DEFAULT_REGISTRATION_ROLE = UserRole.MEDICAL_REPRESENTATIVE;
+
+const forgotPasswordSchema = z.object({
+  // Username or email address
+  identifier: z.string().trim().min(1),
+});
+
+const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+const invitationAcceptSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
 
 declare global {
   namespace Express {
-    interface User extends SelectUser {}
+    interface User extends SelectUser {
+      permissions: PermissionKey[];
+    }
   }
 }
 
-// Simple password hashing function matching storage.ts implementation
-function hashPassword(password: string): string {
-  return createHash('sha256').update(password).digest('hex');
+// Attach the permissions granted to the user's role
+async function withPermissions(user: SelectUser): Promise<Express.User> {
+  return { ...user, permissions: await storage.getPermissionsForRole(user.role) };
 }
 
 export function setupAuth(app: Express) {
@@ -44,15 +87,24 @@ export function setupAuth(app: Express) {
           return done(null, false);
         }
         
-        // Check password - hash the provided password and compare with stored hash
-        const hashedPassword = hashPassword(password);
-        if (hashedPassword !== user.password) {
+        // Check password against the stored scrypt or legacy SHA-256 hash
+        if (!(await verifyPassword(password, user.password))) {
           return done(null, false);
         }
         
-        // Password matches - update last login time and return user
-        await storage.updateUser(user.id, { lastLogin: new Date() });
-        return done(null, user);
+        // Only active users may sign in; the status is only revealed to someone who knows the password
+        const blocked = LoginBlockedMessages[user.status];
+        if (blocked) {
+          return done(null, false, { message: blocked });
+        }
+        
+        // Password matches - update last login time, upgrading outdated hashes
+        // (updateUser hashes the plain password with the current parameters)
+        const updatedUser = await storage.updateUser(user.id, {
+          lastLogin: new Date(),
+          ...(needsRehash(user.password) ? { password } : {})
+        });
+        return done(null, await withPermissions(updatedUser ?? user));
       } catch (error) {
         console.error("Authentication error:", error);
         return done(error);
@@ -64,12 +116,27 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Sessions end as soon as the user is no longer active
+      done(null, user && user.status === UserStatus.ACTIVE ? await withPermissions(user) : false);
     } catch (error) {
       done(error);
     }
   });
 
+  // A user who must choose a new password may only do that, read their own account or log out
+  const passwordChangePaths = ["/api/user", "/api/user/password", "/api/logout"];
+  app.use((req, res, next) => {
+    if (
+      req.path.startsWith("/api/") &&
+      req.isAuthenticated() &&
+      req.user.passwordResetRequired &&
+      !passwordChangePaths.includes(req.path)
+    ) {
+      return res.status(403).json({ message: "You must change your password before continuing" });
+    }
+    next();
+  });
+
   // Check if user is authenticated
   const isAuthenticated = (req: any, res: any, next: any) => {
     if (req.isAuthenticated()) {
@@ -78,14 +145,14 @@ export function setupAuth(app: Express) {
     res.status(401).json({ message: "Unauthorized" });
   };
 
-  // Check if user has specific role
-  const hasRole = (roles: string[]) => {
+  // Check if user's role holds a permission in the permission matrix
+  const hasPermission = (permission: PermissionKey) => {
     return (req: any, res: any, next: any) => {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      if (!roles.includes(req.user.role)) {
+      if (!can(req.user, permission)) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
@@ -96,61 +163,84 @@ export function setupAuth(app: Express) {
   // Auth routes
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const { managerUsername, ...userData } = registerSchema.parse(req.body);
+      const existingUser = await storage.getUserByUsername(userData.username, { includeDeleted: true });
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
       // Check email uniqueness
-      const existingEmail = Array.from((await storage.getAllUsers())).find(
-        u => u.email === req.body.email
-      );
+      const existingEmail = await storage.getUserByEmail(userData.email, { includeDeleted: true });
       if (existingEmail) {
         return res.status(400).json({ message: "Email already exists" });
       }
 
+      // Naming a manager places the new account below them, so that they can approve it
+      let placement: { role: UserRoleType; organizationId: number | null; managerId: number | null } = {
+        role: DEFAULT_REGISTRATION_ROLE,
+        organizationId: null,
+        managerId: null,
+      };
+      if (managerUsername) {
+        const manager = await storage.getUserByUsername(managerUsername);
+        const role = manager && manager.status === UserStatus.ACTIVE ? reportingRoleFor(manager.role) : undefined;
+        if (!manager || !role) {
+          return res.status(400).json({ message: `${managerUsername} cannot approve new accounts` });
+        }
+        placement = { role, organizationId: manager.organizationId, managerId: manager.id };
+      }
+
+      // New accounts wait for approval; createUser hashes the password
       const user = await storage.createUser({
-        ...req.body,
-        password: hashPassword(req.body.password),
-        status: UserStatus.ACTIVE
+        ...userData,
+        ...placement,
+        status: UserStatus.PENDING
       });
 
       // Log activity
-      await storage.createActivity({
-        userId: user.id,
+      await recordAudit(req, {
+        actorId: user.id,
         action: "REGISTER",
-        description: `User ${user.username} registered`
+        description: `User ${user.username} registered and is waiting for approval`,
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+        changes: diffFields(null, user),
       });
 
-      req.login(user, (err) => {
-        if (err) return next(err);
-        // Don't return the password hash
-        const { password, ...userWithoutPassword } = user;
-        res.status(201).json(userWithoutPassword);
-      });
+      // Don't return the password hash
+      const { password, ...userWithoutPassword } = user;
+      res.status(201).json(userWithoutPassword);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid registration", errors: error.errors });
+      }
       next(error);
     }
   });
 
   app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: any, user: SelectUser, info: any) => {
+    passport.authenticate("local", (err: any, user: Express.User, info: any) => {
       if (err) return next(err);
-      if (!user) return res.status(401).json({ message: "Invalid credentials" });
+      if (!user) return res.status(401).json({ message: info?.message ?? "Invalid credentials" });
       
       req.login(user, async (loginErr) => {
         if (loginErr) return next(loginErr);
         
-        // Log activity
-        await storage.createActivity({
-          userId: user.id,
-          action: "LOGIN",
-          description: `User ${user.username} logged in`
-        });
-        
-        // Don't return the password hash
-        const { password, ...userWithoutPassword } = user;
-        res.status(200).json(userWithoutPassword);
+        try {
+          // Log activity
+          await recordAudit(req, {
+            action: "LOGIN",
+            description: `User ${user.username} logged in`,
+            entityType: AuditEntity.USER,
+            entityId: user.id,
+          });
+          
+          // Don't return the password hash
+          const { password, ...userWithoutPassword } = user;
+          res.status(200).json(userWithoutPassword);
+        } catch (error) {
+          next(error);
+        }
       });
     })(req, res, next);
   });
@@ -159,26 +249,195 @@ export function setupAuth(app: Express) {
     const userId = req.user!.id;
     const username = req.user!.username;
     
-    req.logout((err) => {
+    req.logout(async (err) => {
       if (err) return next(err);
       
-      // Log activity
-      storage.createActivity({
-        userId,
-        action: "LOGOUT",
-        description: `User ${username} logged out`
+      try {
+        // Log activity
+        await recordAudit(req, {
+          actorId: userId,
+          action: "LOGOUT",
+          description: `User ${username} logged out`,
+          entityType: AuditEntity.USER,
+          entityId: userId,
+        });
+        
+        res.sendStatus(200);
+      } catch (error) {
+        next(error);
+      }
+    });
+  });
+
+  app.post("/api/user/password", isAuthenticated, async (req, res, next) => {
+    try {
+      const { currentPassword, newPassword } = passwordChangeSchema.parse(req.body);
+      const user = req.user!;
+
+      if (!(await verifyPassword(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+      if (await verifyPassword(newPassword, user.password)) {
+        return res.status(400).json({ message: "Choose a password different from the current one" });
+      }
+
+      // updateUser hashes the new password
+      await storage.updateUser(user.id, { password: newPassword, passwordResetRequired: false });
+
+      await recordAudit(req, {
+        action: "CHANGE_PASSWORD",
+        description: `User ${user.username} changed their password`,
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+        changes: user.passwordResetRequired
+          ? { passwordResetRequired: { old: true, new: false } }
+          : null,
       });
-      
+
       res.sendStatus(200);
-    });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password change", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Answers the same whether or not the account exists, so that it cannot be used to find accounts
+  app.post("/api/password/forgot", async (req, res, next) => {
+    try {
+      const { identifier } = forgotPasswordSchema.parse(req.body);
+      if (!forgotPasswordIpLimiter.attempt(req.ip ?? "")) {
+        return res.status(429).json({ message: "Too many requests. Try again later." });
+      }
+      // Checked before the account is looked up, so the answer still does not depend on it
+      appUrl();
+
+      const user = identifier.includes("@")
+        ? await storage.getUserByEmail(identifier)
+        : await storage.getUserByUsername(identifier);
+      // Only users who may sign in get a link; an account over its limit silently gets none
+      if (user && user.status === UserStatus.ACTIVE && forgotPasswordAccountLimiter.attempt(String(user.id))) {
+        // Not awaited, so that the response takes as long whether or not a link is sent;
+        // it logs its own failures, and the catch only guards against an unhandled rejection
+        startPasswordReset(req, user).catch((error) => {
+          console.error(`Failed to start the password reset of user ${user.id}:`, error);
+        });
+      }
+
+      res.status(202).json({
+        message: "If the account exists, a link to reset its password has been sent to its email address.",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Enter your username or email address", errors: error.errors });
+      }
+      if (error instanceof AppUrlError) {
+        return res.status(503).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/password/reset", async (req, res, next) => {
+    try {
+      if (!resetPasswordIpLimiter.attempt(req.ip ?? "")) {
+        return res.status(429).json({ message: "Too many attempts. Try again later." });
+      }
+
+      const { token, password: newPassword } = passwordResetSchema.parse(req.body);
+      const lookup = await findPasswordReset(token);
+      if ("error" in lookup) {
+        return res.status(400).json({ message: lookup.error });
+      }
+
+      const { reset, user } = lookup;
+      const updatedUser = await storage.resetPassword(reset.id, newPassword, () => auditEvent(req, {
+        actorId: user.id,
+        action: "RESET_PASSWORD",
+        description: `User ${user.username} reset their password from an emailed link`,
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+        changes: user.passwordResetRequired
+          ? { passwordResetRequired: { old: true, new: false } }
+          : null,
+      }));
+      if (!updatedUser) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired. Request a new one." });
+      }
+
+      res.sendStatus(200);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password reset", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Details shown on the page an invited user opens from their email
+  app.get("/api/invitation", async (req, res, next) => {
+    try {
+      const lookup = await findInvitationByToken(String(req.query.token ?? ""));
+      if ("error" in lookup) {
+        return res.status(410).json({ message: lookup.error });
+      }
+
+      const { invitation, user } = lookup;
+      res.json({
+        fullName: user.fullName,
+        username: user.username,
+        email: user.email,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The invited user chooses their password, which activates the account and signs them in
+  app.post("/api/invitation/accept", async (req, res, next) => {
+    try {
+      const { token, password: chosenPassword } = invitationAcceptSchema.parse(req.body);
+      const lookup = await findInvitationByToken(token);
+      if ("error" in lookup) {
+        return res.status(410).json({ message: lookup.error });
+      }
+
+      const { invitation, user } = lookup;
+      const activeUser = await storage.acceptInvitation(invitation.id, chosenPassword, accepted => auditEvent(req, {
+        actorId: user.id,
+        action: "ACCEPT_INVITATION",
+        description: `User ${user.username} accepted their invitation`,
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+        changes: diffFields(user, accepted),
+      }));
+      if (!activeUser) {
+        return res.status(410).json({ message: "This invitation link has already been used or has expired" });
+      }
+
+      req.login(await withPermissions(activeUser), (loginErr) => {
+        if (loginErr) return next(loginErr);
+
+        // Don't return the password hash
+        const { password, ...userWithoutPassword } = activeUser;
+        res.status(200).json(userWithoutPassword);
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invitation", errors: error.errors });
+      }
+      next(error);
+    }
   });
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     // Don't return the password hash
-    const { password, ...userWithoutPassword } = req.user as SelectUser;
+    const { password, ...userWithoutPassword } = req.user!;
     res.json(userWithoutPassword);
   });
 
-  return { isAuthenticated, hasRole };
+  return { isAuthenticated, hasPermission };
 }
\ No newline at end of file
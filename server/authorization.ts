@@ -0,0 +1,180 @@
+import { UserRole, UserStatus, type User, type InsertUser, type UserRoleType } from "@shared/schema";
+import { storage } from "./storage";
+import { type VisibilityScope } from "./db/scope";
+
+export type UserAction = "create" | "edit" | "deactivate" | "delete";
+
+export type AuthorizationResult =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+// The subset of user fields that decides whether a caller may manage a user
+type ScopedUser = Pick<User, "role" | "organizationId" | "managerId">;
+
+/**
+ * Roles each role is allowed to manage within the sales hierarchy
+ */
+const manageableRoles: Record<UserRoleType, UserRoleType[]> = {
+  [UserRole.SUPER_ADMIN]: Object.values(UserRole),
+  [UserRole.BUSINESS_UNIT_HEAD]: [
+    UserRole.REGIONAL_SALES_MANAGER,
+    UserRole.AREA_SALES_MANAGER,
+    UserRole.MEDICAL_REPRESENTATIVE,
+  ],
+  [UserRole.REGIONAL_SALES_MANAGER]: [
+    UserRole.AREA_SALES_MANAGER,
+    UserRole.MEDICAL_REPRESENTATIVE,
+  ],
+  [UserRole.AREA_SALES_MANAGER]: [UserRole.MEDICAL_REPRESENTATIVE],
+  [UserRole.MEDICAL_REPRESENTATIVE]: [],
+  [UserRole.DISTRIBUTOR_HEAD]: [UserRole.DISTRIBUTOR_EXECUTIVE],
+  [UserRole.DISTRIBUTOR_EXECUTIVE]: [],
+};
+
+// Field managers only manage the people below them in the managerId chain;
+// other managing roles manage their whole organization
+const chainScopedRoles: UserRoleType[] = [
+  UserRole.REGIONAL_SALES_MANAGER,
+  UserRole.AREA_SALES_MANAGER,
+];
+
+// Roles that see their whole organization rather than only their reporting subtree
+const organizationWideRoles: UserRoleType[] = [
+  UserRole.BUSINESS_UNIT_HEAD,
+  UserRole.DISTRIBUTOR_HEAD,
+  UserRole.DISTRIBUTOR_EXECUTIVE,
+];
+
+// Fields a user may not change on their own account
+const selfProtectedFields = ["role", "status", "organizationId", "managerId"] as const;
+
+function formatRole(role: string): string {
+  return role.replace(/_/g, " ");
+}
+
+function deny(reason: string): AuthorizationResult {
+  return { allowed: false, reason };
+}
+
+/**
+ * Get the roles a user with the given role may create and manage
+ */
+export function getManageableRoles(role: UserRoleType): UserRoleType[] {
+  return manageableRoles[role] ?? [];
+}
+
+/**
+ * Get the rows a user may see in list endpoints.
+ * Business unit heads see their whole pharma company, distributor users their own
+ * distributor and sales managers their reporting subtree.
+ */
+export function getVisibilityScope(user: User): VisibilityScope {
+  if (user.role === UserRole.SUPER_ADMIN) {
+    return { kind: "global" };
+  }
+
+  if (organizationWideRoles.includes(user.role) && user.organizationId !== null) {
+    return { kind: "organization", organizationId: user.organizationId };
+  }
+
+  return { kind: "subtree", rootUserId: user.id, organizationId: user.organizationId };
+}
+
+/**
+ * Check whether a manager id leads up to the given ancestor through the managerId chain
+ */
+export async function isInReportingChain(managerId: number | null | undefined, ancestorId: number): Promise<boolean> {
+  const visited = new Set<number>();
+  let currentId = managerId ?? null;
+
+  while (currentId !== null && !visited.has(currentId)) {
+    if (currentId === ancestorId) {
+      return true;
+    }
+    visited.add(currentId);
+    const manager = await storage.getUser(currentId);
+    currentId = manager?.managerId ?? null;
+  }
+
+  return false;
+}
+
+/**
+ * Check whether the actor may manage a user with the given role, organization and manager
+ */
+async function checkScope(actor: User, subject: ScopedUser): Promise<AuthorizationResult> {
+  if (!getManageableRoles(actor.role).includes(subject.role)) {
+    return deny(`A ${formatRole(actor.role)} cannot manage ${formatRole(subject.role)} users`);
+  }
+
+  if (subject.organizationId !== actor.organizationId) {
+    return deny("You can only manage users in your own organization");
+  }
+
+  if (chainScopedRoles.includes(actor.role) && !(await isInReportingChain(subject.managerId, actor.id))) {
+    return deny("You can only manage users who report to you");
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Decide whether the actor may create a user with the given data
+ */
+export async function canCreateUser(actor: User, data: InsertUser): Promise<AuthorizationResult> {
+  if (actor.role === UserRole.SUPER_ADMIN) {
+    return { allowed: true };
+  }
+
+  return checkScope(actor, {
+    role: data.role as UserRoleType,
+    organizationId: data.organizationId ?? null,
+    managerId: data.managerId ?? null,
+  });
+}
+
+/**
+ * Decide whether the actor may apply the given changes to the target user.
+ * Setting the status to INACTIVE is treated as a deactivation.
+ */
+export async function canUpdateUser(actor: User, target: User, changes: Partial<InsertUser>): Promise<AuthorizationResult> {
+  if (actor.role === UserRole.SUPER_ADMIN) {
+    return { allowed: true };
+  }
+
+  if (target.id === actor.id) {
+    const changedField = selfProtectedFields.find(
+      field => changes[field] !== undefined && changes[field] !== target[field]
+    );
+    return changedField
+      ? deny(`You cannot change the ${changedField} of your own account`)
+      : { allowed: true };
+  }
+
+  const action: UserAction =
+    changes.status === UserStatus.INACTIVE && target.status !== UserStatus.INACTIVE ? "deactivate" : "edit";
+
+  const current = await checkScope(actor, target);
+  if (!current.allowed) {
+    return deny(`Cannot ${action} ${target.username}: ${current.reason}`);
+  }
+
+  // The user must also remain within the actor's scope after the update
+  return checkScope(actor, {
+    role: (changes.role ?? target.role) as UserRoleType,
+    organizationId: changes.organizationId !== undefined ? changes.organizationId : target.organizationId,
+    managerId: changes.managerId !== undefined ? changes.managerId : target.managerId,
+  });
+}
+
+/**
+ * Decide whether the actor may delete the target user.
+ * Whether the actor's role may delete users at all is decided by the permission matrix.
+ */
+export async function canDeleteUser(actor: User, target: User): Promise<AuthorizationResult> {
+  if (actor.role === UserRole.SUPER_ADMIN) {
+    return { allowed: true };
+  }
+
+  return checkScope(actor, target);
+}
@@ -0,0 +1,24 @@
+/**
+ * Quote a CSV field when needed. Text that a spreadsheet would evaluate as a formula is prefixed
+ * with an apostrophe so opening the file cannot run anything.
+ */
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV line, ending with CRLF
+ */
+export function csvLine(values: unknown[]): string {
+  return values.map(csvField).join(",") + "\r\n";
+}
+
+// Written before the header so spreadsheets read the file as UTF-8
+export const UTF8_BOM = "\uFEFF";
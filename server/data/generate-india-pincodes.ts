@@ -0,0 +1,90 @@
+import { writeFileSync } from "fs";
+import { createRequire } from "module";
+import type { PostOffice } from "india-pincode";
+import { indiaLocations, type StateRecord } from "./india-locations";
+
+/**
+ * Writes india-pincodes.ts from the India Post all-India pincode directory of the india-pincode
+ * package. Run it with `npm run locations:generate` after upgrading that package.
+ */
+
+// The package's ES module build cannot find its data file, so load the CommonJS build
+const require = createRequire(import.meta.url);
+const { loadData } = require("india-pincode") as typeof import("india-pincode");
+
+// Cities made up of several postal districts, by state code and district
+const cityOfDistrict: Record<string, Record<string, string>> = {
+  KA: { "Bengaluru Urban": "Bengaluru" },
+  MH: { "Mumbai Suburban": "Mumbai" },
+};
+
+// Union territories that are a single city
+const cityOfState: Record<string, string> = {
+  DL: "Delhi",
+};
+
+/**
+ * "NORTH AND MIDDLE ANDAMAN" → "North and Middle Andaman"
+ */
+function titleCase(name: string): string {
+  return name.toLowerCase().replace(/\S+/g, (word, offset) =>
+    offset > 0 && (word === "and" || word === "of") ? word : word.charAt(0).toUpperCase() + word.slice(1)
+  );
+}
+
+// How well a post office stands for its pincode: the head office, then a delivery office,
+// then any other sub office. Branch offices are villages within the pincode.
+function officeRank(office: PostOffice): number {
+  if (office.officeType === "HO") return 0;
+  if (office.officeType === "PO") return office.delivery ? 1 : 2;
+  return 3;
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+}
+
+const stateByPostalName = new Map<string, StateRecord>(indiaLocations.map((record) => [record.postalName, record]));
+const officesByPincode = new Map<string, PostOffice[]>();
+for (const office of loadData()) {
+  if (!stateByPostalName.has(office.state)) {
+    continue;
+  }
+  officesByPincode.set(office.pincode, [...(officesByPincode.get(office.pincode) ?? []), office]);
+}
+
+// Each pincode belongs to the state of most of its post offices (a few straddle a border), and to
+// the district of its main post office
+const pincodesByDistrict = new Map<string, { state: StateRecord; district: string; pincodes: string[] }>();
+for (const [pincode, offices] of Array.from(officesByPincode.entries())) {
+  const state = stateByPostalName.get(mostCommon(offices.map((office) => office.state)))!;
+  const inState = offices.filter((office) => office.state === state.postalName);
+  const main = inState.sort((a, b) => officeRank(a) - officeRank(b) || a.area.localeCompare(b.area))[0];
+  const district = titleCase(main.district);
+
+  const key = `${state.code}|${district}`;
+  const entry = pincodesByDistrict.get(key) ?? { state, district, pincodes: [] };
+  entry.pincodes.push(pincode);
+  pincodesByDistrict.set(key, entry);
+}
+
+const rows = Array.from(pincodesByDistrict.values())
+  .sort((a, b) => a.state.code.localeCompare(b.state.code) || a.district.localeCompare(b.district))
+  .map(({ state, district, pincodes }) => {
+    const city = cityOfState[state.code] ?? cityOfDistrict[state.code]?.[district] ?? district;
+    const values = [state.code, district, city, pincodes.sort().join(" ")];
+    return `  [${values.map((value) => JSON.stringify(value)).join(", ")}],`;
+  });
+
+writeFileSync(new URL("./india-pincodes.ts", import.meta.url), [
+  "// Generated by generate-india-pincodes.ts from the India Post pincode directory; do not edit.",
+  "// One row per postal district: state code, district, city and the district's pincodes.",
+  "export const pincodeDirectory: [code: string, district: string, city: string, pincodes: string][] = [",
+  ...rows,
+  "];",
+  "",
+].join("\n"));
+
+console.log(`Wrote ${officesByPincode.size} pincodes in ${rows.length} districts`);
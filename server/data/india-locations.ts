@@ -0,0 +1,56 @@
+import { StateKind, type StateKindType } from "@shared/locations";
+
+/**
+ * Indian states and union territories.
+ *
+ * Their districts and pincodes are in india-pincodes.ts, generated from the India Post all-India
+ * pincode directory of the india-pincode package, which names states in `postalName`.
+ */
+export interface StateRecord {
+  code: string;
+  name: string;
+  kind: StateKindType;
+  postalName: string;
+}
+
+export const indiaLocations: StateRecord[] = [
+  // States
+  { code: "AP", name: "Andhra Pradesh", kind: StateKind.STATE, postalName: "ANDHRA PRADESH" },
+  { code: "AR", name: "Arunachal Pradesh", kind: StateKind.STATE, postalName: "ARUNACHAL PRADESH" },
+  { code: "AS", name: "Assam", kind: StateKind.STATE, postalName: "ASSAM" },
+  { code: "BR", name: "Bihar", kind: StateKind.STATE, postalName: "BIHAR" },
+  { code: "CT", name: "Chhattisgarh", kind: StateKind.STATE, postalName: "CHHATTISGARH" },
+  { code: "GA", name: "Goa", kind: StateKind.STATE, postalName: "GOA" },
+  { code: "GJ", name: "Gujarat", kind: StateKind.STATE, postalName: "GUJARAT" },
+  { code: "HR", name: "Haryana", kind: StateKind.STATE, postalName: "HARYANA" },
+  { code: "HP", name: "Himachal Pradesh", kind: StateKind.STATE, postalName: "HIMACHAL PRADESH" },
+  { code: "JH", name: "Jharkhand", kind: StateKind.STATE, postalName: "JHARKHAND" },
+  { code: "KA", name: "Karnataka", kind: StateKind.STATE, postalName: "KARNATAKA" },
+  { code: "KL", name: "Kerala", kind: StateKind.STATE, postalName: "KERALA" },
+  { code: "MP", name: "Madhya Pradesh", kind: StateKind.STATE, postalName: "MADHYA PRADESH" },
+  { code: "MH", name: "Maharashtra", kind: StateKind.STATE, postalName: "MAHARASHTRA" },
+  { code: "MN", name: "Manipur", kind: StateKind.STATE, postalName: "MANIPUR" },
+  { code: "ML", name: "Meghalaya", kind: StateKind.STATE, postalName: "MEGHALAYA" },
+  { code: "MZ", name: "Mizoram", kind: StateKind.STATE, postalName: "MIZORAM" },
+  { code: "NL", name: "Nagaland", kind: StateKind.STATE, postalName: "NAGALAND" },
+  { code: "OD", name: "Odisha", kind: StateKind.STATE, postalName: "ODISHA" },
+  { code: "PB", name: "Punjab", kind: StateKind.STATE, postalName: "PUNJAB" },
+  { code: "RJ", name: "Rajasthan", kind: StateKind.STATE, postalName: "RAJASTHAN" },
+  { code: "SK", name: "Sikkim", kind: StateKind.STATE, postalName: "SIKKIM" },
+  { code: "TN", name: "Tamil Nadu", kind: StateKind.STATE, postalName: "TAMIL NADU" },
+  { code: "TG", name: "Telangana", kind: StateKind.STATE, postalName: "TELANGANA" },
+  { code: "TR", name: "Tripura", kind: StateKind.STATE, postalName: "TRIPURA" },
+  { code: "UP", name: "Uttar Pradesh", kind: StateKind.STATE, postalName: "UTTAR PRADESH" },
+  { code: "UK", name: "Uttarakhand", kind: StateKind.STATE, postalName: "UTTARAKHAND" },
+  { code: "WB", name: "West Bengal", kind: StateKind.STATE, postalName: "WEST BENGAL" },
+
+  // Union territories
+  { code: "AN", name: "Andaman and Nicobar Islands", kind: StateKind.UNION_TERRITORY, postalName: "ANDAMAN AND NICOBAR ISLANDS" },
+  { code: "CH", name: "Chandigarh", kind: StateKind.UNION_TERRITORY, postalName: "CHANDIGARH" },
+  { code: "DH", name: "Dadra and Nagar Haveli and Daman and Diu", kind: StateKind.UNION_TERRITORY, postalName: "THE DADRA AND NAGAR HAVELI AND DAMAN AND DIU" },
+  { code: "DL", name: "Delhi", kind: StateKind.UNION_TERRITORY, postalName: "DELHI" },
+  { code: "JK", name: "Jammu and Kashmir", kind: StateKind.UNION_TERRITORY, postalName: "JAMMU AND KASHMIR" },
+  { code: "LA", name: "Ladakh", kind: StateKind.UNION_TERRITORY, postalName: "LADAKH" },
+  { code: "LD", name: "Lakshadweep", kind: StateKind.UNION_TERRITORY, postalName: "LAKSHADWEEP" },
+  { code: "PY", name: "Puducherry", kind: StateKind.UNION_TERRITORY, postalName: "PUDUCHERRY" },
+];
@@ -0,0 +1,752 @@
+// Generated by generate-india-pincodes.ts from the India Post pincode directory; do not edit.
+// One row per postal district: state code, district, city and the district's pincodes.
+export const pincodeDirectory: [code: string, district: string, city: string, pincodes: string][] = [
+  ["AN", "Nicobars", "Nicobars", "744301 744302 744303 744304"],
+  ["AN", "North and Middle Andaman", "North and Middle Andaman", "744201 744202 744203 744204 744205 744209 744210"],
+  ["AN", "South Andamans", "South Andamans", "744101 744102 744103 744104 744105 744106 744107 744112 744206 744207 744211"],
+  ["AP", "Alluri Sitharama Raju", "Alluri Sitharama Raju", "531024 531029 531077 531105 531111 531133 533284 533288 533295 533347 533348 533349 533350 533351 533428 533436 533483"],
+  ["AP", "Anakapalli", "Anakapalli", "531001 531011 531019 531021 531022 531023 531025 531026 531027 531028 531030 531032 531033 531034 531036 531055 531060 531075 531083 531113 531114 531116 531126"],
+  ["AP", "Anantapur", "Anantapur", "515001 515002 515003 515004 515005 515006 515303 515401 515402 515405 515408 515411 515413 515414 515415 515425 515435 515445 515455 515465 515611 515701 515711 515721 515722 515731 515741 515751 515761 515763 515765 515766 515767 515774 515775 515787 515801 515803 515812 515822 515832 515842 515863 515865 515867 515870 515871 515872"],
+  ["AP", "Annamayya", "Annamayya", "516105 517214 517235 517236 517277 517280 517291 517297 517299 517305 517319 517325 517326 517350 517351 517352 517370 517390 517391 517417 517418"],
+  ["AP", "Bapatla", "Bapatla", "522101 522102 522111 522113 522256 522257 522258 522259 522261 522262 522264 522265 522268 522301 522309 522310 522311 522312 522313 522314 522317 522318 522324 522325 522329 522341 523135 523155 523157 523165 523166 523167 523168 523169 523170 523171 523181 523184 523185 523187 523190 523201 523212 523213 523214 523260 523261 523301 523302 523303"],
+  ["AP", "Chittoor", "Chittoor", "517001 517002 517004 517112 517113 517123 517124 517125 517126 517127 517128 517129 517130 517131 517132 517167 517172 517192 517213 517234 517237 517247 517257 517401 517403 517408 517414 517415 517416 517419 517421 517422 517423 517424 517425 517426 517429 517432 517509 517541 517569 517582 517586 517590 517591 517592 517599 517642"],
+  ["AP", "East Godavari", "East Godavari", "533007 533101 533102 533103 533104 533105 533106 533107 533108 533124 533125 533126 533229 533253 533264 533285 533286 533287 533289 533290 533291 533292 533293 533294 533296 533339 533342 533343 533345 533352 533353 533354 533355 533451"],
+  ["AP", "Eluru", "Eluru", "521109 521111 521201 521202 521207 521211 521213 521214 521260 521286 521311 521312 521325 521329 521333 521340 521343 521344 521345 534001 534002 534003 534004 534005 534006 534007 534008 534195 534197 534198 534311 534312 534401 534425 534426 534427 534432 534435 534437 534442 534444 534447 534448 534449 534450 534451 534452 534455 534456 534460 534461 534462 534467 534475"],
+  ["AP", "Guntur", "Guntur", "522001 522002 522003 522004 522005 522006 522007 522008 522009 522015 522017 522018 522019 522034 522112 522124 522201 522202 522211 522212 522213 522235 522236 522237 522238 522239 522240 522241 522302 522303 522304 522305 522306 522307 522308 522315 522316 522330 522401 522438 522501 522502 522503 522508 522509 522510 522529"],
+  ["AP", "Kakinada", "Kakinada", "533001 533002 533003 533004 533005 533006 533016 533260 533297 533344 533401 533406 533407 533408 533429 533430 533431 533432 533433 533434 533435 533437 533440 533444 533445 533446 533447 533448 533449 533450 533460 533461 533462 533463 533468"],
+  ["AP", "Konaseema", "Konaseema", "533201 533210 533211 533212 533213 533214 533215 533216 533217 533218 533219 533220 533221 533222 533223 533228 533232 533233 533234 533235 533236 533237 533238 533239 533240 533241 533242 533244 533247 533248 533249 533250 533251 533252 533254 533255 533256 533261 533262 533263 533274 533305 533306 533307 533308 533309 533340 533341 533346 533464 533577"],
+  ["AP", "Krishna", "Krishna", "521001 521002 521003 521004 521101 521102 521105 521106 521107 521110 521120 521121 521122 521125 521126 521130 521131 521132 521133 521134 521135 521136 521137 521138 521139 521148 521149 521150 521151 521153 521156 521157 521158 521162 521163 521164 521165 521224 521235 521241 521245 521246 521247 521250 521256 521261 521263 521301 521320 521321 521322 521323 521324 521326 521327 521328 521330 521331 521332 521356 521366 521369 521390"],
+  ["AP", "Kurnool", "Kurnool", "518001 518002 518003 518004 518005 518006 518007 518010 518216 518217 518218 518225 518301 518302 518308 518313 518323 518333 518343 518344 518345 518346 518347 518348 518349 518350 518360 518380 518385 518390 518395 518396 518452 518462 518463 518464 518465 518466 518467"],
+  ["AP", "Nandyal", "Nandyal", "518101 518102 518112 518122 518123 518124 518134 518135 518145 518155 518165 518166 518176 518186 518196 518206 518220 518221 518222 518401 518405 518411 518412 518422 518432 518442 518468 518501 518502 518508 518510 518511 518512 518513 518523 518533 518543 518553 518563 518573 518583 518593 518594 518598 518599 518674"],
+  ["AP", "Ntr", "Ntr", "520001 520002 520003 520004 520007 520008 520010 520011 520012 520013 520015 521104 521108 521170 521175 521178 521180 521181 521182 521183 521184 521185 521190 521212 521215 521225 521226 521227 521228 521229 521230 521231 521401 521402 521403 521456 521457"],
+  ["AP", "Palnadu", "Palnadu", "522016 522020 522233 522234 522402 522403 522408 522409 522410 522411 522412 522413 522414 522415 522421 522426 522435 522436 522437 522439 522549 522601 522603 522611 522612 522613 522614 522615 522616 522617 522619 522626 522646 522647 522649 522657 522658 522659 522660 522661 522663"],
+  ["AP", "Parvathipuram Manyam", "Parvathipuram Manyam", "532440 532443 532456 532460 532462 535463 535501 535502 535521 535522 535524 535525 535526 535527 535534 535546 535547 535557 535591 535592 535593 535594"],
+  ["AP", "Prakasam", "Prakasam", "504346 523001 523002 523003 523101 523104 523105 523108 523109 523110 523111 523112 523113 523114 523115 523116 523117 523180 523182 523183 523186 523211 523223 523224 523225 523226 523227 523228 523230 523240 523241 523245 523246 523247 523252 523253 523254 523262 523263 523264 523265 523270 523271 523272 523273 523274 523279 523280 523281 523286 523291 523292 523304 523305 523315 523316 523320 523326 523327 523328 523329 523330 523331 523332 523333 523334 523335 523336 523346 523356 523357 523367 523368 523369 523370 523371 523372 523373"],
+  ["AP", "Spsr Nellore", "Spsr Nellore", "524001 524002 524003 524004 524005 524126 524131 524137 524142 524152 524201 524203 524221 524222 524223 524224 524225 524226 524227 524228 524230 524234 524236 524239 524240 524300 524302 524303 524304 524305 524306 524307 524308 524309 524310 524311 524312 524313 524314 524315 524316 524317 524318 524319 524320 524321 524322 524323 524324 524341 524342 524343 524344 524345 524346 524347 524366 524402 524405 524407 524408 524409 524414"],
+  ["AP", "Sri Sathya Sai", "Sri Sathya Sai", "515101 515110 515122 515123 515124 515133 515134 515144 515154 515159 515164 515201 515202 515211 515212 515231 515241 515251 515261 515271 515281 515286 515291 515301 515305 515311 515321 515331 515341 515501 515511 515521 515531 515541 515551 515556 515561 515571 515581 515591 515601 515621 515631 515641 515651 515661 515671 515672"],
+  ["AP", "Srikakulam", "Srikakulam", "532001 532005 532122 532123 532127 532148 532167 532168 532185 532186 532187 532190 532195 532201 532203 532204 532207 532211 532212 532213 532214 532215 532216 532218 532219 532220 532221 532222 532242 532243 532263 532264 532284 532290 532291 532292 532312 532322 532401 532402 532403 532404 532405 532406 532407 532408 532409 532410 532421 532425 532426 532427 532428 532429 532430 532432 532445 532455 532457 532458 532459 532461 532474 532484"],
+  ["AP", "Tirupati", "Tirupati", "517101 517102 517152 517193 517194 517501 517502 517503 517504 517505 517506 517507 517508 517520 517526 517536 517551 517561 517571 517581 517583 517584 517587 517588 517589 517619 517620 517640 517641 517643 517644 517645 517646 524101 524121 524123 524124 524127 524129 524132 524134 524401 524403 524404 524406 524410 524411 524412 524413 524415 524421"],
+  ["AP", "Visakhapatanam", "Visakhapatanam", "530001 530002 530003 530004 530005 530007 530008 530009 530011 530012 530013 530014 530015 530016 530017 530018 530020 530022 530024 530026 530027 530028 530029 530031 530032 530040 530041 530043 530044 530045 530046 530047 530048 530049 530051 530052 530053 530055 530056 530057 530058 530059 531002 531020 531031 531035 531040 531061 531081 531082 531084 531085 531087 531115 531117 531118 531127 531149 531151 531162 531163 531173 531219 535250"],
+  ["AP", "Vizianagaram", "Vizianagaram", "535001 535002 535003 535004 535005 535006 535101 535102 535124 535125 535126 535128 535145 535148 535160 535161 535183 535204 535213 535214 535215 535216 535217 535218 535220 535221 535240 535260 535270 535273 535280 535281 535523 535558 535559 535568 535569 535573 535578 535579 535580 535581 535582"],
+  ["AP", "West Godavari", "West Godavari", "534101 534102 534111 534112 534122 534123 534124 534126 534134 534145 534146 534156 534165 534166 534176 534186 534196 534199 534201 534202 534204 534206 534207 534208 534209 534210 534211 534215 534216 534217 534218 534222 534225 534227 534230 534235 534236 534237 534238 534239 534240 534243 534244 534245 534247 534250 534260 534265 534266 534267 534268 534269 534275 534280 534281 534301 534302 534305 534313 534315 534316 534318 534320 534324 534326 534327 534328 534329 534330 534331 534338 534340 534341 534342 534350 534406 534411 534416"],
+  ["AP", "Y.s.r.", "Y.s.r.", "516001 516002 516003 516004 516005 516101 516104 516107 516108 516110 516115 516126 516127 516128 516129 516130 516150 516151 516152 516162 516163 516172 516173 516175 516193 516203 516213 516214 516215 516216 516217 516218 516227 516228 516233 516237 516247 516257 516259 516267 516268 516269 516270 516289 516293 516309 516310 516311 516312 516321 516329 516330 516339 516349 516350 516355 516356 516359 516360 516361 516362 516380 516390 516391 516396 516401 516411 516421 516431 516432 516433 516434 516439 516444 516454 516464 516474 516484 516501 516502 516503 516504 516505"],
+  ["AR", "Anjaw", "Anjaw", "792104"],
+  ["AR", "Changlang", "Changlang", "792055 792056 792120 792121 792122 792123"],
+  ["AR", "Dibang Valley", "Dibang Valley", "792101"],
+  ["AR", "East Kameng", "East Kameng", "790102"],
+  ["AR", "East Siang", "East Siang", "791102 791103 791104"],
+  ["AR", "Kra Daadi", "Kra Daadi", "791118"],
+  ["AR", "Leparada", "Leparada", "791101"],
+  ["AR", "Lohit", "Lohit", "792001 792111"],
+  ["AR", "Longding", "Longding", "792131"],
+  ["AR", "Lower Dibang Valley", "Lower Dibang Valley", "792110"],
+  ["AR", "Lower Siang", "Lower Siang", "791125"],
+  ["AR", "Lower Subansiri", "Lower Subansiri", "791119 791120"],
+  ["AR", "Namsai", "Namsai", "792102 792103 792105"],
+  ["AR", "Pakke Kessang", "Pakke Kessang", "790103"],
+  ["AR", "Papum Pare", "Papum Pare", "791004 791109 791110 791111 791112 791113 791114 791121 791123 792124"],
+  ["AR", "Shi Yomi", "Shi Yomi", "791003"],
+  ["AR", "Tawang", "Tawang", "790104 790105 790106"],
+  ["AR", "Tirap", "Tirap", "792129 792130"],
+  ["AR", "Upper Siang", "Upper Siang", "791002 791105"],
+  ["AR", "Upper Subansiri", "Upper Subansiri", "791122"],
+  ["AR", "West Kameng", "West Kameng", "790001 790002 790003 790101 790114 790116"],
+  ["AR", "West Siang", "West Siang", "791001"],
+  ["AS", "Bajali", "Bajali", "781325 781326 781328 781375"],
+  ["AS", "Baksa", "Baksa", "781320 781327 781330 781333 781343 781344 781346 781360 781364 781366 781367 781368 781372 781373 781376 781377"],
+  ["AS", "Barpeta", "Barpeta", "781301 781302 781305 781307 781308 781309 781311 781313 781314 781315 781316 781317 781318 781319 781321 781329 781352"],
+  ["AS", "Biswanath", "Biswanath", "784166 784167 784168 784169 784170 784171 784172 784173 784174 784175 784176 784177 784178 784179 784184 784189"],
+  ["AS", "Bongaigaon", "Bongaigaon", "783380 783381 783382 783383 783384 783388 783389 783391 783392"],
+  ["AS", "Cachar", "Cachar", "788001 788002 788003 788004 788005 788006 788007 788009 788010 788011 788013 788014 788015 788025 788026 788030 788031 788098 788099 788101 788102 788103 788104 788106 788107 788108 788109 788110 788111 788112 788113 788114 788115 788116 788117 788118 788119 788120 788121 788123 788126 788127 788804 788805 788815 788816 788817"],
+  ["AS", "Charaideo", "Charaideo", "785669 785670 785673 785688 785689 785690 785691 785692 785693 785698"],
+  ["AS", "Chirang", "Chirang", "783372 783373 783375 783385 783386 783390 783393 783394"],
+  ["AS", "Darrang", "Darrang", "784115 784116 784125 784144 784145 784146 784147 784148 784514 784529"],
+  ["AS", "Dhemaji", "Dhemaji", "787026 787034 787035 787057 787058 787059 787060 787061 787110"],
+  ["AS", "Dhubri", "Dhubri", "783301 783323 783324 783325 783330 783331 783333 783334 783335 783337 783339 783348 783349 783371"],
+  ["AS", "Dibrugarh", "Dibrugarh", "785675 785676 786001 786002 786003 786004 786006 786007 786008 786010 786012 786101 786102 786103 786184 786191 786602 786610 786611 786612 786613 786614 786621 786622 786623 786692"],
+  ["AS", "Dima Hasao", "Dima Hasao", "788818 788819 788820 788830 788831 788832 788931"],
+  ["AS", "Goalpara", "Goalpara", "783101 783120 783122 783123 783124 783125 783126 783129 783130 783132 783133 783134"],
+  ["AS", "Golaghat", "Golaghat", "785601 785602 785603 785609 785610 785611 785612 785613 785614 785615 785618 785619 785621 785622 785625 785626 785699 785702 785703 785705"],
+  ["AS", "Hailakandi", "Hailakandi", "788150 788151 788152 788155 788160 788161 788162 788163 788164 788165 788168 788738 788801 788802"],
+  ["AS", "Hojai", "Hojai", "782428 782429 782435 782439 782440 782442 782445 782446 782447"],
+  ["AS", "Jorhat", "Jorhat", "785001 785004 785006 785007 785008 785009 785010 785013 785014 785015 785101 785107 785108 785111 785112 785616 785630 785631 785632 785633 785634 785635 785636 785682 785700 785704"],
+  ["AS", "Kamrup", "Kamrup", "781030 781031 781039 781101 781102 781103 781104 781120 781121 781122 781123 781124 781125 781127 781128 781129 781132 781133 781134 781135 781136 781137 781141 781354 781365 781380 781381 781382"],
+  ["AS", "Kamrup Metro", "Kamrup Metro", "781001 781002 781003 781004 781005 781006 781007 781008 781009 781010 781011 781012 781013 781014 781015 781016 781017 781018 781019 781021 781022 781023 781024 781025 781026 781027 781028 781029 781032 781033 781034 781035 781036 781037 781038 781040 781150 781171 782401 782402 782403"],
+  ["AS", "Karbi Anglong", "Karbi Anglong", "782436 782441 782460 782461 782462 782470 782480 782481 782482 782490"],
+  ["AS", "Karimganj", "Karimganj", "788156 788166 788701 788709 788710 788711 788712 788713 788719 788720 788722 788723 788724 788725 788726 788727 788728 788733 788734 788735 788736 788737 788781 788803 788806"],
+  ["AS", "Kokrajhar", "Kokrajhar", "783332 783336 783345 783346 783347 783350 783354 783360 783361 783369 783370 783376"],
+  ["AS", "Lakhimpur", "Lakhimpur", "784160 784161 784163 784164 784165 787001 787023 787031 787032 787033 787051 787052 787053 787054 787055 787056"],
+  ["AS", "Majuli", "Majuli", "785102 785104 785105 785106 785110"],
+  ["AS", "Marigaon", "Marigaon", "782104 782105 782106 782121 782126 782127 782410 782411 782412 782413"],
+  ["AS", "Nagaon", "Nagaon", "782001 782002 782003 782101 782102 782103 782120 782122 782123 782124 782125 782128 782135 782136 782137 782138 782139 782140 782141 782142 782143 782144 782425 782426 782427 782450"],
+  ["AS", "Nalbari", "Nalbari", "781126 781138 781303 781304 781306 781310 781312 781334 781335 781337 781338 781339 781340 781341 781347 781348 781349 781350 781351 781353 781355 781369 781370 781371 781374 781378"],
+  ["AS", "Sivasagar", "Sivasagar", "785640 785661 785662 785663 785664 785665 785666 785667 785671 785672 785674 785680 785681 785683 785684 785685 785686 785687 785696 785697 785701"],
+  ["AS", "Sonitpur", "Sonitpur", "784001 784010 784025 784026 784027 784028 784101 784102 784103 784104 784105 784110 784111 784112 784117 784149 784150 784153 784154 784180 784182 784501 784502 784504 784505 784506"],
+  ["AS", "South Salmara Mancachar", "South Salmara Mancachar", "783127 783128 783131 783135 783136"],
+  ["AS", "Tinsukia", "Tinsukia", "786125 786126 786145 786146 786147 786148 786150 786151 786152 786153 786154 786155 786156 786157 786158 786159 786160 786170 786171 786173 786174 786179 786181 786182 786183 786187 786188 786189 786190 786192 786601"],
+  ["AS", "Udalguri", "Udalguri", "784113 784114 784190 784507 784508 784509 784510 784513 784521 784522 784523 784524 784525 784526 784527 784528"],
+  ["AS", "West Karbi Anglong", "West Karbi Anglong", "782448 782485 782486"],
+  ["BR", "Araria", "Araria", "854311 854312 854316 854318 854328 854329 854331 854332 854333 854334 854335 854336"],
+  ["BR", "Arwal", "Arwal", "804401 804402 804419 804421 804423 804426 804428 824127"],
+  ["BR", "Aurangabad", "Aurangabad", "804409 824101 824102 824103 824111 824112 824113 824114 824115 824120 824121 824122 824123 824124 824125 824126 824129 824143 824202 824203 824208 824301 824302 824303 824304"],
+  ["BR", "Banka", "Banka", "813101 813102 813103 813104 813105 813106 813107 813109 813110 813202 813207 813211 814131"],
+  ["BR", "Begusarai", "Begusarai", "848201 848202 848203 848204 851101 851110 851111 851112 851113 851114 851115 851116 851117 851118 851120 851121 851126 851127 851128 851129 851130 851131 851132 851133 851134 851135 851210 851211 851217 851218"],
+  ["BR", "Bhagalpur", "Bhagalpur", "812001 812002 812003 812004 812005 812006 812007 813108 813203 813204 813205 813206 813209 813210 813213 813214 813222 853201 853202 853203 853204 853205"],
+  ["BR", "Bhojpur", "Bhojpur", "802152 802154 802155 802156 802157 802158 802159 802160 802161 802162 802163 802164 802165 802166 802183 802201 802202 802203 802204 802205 802206 802207 802208 802209 802210 802222 802223 802224 802301 802302 802311 802312 802313 802314 802316 802351 802352"],
+  ["BR", "Buxar", "Buxar", "802101 802102 802103 802111 802112 802113 802114 802115 802116 802117 802118 802119 802120 802122 802123 802125 802126 802127 802128 802129 802130 802131 802133 802134 802135 802136"],
+  ["BR", "Darbhanga", "Darbhanga", "846001 846002 846003 846004 846005 846006 846007 846008 846009 846010 847101 847103 847104 847105 847106 847107 847115 847121 847123 847201 847202 847203 847204 847233 847301 847302 847303 847304 847306 847307 847337 847405 847407 847422 847423 847427 847428 847429 848213"],
+  ["BR", "Gaya", "Gaya", "804403 804404 804435 805128 805131 823001 823002 823003 823004 823005 823311 824116 824118 824201 824205 824206 824207 824209 824210 824211 824217 824219 824220 824221 824231 824232 824233 824234 824235 824236 824237"],
+  ["BR", "Gopalganj", "Gopalganj", "841405 841407 841409 841413 841420 841423 841425 841426 841427 841428 841436 841437 841438 841440 841441 841501 841503 841505 841508"],
+  ["BR", "Jamui", "Jamui", "811301 811303 811305 811307 811308 811312 811313 811314 811315 811316 811317"],
+  ["BR", "Jehanabad", "Jehanabad", "804405 804406 804407 804408 804417 804418 804420 804422 804424 804425 804427 804429 804432"],
+  ["BR", "Kaimur (bhabua)", "Kaimur (bhabua)", "802132 821101 821102 821103 821105 821106 821108 821109 821110"],
+  ["BR", "Katihar", "Katihar", "854101 854103 854104 854105 854106 854107 854108 854109 854110 854112 854113 854114 854115 854116 854117 854317 855102 855105 855113 855114"],
+  ["BR", "Khagaria", "Khagaria", "851201 851202 851203 851204 851205 851206 851212 851213 851214 851215 851216 852161"],
+  ["BR", "Kishanganj", "Kishanganj", "855101 855106 855107 855108 855115 855116 855117"],
+  ["BR", "Lakhisarai", "Lakhisarai", "811106 811112 811302 811309 811310 811311"],
+  ["BR", "Madhepura", "Madhepura", "852101 852108 852112 852113 852114 852115 852116 852121 852122 852128 852132 852213 852219 852220"],
+  ["BR", "Madhubani", "Madhubani", "847102 847108 847109 847122 847211 847212 847213 847214 847215 847222 847223 847224 847225 847226 847227 847228 847229 847230 847231 847232 847234 847235 847236 847238 847239 847240 847305 847308 847401 847402 847403 847404 847408 847409 847410 847411 847412 847421 847424"],
+  ["BR", "Munger", "Munger", "811201 811202 811211 811212 811213 811214 811306 813201 813212 813221"],
+  ["BR", "Muzaffarpur", "Muzaffarpur", "842001 842002 842003 842004 842005 842006 843101 843102 843103 843104 843105 843106 843107 843108 843109 843111 843112 843113 843115 843116 843117 843118 843119 843120 843121 843122 843123 843124 843125 843126 843127 843128 843129 843130 843131 843132 843312 843321 843360 844112 844120 844127"],
+  ["BR", "Nalanda", "Nalanda", "801301 801303 801306 801307 801308 803101 803107 803108 803109 803111 803113 803114 803115 803116 803117 803118 803119 803120 803121 803216 805105 811104"],
+  ["BR", "Nawada", "Nawada", "801302 805101 805102 805103 805104 805106 805107 805108 805109 805110 805111 805112 805113 805114 805121 805122 805123 805124 805125 805126 805127 805129 805130 805132 805141"],
+  ["BR", "Pashchim Champaran", "Pashchim Champaran", "845101 845103 845104 845105 845106 845107 845306 845307 845404 845438 845439 845449 845450 845451 845452 845453 845454 845455 845459"],
+  ["BR", "Patna", "Patna", "800001 800002 800003 800004 800005 800006 800007 800008 800009 800010 800011 800012 800013 800014 800015 800016 800017 800019 800020 800021 800022 800023 800024 800025 800026 800027 800028 800030 800031 800032 800034 800035 801102 801103 801104 801105 801106 801107 801108 801109 801110 801111 801112 801113 801304 801305 801503 801505 801506 801507 803110 803201 803202 803203 803211 803212 803213 803214 803215 803221 803301 803302 803303 803306 803307 804451 804452 804453"],
+  ["BR", "Purbi Champaran", "Purbi Champaran", "845301 845302 845303 845304 845305 845315 845401 845402 845405 845406 845411 845412 845413 845414 845415 845416 845417 845418 845419 845420 845422 845423 845424 845425 845426 845427 845428 845429 845430 845431 845432 845433 845434 845435 845436 845437 845440 845441 845456 845457 845458"],
+  ["BR", "Purnia", "Purnia", "854102 854201 854202 854203 854204 854205 854301 854302 854303 854304 854305 854306 854315 854325 854326 854327 854330 854337"],
+  ["BR", "Rohtas", "Rohtas", "802211 802212 802213 802214 802215 802216 802217 802218 802219 802220 802221 802226 821015 821104 821107 821111 821112 821113 821114 821115 821301 821302 821303 821304 821305 821306 821307 821308 821309 821310 821311 821312"],
+  ["BR", "Saharsa", "Saharsa", "852106 852107 852123 852124 852126 852127 852129 852201 852202 852212 852216 852217 852221"],
+  ["BR", "Samastipur", "Samastipur", "848101 848102 848103 848104 848113 848114 848115 848117 848121 848122 848125 848127 848129 848130 848131 848132 848133 848134 848160 848205 848206 848207 848208 848209 848210 848211 848216 848236 848301 848302 848501 848502 848503 848504 848505 848506"],
+  ["BR", "Saran", "Saran", "841101 841201 841202 841204 841205 841206 841207 841208 841209 841211 841212 841213 841214 841215 841216 841217 841218 841219 841220 841221 841222 841223 841224 841225 841301 841302 841305 841311 841312 841313 841316 841401 841402 841403 841410 841411 841412 841414 841415 841417 841418 841419 841421 841422 841424 841442 841443 841460"],
+  ["BR", "Sheikhpura", "Sheikhpura", "811101 811102 811103 811105 811107 811304"],
+  ["BR", "Sheohar", "Sheohar", "843329 843334 843335"],
+  ["BR", "Sitamarhi", "Sitamarhi", "843301 843302 843311 843313 843314 843315 843316 843317 843318 843319 843320 843322 843323 843324 843325 843326 843327 843328 843330 843331 843332 843333"],
+  ["BR", "Siwan", "Siwan", "841203 841210 841226 841227 841228 841231 841232 841233 841234 841235 841236 841237 841238 841239 841240 841241 841242 841243 841244 841245 841286 841287 841404 841406 841408 841416 841434 841435 841439 841446 841447 841502 841504 841506 841507 841509"],
+  ["BR", "Supaul", "Supaul", "847451 847452 852105 852109 852110 852111 852125 852130 852131 852133 852134 852137 852138 852139 852214 852215 852218 854338 854339 854340"],
+  ["BR", "Vaishali", "Vaishali", "843110 843114 844101 844102 844103 844111 844113 844114 844115 844116 844117 844118 844119 844121 844122 844123 844124 844125 844126 844128 844501 844502 844503 844504 844505 844506 844507 844508 844509"],
+  ["CH", "Chandigarh", "Chandigarh", "160001 160002 160003 160004 160006 160009 160011 160012 160014 160015 160017 160018 160019 160020 160022 160023 160025 160030 160036 160043 160047 160101 160102"],
+  ["CT", "Balod", "Balod", "491222 491223 491225 491226 491227 491228 491230 491771"],
+  ["CT", "Baloda Bazar", "Baloda Bazar", "492112 493101 493113 493118 493195 493196 493222 493228 493229 493331 493332 493335 493338 493344 493526 493559"],
+  ["CT", "Balrampur", "Balrampur", "497118 497119 497220 497224 497225"],
+  ["CT", "Bastar", "Bastar", "494442"],
+  ["CT", "Bemetara", "Bemetara", "491331 491332 491335 491337 491338 491340 491993"],
+  ["CT", "Bijapur", "Bijapur", "494450"],
+  ["CT", "Bilaspur", "Bilaspur", "495001 495003 495004 495006 495009 495112 495113 495116 495220 495222 495224 495330 495442 495550 495551 495555"],
+  ["CT", "Dantewada", "Dantewada", "494441 494449 494552 494553 494556"],
+  ["CT", "Dhamtari", "Dhamtari", "493662 493663 493770 493773 493776 493778"],
+  ["CT", "Durg", "Durg", "490001 490006 490009 490011 490020 490021 490022 490023 490024 490025 490026 490036 490042 491001 491002 491107 491111 491221 491888"],
+  ["CT", "Gariyaband", "Gariyaband", "492109 493885 493887 493888 493889 493890 493891 493992 493996"],
+  ["CT", "Gaurella Pendra Marwahi", "Gaurella Pendra Marwahi", "495117 495118 495119"],
+  ["CT", "Janjgir-champa", "Janjgir-champa", "495552 495553 495554 495556 495557 495559 495660 495661 495663 495668 495669 495671 495686 495687 495688 495689 495690 495691 495692 495695"],
+  ["CT", "Jashpur", "Jashpur", "496118 496220 496223 496224 496225 496227 496242 496245 496330 496331 496334 496336 496338"],
+  ["CT", "Kabirdham", "Kabirdham", "491336 491559 491995 491996"],
+  ["CT", "Kanker", "Kanker", "494635 494665 494669 494771 494776 494777"],
+  ["CT", "Kondagaon", "Kondagaon", "494220 494224 494226 494228 494229 494230 494237"],
+  ["CT", "Korba", "Korba", "495444 495445 495446 495447 495448 495449 495450 495452 495454 495455 495674 495677 495682 495683 495684"],
+  ["CT", "Korea", "Korea", "497331 497335 497339 497442 497446 497447 497448 497449 497450 497451 497553 497555 497557 497559 497773 497778"],
+  ["CT", "Mahasamund", "Mahasamund", "493445 493448 493449 493551 493554 493555 493558"],
+  ["CT", "Mungeli", "Mungeli", "495115 495334 495335"],
+  ["CT", "Narayanpur", "Narayanpur", "494661 494662"],
+  ["CT", "Raigarh", "Raigarh", "496001 496005 496100 496107 496108 496109 496111 496113 496115 496116 496440 496445 496450 496551 496554 496661 496665"],
+  ["CT", "Raipur", "Raipur", "334002 492001 492002 492003 492004 492005 492008 492009 492010 492012 492013 492014 492015 492016 492017 492018 492099 492101 493111 493114 493116 493221 493225 493441 493661 493881 494001 494010 494111 494114 494115 494221 494222 494223 494331 494332 494333 494334 494335 494336 494337 494347 494444 494446 494447 494448 494670"],
+  ["CT", "Rajnandgaon", "Rajnandgaon", "491229 491441 491443 491444 491445 491557 491558 491661 491665 491666 491668 491881 491885"],
+  ["CT", "Sukma", "Sukma", "494122"],
+  ["CT", "Surajpur", "Surajpur", "497223 497226 497229 497231 497235 497333"],
+  ["CT", "Surguja", "Surguja", "497001 497101 497111 497114 497116 497117"],
+  ["DH", "Dadra and Nagar Haveli", "Dadra and Nagar Haveli", "396230 396240"],
+  ["DH", "Daman", "Daman", "396210 396215 396220"],
+  ["DH", "Diu", "Diu", "362520 362540 362570"],
+  ["DL", "Central", "Delhi", "110002 110005 110007 110054 110055 110060 110084"],
+  ["DL", "East", "Delhi", "110091 110092 110096"],
+  ["DL", "New Delhi", "Delhi", "110001 110004 110010 110011 110021 110022 110023 110028 110037 110038 110046 110057 110066 110067 110069 110070 110102"],
+  ["DL", "North", "Delhi", "110006 110009 110033 110036 110039 110040 110042 110052 110082 110088 110106"],
+  ["DL", "North East", "Delhi", "110053 110090 110093 110094"],
+  ["DL", "North West", "Delhi", "110034 110035 110056 110081 110083 110085 110086 110089 110099 110110"],
+  ["DL", "Shahdara", "Delhi", "110031 110032 110051 110095 110151 110195"],
+  ["DL", "South", "Delhi", "110003 110013 110014 110016 110017 110019 110020 110024 110025 110029 110030 110044 110047 110048 110049 110062 110065 110068 110074 110076 110080 110124"],
+  ["DL", "South East", "Delhi", "110119"],
+  ["DL", "South West", "Delhi", "110045 110061 110071 110072 110073 110075 110077 110078 110097"],
+  ["DL", "West", "Delhi", "110008 110012 110015 110018 110026 110027 110041 110043 110058 110059 110063 110064 110087"],
+  ["GA", "North Goa", "North Goa", "403001 403002 403004 403005 403006 403101 403102 403104 403105 403106 403108 403109 403110 403114 403201 403202 403203 403204 403206 403402 403403 403501 403502 403503 403504 403505 403506 403507 403508 403509 403510 403511 403512 403513 403515 403516 403517 403521 403523 403524 403525 403526 403527 403529 403530"],
+  ["GA", "South Goa", "South Goa", "403103 403107 403115 403401 403404 403406 403409 403410 403601 403602 403701 403702 403703 403704 403705 403706 403707 403708 403709 403710 403711 403712 403713 403714 403715 403716 403717 403718 403719 403720 403721 403722 403723 403724 403725 403726 403728 403729 403731 403801 403802 403803 403804 403806"],
+  ["GJ", "Ahmadabad", "Ahmadabad", "380001 380002 380003 380004 380005 380006 380007 380008 380009 380013 380014 380015 380016 380018 380019 380021 380022 380023 380024 380026 380027 380028 380049 380050 380051 380052 380054 380055 380057 380058 380059 380060 380061 380063 382110 382115 382120 382130 382140 382145 382150 382170 382210 382213 382220 382225 382230 382240 382260 382265 382330 382340 382345 382350 382405 382415 382418 382424 382425 382427 382428 382430 382433 382435 382443 382445 382449 382455 382460 382463 382465 382470 382475 382480 382481"],
+  ["GJ", "Amreli", "Amreli", "364515 364521 364522 364525 364530 365220 365410 365421 365430 365435 365440 365450 365455 365456 365460 365480 365535 365540 365541 365550 365555 365560 365601 365610 365620 365630 365635 365640 365645 365650 365730"],
+  ["GJ", "Anand", "Anand", "387210 387220 387240 387310 388001 388110 388120 388130 388140 388150 388160 388170 388180 388205 388210 388215 388220 388305 388306 388307 388310 388315 388320 388325 388330 388335 388340 388345 388350 388355 388360 388365 388370 388410 388421 388430 388440 388450 388460 388465 388470 388480 388510 388520 388530 388540 388543 388545 388550 388560 388570 388580 388590 388610 388620 388625 388630 388640"],
+  ["GJ", "Arvalli", "Arvalli", "383245 383246 383250 383251 383260 383307 383310 383315 383316 383317 383320 383325 383330 383335 383340 383345 383350 383355"],
+  ["GJ", "Banas Kantha", "Banas Kantha", "385001 385010 385110 385120 385130 385135 385210 385310 385320 385330 385410 385421 385505 385506 385510 385515 385520 385530 385535 385540 385545 385550 385555 385560 385565 385566 385570 385575 385581"],
+  ["GJ", "Bharuch", "Bharuch", "391810 392001 392011 392012 392015 392020 392025 392030 392035 392040 392110 392130 392135 392140 392150 392155 392160 392165 392170 392180 392210 392215 392220 392230 392240 393001 393002 393010 393017 393020 393030 393105 393110 393115 393120 393125 393130 393135 394115 394120 394810"],
+  ["GJ", "Bhavnagar", "Bhavnagar", "364001 364002 364003 364004 364005 364006 364050 364060 364070 364081 364110 364120 364130 364135 364140 364145 364150 364210 364230 364240 364250 364260 364265 364270 364275 364280 364290 364295 364310 364313 364320 364330 364505 364510"],
+  ["GJ", "Botad", "Botad", "364710 364720 364730 364740 364750 364760 364765 382245 382250 382255 382450"],
+  ["GJ", "Chhotaudepur", "Chhotaudepur", "391125 391130 391135 391140 391145 391150 391152 391156 391160 391165 391168 391170"],
+  ["GJ", "Dang", "Dang", "394710 394715 394716 394720 394730"],
+  ["GJ", "Devbhumi Dwarka", "Devbhumi Dwarka", "360510 360515 361010 361305 361306 361310 361315 361320 361325 361330 361335 361345 361347 361350"],
+  ["GJ", "Dohad", "Dohad", "389130 389135 389140 389146 389151 389152 389154 389155 389160 389170 389172 389175 389180 389190 389380 389382"],
+  ["GJ", "Gandhinagar", "Gandhinagar", "382006 382007 382010 382016 382021 382028 382030 382041 382042 382045 382050 382055 382122 382305 382308 382315 382320 382321 382355 382419 382421 382422 382423 382426 382501 382610 382620 382630 382640 382650 382721 382722 382725 382729 382735 382740 382810 382835 382845 382855"],
+  ["GJ", "Gir Somnath", "Gir Somnath", "362140 362150 362265 362268 362269 362275 362510 362530 362550 362560 362565 362710 362715 362720"],
+  ["GJ", "Jamnagar", "Jamnagar", "360520 360530 360531 360540 361001 361002 361003 361004 361005 361006 361007 361008 361009 361011 361012 361013 361110 361120 361130 361140 361142 361150 361160 361162 361170 361210 361220 361230 361240 361250 361280 363655"],
+  ["GJ", "Junagadh", "Junagadh", "362001 362002 362011 362015 362020 362030 362037 362110 362120 362130 362135 362205 362215 362220 362222 362225 362226 362227 362240 362245 362250 362255 362260 362263 362310 362315 362610 362620 362625 362630 362640"],
+  ["GJ", "Kachchh", "Kachchh", "370001 370015 370020 370030 370040 370105 370110 370115 370130 370135 370140 370145 370150 370155 370160 370165 370201 370203 370205 370210 370230 370405 370410 370415 370421 370425 370427 370430 370435 370445 370450 370455 370460 370465 370475 370485 370490 370510 370601 370605 370610 370615 370620 370625 370627 370630 370641 370645 370650 370655 370660 370665 370670 370675"],
+  ["GJ", "Kheda", "Kheda", "387001 387002 387003 387105 387110 387115 387120 387130 387230 387305 387315 387320 387325 387330 387335 387340 387345 387350 387355 387360 387365 387370 387375 387380 387411 387430 387510 387520 387530 387540 387550 387560 387570 387610 387620 387630 387635 387640 387650 387710 388225 388230 388235 388239 388245 388250"],
+  ["GJ", "Mahesana", "Mahesana", "384001 384002 384003 384005 384012 384120 384130 384135 384140 384160 384170 384305 384310 384315 384320 384325 384330 384335 384340 384345 384355 384360 384410 384412 384415 384421 384430 384435 384440 384441 384445 384450 384455 384460 384465 384470 384515 384520 384530 384540 384550 384560 384565 384570"],
+  ["GJ", "Mahisagar", "Mahisagar", "388255 388260 388265 388270 389220 389230 389232 389235 389250 389260 389265"],
+  ["GJ", "Morbi", "Morbi", "363330 363351 363621 363623 363630 363641 363642 363643 363650 363660 363670"],
+  ["GJ", "Narmada", "Narmada", "391120 393025 393040 393041 393050 393140 393145 393150 393151"],
+  ["GJ", "Navsari", "Navsari", "396040 396060 396110 396310 396321 396325 396350 396360 396370 396380 396403 396406 396409 396412 396415 396418 396421 396427 396430 396433 396436 396439 396445 396450 396460 396463 396466 396469 396472 396475 396521 396530 396540 396560 396570 396580 396590"],
+  ["GJ", "Panch Mahals", "Panch Mahals", "388710 388713 389001 389002 389110 389115 389120 389210 389310 389320 389330 389340 389341 389350 389360 389365 389370 389390"],
+  ["GJ", "Patan", "Patan", "384110 384151 384220 384221 384225 384229 384230 384240 384241 384245 384246 384255 384260 384265 384266 384272 384275 384285 384290 385340 385350 385360"],
+  ["GJ", "Porbandar", "Porbandar", "360545 360550 360570 360575 360576 360577 360578 360579 360590 362230 362650"],
+  ["GJ", "Rajkot", "Rajkot", "360001 360002 360003 360004 360005 360006 360007 360020 360021 360022 360023 360024 360025 360026 360028 360030 360035 360040 360045 360050 360055 360060 360070 360110 360311 360320 360325 360330 360360 360370 360375 360380 360405 360410 360421 360430 360440 360450 360452 360460 360465 360470 360480 360485 360490"],
+  ["GJ", "Sabar Kantha", "Sabar Kantha", "383001 383002 383006 383010 383030 383110 383120 383205 383210 383215 383220 383225 383230 383235 383240 383255 383270 383275 383276 383305 383410 383421 383422 383430 383434 383440 383450 383460 383462"],
+  ["GJ", "Surat", "Surat", "394101 394105 394107 394110 394112 394125 394130 394140 394150 394155 394160 394163 394170 394180 394185 394190 394210 394221 394230 394235 394240 394245 394246 394248 394250 394270 394305 394310 394315 394317 394320 394325 394326 394327 394330 394335 394340 394345 394350 394352 394355 394405 394410 394421 394430 394440 394445 394510 394515 394516 394517 394518 394520 394530 394540 394550 394601 394620 395001 395002 395003 395004 395005 395006 395007 395008 395009 395010 395011 395012 395013 395017 395023 396510"],
+  ["GJ", "Surendranagar", "Surendranagar", "363001 363020 363030 363040 363110 363115 363310 363320 363410 363421 363423 363427 363430 363435 363440 363510 363520 363530 363745 363750 363755 363760 363765 363775 363780"],
+  ["GJ", "Tapi", "Tapi", "394365 394370 394375 394380 394630 394633 394635 394640 394641 394650 394651 394652 394655 394660 394670 394680 394690"],
+  ["GJ", "Vadodara", "Vadodara", "390001 390002 390003 390004 390006 390007 390009 390010 390011 390012 390013 390014 390016 390017 390018 390019 390020 390021 390022 390023 390024 390025 391101 391105 391107 391110 391115 391210 391220 391240 391243 391244 391250 391310 391320 391330 391340 391345 391350 391410 391421 391430 391440 391445 391450 391510 391520 391530 391740 391745 391750 391760 391761 391770 391774 391775 391776 391780 392310"],
+  ["GJ", "Valsad", "Valsad", "396001 396002 396007 396020 396030 396035 396045 396050 396051 396055 396065 396067 396105 396115 396120 396125 396126 396130 396135 396140 396145 396150 396155 396165 396170 396171 396180 396185 396191 396193 396195 396235 396375 396385"],
+  ["HP", "Bilaspur", "Bilaspur", "174001 174002 174003 174004 174005 174011 174012 174013 174015 174017 174021 174023 174024 174026 174027 174028 174029 174030 174031 174032 174033 174034 174035 174036 174201 174310"],
+  ["HP", "Chamba", "Chamba", "176207 176301 176302 176303 176304 176305 176306 176307 176308 176309 176310 176311 176312 176313 176314 176315 176316 176317 176318 176319 176320 176321 176323 176324 176325 176326 176330"],
+  ["HP", "Hamirpur", "Hamirpur", "174304 174305 174309 174311 174312 174405 174505 176039 176040 176041 176042 176043 176044 176045 176048 176049 176108 176109 176110 176111 177001 177005 177006 177007 177020 177021 177022 177023 177024 177025 177026 177027 177028 177029 177033 177038 177040 177041 177042 177044 177045 177048 177118 177119 177301 177401 177501 177601"],
+  ["HP", "Kangra", "Kangra", "176001 176002 176021 176022 176023 176025 176026 176027 176028 176029 176030 176031 176032 176033 176036 176037 176038 176047 176051 176052 176053 176054 176055 176056 176057 176058 176059 176060 176061 176062 176063 176064 176065 176066 176067 176071 176073 176075 176076 176077 176081 176082 176083 176084 176085 176086 176087 176088 176089 176091 176092 176093 176094 176095 176096 176097 176098 176101 176102 176103 176107 176115 176125 176128 176200 176201 176202 176203 176204 176205 176206 176208 176209 176210 176211 176214 176215 176216 176217 176218 176225 176401 176402 176403 176501 176502 177034 177043 177101 177103 177104 177105 177106 177107 177108 177111 177112 177113 177114 177117"],
+  ["HP", "Kinnaur", "Kinnaur", "172103 172104 172105 172106 172107 172108 172109 172110 172111 172112 172115 172116 172118"],
+  ["HP", "Kullu", "Kullu", "172002 172023 172025 172026 172032 172033 175101 175102 175103 175104 175105 175123 175125 175126 175128 175129 175130 175131 175134 175136 175138 175141 175143"],
+  ["HP", "Lahul and Spiti", "Lahul and Spiti", "172113 172114 172117 175132 175133 175139 175140 175142"],
+  ["HP", "Mandi", "Mandi", "175001 175002 175003 175004 175005 175006 175007 175008 175009 175010 175011 175012 175013 175014 175015 175016 175017 175018 175019 175020 175021 175022 175023 175024 175025 175026 175027 175028 175029 175030 175031 175032 175033 175034 175035 175036 175037 175038 175039 175040 175042 175045 175046 175047 175048 175049 175050 175051 175052 175075 175106 175121 175124 176090"],
+  ["HP", "Shimla", "Shimla", "171001 171002 171003 171004 171005 171006 171007 171008 171009 171010 171011 171012 171013 171014 171015 171018 171019 171103 171201 171202 171203 171204 171205 171206 171207 171208 171209 171210 171211 171212 171213 171214 171215 171216 171217 171218 171219 171220 171221 171222 171223 171224 171225 171226 171301 172001 172021 172022 172024 172027 172028 172029 172030 172031 172034 172101 172102 172201"],
+  ["HP", "Sirmaur", "Sirmaur", "173001 173021 173022 173023 173024 173025 173026 173027 173029 173030 173031 173032 173033 173101 173104"],
+  ["HP", "Solan", "Solan", "171102 173201 173202 173204 173205 173206 173207 173208 173209 173210 173211 173212 173213 173214 173215 173217 173218 173220 173221 173222 173223 173225 173229 173230 173233 173234 173235 173236 173237 174101 174102 174103"],
+  ["HP", "Una", "Una", "174301 174302 174303 174306 174307 174308 174314 174315 174316 174317 174319 174320 174321 174503 174507 176601 177031 177039 177109 177110 177201 177202 177203 177204 177205 177206 177207 177208 177209 177210 177211 177212 177213 177219 177220"],
+  ["HR", "Ambala", "Ambala", "133001 133004 133005 133006 133008 133010 133101 133102 133104 133201 133202 133203 133205 133207 134003 134005 134007 134008 134201 134202 134203"],
+  ["HR", "Bhiwani", "Bhiwani", "127021 127027 127028 127029 127030 127031 127032 127035 127040 127041 127043 127045 127046 127111 127114 127201 127309 127311"],
+  ["HR", "Charki Dadri", "Charki Dadri", "127022 127025 127026 127042 127306 127307 127308 127310 127312"],
+  ["HR", "Faridabad", "Faridabad", "121001 121002 121003 121004 121005 121006 121007 121008 121009 121010 121012 121013 121014 121015 121101"],
+  ["HR", "Fatehabad", "Fatehabad", "125048 125050 125051 125053 125106 125111 125120 125133"],
+  ["HR", "Gurugram", "Gurugram", "122001 122002 122003 122004 122005 122006 122007 122008 122009 122010 122011 122012 122015 122016 122017 122018 122051 122052 122098 122101 122102 122103 122413 122414 122502 122503 122504 122505 122506"],
+  ["HR", "Hisar", "Hisar", "125001 125004 125005 125006 125007 125011 125033 125037 125038 125039 125042 125044 125047 125049 125052 125061 125112 125113 125121"],
+  ["HR", "Jhajjar", "Jhajjar", "124102 124103 124104 124105 124106 124107 124108 124109 124141 124142 124146 124201 124202 124504 124505 124506 124507 124508"],
+  ["HR", "Jind", "Jind", "126101 126102 126110 126111 126112 126113 126114 126115 126116 126125 126152"],
+  ["HR", "Kaithal", "Kaithal", "136020 136021 136026 136027 136033 136034 136035 136042 136043 136044 136117"],
+  ["HR", "Karnal", "Karnal", "132001 132022 132023 132024 132036 132037 132039 132040 132041 132046 132054 132114 132116 132117 132157"],
+  ["HR", "Kurukshetra", "Kurukshetra", "136030 136038 136118 136119 136128 136129 136130 136131 136132 136134 136135 136136 136156"],
+  ["HR", "Mahendragarh", "Mahendragarh", "123001 123021 123023 123024 123027 123028 123029 123031 123034 123304"],
+  ["HR", "Nuh", "Nuh", "122104 122105 122107 122108 122508"],
+  ["HR", "Palwal", "Palwal", "121102 121103 121105 121106 121107"],
+  ["HR", "Panchkula", "Panchkula", "133301 133302 134101 134102 134103 134104 134105 134107 134108 134109 134112 134113 134114 134116 134117 134118 134204 134205"],
+  ["HR", "Panipat", "Panipat", "132101 132102 132103 132104 132105 132106 132107 132108 132113 132115 132122 132140 132145"],
+  ["HR", "Rewari", "Rewari", "123035 123101 123102 123103 123106 123110 123301 123302 123303 123401 123411 123412 123501"],
+  ["HR", "Rohtak", "Rohtak", "124001 124010 124021 124022 124111 124112 124113 124303 124401 124404 124406 124411 124412 124501 124513 124514 124515"],
+  ["HR", "Sirsa", "Sirsa", "125054 125055 125056 125058 125060 125075 125076 125077 125078 125101 125102 125103 125104 125110 125201"],
+  ["HR", "Sonipat", "Sonipat", "131001 131021 131022 131023 131024 131027 131028 131029 131030 131039 131101 131102 131103 131301 131302 131304 131305 131306 131402 131403 131408 131409"],
+  ["HR", "Yamunanagar", "Yamunanagar", "133103 133204 133206 135001 135002 135003 135004 135021 135101 135102 135103 135106 135133"],
+  ["JH", "Bokaro", "Bokaro", "825102 827001 827003 827004 827006 827009 827010 827012 827013 827014 827015 827016 827302 828134 828303 828403 828404 829104 829107 829111 829112 829113 829114 829115 829116 829121 829123 829127 829128 829129 829132 829144 829149 829301"],
+  ["JH", "Chatra", "Chatra", "825103 825321 825401 825403 825404 825408 825414 825415 829201"],
+  ["JH", "Deoghar", "Deoghar", "814112 814113 814114 814115 814116 814120 814142 814143 814146 814149 814150 814152 814157 815353 815357"],
+  ["JH", "Dhanbad", "Dhanbad", "818142 826001 826003 826004 826005 826006 826007 826008 826009 826010 826011 826012 826013 828101 828103 828104 828105 828106 828107 828108 828109 828110 828111 828112 828113 828114 828115 828116 828117 828119 828120 828121 828122 828123 828124 828125 828126 828127 828128 828129 828130 828131 828132 828133 828135 828142 828201 828202 828203 828204 828205 828206 828207 828301 828302 828304 828305 828306 828307 828309 828401 828402"],
+  ["JH", "Dumka", "Dumka", "814101 814102 814103 814110 814118 814119 814141 814144 814145 814148 814151 814158 814167 814168 814170 816118"],
+  ["JH", "East Singhbum", "East Singhbum", "831001 831002 831003 831004 831005 831006 831007 831009 831011 831012 831015 831016 831017 831019 831020 831021 832101 832102 832103 832104 832105 832106 832107 832111 832112 832113 832301 832302 832303 832304"],
+  ["JH", "Garhwa", "Garhwa", "822112 822114 822121 822125 822128 822129 822133 822134"],
+  ["JH", "Giridih", "Giridih", "815301 815302 815311 815312 815313 815314 815315 815316 815317 815318 825106 825108 825167 825320 825322 825324 825329 825412"],
+  ["JH", "Godda", "Godda", "814133 814147 814153 814154 814155 814156 814160 814165"],
+  ["JH", "Gumla", "Gumla", "835203 835206 835207 835208 835220 835224 835229 835230 835231 835232 835233"],
+  ["JH", "Hazaribagh", "Hazaribagh", "825301 825302 825303 825311 825312 825313 825315 825317 825319 825323 825336 825402 825405 825406 825411"],
+  ["JH", "Jamtara", "Jamtara", "814166 815351 815352 815354 815355 815359"],
+  ["JH", "Khunti", "Khunti", "835209 835210 835216 835227 835234"],
+  ["JH", "Koderma", "Koderma", "825109 825132 825318 825407 825409 825410 825413 825418 825421"],
+  ["JH", "Latehar", "Latehar", "822111 822119 829202 829203 829204 829206 829207 835218"],
+  ["JH", "Lohardaga", "Lohardaga", "835213 835302"],
+  ["JH", "Pakur", "Pakur", "814111 815117 816103 816104 816105 816106 816107 816117"],
+  ["JH", "Palamu", "Palamu", "822101 822102 822110 822113 822115 822116 822117 822118 822120 822122 822123 822124 822126 822131 822132"],
+  ["JH", "Ramgarh", "Ramgarh", "825101 825314 825316 825325 825326 825330 829101 829102 829103 829105 829106 829108 829109 829110 829117 829118 829119 829122 829125 829126 829130 829131 829133 829134 829135 829143 829150"],
+  ["JH", "Ranchi", "Ranchi", "829205 829208 829209 829210 834001 834002 834003 834004 834005 834006 834007 834008 834009 834010 834011 834012 834013 834014 835101 835102 835103 835202 835204 835205 835214 835215 835217 835219 835221 835222 835225 835301 835303 835325"],
+  ["JH", "Sahebganj", "Sahebganj", "813208 816101 816102 816108 816109 816110 816115 816116 816120 816129"],
+  ["JH", "Saraikela Kharsawan", "Saraikela Kharsawan", "831013 831014 832108 832109 832401 832402 832403 832404 833101 833216 833219 833220"],
+  ["JH", "Simdega", "Simdega", "835201 835211 835212 835223 835226 835228 835235"],
+  ["JH", "West Singhbhum", "West Singhbhum", "833102 833103 833104 833105 833106 833201 833202 833203 833204 833212 833213 833214 833215 833217 833218 833221 833222 833223"],
+  ["JK", "Anantnag", "Anantnag", "192101 192124 192125 192126 192129 192201 192202 192210 192211 192212 192221 192401"],
+  ["JK", "Bandipora", "Bandipora", "193501 193502 193503 193505"],
+  ["JK", "Baramulla", "Baramulla", "193101 193103 193108 193109 193121 193122 193123 193201 193301 193303 193402 193403 193404"],
+  ["JK", "Budgam", "Budgam", "190007 190014 190021 191111 191112 191113 191132 193401 193411"],
+  ["JK", "Doda", "Doda", "182129 182131 182147 182201 182202 182203 182207 182221 182222"],
+  ["JK", "Ganderbal", "Ganderbal", "191131 191201 191202 193504"],
+  ["JK", "Jammu", "Jammu", "180001 180002 180003 180004 180005 180006 180007 180009 180010 180011 180012 180013 180015 180016 180017 180018 180019 180020 181008 181101 181102 181111 181121 181122 181123 181124 181131 181132 181134 181143 181152 181201 181202 181203 181204 181205 181206 181207 181208 181221 181224 184210 185154"],
+  ["JK", "Kathua", "Kathua", "184101 184102 184104 184142 184143 184144 184145 184148 184151 184152 184201 184202 184203 184204 184205 184206"],
+  ["JK", "Kishtwar", "Kishtwar", "182132 182133 182134 182135 182136 182137 182138 182139 182140 182204 182205 182206"],
+  ["JK", "Kulgam", "Kulgam", "192231 192232 192233"],
+  ["JK", "Kupwara", "Kupwara", "193221 193222 193223 193224 193225 193302"],
+  ["JK", "Poonch", "Poonch", "185101 185102 185121 185211"],
+  ["JK", "Pulwama", "Pulwama", "191102 191103 192121 192122 192123 192301 192302 192304 192305 193306"],
+  ["JK", "Rajouri", "Rajouri", "185131 185132 185133 185135 185151 185152 185153 185155 185156 185201 185202 185212 185233 185234"],
+  ["JK", "Ramban", "Ramban", "182143 182144 182145 182146 182148"],
+  ["JK", "Reasi", "Reasi", "182301 182311 182312 182313 182315 182320 185203"],
+  ["JK", "Samba", "Samba", "181133 181141 181145 184120 184121 184141"],
+  ["JK", "Shopian", "Shopian", "192303"],
+  ["JK", "Srinagar", "Srinagar", "190001 190002 190003 190004 190005 190006 190008 190009 190010 190011 190012 190015 190017 190018 190019 190020 190023 190024 190025 190099 191101 191121"],
+  ["JK", "Udhampur", "Udhampur", "182101 182104 182121 182122 182124 182125 182126 182127 182128 182130 182141 182142 182161"],
+  ["KA", "Bagalkot", "Bagalkot", "587101 587102 587103 587104 587111 587112 587113 587114 587115 587116 587117 587118 587119 587120 587121 587122 587124 587125 587154 587155 587156 587157 587201 587202 587203 587204 587205 587206 587207 587301 587311 587312 587313 587314 587315 587316 587330 587331"],
+  ["KA", "Ballari", "Ballari", "583101 583102 583103 583104 583105 583111 583112 583113 583114 583115 583116 583117 583118 583119 583120 583121 583122 583123 583124 583128 583129 583132 583152 583153 583154 583155 583275"],
+  ["KA", "Belagavi", "Belagavi", "590001 590003 590005 590006 590008 590009 590010 590011 590014 590015 590016 590017 590018 590019 590020 591101 591102 591103 591104 591106 591107 591108 591109 591110 591111 591112 591113 591114 591115 591117 591118 591119 591120 591121 591122 591123 591124 591125 591126 591127 591128 591129 591130 591131 591136 591143 591147 591153 591156 591173 591201 591211 591212 591213 591214 591215 591216 591217 591218 591219 591220 591221 591222 591223 591224 591225 591226 591227 591228 591229 591230 591231 591232 591233 591234 591235 591236 591237 591238 591239 591240 591241 591242 591243 591244 591246 591247 591248 591254 591263 591265 591287 591301 591302 591303 591304 591305 591306 591307 591308 591309 591310 591311 591312 591313 591314 591315 591316 591317 591340 591344 591345 591346"],
+  ["KA", "Bengaluru Rural", "Bengaluru Rural", "560049 560117 561203 561204 561205 562110 562111 562114 562122 562123 562129 562132 562135 562163 562164 562165"],
+  ["KA", "Bengaluru Urban", "Bengaluru", "560001 560002 560003 560004 560005 560006 560007 560008 560009 560010 560011 560012 560013 560015 560016 560017 560018 560020 560021 560022 560023 560024 560025 560026 560027 560029 560030 560032 560033 560034 560035 560036 560037 560038 560040 560041 560042 560043 560045 560047 560048 560050 560051 560053 560054 560055 560056 560057 560058 560059 560060 560061 560062 560063 560064 560065 560066 560067 560068 560070 560071 560072 560073 560074 560075 560076 560077 560078 560079 560080 560081 560082 560083 560084 560085 560086 560087 560088 560089 560090 560091 560092 560093 560094 560095 560096 560097 560098 560099 560100 560102 560103 560104 560105 560107 560108 560109 560110 560111 560112 560113 560114 560115 560116 560119 560300 560500 562106 562107 562125 562130 562149 562157 562162"],
+  ["KA", "Bidar", "Bidar", "585226 585227 585326 585327 585328 585329 585330 585331 585353 585401 585402 585403 585404 585411 585412 585413 585414 585416 585417 585418 585419 585421 585436 585437 585443 585444 585445 585446 585447 585448"],
+  ["KA", "Chamarajanagara", "Chamarajanagara", "571109 571111 571115 571117 571123 571126 571127 571128 571313 571316 571320 571342 571439 571440 571441 571442 571443 571444 571457 571490"],
+  ["KA", "Chikkaballapura", "Chikkaballapura", "561206 561207 561208 561209 561210 561211 561212 561213 561228 562101 562102 562103 562104 562105 563123 563124 563125 563128 563146 563159"],
+  ["KA", "Chikkamagaluru", "Chikkamagaluru", "577101 577102 577111 577112 577113 577114 577116 577117 577120 577121 577122 577123 577124 577125 577126 577127 577128 577129 577130 577131 577132 577133 577134 577135 577136 577137 577138 577139 577140 577144 577145 577146 577160 577168 577175 577179 577180 577181 577182 577228 577547 577548 577549 577550"],
+  ["KA", "Chitradurga", "Chitradurga", "577501 577502 577511 577515 577517 577518 577519 577520 577522 577523 577524 577526 577527 577529 577531 577532 577533 577535 577536 577537 577538 577539 577540 577541 577542 577543 577545 577546 577554 577555 577557 577558 577596 577597 577598 577599"],
+  ["KA", "Dakshina Kannada", "Dakshina Kannada", "574109 574141 574142 574143 574144 574145 574146 574148 574150 574151 574153 574154 574162 574197 574198 574199 574201 574202 574203 574210 574211 574212 574213 574214 574216 574217 574218 574219 574220 574221 574222 574223 574224 574225 574226 574227 574228 574229 574230 574231 574232 574233 574235 574236 574237 574238 574239 574240 574241 574242 574243 574248 574253 574259 574260 574265 574267 574274 574279 574285 574313 574314 574323 574324 574325 574326 574327 574328 574509 575001 575002 575003 575004 575005 575006 575007 575008 575009 575010 575011 575013 575014 575015 575016 575017 575018 575019 575020 575022 575023 575025 575028 575029 575030"],
+  ["KA", "Davangere", "Davangere", "577001 577002 577003 577004 577005 577006 577007 577008 577009 577213 577215 577217 577218 577219 577221 577223 577224 577225 577230 577231 577512 577513 577514 577516 577521 577525 577528 577530 577534 577544 577551 577552 577553 577556 577566 577589 577601"],
+  ["KA", "Dharwad", "Dharwad", "580001 580002 580003 580004 580005 580006 580007 580008 580009 580011 580020 580021 580023 580024 580025 580026 580027 580028 580029 580030 580031 580032 580112 580114 580118 581103 581105 581107 581113 581117 581195 581196 581201 581204 581206 581207 581209 582201 582208"],
+  ["KA", "Gadag", "Gadag", "582101 582102 582103 582111 582112 582113 582114 582115 582116 582117 582118 582119 582120 582202 582203 582204 582205 582206 582207 582209 582210 582211"],
+  ["KA", "Hassan", "Hassan", "573101 573102 573103 573111 573112 573113 573115 573116 573117 573118 573119 573120 573121 573122 573123 573124 573125 573126 573127 573128 573129 573130 573131 573133 573134 573135 573136 573137 573141 573142 573144 573162 573164 573165 573201 573202 573210 573211 573212 573213 573214 573215 573216 573217 573218 573219 573220 573225 573226"],
+  ["KA", "Haveri", "Haveri", "581101 581102 581104 581106 581108 581109 581110 581111 581112 581115 581116 581118 581119 581120 581123 581126 581128 581145 581148 581193 581198 581199 581202 581203 581205 581208 581210 581211 581212 581213 581237"],
+  ["KA", "Kalaburagi", "Kalaburagi", "585101 585102 585103 585104 585105 585106 585107 585210 585211 585212 585213 585217 585218 585222 585225 585228 585229 585236 585265 585292 585301 585302 585303 585305 585306 585307 585308 585310 585311 585312 585313 585314 585316 585317 585318 585320 585322 585324 585325 585367"],
+  ["KA", "Kodagu", "Kodagu", "571201 571202 571211 571212 571213 571214 571215 571216 571217 571218 571219 571231 571232 571234 571235 571236 571237 571247 571248 571249 571250 571251 571252 571253 571254 574234"],
+  ["KA", "Kolar", "Kolar", "563101 563103 563113 563114 563115 563116 563117 563118 563119 563120 563121 563122 563126 563127 563129 563130 563131 563132 563133 563134 563135 563136 563137 563138 563139 563147 563157 563160 563161 563162 563163"],
+  ["KA", "Koppal", "Koppal", "583226 583227 583228 583229 583230 583231 583232 583233 583234 583235 583236 583237 583238 583268 583277 583278 583279 583280 583281 583282 583283 583284 583285 583286 583287 583288"],
+  ["KA", "Mandya", "Mandya", "571401 571402 571403 571404 571405 571415 571416 571417 571418 571419 571421 571422 571423 571424 571425 571426 571427 571428 571429 571430 571431 571432 571433 571434 571435 571436 571438 571445 571446 571448 571450 571455 571463 571475 571476 571477 571478 571605 571606 571607 571802 571807 571811 571812"],
+  ["KA", "Mysuru", "Mysuru", "570001 570002 570003 570004 570005 570006 570007 570008 570009 570010 570011 570012 570014 570015 570016 570017 570018 570019 570020 570022 570023 570025 570026 570027 570028 570029 570030 570031 570032 570033 570034 571101 571102 571103 571104 571105 571106 571107 571108 571110 571114 571116 571118 571119 571120 571121 571122 571124 571125 571129 571130 571134 571187 571189 571190 571301 571302 571311 571312 571314 571315 571601 571602 571603 571604 571610 571617"],
+  ["KA", "Raichur", "Raichur", "584101 584102 584103 584104 584111 584113 584115 584116 584118 584120 584122 584123 584124 584125 584126 584127 584128 584129 584132 584133 584134 584135 584136 584138 584139 584140 584143 584167 584170 584202 584203"],
+  ["KA", "Ramanagara", "Ramanagara", "561101 561201 562108 562109 562112 562117 562119 562120 562121 562126 562127 562128 562131 562138 562159 562160 562161 562166"],
+  ["KA", "Shivamogga", "Shivamogga", "577115 577201 577202 577203 577204 577205 577211 577214 577216 577220 577222 577226 577227 577229 577232 577233 577243 577245 577301 577302 577401 577411 577412 577413 577414 577415 577416 577417 577418 577419 577421 577422 577423 577424 577425 577426 577427 577428 577429 577430 577431 577432 577433 577434 577435 577436 577451 577452 577453"],
+  ["KA", "Tumakuru", "Tumakuru", "561202 572101 572102 572103 572104 572105 572106 572107 572111 572112 572113 572114 572115 572116 572117 572118 572119 572120 572121 572122 572123 572124 572125 572126 572127 572128 572129 572130 572132 572133 572134 572135 572136 572137 572138 572139 572140 572141 572142 572168 572175 572201 572211 572212 572213 572214 572215 572216 572217 572218 572219 572220 572221 572222 572223 572224 572225 572226 572227 572228"],
+  ["KA", "Udupi", "Udupi", "574101 574102 574103 574104 574105 574106 574107 574108 574110 574111 574112 574113 574114 574115 574116 574117 574118 574119 574122 574129 574244 576101 576102 576103 576104 576105 576106 576107 576108 576111 576112 576113 576114 576115 576117 576120 576121 576122 576124 576201 576210 576211 576212 576213 576214 576215 576216 576217 576218 576219 576220 576221 576222 576223 576224 576225 576226 576227 576228 576229 576230 576231 576232 576233 576234 576235 576247 576257 576282 576283"],
+  ["KA", "Uttara Kannada", "Uttara Kannada", "581121 581129 581186 581187 581301 581302 581303 581304 581306 581307 581308 581314 581315 581316 581317 581318 581319 581320 581321 581322 581323 581324 581325 581326 581327 581328 581329 581330 581331 581332 581333 581334 581335 581336 581337 581338 581339 581340 581341 581342 581343 581344 581345 581346 581347 581348 581349 581350 581351 581352 581353 581354 581355 581356 581357 581358 581359 581360 581361 581362 581363 581365 581384 581396 581400 581401 581402 581403 581411 581412 581421 581423 581440 581450 581453"],
+  ["KA", "Vijayapura", "Vijayapura", "586101 586103 586104 586108 586109 586111 586112 586113 586114 586115 586116 586117 586118 586119 586120 586121 586122 586123 586124 586125 586127 586128 586129 586130 586162 586170 586201 586202 586203 586204 586205 586206 586207 586208 586209 586210 586211 586212 586213 586214 586215 586216 586217"],
+  ["KA", "Vijaynagar", "Vijaynagar", "583125 583126 583127 583130 583131 583134 583135 583136 583137 583201 583203 583211 583212 583213 583214 583215 583216 583217 583218 583219 583220 583221 583222 583223 583224 583225 583239 583276"],
+  ["KA", "Yadgir", "Yadgir", "585201 585202 585214 585215 585216 585219 585220 585221 585223 585224 585237 585287 585290 585291 585304 585309 585315 585319 585321 585323 585355"],
+  ["KL", "Alappuzha", "Alappuzha", "686534 688001 688002 688003 688004 688005 688006 688007 688008 688009 688011 688013 688014 688501 688502 688503 688504 688505 688506 688521 688522 688523 688524 688525 688526 688527 688528 688529 688530 688531 688532 688533 688534 688535 688536 688537 688538 688539 688540 688541 688555 688561 688562 688563 688570 688582 689109 689121 689122 689123 689124 689126 689504 689505 689506 689508 689509 689510 689511 689512 689520 689521 689571 689572 689573 689574 689590 689595 689622 689623 689624 689627 690101 690102 690103 690104 690105 690106 690107 690108 690110 690112 690501 690502 690503 690504 690505 690506 690507 690508 690509 690510 690511 690512 690513 690514 690515 690516 690517 690527 690529 690530 690531 690532 690533 690534 690535 690537 690548 690558 690559 690571 690572"],
+  ["KL", "Ernakulam", "Ernakulam", "682001 682002 682003 682004 682005 682006 682007 682008 682009 682010 682011 682012 682013 682015 682016 682017 682018 682019 682020 682021 682022 682023 682024 682025 682026 682027 682028 682029 682030 682031 682032 682033 682034 682035 682036 682037 682038 682039 682040 682041 682042 682050 682051 682052 682301 682302 682303 682304 682305 682306 682307 682308 682309 682310 682311 682312 682313 682314 682315 682316 682317 682501 682502 682503 682504 682505 682506 682507 682508 682509 682511 683101 683102 683104 683105 683106 683108 683110 683111 683112 683501 683502 683503 683511 683512 683513 683514 683515 683516 683517 683518 683519 683520 683521 683522 683541 683542 683543 683544 683545 683546 683547 683548 683549 683550 683556 683561 683562 683563 683565 683571 683572 683573 683574 683575 683576 683577 683578 683579 683580 683581 683585 683587 683589 683594 686661 686662 686663 686664 686665 686666 686667 686668 686669 686670 686671 686672 686673 686681 686691 686692 686693"],
+  ["KL", "Idukki", "Idukki", "685501 685503 685505 685507 685508 685509 685511 685512 685514 685515 685531 685532 685533 685535 685551 685552 685553 685554 685561 685562 685563 685565 685566 685571 685581 685582 685583 685584 685585 685586 685587 685588 685589 685590 685591 685595 685601 685602 685603 685604 685605 685606 685607 685608 685609 685612 685613 685614 685615 685616 685618 685619 685620"],
+  ["KL", "Kannur", "Kannur", "670001 670002 670003 670004 670005 670006 670007 670008 670009 670010 670011 670012 670013 670014 670017 670018 670051 670101 670102 670103 670104 670105 670106 670107 670141 670142 670143 670301 670302 670303 670304 670305 670306 670307 670308 670309 670310 670325 670327 670331 670334 670353 670358 670501 670502 670503 670504 670511 670521 670561 670562 670563 670567 670571 670581 670582 670591 670592 670593 670594 670595 670601 670602 670604 670611 670612 670613 670621 670622 670631 670632 670633 670641 670642 670643 670649 670650 670651 670661 670662 670663 670671 670672 670673 670674 670675 670676 670691 670692 670693 670694 670701 670702 670703 670704 670705 670706 670708 670741 673311 673312 673313 673316"],
+  ["KL", "Kasaragod", "Kasaragod", "671121 671122 671123 671124 671310 671311 671312 671313 671314 671315 671316 671317 671318 671319 671320 671321 671322 671323 671324 671325 671326 671348 671351 671531 671532 671533 671534 671541 671542 671543 671551 671552"],
+  ["KL", "Kollam", "Kollam", "689695 689696 690518 690519 690520 690521 690522 690523 690524 690525 690526 690528 690536 690538 690539 690540 690542 690544 690546 690547 690561 690573 690574 691001 691002 691003 691004 691005 691006 691007 691008 691009 691010 691011 691012 691013 691014 691015 691016 691019 691020 691021 691301 691302 691303 691304 691305 691306 691307 691308 691309 691310 691311 691312 691319 691322 691331 691332 691333 691334 691500 691501 691502 691503 691504 691505 691506 691507 691508 691509 691510 691511 691512 691515 691516 691520 691521 691522 691527 691531 691532 691533 691534 691535 691536 691537 691538 691540 691541 691543 691557 691559 691560 691566 691571 691572 691573 691574 691576 691577 691578 691579 691581 691582 691583 691584 691585 691589 691590 691601 691602"],
+  ["KL", "Kottayam", "Kottayam", "686001 686002 686003 686004 686005 686006 686007 686008 686009 686010 686011 686012 686013 686014 686015 686016 686017 686018 686019 686020 686021 686022 686041 686101 686102 686103 686104 686105 686106 686121 686122 686123 686141 686143 686144 686146 686501 686502 686503 686504 686505 686506 686507 686508 686509 686512 686513 686514 686515 686516 686517 686518 686519 686520 686521 686522 686531 686532 686533 686535 686536 686537 686538 686539 686540 686541 686542 686543 686544 686545 686546 686548 686555 686560 686561 686562 686563 686564 686571 686572 686573 686574 686575 686576 686577 686578 686579 686580 686581 686582 686583 686584 686585 686586 686587 686601 686602 686603 686604 686605 686606 686607 686608 686609 686610 686611 686612 686613 686616 686630 686631 686632 686633 686634 686635 686636 686637 686651 686652 686653"],
+  ["KL", "Kozhikode", "Kozhikode", "612906 673001 673002 673003 673004 673005 673006 673007 673008 673009 673010 673011 673012 673014 673015 673016 673017 673018 673019 673020 673021 673027 673028 673029 673032 673051 673101 673102 673103 673104 673105 673106 673301 673302 673303 673304 673305 673306 673307 673308 673309 673315 673317 673323 673328 673501 673502 673503 673504 673505 673506 673507 673508 673509 673513 673517 673521 673522 673523 673524 673525 673526 673527 673528 673529 673541 673542 673570 673571 673572 673573 673574 673580 673582 673585 673586 673601 673602 673603 673604 673611 673612 673613 673614 673616 673620 673631 673632 673633 673655 673661"],
+  ["KL", "Malappuram", "Malappuram", "673314 673634 673635 673636 673637 673638 673639 673640 673641 673642 673645 673647 676101 676102 676103 676104 676105 676106 676107 676108 676109 676121 676122 676123 676301 676302 676303 676304 676305 676306 676307 676309 676311 676312 676317 676319 676320 676501 676502 676503 676504 676505 676506 676507 676508 676509 676510 676517 676519 676521 676522 676523 676525 676528 676541 676542 676551 676552 676553 676561 676562 679321 679322 679323 679324 679325 679326 679327 679328 679329 679330 679331 679332 679333 679334 679338 679339 679340 679341 679357 679571 679572 679573 679574 679575 679576 679577 679578 679579 679580 679581 679582 679583 679584 679585 679586 679587 679591"],
+  ["KL", "Palakkad", "Palakkad", "678001 678002 678003 678004 678005 678006 678007 678008 678009 678010 678011 678012 678013 678014 678051 678101 678102 678103 678104 678501 678502 678503 678504 678505 678506 678507 678508 678510 678512 678531 678532 678533 678534 678541 678542 678543 678544 678545 678546 678551 678552 678553 678554 678555 678556 678557 678571 678572 678573 678574 678581 678582 678583 678591 678592 678593 678594 678595 678596 678597 678598 678601 678611 678612 678613 678621 678622 678623 678624 678631 678632 678633 678641 678642 678651 678661 678671 678681 678682 678683 678684 678685 678686 678687 678688 678701 678702 678703 678704 678705 678706 678721 678722 678731 678732 678762 679101 679102 679103 679104 679121 679122 679123 679301 679302 679303 679304 679305 679306 679307 679308 679309 679313 679335 679336 679337 679501 679502 679503 679504 679505 679506 679511 679512 679513 679514 679515 679516 679521 679522 679523 679533 679534 679535 679536 679551 679552 679553 679554"],
+  ["KL", "Pathanamthitta", "Pathanamthitta", "686510 686511 686547 689101 689102 689103 689104 689105 689106 689107 689108 689110 689111 689112 689113 689115 689501 689502 689503 689507 689513 689514 689515 689531 689532 689533 689541 689542 689543 689544 689545 689546 689547 689548 689549 689550 689551 689581 689582 689583 689584 689585 689586 689587 689588 689589 689591 689592 689594 689597 689602 689611 689612 689613 689614 689615 689621 689625 689626 689641 689642 689643 689644 689645 689646 689647 689648 689649 689650 689652 689653 689654 689656 689661 689662 689663 689664 689666 689667 689668 689671 689672 689673 689674 689675 689676 689677 689678 689691 689692 689693 689694 689698 689699 689711 691523 691524 691525 691526 691530 691551 691552 691553 691554 691555 691556"],
+  ["KL", "Thiruvananthapuram", "Thiruvananthapuram", "695001 695002 695003 695004 695005 695006 695007 695008 695009 695010 695011 695012 695013 695014 695015 695016 695017 695018 695019 695020 695021 695022 695023 695024 695025 695026 695027 695028 695029 695030 695032 695033 695034 695035 695036 695038 695040 695042 695043 695051 695099 695101 695102 695103 695104 695121 695122 695123 695124 695125 695126 695132 695133 695134 695141 695142 695143 695144 695145 695146 695301 695302 695303 695304 695305 695306 695307 695308 695309 695310 695311 695312 695313 695316 695317 695318 695501 695502 695503 695504 695505 695506 695507 695508 695512 695513 695521 695522 695523 695524 695525 695526 695527 695528 695541 695542 695543 695547 695551 695561 695562 695563 695564 695568 695570 695571 695572 695573 695574 695575 695581 695582 695583 695584 695585 695586 695587 695588 695589 695601 695602 695603 695604 695605 695606 695607 695608 695609 695610 695611 695612 695614 695615"],
+  ["KL", "Thrissur", "Thrissur", "679105 679106 679531 679532 679561 679562 679563 679564 680001 680002 680003 680004 680005 680006 680007 680008 680009 680010 680011 680012 680013 680014 680020 680021 680022 680026 680027 680028 680051 680101 680102 680103 680104 680121 680122 680123 680125 680301 680302 680303 680304 680305 680306 680307 680308 680309 680310 680311 680312 680317 680501 680502 680503 680504 680505 680506 680507 680508 680509 680510 680511 680512 680513 680514 680515 680516 680517 680518 680519 680520 680521 680522 680523 680524 680541 680542 680543 680544 680545 680546 680551 680552 680553 680555 680561 680562 680563 680564 680565 680566 680567 680568 680569 680570 680571 680581 680582 680583 680584 680585 680586 680587 680588 680589 680590 680591 680594 680596 680601 680602 680604 680611 680612 680613 680614 680615 680616 680617 680618 680619 680620 680623 680631 680641 680642 680651 680652 680653 680654 680655 680656 680661 680662 680663 680664 680665 680666 680667 680668 680669 680670 680671 680681 680682 680683 680684 680685 680686 680687 680688 680689 680691 680697 680699 680701 680702 680703 680711 680712 680721 680722 680724 680731 680732 680733 680734 680741 680751"],
+  ["KL", "Wayanad", "Wayanad", "670644 670645 670646 670721 670731 673121 673122 673123 673124 673575 673576 673577 673579 673581 673591 673592 673593 673595 673596"],
+  ["LA", "Kargil", "Kargil", "194102 194103 194105 194109 194301 194302 194303"],
+  ["LA", "Leh Ladakh", "Leh Ladakh", "194101 194104 194106 194107 194201 194202 194401"],
+  ["LD", "Lakshadweep District", "Lakshadweep District", "682551 682552 682553 682554 682555 682556 682557 682558 682559"],
+  ["MH", "Ahmednagar", "Ahmednagar", "413201 413204 413205 413701 413702 413703 413704 413705 413706 413707 413708 413709 413710 413711 413712 413713 413714 413715 413716 413717 413718 413719 413720 413721 413722 413723 413725 413726 413728 413736 413737 413738 413739 414001 414002 414003 414005 414006 414101 414102 414103 414105 414106 414110 414111 414113 414201 414301 414302 414303 414304 414305 414306 414401 414402 414403 414501 414502 414503 414504 414505 414601 414602 414603 414604 414605 414606 414607 414609 414701 422601 422602 422603 422604 422605 422608 422610 422611 422620 422622 423107 423109 423601 423602 423603 423604 423605 423607"],
+  ["MH", "Akola", "Akola", "444001 444002 444003 444004 444005 444006 444007 444101 444102 444103 444104 444106 444107 444108 444109 444111 444117 444126 444302 444311 444401 444405 444407 444501 444502 444511"],
+  ["MH", "Amravati", "Amravati", "444601 444602 444603 444604 444605 444606 444607 444701 444702 444704 444705 444706 444707 444708 444709 444710 444711 444717 444719 444720 444723 444801 444802 444803 444804 444805 444806 444807 444808 444809 444810 444813 444901 444902 444903 444904 444905 444906 444907 444908 444915"],
+  ["MH", "Aurangabad", "Aurangabad", "423701 423702 423703 431001 431002 431003 431004 431005 431006 431007 431008 431009 431010 431011 431101 431102 431103 431104 431105 431107 431109 431110 431111 431112 431113 431115 431116 431117 431118 431120 431121 431132 431133 431134 431135 431136 431137 431147 431148 431150 431151 431152 431154"],
+  ["MH", "Beed", "Beed", "413207 413229 413249 414202 414203 414204 414205 414208 431122 431123 431124 431125 431126 431127 431128 431129 431130 431131 431142 431143 431144 431153 431515 431517 431518 431519 431520 431523 431530"],
+  ["MH", "Bhandara", "Bhandara", "441802 441803 441804 441805 441809 441903 441904 441905 441906 441907 441908 441909 441910 441912 441913 441914 441915 441924"],
+  ["MH", "Buldhana", "Buldhana", "443001 443002 443101 443102 443103 443104 443106 443112 443201 443202 443203 443204 443206 443301 443302 443303 443304 443308 443401 443402 443403 443404 444201 444202 444203 444204 444301 444303 444304 444306 444312"],
+  ["MH", "Chandrapur", "Chandrapur", "441205 441206 441212 441215 441221 441222 441223 441224 441225 441226 442401 442402 442403 442404 442406 442501 442502 442503 442505 442507 442701 442702 442901 442902 442903 442904 442905 442906 442907 442908 442914 442916 442917 442920"],
+  ["MH", "Dhule", "Dhule", "424001 424002 424004 424005 424006 424301 424302 424303 424304 424305 424306 424307 424308 424309 424310 424311 424318 425403 425404 425405 425406 425407 425408 425421 425427 425428"],
+  ["MH", "Gadchiroli", "Gadchiroli", "441207 441208 441209 441217 442504 442603 442604 442605 442606 442703 442704 442705 442707 442709 442710 442918 442919"],
+  ["MH", "Gondia", "Gondia", "441601 441614 441701 441702 441801 441806 441807 441901 441902 441911 441916"],
+  ["MH", "Hingoli", "Hingoli", "431512 431513 431542 431701 431702 431703 431705"],
+  ["MH", "Jalgaon", "Jalgaon", "424101 424102 424103 424104 424105 424106 424107 424108 424119 424201 424202 424203 424204 424205 424206 424207 424208 425001 425002 425003 425004 425101 425102 425103 425104 425105 425107 425108 425109 425110 425111 425112 425113 425114 425115 425116 425201 425203 425301 425302 425303 425304 425305 425306 425307 425308 425309 425310 425311 425314 425327 425401 425402 425420 425501 425502 425503 425504 425505 425506 425507 425508 425524"],
+  ["MH", "Jalna", "Jalna", "431114 431202 431203 431204 431205 431206 431207 431208 431209 431211 431212 431213 431214 431215 431501 431502 431504 431507"],
+  ["MH", "Kolhapur", "Kolhapur", "415101 416001 416002 416003 416004 416005 416006 416007 416008 416010 416011 416012 416013 416101 416102 416103 416104 416105 416106 416107 416108 416109 416110 416111 416112 416113 416114 416115 416116 416118 416119 416120 416121 416122 416138 416143 416144 416146 416201 416202 416203 416204 416205 416206 416207 416208 416209 416210 416211 416212 416213 416214 416215 416216 416218 416219 416220 416221 416223 416229 416230 416231 416232 416234 416235 416236 416501 416502 416503 416504 416505 416506 416507 416508 416509 416526 416527 416551 416552"],
+  ["MH", "Latur", "Latur", "413510 413511 413512 413513 413514 413515 413516 413517 413518 413519 413520 413521 413522 413523 413524 413527 413529 413530 413531 413532 413544 413581 413607 431522"],
+  ["MH", "Mumbai", "Mumbai", "400001 400002 400003 400004 400005 400006 400007 400008 400009 400011 400012 400013 400014 400015 400016 400017 400018 400019 400020 400021 400022 400025 400026 400027 400028 400030 400031 400032 400033 400034 400035 400037"],
+  ["MH", "Mumbai Suburban", "Mumbai", "400010 400024 400029 400042 400043 400049 400050 400051 400052 400053 400054 400055 400056 400057 400058 400059 400060 400061 400063 400064 400065 400066 400067 400068 400069 400070 400071 400072 400074 400075 400076 400077 400078 400079 400080 400081 400082 400083 400084 400085 400086 400087 400088 400089 400091 400092 400093 400094 400095 400096 400097 400098 400099 400101 400102 400103 400104"],
+  ["MH", "Nagpur", "Nagpur", "440001 440002 440003 440005 440006 440007 440008 440010 440012 440013 440014 440015 440016 440017 440018 440019 440020 440021 440022 440023 440024 440025 440026 440027 440029 440030 440032 440033 440034 440035 440036 440037 441001 441101 441102 441103 441104 441105 441106 441107 441108 441109 441110 441111 441112 441113 441122 441123 441201 441202 441203 441204 441210 441214 441301 441302 441303 441304 441305 441306 441401 441404 441501 441502"],
+  ["MH", "Nanded", "Nanded", "431601 431602 431603 431604 431605 431606 431704 431707 431708 431709 431710 431711 431712 431713 431714 431715 431716 431717 431718 431719 431721 431722 431723 431724 431731 431736 431741 431742 431743 431745 431746 431750 431801 431802 431803 431804 431805 431806 431807 431808 431809 431810 431811"],
+  ["MH", "Nandurbar", "Nandurbar", "425409 425410 425411 425412 425413 425414 425415 425416 425417 425418 425419 425422 425423 425424 425426 425432 425442 425444 425452"],
+  ["MH", "Nashik", "Nashik", "422001 422002 422003 422004 422005 422006 422007 422008 422009 422010 422011 422012 422013 422101 422102 422103 422104 422105 422112 422113 422201 422202 422203 422204 422205 422206 422207 422208 422209 422210 422211 422212 422213 422214 422215 422221 422222 422301 422302 422303 422304 422305 422306 422308 422401 422402 422403 422501 422502 422606 423101 423102 423104 423105 423106 423108 423110 423111 423117 423201 423202 423203 423204 423205 423206 423208 423212 423213 423301 423302 423303 423401 423402 423403 423501 423502 424109"],
+  ["MH", "Osmanabad", "Osmanabad", "413405 413501 413502 413503 413504 413505 413506 413507 413508 413509 413525 413526 413528 413534 413582 413601 413602 413603 413604 413605 413606 413608 413623 413624 413625 413626"],
+  ["MH", "Palghar", "Palghar", "401102 401103 401105 401201 401202 401203 401205 401207 401208 401209 401301 401302 401303 401304 401305 401401 401402 401403 401404 401405 401501 401502 401503 401504 401506 401601 401602 401603 401604 401605 401606 401607 401608 401701 401702 401703 421303 421312"],
+  ["MH", "Parbhani", "Parbhani", "431401 431402 431503 431505 431506 431508 431509 431510 431511 431514 431516 431521 431536 431537 431540 431541 431543 431720"],
+  ["MH", "Pune", "Pune", "410301 410302 410401 410402 410403 410405 410406 410501 410502 410503 410504 410505 410506 410507 410508 410509 410510 410511 410512 410513 410515 410516 410517 411001 411002 411003 411004 411005 411006 411007 411008 411009 411011 411012 411013 411014 411015 411016 411017 411018 411019 411020 411021 411022 411023 411024 411025 411026 411027 411028 411030 411031 411032 411033 411034 411035 411036 411037 411038 411039 411040 411041 411042 411043 411044 411045 411046 411047 411048 411051 411052 411057 411058 411060 411061 411062 411067 411068 411069 411070 411071 411073 411081 412101 412102 412103 412104 412105 412106 412107 412108 412109 412110 412112 412115 412201 412202 412203 412204 412205 412206 412207 412208 412209 412210 412211 412212 412213 412214 412215 412216 412218 412219 412220 412301 412303 412304 412305 412306 412307 412308 412311 412312 412401 412402 412403 412404 412405 412406 412408 412409 412410 412411 412412 413102 413103 413104 413105 413106 413110 413114 413115 413116 413120 413130 413132 413133 413801 413802"],
+  ["MH", "Raigad", "Raigad", "400702 400704 400707 402101 402102 402103 402104 402105 402106 402107 402108 402109 402110 402111 402112 402113 402114 402115 402116 402117 402120 402122 402125 402126 402201 402202 402203 402204 402207 402208 402209 402301 402302 402303 402304 402305 402306 402307 402308 402309 402401 402402 402403 402404 410101 410102 410201 410202 410203 410204 410205 410206 410207 410208 410209 410210 410216 410218 410220 410221 410222 415213"],
+  ["MH", "Ratnagiri", "Ratnagiri", "415202 415203 415208 415214 415601 415602 415603 415604 415605 415606 415607 415608 415609 415610 415611 415612 415613 415614 415615 415616 415617 415619 415620 415621 415626 415628 415629 415634 415637 415639 415640 415641 415643 415701 415702 415703 415705 415706 415708 415709 415710 415711 415712 415713 415714 415715 415716 415717 415718 415719 415720 415722 415724 415726 415727 415728 415729 415730 415801 415802 415803 415804 415805 415806 415807 416701 416702 416704 416705 416707 416709 416712 416713"],
+  ["MH", "Sangli", "Sangli", "415301 415302 415303 415304 415305 415306 415307 415308 415309 415310 415311 415313 415315 415401 415402 415403 415404 415405 415406 415407 415408 415409 415410 415411 415412 415413 415414 415415 415418 416301 416302 416303 416304 416305 416306 416307 416308 416309 416310 416311 416312 416313 416314 416315 416316 416317 416401 416402 416403 416404 416405 416406 416407 416408 416409 416410 416411 416412 416413 416414 416415 416416 416417 416418 416419 416420 416429 416436 416437"],
+  ["MH", "Satara", "Satara", "412801 412802 412803 412804 412805 412806 415001 415002 415003 415004 415010 415011 415012 415013 415014 415015 415019 415020 415021 415022 415023 415102 415103 415104 415105 415106 415107 415108 415109 415110 415111 415112 415114 415115 415116 415122 415124 415205 415206 415207 415209 415211 415212 415312 415501 415502 415503 415504 415505 415506 415507 415508 415509 415510 415511 415512 415513 415514 415515 415516 415517 415518 415519 415520 415521 415522 415523 415524 415525 415526 415527 415528 415530 415536 415537 415538 415539 415540"],
+  ["MH", "Sindhudurg", "Sindhudurg", "416510 416511 416512 416513 416514 416515 416516 416517 416518 416519 416520 416521 416522 416523 416524 416525 416528 416529 416531 416534 416549 416550 416601 416602 416603 416604 416605 416606 416608 416609 416610 416611 416612 416613 416614 416615 416616 416620 416623 416626 416628 416630 416632 416703 416801 416803 416804 416805 416806 416807 416810 416811 416812 416813"],
+  ["MH", "Solapur", "Solapur", "413001 413002 413003 413004 413005 413006 413007 413008 413101 413107 413108 413109 413111 413112 413113 413118 413202 413203 413206 413208 413209 413210 413211 413212 413213 413214 413215 413216 413217 413218 413219 413220 413221 413222 413223 413224 413226 413227 413228 413248 413250 413251 413252 413253 413255 413301 413302 413303 413304 413305 413306 413307 413308 413309 413310 413314 413315 413317 413319 413322 413324 413401 413402 413403 413404 413406 413409 413410 413411 413412"],
+  ["MH", "Thane", "Thane", "400601 400602 400603 400604 400605 400606 400607 400608 400610 400612 400614 400615 400701 400703 400705 400706 400708 400709 400710 401101 401106 401107 401204 421002 421004 421005 421101 421102 421103 421201 421202 421203 421204 421301 421302 421305 421306 421308 421311 421401 421402 421403 421501 421502 421503 421505 421506 421601 421602 421603 421605"],
+  ["MH", "Wardha", "Wardha", "442001 442003 442101 442102 442104 442105 442106 442107 442111 442201 442202 442203 442301 442302 442303 442304 442305 442306 442307"],
+  ["MH", "Washim", "Washim", "444105 444110 444402 444403 444404 444409 444503 444504 444505 444506 444507 444510"],
+  ["MH", "Yavatmal", "Yavatmal", "445001 445002 445101 445102 445103 445105 445106 445109 445110 445201 445202 445203 445204 445205 445206 445207 445209 445210 445211 445215 445216 445230 445301 445302 445303 445304 445305 445306 445307 445308 445323 445324 445401 445402"],
+  ["ML", "East Garo Hills", "East Garo Hills", "794110 794111"],
+  ["ML", "East Jaintia Hills", "East Jaintia Hills", "793160 793200 793210"],
+  ["ML", "East Khasi Hills", "East Khasi Hills", "793001 793002 793003 793004 793005 793006 793007 793008 793009 793010 793011 793012 793014 793015 793016 793017 793018 793019 793021 793022 793107 793108 793110 793111 793112 793113 793115 793121"],
+  ["ML", "North Garo Hills", "North Garo Hills", "794108"],
+  ["ML", "Ri Bhoi", "Ri Bhoi", "781131 793101 793102 793103 793104 793105 793116 793122 793123"],
+  ["ML", "South Garo Hills", "South Garo Hills", "794102 794107 794114"],
+  ["ML", "South West Garo Hills", "South West Garo Hills", "794106 794115"],
+  ["ML", "South West Khasi Hills", "South West Khasi Hills", "793106 793114"],
+  ["ML", "West Garo Hills", "West Garo Hills", "794001 794002 794003 794004 794005 794101 794103 794104 794105 794109 794112 794113"],
+  ["ML", "West Jaintia Hills", "West Jaintia Hills", "793109 793150 793151 793161"],
+  ["ML", "West Khasi Hills", "West Khasi Hills", "793119 793120 793126"],
+  ["MN", "Bishnupur", "Bishnupur", "795011 795124 795133 795134"],
+  ["MN", "Chandel", "Chandel", "795102 795127"],
+  ["MN", "Churachandpur", "Churachandpur", "795117 795128 795139"],
+  ["MN", "Imphal East", "Imphal East", "795005 795010 795114"],
+  ["MN", "Imphal West", "Imphal West", "795001 795002 795003 795004 795008 795009 795113 795121 795136 795140 795146"],
+  ["MN", "Jiribam", "Jiribam", "795115 795116"],
+  ["MN", "Kakching", "Kakching", "795101 795103 795132 795135"],
+  ["MN", "Kamjong", "Kamjong", "795145"],
+  ["MN", "Kangpokpi", "Kangpokpi", "795107 795112 795118 795122 795126 795129 795149"],
+  ["MN", "Noney", "Noney", "795147 795159"],
+  ["MN", "Pherzawl", "Pherzawl", "795006 795143"],
+  ["MN", "Senapati", "Senapati", "795007 795015 795104 795105 795106 795150"],
+  ["MN", "Tamenglong", "Tamenglong", "795125 795141"],
+  ["MN", "Tengnoupal", "Tengnoupal", "795131"],
+  ["MN", "Thoubal", "Thoubal", "795130 795138 795148"],
+  ["MN", "Ukhrul", "Ukhrul", "795142 795144"],
+  ["MP", "Agar Malwa", "Agar Malwa", "465230 465441 465445 465447 465449 465550"],
+  ["MP", "Alirajpur", "Alirajpur", "457882 457885 457887 457888 457990"],
+  ["MP", "Anuppur", "Anuppur", "484113 484116 484120 484220 484224 484330 484334 484336 484440 484444 484446 484447 484881 484886 484887"],
+  ["MP", "Ashoknagar", "Ashoknagar", "473330 473331 473332 473335 473440 473443 473444 473445 473446 473447"],
+  ["MP", "Balaghat", "Balaghat", "481001 481051 481102 481105 481111 481115 481116 481117 481222 481224 481226 481331 481332 481335 481337 481441 481445 481449 481551 481556"],
+  ["MP", "Barwani", "Barwani", "451447 451449 451551 451556 451660 451666 451770 451881"],
+  ["MP", "Betul", "Betul", "460001 460004 460110 460220 460225 460330 460440 460443 460447 460449 460551 460553 460554 460557 460661 460663 460665 460666 460668"],
+  ["MP", "Bhind", "Bhind", "477001 477105 477111 477116 477117 477222 477227 477331 477332 477333 477335 477441 477445 477446 477447 477449 477450 477555 477557 477566 477660"],
+  ["MP", "Bhopal", "Bhopal", "462001 462002 462003 462004 462008 462010 462011 462016 462020 462022 462023 462024 462026 462027 462028 462030 462031 462033 462036 462037 462038 462039 462040 462041 462042 462043 462044 462045 462047 462066 462100 462101 462120 463106 463111"],
+  ["MP", "Burhanpur", "Burhanpur", "450221 450331 450332 450445"],
+  ["MP", "Chhatarpur", "Chhatarpur", "471001 471101 471105 471111 471201 471301 471311 471313 471315 471318 471405 471408 471411 471501 471510 471515 471516 471525 471606 471625"],
+  ["MP", "Chhindwara", "Chhindwara", "480001 480003 480105 480106 480107 480108 480109 480110 480111 480112 480115 480221 480223 480224 480331 480334 480337 480338 480441 480442 480447 480449 480551 480555 480557 480559"],
+  ["MP", "Damoh", "Damoh", "470661 470663 470664 470666 470672 470673 470675 470771 470772 470775 470776 470880 470881"],
+  ["MP", "Datia", "Datia", "475335 475336 475661 475671 475673 475675 475682 475685 475686"],
+  ["MP", "Dewas", "Dewas", "455001 455111 455115 455116 455118 455221 455223 455227 455332 455336 455339 455440 455459"],
+  ["MP", "Dhar", "Dhar", "454001 454010 454111 454116 454221 454331 454335 454441 454446 454449 454552 454660 454665 454773 454774 454775"],
+  ["MP", "Dindori", "Dindori", "481778 481879 481880 481882 481883 481884 481885 481990"],
+  ["MP", "East Nimar", "East Nimar", "450001 450051 450110 450112 450114 450116 450117 450119 450337 450554 450661 450771 450881 450991"],
+  ["MP", "Guna", "Guna", "473001 473101 473105 473110 473111 473112 473113 473115 473118 473222 473226 473249 473287"],
+  ["MP", "Gwalior", "Gwalior", "474001 474002 474003 474004 474005 474006 474007 474008 474009 474010 474011 474012 474015 474020 475001 475002 475005 475110 475115 475220 475330 475331"],
+  ["MP", "Harda", "Harda", "461228 461331 461335 461441"],
+  ["MP", "Hoshangabad", "Hoshangabad", "461001 461005 461110 461111 461114 461115 461116 461122 461221 461223 461446 461551 461661 461668 461771 461775 461881 461990"],
+  ["MP", "Indore", "Indore", "452001 452002 452003 452005 452006 452007 452009 452010 452011 452012 452013 452014 452015 452016 452018 452020 453001 453111 453112 453115 453220 453331 453441 453446 453551 453552 453555 453556 453661 453771"],
+  ["MP", "Jabalpur", "Jabalpur", "482001 482002 482003 482004 482005 482008 482009 482010 482011 482020 482021 482051 482056 483001 483053 483105 483110 483113 483119 483220 483222 483225 483334 483336"],
+  ["MP", "Jhabua", "Jhabua", "457661 457770 457772 457773 457775 457777 457779 457993"],
+  ["MP", "Katni", "Katni", "483330 483331 483332 483440 483442 483501 483504 483770 483773 483775 483880 483990"],
+  ["MP", "Khargone", "Khargone", "450551 451001 451111 451113 451114 451115 451220 451221 451224 451225 451228 451331 451332 451335 451440 451441 451442"],
+  ["MP", "Mandla", "Mandla", "481661 481662 481663 481664 481665 481666 481668 481672 481768 481771 481776 481995 481996 481998"],
+  ["MP", "Mandsaur", "Mandsaur", "458001 458002 458339 458389 458553 458556 458558 458664 458667 458669 458771 458775 458778 458880 458883 458888 458895 458990"],
+  ["MP", "Morena", "Morena", "476001 476111 476115 476134 476219 476221 476224 476228 476229 476444 476554"],
+  ["MP", "Narsinghpur", "Narsinghpur", "487001 487110 487114 487118 487221 487225 487330 487334 487337 487441 487551 487555 487661 487770 487881"],
+  ["MP", "Neemuch", "Neemuch", "458110 458113 458116 458118 458220 458226 458228 458330 458336 458441 458468 458470"],
+  ["MP", "Niwari", "Niwari", "472246 472336 472337 472442 472445 472447"],
+  ["MP", "Panna", "Panna", "488001 488050 488059 488220 488222 488333 488441 488442 488443 488446 488448"],
+  ["MP", "Raisen", "Raisen", "462046 464551 464570 464573 464651 464661 464665 464668 464671 464672 464770 464774 464881 464884 464886 464986 464990 464993"],
+  ["MP", "Rajgarh", "Rajgarh", "465661 465667 465669 465674 465677 465679 465680 465683 465685 465687 465689 465691 465693 465697"],
+  ["MP", "Ratlam", "Ratlam", "457001 457114 457118 457119 457222 457226 457331 457333 457336 457339 457340 457441 457550 457555"],
+  ["MP", "Rewa", "Rewa", "486001 486002 486003 486005 486006 486111 486114 486115 486117 486123 486220 486223 486226 486331 486333 486335 486338 486340 486341 486440 486441 486445 486446 486447 486448 486450 486550 486553 486556"],
+  ["MP", "Sagar", "Sagar", "464240 470001 470002 470003 470004 470021 470051 470113 470115 470117 470118 470119 470120 470124 470125 470221 470223 470226 470227 470228 470229 470232 470235 470335 470337 470339 470340 470441 470442 470669"],
+  ["MP", "Satna", "Satna", "485001 485005 485111 485112 485113 485114 485115 485221 485226 485227 485331 485334 485441 485446 485447 485551 485661 485666 485771 485772 485773 485774 485775 485778 485881"],
+  ["MP", "Sehore", "Sehore", "461445 466001 466111 466113 466114 466115 466116 466118 466120 466125 466221 466331 466445 466446 466448 466554 466651 466661 466665"],
+  ["MP", "Seoni", "Seoni", "480661 480667 480771 480880 480881 480882 480884 480886 480887 480888 480990 480991 480994 480996 480997 480999"],
+  ["MP", "Shahdol", "Shahdol", "484001 484110 484114 484117 484669 484770 484771 484774 484776"],
+  ["MP", "Shajapur", "Shajapur", "465001 465106 465110 465113 465116 465118 465220 465223 465226 465227 465333 465335 465337 465339"],
+  ["MP", "Sheopur", "Sheopur", "476332 476335 476337 476339 476355"],
+  ["MP", "Shivpuri", "Shivpuri", "473551 473585 473638 473660 473662 473665 473670 473770 473773 473774 473775 473781 473793 473865 473880 473885 473990 473995"],
+  ["MP", "Sidhi", "Sidhi", "486661 486666 486669 486670 486675 486771 486775 486776 486883"],
+  ["MP", "Singrauli", "Singrauli", "486881 486882 486884 486885 486886 486887 486889 486890 486892"],
+  ["MP", "Tikamgarh", "Tikamgarh", "472001 472005 472010 472101 472111 472115 472118 472221 472331 472339"],
+  ["MP", "Ujjain", "Ujjain", "456001 456003 456006 456010 456221 456222 456224 456313 456331 456335 456337 456440 456441 456443 456550 456661 456664 456665 456668 456770 456771 456776 465313"],
+  ["MP", "Umaria", "Umaria", "484551 484555 484660 484661 484664 484665"],
+  ["MP", "Vidisha", "Vidisha", "464001 464111 464113 464114 464220 464221 464224 464226 464228 464258 464331 464334 464337"],
+  ["MZ", "Aizawl", "Aizawl", "791701 796001 796004 796005 796006 796007 796008 796009 796012 796014 796015 796017 796111 796161 796190 796246 796291 796410 796421 796441 796470 796701 796770"],
+  ["MZ", "Champhai", "Champhai", "796320 796321"],
+  ["MZ", "Hnahthial", "Hnahthial", "796571"],
+  ["MZ", "Khawzawl", "Khawzawl", "796310"],
+  ["MZ", "Kolasib", "Kolasib", "796070 796081 796091 796101"],
+  ["MZ", "Lawngtlai", "Lawngtlai", "796891"],
+  ["MZ", "Lunglei", "Lunglei", "796691 796710 796751"],
+  ["MZ", "Mamit", "Mamit", "796431 796501"],
+  ["MZ", "Saiha", "Saiha", "796901"],
+  ["MZ", "Saitual", "Saitual", "796261 796290"],
+  ["MZ", "Serchhip", "Serchhip", "796181 796184 796186 796370"],
+  ["NL", "Dimapur", "Dimapur", "797103 797106 797112 797113 797115 797116 797117 797118"],
+  ["NL", "Kiphire", "Kiphire", "798611"],
+  ["NL", "Kohima", "Kohima", "797001 797002 797003 797004 797006 797105 797109 797120 797121 798617 798626 798628"],
+  ["NL", "Longleng", "Longleng", "798625"],
+  ["NL", "Mokokchung", "Mokokchung", "798601 798604 798607 798613 798614 798615 798618 798623"],
+  ["NL", "Mon", "Mon", "798602 798603 798621 798622"],
+  ["NL", "Peren", "Peren", "797101 797110"],
+  ["NL", "Phek", "Phek", "797104 797107 797108 797114"],
+  ["NL", "Tuensang", "Tuensang", "798612 798616"],
+  ["NL", "Wokha", "Wokha", "797099 797111"],
+  ["NL", "Zunheboto", "Zunheboto", "798620 798627"],
+  ["OD", "Anugul", "Anugul", "759037 759040 759100 759101 759102 759103 759105 759106 759107 759111 759116 759117 759118 759119 759123 759124 759125 759126 759127 759128 759129 759130 759132 759141 759143 759145 759147 759148 759149"],
+  ["OD", "Balangir", "Balangir", "767001 767002 767020 767021 767022 767024 767025 767026 767027 767028 767029 767030 767032 767033 767035 767037 767038 767039 767040 767041 767042 767046 767048 767060 767061 767065 767066 767067 767070 767071"],
+  ["OD", "Baleshwar", "Baleshwar", "756001 756002 756003 756019 756020 756021 756022 756023 756024 756025 756026 756027 756028 756029 756030 756032 756033 756034 756035 756036 756037 756038 756039 756040 756041 756042 756043 756044 756045 756046 756047 756048 756049 756050 756051 756055 756056 756058 756059 756060 756079 756080 756081 756083 756084 756085 756086 756087 756088 756089 756126 756134 756166 756182"],
+  ["OD", "Bargarh", "Bargarh", "768027 768028 768029 768030 768031 768032 768033 768034 768035 768036 768037 768038 768039 768040 768042 768045 768048 768049 768050 768052 768053 768102 768103 768104 768111 768115"],
+  ["OD", "Bhadrak", "Bhadrak", "756100 756101 756111 756112 756113 756114 756115 756116 756117 756118 756119 756120 756121 756122 756123 756124 756125 756127 756128 756129 756130 756131 756132 756133 756135 756137 756138 756139 756144 756162 756163 756164 756165 756167 756168 756171 756181"],
+  ["OD", "Boudh", "Boudh", "762013 762014 762015 762016 762017 762018 762020 762023 762024 762026 762030"],
+  ["OD", "Cuttack", "Cuttack", "752120 753001 753002 753003 753004 753006 753007 753008 753009 753010 753011 753012 753013 753014 753015 753016 754001 754002 754003 754004 754005 754006 754007 754008 754009 754010 754011 754013 754018 754021 754022 754025 754026 754027 754028 754029 754030 754031 754032 754034 754035 754037 754071 754100 754105 754112 754130 754131 754200 754201 754202 754203 754204 754206 754207 754209 754221 754290 754293 754295 754297 754298 754299"],
+  ["OD", "Deogarh", "Deogarh", "768108 768109 768110 768119 768121"],
+  ["OD", "Dhenkanal", "Dhenkanal", "759001 759013 759014 759015 759016 759017 759018 759019 759020 759021 759022 759023 759024 759025 759026 759027 759028 759029 759039 759120 759121 759122 759146 759150 759151"],
+  ["OD", "Gajapati", "Gajapati", "761015 761016 761017 761200 761201 761206 761207 761208 761210 761211 761212 761213 761214 761215 761217"],
+  ["OD", "Ganjam", "Ganjam", "760001 760002 760003 760004 760005 760006 760007 760008 760009 760010 760011 761001 761002 761003 761004 761005 761006 761007 761008 761009 761010 761011 761012 761013 761014 761018 761019 761020 761025 761026 761027 761028 761029 761030 761031 761032 761035 761037 761041 761042 761043 761045 761052 761054 761055 761100 761101 761102 761103 761104 761105 761106 761107 761108 761109 761110 761111 761114 761115 761116 761117 761118 761119 761120 761121 761122 761123 761124 761125 761126 761131 761132 761133 761140 761141 761143 761144 761146 761151 761209"],
+  ["OD", "Jagatsinghapur", "Jagatsinghapur", "754102 754103 754104 754106 754107 754108 754109 754110 754111 754113 754114 754119 754120 754132 754133 754135 754136 754137 754138 754139 754140 754141 754142 754145 754160 754162 754294"],
+  ["OD", "Jajapur", "Jajapur", "754023 754024 754082 754205 754292 754296 755001 755003 755004 755005 755006 755007 755008 755009 755010 755011 755012 755013 755014 755015 755016 755017 755018 755019 755020 755022 755023 755024 755025 755026 755027 755028 755036 755043 755044 755049 755050 755051 755062 755063"],
+  ["OD", "Jharsuguda", "Jharsuguda", "768201 768202 768203 768204 768211 768213 768215 768216 768217 768218 768219 768220 768225 768226 768233 768234"],
+  ["OD", "Kalahandi", "Kalahandi", "766001 766002 766003 766011 766012 766013 766014 766015 766016 766017 766018 766019 766020 766023 766026 766027 766028 766029 766031 766032 766036 766037 766100 766101 766102 766103 766110"],
+  ["OD", "Kandhamal", "Kandhamal", "762001 762002 762010 762011 762012 762019 762021 762022 762027 762028 762029 762100 762101 762102 762103 762104 762105 762106 762107 762109 762110 762112"],
+  ["OD", "Kendrapara", "Kendrapara", "754134 754153 754208 754210 754211 754212 754213 754214 754215 754216 754217 754218 754219 754220 754222 754223 754224 754225 754227 754228 754231 754239 754240 754244 754245 754246 754248 754250 754253 754289 755061"],
+  ["OD", "Kendujhar", "Kendujhar", "758001 758002 758013 758014 758015 758016 758017 758018 758019 758020 758021 758022 758023 758025 758026 758027 758028 758029 758030 758031 758032 758034 758035 758036 758037 758038 758040 758041 758043 758044 758045 758046 758047 758076 758078 758079 758080 758081 758082 758083 758084 758085 758086 758087"],
+  ["OD", "Khordha", "Khordha", "751001 751002 751003 751004 751005 751006 751007 751008 751009 751010 751011 751012 751013 751014 751015 751016 751017 751018 751019 751020 751021 751022 751023 751024 751025 751026 751028 751029 751030 751031 751032 751033 751034 751035 752018 752019 752020 752021 752022 752023 752027 752030 752031 752034 752035 752037 752038 752050 752054 752055 752056 752057 752060 752061 752062 752064 752066 752100 752101 752102 752103 752115 754012"],
+  ["OD", "Koraput", "Koraput", "763001 763002 763003 763004 763008 764001 764002 764003 764004 764005 764006 764011 764014 764020 764021 764027 764028 764036 764037 764038 764039 764040 764041 764042 764043 764055 764056 764057 764058 764081 765013"],
+  ["OD", "Malkangiri", "Malkangiri", "764044 764045 764046 764047 764048 764051 764052 764086 764087"],
+  ["OD", "Mayurbhanj", "Mayurbhanj", "757001 757002 757003 757014 757016 757017 757018 757019 757020 757021 757022 757023 757024 757025 757026 757027 757028 757029 757030 757031 757032 757033 757034 757035 757036 757037 757038 757039 757040 757041 757042 757043 757045 757046 757047 757048 757049 757050 757051 757052 757053 757054 757055 757056 757073 757074 757075 757077 757079 757081 757082 757083 757084 757085 757086 757087 757091 757092 757093 757100 757101 757102 757103 757104 757105 757106 757107"],
+  ["OD", "Nabarangpur", "Nabarangpur", "764049 764059 764061 764063 764070 764071 764072 764073 764074 764075 764076 764077 764078 764085 764088"],
+  ["OD", "Nayagarh", "Nayagarh", "752024 752025 752026 752063 752065 752068 752069 752070 752077 752078 752079 752080 752081 752082 752083 752084 752085 752089 752090 752091 752092 752093 752094"],
+  ["OD", "Nuapada", "Nuapada", "766104 766105 766106 766107 766108 766111 766118"],
+  ["OD", "Puri", "Puri", "752001 752002 752003 752004 752010 752011 752012 752013 752014 752015 752016 752017 752032 752045 752046 752104 752105 752106 752107 752108 752109 752110 752111 752113 752114 752116 752118 752119 752121"],
+  ["OD", "Rayagada", "Rayagada", "764062 765001 765002 765010 765011 765015 765016 765017 765018 765019 765020 765021 765022 765023 765024 765025 765026 765029 765033 765034"],
+  ["OD", "Sambalpur", "Sambalpur", "768001 768002 768003 768004 768005 768006 768007 768016 768017 768018 768019 768020 768024 768025 768105 768106 768107 768112 768113 768118 768200 768210 768212 768214 768221 768222 768224 768227 768228"],
+  ["OD", "Sonepur", "Sonepur", "767016 767017 767018 767019 767023 767045 767062 767068"],
+  ["OD", "Sundargarh", "Sundargarh", "769001 769002 769003 769004 769005 769006 769007 769008 769009 769010 769011 769012 769013 769014 769015 769016 769017 769042 769043 770001 770002 770011 770012 770013 770014 770015 770016 770017 770018 770019 770020 770021 770022 770023 770024 770025 770031 770032 770033 770034 770035 770036 770037 770038 770039 770040 770041 770042 770043 770044 770046 770048 770051 770052 770070 770072 770073 770074 770075 770076"],
+  ["PB", "Amritsar", "Amritsar", "143001 143002 143004 143005 143006 143008 143009 143022 143101 143102 143103 143105 143107 143108 143109 143111 143112 143113 143114 143115 143116 143119 143149 143201 143202 143203 143204 143205 143413 143501 143502 143504 143601 143603 143606"],
+  ["PB", "Barnala", "Barnala", "148100 148101 148102 148103 148104 148105 148106 148107 148108 148109"],
+  ["PB", "Bathinda", "Bathinda", "151001 151002 151003 151004 151005 151006 151007 151101 151102 151103 151104 151105 151106 151108 151111 151201 151206 151301 151302 151401 151509 151511"],
+  ["PB", "Faridkot", "Faridkot", "151202 151203 151204 151205 151207 151208 151209 151212 151213 151214"],
+  ["PB", "Fatehgarh Sahib", "Fatehgarh Sahib", "140405 140406 140407 140408 140412 140802 141411 141801 147104 147203 147301"],
+  ["PB", "Fazilka", "Fazilka", "152020 152024 152033 152116 152117 152118 152121 152122 152123 152124 152128 152132"],
+  ["PB", "Firozepur", "Firozepur", "142044 142047 142050 142052 142060 152001 152002 152003 152004 152005 152021 152022 152023"],
+  ["PB", "Gurdaspur", "Gurdaspur", "143505 143506 143507 143511 143512 143513 143514 143515 143516 143517 143518 143519 143520 143521 143525 143526 143527 143528 143529 143530 143531 143532 143602 143604 143605 145002"],
+  ["PB", "Hoshiarpur", "Hoshiarpur", "144105 144202 144204 144205 144206 144207 144208 144209 144210 144211 144212 144213 144214 144216 144221 144222 144223 144224 144305 144306 144404 144406 144519 144520 144523 144527 144528 144529 144530 144531 144532 146001 146021 146022 146023 146024 146101 146102 146103 146104 146105 146106 146107 146108 146109 146110 146111 146112 146113 146114 146115 146116"],
+  ["PB", "Jalandhar", "Jalandhar", "144001 144002 144003 144005 144006 144007 144008 144009 144010 144020 144021 144022 144023 144024 144025 144026 144027 144028 144029 144030 144031 144032 144033 144034 144035 144036 144037 144039 144040 144041 144042 144043 144044 144101 144102 144103 144104 144106 144201 144301 144302 144303 144311 144409 144410 144416 144418 144419 144502 144629 144630 144633 144701 144702 144703 144801 144803 144805 144806"],
+  ["PB", "Kapurthala", "Kapurthala", "144401 144402 144403 144405 144407 144408 144411 144601 144602 144603 144606 144620 144621 144622 144623 144624 144625 144626 144628 144631 144632 144802 144804 144819"],
+  ["PB", "Ludhiana", "Ludhiana", "141001 141002 141003 141004 141006 141007 141008 141010 141011 141012 141013 141014 141015 141016 141101 141102 141103 141104 141105 141106 141107 141108 141109 141110 141112 141113 141114 141115 141116 141117 141118 141119 141120 141121 141122 141123 141125 141126 141127 141201 141202 141203 141204 141205 141206 141401 141412 141413 141414 141415 141416 141417 141418 141419 141421 141422 142021 142022 142023 142024 142025 142026 142027 142029 142030 142031 142032 142033 142034 142035 142036"],
+  ["PB", "Malerkotla", "Malerkotla", "148018 148019 148020 148021 148022 148023"],
+  ["PB", "Mansa", "Mansa", "151501 151502 151503 151504 151505 151506 151507 151508 151510"],
+  ["PB", "Moga", "Moga", "142001 142002 142003 142011 142037 142038 142039 142040 142041 142042 142043 142045 142046 142048 142049 142053 142054 142055 142056 142057 142058 152028"],
+  ["PB", "Pathankot", "Pathankot", "143533 143534 145001 145022 145023 145024 145025 145026 145027 145029 145101"],
+  ["PB", "Patiala", "Patiala", "140401 140402 140417 140602 140701 140702 147001 147002 147003 147004 147005 147006 147007 147008 147021 147101 147102 147103 147105 147111 147201 147202"],
+  ["PB", "Rupnagar", "Rupnagar", "140001 140101 140102 140108 140111 140112 140113 140114 140115 140116 140117 140118 140119 140123 140124 140125 140126 140127 140128 140133"],
+  ["PB", "S.a.s Nagar", "S.a.s Nagar", "140103 140109 140110 140201 140301 140306 140307 140308 140413 140501 140506 140507 140601 140603 140604 140901 160055 160059 160062 160071 160103 160104"],
+  ["PB", "Sangrur", "Sangrur", "148001 148002 148017 148024 148025 148026 148027 148028 148029 148030 148031 148033 148034 148035"],
+  ["PB", "Shahid Bhagat Singh Nagar", "Shahid Bhagat Singh Nagar", "144415 144417 144421 144422 144501 144503 144504 144505 144506 144507 144508 144509 144510 144511 144512 144513 144514 144515 144516 144517 144518 144521 144522 144524 144525 144526 144533"],
+  ["PB", "Sri Muktsar Sahib", "Sri Muktsar Sahib", "151210 151211 152025 152026 152031 152032 152101 152107 152112 152113 152114 152115"],
+  ["PB", "Tarn Taran", "Tarn Taran", "143117 143118 143301 143302 143303 143304 143305 143401 143402 143406 143407 143408 143409 143410 143411 143412 143414 143415 143416 143419 143422"],
+  ["PY", "Karaikal", "Karaikal", "609601 609602 609603 609604 609605 609606 609607 609609"],
+  ["PY", "Mahe", "Mahe", "673310"],
+  ["PY", "Pondicherry", "Pondicherry", "605001 605002 605003 605004 605005 605006 605007 605008 605009 605010 605011 605013 605014 605106 605107 605110 605502 607402 607403"],
+  ["RJ", "Ajmer", "Ajmer", "305001 305002 305003 305004 305005 305006 305007 305009 305012 305021 305022 305023 305024 305025 305201 305202 305203 305204 305205 305206 305207 305401 305402 305403 305404 305405 305406 305407 305408 305412 305415 305601 305621 305622 305623 305624 305625 305627 305628 305629 305630 305631 305801 305802 305811 305812 305813 305814 305815 305816 305817 305819 305901 305922 305923 305924 305925 305926 305927"],
+  ["RJ", "Alwar", "Alwar", "301001 301018 301019 301020 301021 301022 301023 301024 301025 301026 301027 301028 301030 301035 301401 301402 301403 301404 301405 301406 301407 301408 301409 301410 301411 301412 301413 301414 301415 301416 301427 301604 301701 301702 301703 301704 301705 301706 301707 301708 301709 301713 301714 321605 321606 321607 321633"],
+  ["RJ", "Banswara", "Banswara", "327001 327021 327022 327023 327024 327025 327026 327027 327031 327032 327034 327601 327602 327603 327604 327605 327606 327801"],
+  ["RJ", "Baran", "Baran", "325202 325205 325206 325209 325215 325216 325217 325218 325219 325220 325221 325222 325223 325224"],
+  ["RJ", "Barmer", "Barmer", "344001 344011 344012 344021 344022 344024 344025 344026 344027 344031 344032 344033 344034 344035 344037 344043 344044 344501 344502 344701 344702 344703 344704 344705 344706 344708 344801 344802"],
+  ["RJ", "Bharatpur", "Bharatpur", "321001 321021 321022 321023 321024 321025 321026 321028 321201 321202 321203 321204 321205 321206 321301 321302 321303 321401 321402 321403 321404 321405 321406 321407 321408 321409 321410 321411 321601 321602 321614 321615 321642"],
+  ["RJ", "Bhilwara", "Bhilwara", "311001 311011 311021 311022 311023 311024 311025 311026 311030 311201 311202 311203 311204 311301 311302 311401 311402 311403 311404 311407 311408 311601 311602 311603 311604 311605 311606 311801 311802 311803 311804 311805 311806"],
+  ["RJ", "Bikaner", "Bikaner", "331801 331803 331811 334001 334003 334004 334006 334021 334022 334023 334024 334025 334201 334202 334302 334303 334305 334401 334402 334403 334601 334602 334603 334604 334801 334802 334803 334804 334808"],
+  ["RJ", "Bundi", "Bundi", "323001 323021 323022 323023 323024 323025 323026 323301 323601 323602 323603 323613 323614 323615 323616 323801 323802 323803"],
+  ["RJ", "Chittorgarh", "Chittorgarh", "312001 312021 312022 312023 312024 312025 312027 312201 312202 312203 312204 312205 312206 312207 312401 312402 312403 312404 312601 312602 312603 312606 312612 312613 312614 312617 312620 312622 312627 312628 312629 312901 323303 323304 323305 323307"],
+  ["RJ", "Churu", "Churu", "331001 331021 331022 331023 331029 331031 331301 331302 331303 331304 331305 331402 331403 331411 331501 331502 331503 331504 331505 331506 331507 331517 331518 331701 331802"],
+  ["RJ", "Dausa", "Dausa", "303004 303302 303303 303304 303313 303315 303323 303325 303326 303327 303501 303502 303503 303504 303505 303506 303507 303508 303509 303510 303511 321608 321609 321612 321613 322240"],
+  ["RJ", "Dholpur", "Dholpur", "328001 328021 328022 328023 328024 328025 328026 328027 328028 328029 328030 328031 328041"],
+  ["RJ", "Dungarpur", "Dungarpur", "314001 314011 314021 314022 314023 314024 314025 314026 314027 314028 314029 314030 314031 314032 314034 314035 314036 314037 314038 314401 314402 314403 314404 314406 314801 314804"],
+  ["RJ", "Ganganagar", "Ganganagar", "335001 335002 335021 335022 335024 335025 335027 335037 335038 335039 335040 335041 335042 335051 335061 335062 335073 335701 335702 335703 335704 335707 335708 335711 335804 335805 335901"],
+  ["RJ", "Hanumangarh", "Hanumangarh", "335063 335064 335065 335501 335502 335503 335504 335511 335512 335513 335521 335522 335523 335524 335525 335526 335801 335802 335803"],
+  ["RJ", "Jaipur", "Jaipur", "302001 302002 302003 302004 302005 302006 302012 302013 302015 302016 302017 302018 302019 302020 302021 302022 302026 302027 302028 302029 302031 302033 302034 302037 302038 302039 302041 302042 302044 302046 302047 302048 302049 303001 303002 303003 303005 303006 303007 303008 303009 303012 303102 303103 303104 303105 303106 303107 303108 303109 303110 303119 303120 303121 303122 303123 303124 303301 303305 303328 303329 303338 303348 303601 303602 303603 303604 303701 303702 303704 303706 303712 303801 303803 303804 303805 303806 303807 303901 303903 303904 303905 303908"],
+  ["RJ", "Jaisalmer", "Jaisalmer", "342310 345001 345021 345022 345023 345024 345025 345026 345027 345028 345031 345034"],
+  ["RJ", "Jalore", "Jalore", "307029 307030 307515 307803 343001 343002 343021 343022 343023 343024 343025 343027 343028 343029 343030 343032 343039 343040 343041 343042 343048 343049"],
+  ["RJ", "Jhalawar", "Jhalawar", "326001 326021 326022 326023 326033 326034 326035 326036 326037 326038 326039 326501 326502 326512 326513 326514 326515 326516 345033"],
+  ["RJ", "Jhunjhunu", "Jhunjhunu", "331025 331026 331027 331028 332716 332746 333001 333010 333011 333012 333020 333021 333022 333023 333024 333025 333026 333027 333028 333029 333030 333031 333032 333033 333034 333035 333036 333041 333042 333053 333055 333302 333303 333304 333305 333307 333308 333501 333502 333503 333504 333514 333515 333516 333517 333701 333702 333704 333705 333707 333801"],
+  ["RJ", "Jodhpur", "Jodhpur", "342001 342002 342003 342005 342006 342007 342008 342011 342012 342013 342014 342015 342016 342017 342021 342022 342023 342024 342025 342026 342027 342028 342029 342030 342032 342037 342301 342302 342303 342304 342305 342306 342307 342308 342309 342311 342312 342314 342601 342602 342603 342604 342605 342606 342801 342802 342901"],
+  ["RJ", "Karauli", "Karauli", "321610 321611 322203 322204 322212 322213 322215 322216 322218 322220 322230 322234 322236 322238 322241 322242 322243 322249 322251 322252 322254 322255"],
+  ["RJ", "Kota", "Kota", "324001 324002 324003 324004 324005 324006 324007 324008 324009 324010 325001 325003 325004 325009 325201 325203 325204 325207 325208 325214 325601 325602 326517 326518 326519 326520 326529 326530"],
+  ["RJ", "Nagaur", "Nagaur", "305026 341001 341002 341003 341020 341021 341022 341023 341024 341025 341026 341027 341028 341029 341030 341031 341301 341302 341303 341304 341305 341306 341307 341309 341316 341317 341318 341319 341501 341502 341503 341504 341505 341506 341507 341508 341509 341510 341511 341512 341513 341514 341515 341516 341517 341518 341519 341520 341521 341533 341551 342902 384316"],
+  ["RJ", "Pali", "Pali", "306001 306021 306022 306023 306101 306102 306103 306104 306105 306114 306115 306116 306119 306126 306301 306302 306303 306304 306305 306306 306307 306308 306401 306421 306422 306501 306502 306503 306504 306601 306602 306603 306604 306701 306702 306703 306704 306705 306706 306707 306708 306709 306901 306902 306912"],
+  ["RJ", "Pratapgarh", "Pratapgarh", "312604 312605 312615 312616 312619 312623 312624 312625 312626"],
+  ["RJ", "Rajsamand", "Rajsamand", "305921 313202 313207 313211 313301 313321 313322 313323 313324 313325 313327 313328 313329 313330 313331 313332 313333 313334 313341 313342"],
+  ["RJ", "Sawai Madhopur", "Sawai Madhopur", "322001 322021 322023 322024 322025 322026 322027 322028 322029 322030 322033 322034 322201 322202 322205 322211 322214 322219 322701 322702 322703 322704"],
+  ["RJ", "Sikar", "Sikar", "331024 332001 332002 332003 332021 332023 332024 332025 332026 332027 332028 332029 332030 332031 332041 332042 332301 332302 332303 332304 332305 332307 332311 332312 332315 332316 332317 332318 332401 332402 332403 332404 332405 332406 332411 332601 332602 332603 332701 332702 332703 332705 332706 332707 332708 332709 332710 332711 332712 332713 332714 332715 332718 332719 332721 332722 332742"],
+  ["RJ", "Sirohi", "Sirohi", "307001 307019 307022 307023 307024 307026 307027 307028 307031 307032 307043 307501 307510 307511 307512 307513 307514 307801 307802"],
+  ["RJ", "Tonk", "Tonk", "304001 304021 304022 304023 304024 304025 304026 304501 304502 304503 304504 304505 304507 304801 304802 304803 304804"],
+  ["RJ", "Udaipur", "Udaipur", "307025 313001 313002 313003 313004 313011 313022 313024 313026 313027 313031 313038 313201 313203 313204 313205 313206 313601 313602 313603 313604 313701 313702 313703 313704 313705 313706 313708 313801 313802 313803 313804 313805 313806 313901 313902 313903 313904 313905 313906"],
+  ["SK", "East District", "East District", "737101 737102 737103 737107 737134 737135 737136"],
+  ["SK", "North District", "North District", "737116 737120"],
+  ["SK", "Pakyong", "Pakyong", "737106 737131 737132 737133"],
+  ["SK", "South District", "South District", "737126 737128 737139"],
+  ["SK", "West District", "West District", "737111 737113 737121"],
+  ["TG", "Adilabad", "Adilabad", "504001 504002 504304 504307 504308 504309 504311 504312 504323"],
+  ["TG", "Bhadradri Kothagudem", "Bhadradri Kothagudem", "507101 507103 507111 507112 507114 507115 507116 507117 507118 507119 507120 507123 507124 507125 507126 507127 507128 507137 507140 507154 507166 507171 507301 507306 507315 507316"],
+  ["TG", "Hanumakonda", "Hanumakonda", "505101 505102 505471 505476 505480 505497 506001 506002 506003 506004 506005 506006 506007 506008 506009 506011 506013 506015 506142 506151 506166 506310 506313 506330 506370 506371"],
+  ["TG", "Hyderabad", "Hyderabad", "500001 500002 500003 500004 500006 500007 500008 500009 500010 500011 500012 500014 500015 500017 500020 500022 500023 500024 500026 500027 500028 500029 500031 500033 500034 500036 500038 500040 500041 500044 500045 500053 500056 500057 500058 500059 500061 500064 500065 500066 500073 500080 500081 500082 500084 500094 500096 500106 500109 500110 500112 500117 500118"],
+  ["TG", "Jagitial", "Jagitial", "505306 505325 505326 505327 505330 505331 505416 505425 505450 505452 505453 505454 505455 505460 505462 505501 505526 505529 505532"],
+  ["TG", "Jangoan", "Jangoan", "506143 506144 506145 506146 506167 506175 506201 506221 506222 506244 506252 506301 506302 506303 506316"],
+  ["TG", "Jayashankar Bhupalapally", "Jayashankar Bhupalapally", "505503 505504 506168 506169 506170 506319 506345 506348 506356 506366"],
+  ["TG", "Jogulamba Gadwal", "Jogulamba Gadwal", "509125 509126 509127 509128 509129 509132 509133 509135 509152 509153"],
+  ["TG", "Kamareddy", "Kamareddy", "503101 503102 503108 503110 503111 503112 503114 503120 503122 503123 503124 503125 503144 503145 503187 503301 503302 503305 503306 503309 503310 503321"],
+  ["TG", "Karimnagar", "Karimnagar", "505001 505002 505122 505129 505186 505401 505415 505445 505451 505468 505469 505470 505472 505474 505475 505481 505490 505498 505502 505505 505527 505531"],
+  ["TG", "Khammam", "Khammam", "507001 507002 507003 507122 507157 507158 507159 507160 507161 507163 507164 507165 507167 507168 507169 507170 507182 507183 507201 507202 507203 507204 507208 507209 507302 507303 507304 507305 507318"],
+  ["TG", "Kumuram Bheem Asifabad", "Kumuram Bheem Asifabad", "504292 504293 504294 504295 504296 504297 504299 504313"],
+  ["TG", "Mahabubabad", "Mahabubabad", "506101 506102 506103 506104 506105 506134 506135 506163 506315 506317 506318 506324 506325 506332 506368 506381 507210 507211"],
+  ["TG", "Mahabubnagar", "Mahabubnagar", "509001 509002 509202 509204 509219 509301 509302 509334 509337 509340 509357 509371 509380 509382 509409"],
+  ["TG", "Mancherial", "Mancherial", "504201 504204 504205 504206 504207 504208 504209 504214 504215 504216 504218 504219 504220 504231 504251 504272 504273 504301 504302 504303"],
+  ["TG", "Medak", "Medak", "502101 502102 502109 502110 502113 502115 502117 502125 502130 502247 502248 502255 502269 502271 502290 502302 502303 502313 502316 502331 502334 502335 502336 502381"],
+  ["TG", "Medchal Malkajgiri", "Medchal Malkajgiri", "500013 500016 500018 500037 500039 500042 500043 500047 500049 500051 500054 500055 500062 500067 500068 500072 500076 500078 500083 500085 500087 500088 500090 500092 500098 500100 500101 500103 500114 501301 501302 501303 501401 501513"],
+  ["TG", "Mulugu", "Mulugu", "506165 506172 506343 506344 506347 506349 506352 507133 507136"],
+  ["TG", "Nagarkurnool", "Nagarkurnool", "509102 509105 509201 509203 509209 509215 509235 509320 509324 509326 509349 509360 509375 509376 509385 509401 509406 509412"],
+  ["TG", "Nalgonda", "Nalgonda", "508001 508002 508004 508114 508202 508205 508207 508208 508210 508211 508217 508243 508244 508245 508247 508248 508250 508254 508255 508256 508257 508258 508266 508278 508355 508373 508374 508377"],
+  ["TG", "Narayanpet", "Narayanpet", "509205 509208 509210 509311 509339 509351 509352 509353 509407 509411"],
+  ["TG", "Nirmal", "Nirmal", "504101 504102 504103 504104 504105 504106 504107 504109 504110 504202 504203 504306 504310 799001"],
+  ["TG", "Nizamabad", "Nizamabad", "503001 503002 503003 503164 503165 503174 503175 503180 503185 503186 503188 503201 503202 503206 503207 503212 503213 503217 503218 503219 503223 503224 503225 503230 503235 503245 503246 503307 503308 503311 503322"],
+  ["TG", "Peddapalli", "Peddapalli", "505152 505153 505162 505172 505174 505184 505185 505187 505188 505208 505209 505210 505211 505212 505214 505215 505506 505514 505525"],
+  ["TG", "Rajanna Sircilla", "Rajanna Sircilla", "505301 505302 505303 505304 505305 505307 505402 505403 505404 505405 505524"],
+  ["TG", "Ranga Reddy", "Ranga Reddy", "500005 500019 500030 500032 500035 500046 500048 500050 500052 500060 500069 500070 500074 500075 500077 500079 500086 500089 500091 500097 500102 500104 500108 500111 500113 501203 501218 501359 501503 501504 501505 501506 501508 501509 501510 501512 509207 509216 509217 509228 509321 509325 509327 509328 509358 509408 509410"],
+  ["TG", "Sangareddy", "Sangareddy", "502001 502032 502033 502034 502205 502210 502220 502221 502228 502246 502249 502251 502256 502257 502270 502273 502284 502285 502286 502287 502291 502293 502294 502295 502296 502300 502305 502306 502307 502314 502318 502319 502321 502324 502325 502329 502345 502371"],
+  ["TG", "Siddipet", "Siddipet", "502103 502106 502107 502108 502114 502267 502276 502277 502278 502279 502280 502281 502301 502310 502311 502312 502372 502375 505466 505467 505473 505528 505530 506223 506224 506355 506367"],
+  ["TG", "Suryapet", "Suryapet", "508201 508204 508206 508212 508213 508214 508218 508221 508223 508224 508233 508234 508238 508246 508279 508280 508376"],
+  ["TG", "Vikarabad", "Vikarabad", "501101 501102 501106 501111 501121 501141 501142 501143 501144 501158 501202 501501 501502 509335 509336 509338 509350"],
+  ["TG", "Wanaparthy", "Wanaparthy", "509103 509104 509106 509110 509120 509130 509131 509206 509381"],
+  ["TG", "Warangal", "Warangal", "506112 506122 506132 506164 506314 506329 506331 506333 506342 506350 506365 506369 506391"],
+  ["TG", "Yadadri Bhuvanagiri", "Yadadri Bhuvanagiri", "508101 508105 508111 508112 508113 508115 508116 508117 508126 508252 508253 508277 508284 508285 508286"],
+  ["TN", "Ariyalur", "Ariyalur", "608901 612901 612902 612903 612904 612905 621701 621704 621705 621707 621709 621710 621713 621714 621715 621718 621719 621729 621730 621731 621801 621802 621803 621804 621805 621806 621851"],
+  ["TN", "Chengalpattu", "Chengalpattu", "600043 600044 600045 600046 600047 600048 600059 600063 600064 600070 600073 600074 600075 600100 600117 600126 600127 600129 600130 600131 603001 603002 603003 603004 603101 603102 603103 603104 603105 603108 603109 603110 603111 603112 603127 603201 603202 603203 603204 603209 603210 603211 603301 603302 603303 603304 603305 603306 603307 603308 603309 603310 603311 603312 603313 603314 603319 603401 603405"],
+  ["TN", "Chennai", "Chennai", "600001 600002 600003 600004 600005 600006 600007 600008 600009 600010 600011 600012 600013 600014 600015 600016 600017 600018 600019 600020 600021 600022 600023 600024 600025 600026 600028 600030 600031 600032 600033 600034 600035 600036 600037 600038 600039 600040 600041 600042 600049 600050 600051 600053 600057 600058 600060 600061 600066 600068 600076 600078 600081 600082 600083 600084 600085 600086 600087 600088 600090 600091 600092 600093 600094 600095 600096 600097 600099 600101 600102 600103 600104 600106 600107 600113 600115 600116 600118 600119 600125"],
+  ["TN", "Coimbatore", "Coimbatore", "641001 641002 641003 641004 641005 641006 641007 641008 641009 641010 641011 641012 641013 641014 641015 641016 641017 641018 641019 641020 641021 641022 641023 641024 641025 641026 641027 641028 641029 641030 641031 641032 641033 641034 641035 641036 641037 641038 641039 641040 641041 641042 641043 641044 641045 641046 641047 641048 641049 641050 641051 641062 641063 641101 641103 641104 641105 641107 641108 641109 641110 641111 641112 641113 641114 641201 641202 641301 641302 641305 641401 641402 641407 641653 641659 641668 641669 641697 642001 642002 642003 642004 642005 642006 642007 642101 642103 642104 642105 642106 642107 642108 642109 642110 642114 642117 642120 642123 642125 642127 642129 642130 642133 642134 642202"],
+  ["TN", "Cuddalore", "Cuddalore", "606001 606003 606103 606104 606105 606106 606108 606109 606110 606111 606302 606303 606304 607001 607002 607003 607004 607005 607006 607102 607103 607104 607105 607106 607108 607109 607112 607205 607301 607302 607303 607308 607401 607801 607802 607803 607804 607805 607807 608001 608002 608102 608201 608301 608302 608303 608304 608305 608306 608401 608501 608502 608601 608602 608701 608702 608703 608704 608801"],
+  ["TN", "Dharmapuri", "Dharmapuri", "635111 635202 635205 635301 635302 635303 635305 636352 636701 636704 636705 636803 636804 636805 636806 636807 636808 636809 636810 636811 636813 636902 636903 636904 636905 636906 636907"],
+  ["TN", "Dindigul", "Dindigul", "624001 624002 624003 624004 624005 624101 624103 624201 624202 624204 624206 624208 624210 624211 624212 624215 624216 624219 624220 624301 624302 624303 624304 624306 624307 624308 624401 624402 624403 624601 624610 624612 624613 624614 624615 624616 624617 624618 624619 624620 624621 624622 624701 624702 624703 624704 624705 624706 624707 624708 624709 624710 624711 624712 624801 624802"],
+  ["TN", "Erode", "Erode", "638001 638002 638003 638004 638005 638009 638011 638012 638051 638052 638053 638054 638055 638056 638057 638060 638101 638102 638104 638107 638109 638110 638112 638115 638116 638151 638152 638153 638154 638301 638311 638312 638313 638314 638315 638316 638401 638402 638451 638452 638453 638454 638455 638456 638457 638458 638459 638460 638461 638462 638476 638501 638502 638503 638504 638505 638506"],
+  ["TN", "Kallakurichi", "Kallakurichi", "605702 605751 605754 605757 605759 605766 605801 605802 606102 606107 606115 606201 606202 606203 606204 606205 606206 606207 606208 606209 606213 606301 606305 606401 606402 607201 607202 607204"],
+  ["TN", "Kanchipuram", "Kanchipuram", "600069 600089 600122 600128 600132 601301 602105 602106 602117 602118 603106 603107 603402 603403 603406 631501 631502 631551 631552 631553 631561 631601 631603 631604 631605 631606"],
+  ["TN", "Kanniyakumari", "Kanniyakumari", "629001 629002 629003 629004 629101 629102 629151 629152 629153 629154 629155 629156 629157 629158 629159 629160 629161 629162 629163 629164 629165 629166 629167 629168 629169 629170 629171 629172 629173 629174 629175 629176 629177 629178 629179 629180 629193 629201 629202 629203 629204 629251 629252 629301 629302 629401 629402 629403 629501 629502 629601 629602 629701 629702 629703 629704 629801 629802 629803 629804 629809 629810 629851 629852 629901"],
+  ["TN", "Karur", "Karur", "621301 621311 621313 639001 639002 639003 639004 639005 639006 639007 639008 639102 639104 639105 639107 639108 639109 639110 639111 639113 639114 639116 639117 639118 639119 639120 639136 639201 639202 639203 639205 639206 639207"],
+  ["TN", "Krishnagiri", "Krishnagiri", "635001 635002 635101 635102 635103 635104 635105 635106 635107 635108 635109 635110 635112 635113 635114 635115 635116 635117 635118 635119 635120 635121 635122 635123 635124 635126 635130 635201 635203 635204 635206 635207 635304 635306 635307 636812"],
+  ["TN", "Madurai", "Madurai", "625001 625002 625003 625004 625005 625006 625007 625008 625009 625011 625012 625014 625015 625016 625017 625018 625019 625020 625021 625022 625023 625101 625102 625103 625104 625105 625106 625107 625108 625109 625110 625122 625201 625205 625207 625214 625218 625221 625234 625301 625402 625501 625503 625514 625527 625529 625532 625535 625537 625701 625702 625703 625704 625705 625706 625707 625708"],
+  ["TN", "Mayiladuthurai", "Mayiladuthurai", "609001 609003 609101 609102 609103 609104 609105 609106 609107 609108 609109 609110 609111 609112 609113 609114 609115 609116 609117 609118 609201 609202 609203 609204 609205 609301 609302 609303 609304 609305 609306 609307 609308 609309 609310 609311 609312 609313 609314 609401 609402 609404 609801 609803 609805 609806 609808 609810 609811 612201 612203"],
+  ["TN", "Nagapattinam", "Nagapattinam", "609504 609701 609702 609703 609704 610101 610204 610207 611001 611002 611003 611102 611103 611104 611105 611106 611108 611109 611110 611111 611112 614707 614712 614714 614806 614807 614808 614809 614810"],
+  ["TN", "Namakkal", "Namakkal", "636142 636202 636301 637001 637002 637003 637013 637014 637015 637017 637018 637019 637020 637021 637201 637202 637203 637204 637205 637206 637207 637208 637209 637210 637211 637212 637213 637214 637215 637216 637304 637401 637402 637403 637404 637405 637406 637407 637408 637409 637410 637411 637412 637415 637503 637505 638006 638007 638008 638010 638181 638182 638183"],
+  ["TN", "Perambalur", "Perambalur", "621101 621102 621103 621104 621106 621107 621108 621109 621110 621113 621114 621115 621116 621117 621118 621119 621133 621212 621219 621220 621708 621716 621717"],
+  ["TN", "Pudukkottai", "Pudukkottai", "613301 614616 614617 614618 614619 614620 614621 614622 614624 614629 614630 614801 614805 621316 622001 622002 622003 622004 622005 622101 622102 622103 622104 622201 622202 622203 622204 622209 622301 622302 622303 622304 622401 622402 622403 622404 622407 622409 622411 622412 622422 622501 622502 622503 622504 622505 622506 622507 622515"],
+  ["TN", "Ramanathapuram", "Ramanathapuram", "623115 623120 623135 623308 623315 623401 623402 623403 623404 623406 623407 623409 623501 623502 623503 623504 623512 623513 623514 623515 623516 623517 623518 623519 623520 623521 623522 623523 623524 623525 623526 623527 623528 623529 623530 623531 623532 623533 623534 623536 623537 623538 623566 623601 623603 623604 623605 623608 623701 623703 623704 623705 623706 623707 623708 623711 623712 623806"],
+  ["TN", "Ranipet", "Ranipet", "631001 631002 631003 631004 631005 631006 631051 631052 631101 631102 631151 631152 632318 632401 632403 632404 632405 632406 632501 632502 632503 632504 632505 632506 632507 632508 632509 632510 632511 632512 632513 632517 632518 632521 632531"],
+  ["TN", "Salem", "Salem", "636001 636002 636003 636004 636005 636006 636007 636008 636009 636010 636011 636012 636013 636014 636015 636016 636017 636030 636101 636102 636103 636104 636105 636106 636107 636108 636109 636110 636111 636112 636113 636114 636115 636116 636117 636118 636119 636121 636122 636138 636139 636140 636141 636201 636203 636204 636302 636303 636304 636305 636306 636307 636308 636309 636351 636354 636401 636402 636403 636404 636406 636451 636452 636453 636454 636455 636456 636457 636458 636501 636502 636503 636601 636602 637101 637102 637103 637104 637105 637107 637301 637302 637303 637501 637502 637504"],
+  ["TN", "Sivaganga", "Sivaganga", "630001 630002 630003 630005 630101 630102 630103 630104 630105 630106 630107 630108 630201 630202 630203 630204 630205 630206 630207 630208 630210 630211 630212 630301 630302 630303 630305 630306 630307 630309 630311 630312 630313 630314 630321 630405 630408 630410 630411 630501 630502 630551 630552 630553 630554 630555 630556 630557 630558 630559 630561 630562 630566 630602 630606 630609 630610 630611 630612 630702 630709 630710 630713"],
+  ["TN", "Tenkasi", "Tenkasi", "627412 627415 627418 627423 627424 627713 627719 627751 627753 627754 627755 627756 627757 627758 627759 627760 627761 627764 627802 627803 627804 627805 627806 627807 627808 627809 627811 627812 627813 627814 627818 627851 627852 627853 627854 627855 627856 627857 627858 627859 627860 627861 627862 627953"],
+  ["TN", "Thanjavur", "Thanjavur", "609802 609804 609807 612001 612002 612101 612102 612103 612104 612105 612106 612202 612204 612301 612302 612303 612401 612402 612501 612502 612503 612504 612602 612605 612702 612703 613001 613002 613003 613004 613005 613006 613007 613008 613009 613010 613101 613102 613103 613104 613105 613201 613202 613203 613204 613205 613303 613401 613402 613403 613501 613502 613503 613504 613601 613602 614201 614202 614203 614204 614205 614206 614207 614208 614210 614211 614301 614302 614303 614401 614402 614601 614602 614612 614613 614614 614615 614623 614625 614626 614628 614701 614723 614802 614803 614804 614901 614902 614903 614904 614905 614906"],
+  ["TN", "The Nilgiris", "The Nilgiris", "643001 643002 643003 643004 643005 643006 643007 643101 643102 643103 643105 643201 643202 643203 643204 643205 643206 643207 643209 643211 643212 643213 643214 643215 643216 643217 643218 643219 643220 643221 643223 643224 643225 643226 643231 643233 643236 643237 643238 643239 643240 643241 643242 643243 643253 643270"],
+  ["TN", "Theni", "Theni", "625203 625512 625513 625515 625516 625517 625518 625520 625521 625522 625523 625524 625525 625526 625528 625530 625531 625533 625534 625536 625540 625552 625556 625562 625579 625582 625601 625602 625603 625604 625605"],
+  ["TN", "Thiruvallur", "Thiruvallur", "600052 600054 600055 600056 600062 600067 600071 600072 600077 600110 600120 600123 600124 600133 601101 601102 601103 601201 601202 601203 601204 601205 601206 602001 602002 602003 602021 602023 602024 602025 602026 602108 631201 631202 631203 631204 631205 631206 631207 631208 631209 631210 631211 631212 631213 631301 631302 631303 631304 631402"],
+  ["TN", "Thiruvarur", "Thiruvarur", "609403 609405 609501 609502 609503 609608 610001 610003 610004 610005 610102 610103 610104 610105 610106 610107 610109 610201 610202 610203 610205 610206 611101 612601 612603 612604 612610 612701 612801 612802 612803 612804 613701 613702 613703 613704 613705 614001 614013 614014 614015 614016 614017 614018 614019 614020 614101 614102 614103 614403 614404 614702 614703 614704 614705 614706 614708 614710 614711 614713 614715 614716 614717 614738"],
+  ["TN", "Tiruchirappalli", "Tiruchirappalli", "620001 620002 620003 620004 620005 620006 620007 620008 620009 620010 620011 620012 620013 620014 620015 620016 620017 620018 620019 620020 620021 620022 620023 620024 620025 620026 620027 620101 620102 621001 621002 621003 621004 621005 621006 621007 621008 621009 621010 621011 621012 621014 621105 621111 621112 621202 621203 621204 621205 621206 621207 621208 621209 621210 621211 621213 621214 621215 621216 621217 621218 621302 621305 621306 621307 621308 621310 621312 621314 621315 621601 621651 621652 621653 621702 621703 621706 621711 621712 621722 639101 639103 639112 639115"],
+  ["TN", "Tirunelveli", "Tirunelveli", "627001 627002 627003 627004 627005 627006 627007 627008 627009 627010 627011 627012 627101 627102 627103 627104 627105 627106 627107 627108 627109 627110 627111 627112 627113 627114 627115 627116 627117 627118 627119 627120 627127 627133 627151 627152 627201 627202 627351 627352 627353 627354 627355 627356 627357 627358 627359 627401 627413 627414 627416 627417 627420 627421 627422 627425 627426 627427 627428 627451 627452 627453 627501 627502 627601 627602 627603 627604 627651 627652 627654 627657 627951"],
+  ["TN", "Tirupathur", "Tirupathur", "635601 635602 635651 635652 635653 635654 635655 635701 635702 635710 635751 635752 635754 635801 635802 635804 635807 635808 635811 635812 635814 635815 635851 635852 635853 635854 635901"],
+  ["TN", "Tiruppur", "Tiruppur", "638103 638105 638106 638108 638111 638656 638657 638660 638661 638672 638673 638701 638702 638703 638706 638751 638752 638812 641601 641602 641603 641604 641605 641606 641607 641652 641654 641655 641658 641662 641663 641664 641665 641666 641667 641670 641671 641687 642102 642111 642112 642113 642122 642126 642128 642132 642154 642201 642203 642204 642205 642206 642207"],
+  ["TN", "Tiruvannamalai", "Tiruvannamalai", "604401 604402 604403 604404 604405 604406 604407 604408 604409 604410 604411 604501 604502 604503 604504 604505 604601 606601 606603 606604 606611 606701 606702 606703 606704 606705 606706 606707 606708 606709 606710 606751 606752 606753 606754 606755 606801 606802 606803 606804 606805 606806 606807 606808 606811 606901 606902 606903 606904 606905 606906 606907 606908 631701 631702 632301 632311 632312 632313 632314 632315 632316 632317 632326 635703"],
+  ["TN", "Tuticorin", "Tuticorin", "628001 628002 628003 628004 628005 628006 628007 628008 628101 628102 628103 628104 628105 628151 628152 628155 628201 628202 628203 628204 628205 628206 628207 628208 628209 628210 628211 628212 628213 628215 628216 628217 628218 628219 628229 628251 628252 628301 628302 628303 628304 628401 628402 628501 628502 628503 628552 628601 628612 628613 628614 628615 628616 628617 628618 628619 628620 628621 628622 628623 628653 628656 628701 628702 628703 628704 628712 628714 628716 628718 628720 628721 628722 628751 628752 628753 628801 628802 628809 628851 628901 628902 628903 628904 628905 628906 628907 628908 628952"],
+  ["TN", "Vellore", "Vellore", "632001 632002 632004 632006 632007 632008 632009 632010 632011 632012 632013 632014 632055 632057 632058 632059 632101 632102 632103 632104 632105 632106 632107 632113 632114 632115 632201 632202 632203 632204 632209 632319 632514 632515 632516 632519 632520 632601 632602 632603 632604 635803 635805 635806 635809 635810 635813"],
+  ["TN", "Villupuram", "Villupuram", "604001 604101 604102 604151 604152 604153 604154 604201 604202 604203 604204 604205 604206 604207 604208 604210 604301 604302 604303 604304 604305 604306 604307 605101 605102 605103 605104 605105 605108 605109 605111 605201 605202 605203 605301 605302 605401 605402 605403 605501 605601 605602 605651 605652 605701 605752 605755 605756 605758 605803 607101 607107 607203 607209"],
+  ["TN", "Virudhunagar", "Virudhunagar", "626001 626002 626003 626004 626005 626101 626102 626103 626104 626105 626106 626107 626108 626109 626110 626111 626112 626113 626114 626115 626116 626117 626118 626119 626121 626122 626123 626124 626125 626126 626127 626128 626129 626130 626131 626132 626133 626134 626135 626136 626137 626138 626139 626140 626141 626142 626149 626161 626188 626189 626201 626202 626203 626204 626205 626607 626612"],
+  ["TR", "Dhalai", "Dhalai", "799204 799266 799273 799275 799278 799284 799285 799286 799287 799289"],
+  ["TR", "Gomati", "Gomati", "799013 799101 799104 799105 799113 799114 799120 799125"],
+  ["TR", "Khowai", "Khowai", "799201 799202 799203 799205 799207"],
+  ["TR", "North Tripura", "North Tripura", "799250 799251 799253 799254 799256 799260 799261 799262 799269 799270 799271"],
+  ["TR", "Sepahijala", "Sepahijala", "799011 799102 799103 799115 799131 799132"],
+  ["TR", "South Tripura", "South Tripura", "799141 799142 799143 799144 799145 799150 799153 799155 799156 799157"],
+  ["TR", "Unakoti", "Unakoti", "799263 799264 799277 799279 799280 799281 799282 799288 799290"],
+  ["TR", "West Tripura", "West Tripura", "799002 799003 799004 799005 799006 799007 799008 799009 799010 799012 799014 799015 799022 799035 799045 799046 799130 799210 799211 799212"],
+  ["UK", "Almora", "Almora", "263601 263621 263622 263623 263624 263625 263626 263628 263629 263636 263637 263638 263643 263645 263646 263651 263652 263653 263655 263656 263658 263659 263660 263661 263663 263664 263665 263667 263676 263678 263680"],
+  ["UK", "Bageshwar", "Bageshwar", "263619 263620 263630 263631 263632 263633 263634 263635 263639 263640 263641 263642 263679"],
+  ["UK", "Chamoli", "Chamoli", "246401 246422 246424 246426 246427 246428 246429 246431 246435 246440 246441 246443 246444 246446 246449 246453 246455 246472 246473 246474 246481 246482 246483 246486 246487 246488"],
+  ["UK", "Champawat", "Champawat", "262309 262310 262523 262524 262525 262527 262528 262561 262580"],
+  ["UK", "Dehradun", "Dehradun", "248001 248002 248003 248005 248006 248007 248008 248009 248011 248012 248013 248014 248015 248016 248018 248019 248121 248122 248123 248124 248125 248140 248142 248143 248145 248146 248158 248159 248165 248171 248179 248195 248196 248197 248198 248199 249201 249202 249203 249204 249205 249206"],
+  ["UK", "Haridwar", "Haridwar", "247656 247658 247661 247663 247664 247665 247666 247667 247668 247670 247671 249401 249402 249403 249404 249405 249407 249408 249410 249411 249412"],
+  ["UK", "Nainital", "Nainital", "244715 262402 263001 263126 263127 263128 263132 263134 263135 263136 263137 263138 263139 263140 263141 263142 263156 263157 263158 263159"],
+  ["UK", "Pauri Garhwal", "Pauri Garhwal", "246001 246113 246121 246123 246124 246125 246127 246128 246129 246130 246131 246142 246144 246146 246147 246148 246149 246150 246155 246159 246161 246162 246163 246164 246165 246166 246167 246169 246172 246173 246174 246175 246176 246177 246178 246179 246193 246194 246275 246276 246277 246278 246279 246285 249301 249302 249304 249306"],
+  ["UK", "Pithoragarh", "Pithoragarh", "262501 262502 262520 262521 262522 262526 262529 262530 262531 262532 262533 262534 262540 262541 262542 262543 262544 262545 262546 262547 262550 262551 262552 262553 262554 262555 262572 262576"],
+  ["UK", "Rudra Prayag", "Rudra Prayag", "246141 246171 246419 246421 246425 246439 246442 246445 246448 246469 246471 246475 246495"],
+  ["UK", "Tehri Garhwal", "Tehri Garhwal", "249001 249121 249122 249123 249124 249125 249126 249127 249130 249131 249132 249137 249145 249146 249155 249161 249165 249175 249180 249181 249186 249192 249199"],
+  ["UK", "Udam Singh Nagar", "Udam Singh Nagar", "244712 244713 244716 244717 244720 262308 262311 262401 262405 263145 263148 263149 263150 263151 263152 263153 263160"],
+  ["UK", "Uttar Kashi", "Uttar Kashi", "249128 249135 249136 249141 249151 249152 249171 249185 249193 249194 249196"],
+  ["UP", "Agra", "Agra", "282001 282002 282003 282004 282005 282006 282007 282008 282009 282010 283101 283102 283104 283105 283110 283111 283112 283113 283114 283115 283119 283121 283122 283123 283124 283125 283126 283201 283202"],
+  ["UP", "Aligarh", "Aligarh", "202001 202002 202121 202122 202123 202124 202125 202126 202127 202128 202129 202130 202131 202132 202133 202134 202135 202136 202137 202138 202140 202141 202142 202143 202145 202146 202150 202155 202165 202170 202280 202281 202282 204217 246761"],
+  ["UP", "Ambedkar Nagar", "Ambedkar Nagar", "224122 224125 224129 224132 224137 224139 224143 224145 224146 224147 224149 224151 224152 224155 224157 224159 224168 224176 224181 224183 224186 224190 224210 224227 224230 224231 224232 224235 224238 224239"],
+  ["UP", "Amethi", "Amethi", "227405 227406 227407 227409 227411 227412 227413 227801 227807 227809 227811 227813 227816 227817 228159 229126 229135 229302 229304 229305 229309 229801 229802"],
+  ["UP", "Amroha", "Amroha", "244221 244222 244223 244225 244231 244235 244236 244241 244242 244245 244251 244255"],
+  ["UP", "Auraiya", "Auraiya", "206121 206122 206129 206241 206243 206244 206246 206247 206248 206249 206250 206251 206252 206255"],
+  ["UP", "Ayodhya", "Ayodhya", "224001 224116 224117 224118 224119 224120 224121 224123 224126 224127 224133 224135 224141 224153 224158 224161 224164 224171 224182 224188 224189 224195 224201 224202 224203 224204 224205 224206 224207 224208 224209 224225 224228 224229 224234 224284"],
+  ["UP", "Azamgarh", "Azamgarh", "223221 223222 223223 223224 223225 223226 223227 276001 276121 276122 276123 276124 276125 276126 276127 276128 276131 276135 276136 276137 276138 276139 276140 276141 276142 276143 276201 276202 276203 276204 276205 276206 276207 276208 276288 276301 276302 276303 276304 276305 276404 276406"],
+  ["UP", "Baghpat", "Baghpat", "250101 250345 250601 250606 250609 250611 250615 250619 250620 250621 250622 250623 250625"],
+  ["UP", "Bahraich", "Bahraich", "271801 271802 271806 271821 271824 271825 271830 271841 271851 271855 271865 271870 271871 271872 271875 271881 271882 271901 271902 271903 271904"],
+  ["UP", "Ballia", "Ballia", "221701 221709 221711 221712 221713 221715 221716 221717 221718 277001 277121 277123 277124 277201 277202 277203 277204 277205 277207 277208 277209 277210 277211 277213 277214 277216 277219 277301 277302 277303 277304 277401 277402 277403 277501 277502 277503 277504 277506"],
+  ["UP", "Balrampur", "Balrampur", "271201 271203 271205 271206 271207 271208 271210 271215 271306 271307 271604 271607 271609 271861"],
+  ["UP", "Banda", "Banda", "210001 210120 210121 210122 210123 210125 210126 210128 210129 210201 210202 210203"],
+  ["UP", "Barabanki", "Barabanki", "225001 225003 225119 225120 225121 225122 225123 225124 225125 225126 225201 225202 225203 225204 225205 225206 225207 225208 225301 225302 225303 225304 225305 225306 225401 225403 225404 225405 225409 225412 225413 225414 225415 225416"],
+  ["UP", "Bareilly", "Bareilly", "243001 243002 243003 243004 243005 243006 243122 243123 243126 243201 243202 243203 243301 243302 243303 243401 243402 243403 243407 243501 243502 243503 243504 243505 243506 262406"],
+  ["UP", "Basti", "Basti", "272001 272002 272123 272124 272127 272128 272129 272130 272131 272148 272150 272151 272155 272161 272163 272171 272177 272178 272181 272182 272190 272194 272301 272302"],
+  ["UP", "Bhadohi", "Bhadohi", "221301 221303 221304 221306 221308 221309 221310 221314 221401 221402 221404 221406 221409"],
+  ["UP", "Bijnor", "Bijnor", "246701 246721 246722 246723 246724 246725 246726 246727 246728 246729 246731 246732 246733 246734 246735 246736 246737 246745 246746 246747 246749 246762 246763 246764"],
+  ["UP", "Budaun", "Budaun", "243601 243630 243631 243632 243633 243634 243635 243636 243637 243639 243641 243720 243723 243724 243725 243726"],
+  ["UP", "Bulandshahr", "Bulandshahr", "203001 203002 203129 203131 203132 203150 203205 203206 203389 203390 203391 203392 203393 203394 203395 203396 203397 203398 203399 203401 203402 203403 203405 203407 203408 203409 203411 203412 203413"],
+  ["UP", "Chandauli", "Chandauli", "221009 221110 221115 232101 232102 232103 232104 232105 232106 232107 232108 232109 232110 232111 232115 232118 232120"],
+  ["UP", "Chitrakoot", "Chitrakoot", "210204 210205 210206 210207 210208 210209"],
+  ["UP", "Deoria", "Deoria", "274001 274182 274201 274202 274204 274205 274206 274208 274404 274405 274408 274501 274502 274505 274506 274508 274509 274601 274602 274603 274604 274701 274702 274703 274704 274705 274806 274807 274808"],
+  ["UP", "Etah", "Etah", "207001 207002 207003 207120 207121 207122 207125 207241 207244 207247 207248 207249 207250 207301 207302 207401"],
+  ["UP", "Etawah", "Etawah", "206001 206002 206003 206120 206123 206124 206125 206126 206127 206128 206130 206131 206242 206245 206253"],
+  ["UP", "Farrukhabad", "Farrukhabad", "209501 209502 209503 209504 209505 209601 209602 209621 209622 209625 209651 209652 209724 209739 209743 209745 209749"],
+  ["UP", "Fatehpur", "Fatehpur", "208001 212601 212620 212621 212622 212631 212635 212641 212645 212650 212651 212652 212653 212654 212655 212656 212657 212658 212659 212661 212663 212664 212665"],
+  ["UP", "Firozabad", "Firozabad", "224172 283103 283130 283135 283136 283141 283142 283145 283151 283152 283203 283204 283205 283206 283207"],
+  ["UP", "Gautam Buddha Nagar", "Gautam Buddha Nagar", "201008 201301 201302 201303 201304 201305 201306 201307 201309 201310 201311 201312 201313 201314 201315 201316 201317 201318 203135 203141 203155 203201 203202 203203 203207 203209"],
+  ["UP", "Ghaziabad", "Ghaziabad", "201001 201002 201003 201004 201005 201006 201007 201009 201010 201011 201012 201013 201014 201015 201016 201017 201018 201019 201020 201021 201102 201103 201201 201204 201206"],
+  ["UP", "Ghazipur", "Ghazipur", "232325 232326 232327 232328 232329 232330 232331 232332 232333 232336 232339 232340 232341 233001 233002 233221 233222 233223 233224 233225 233226 233227 233228 233229 233230 233231 233232 233233 233234 233300 233301 233302 233303 233304 233305 233306 233307 233310 233311 275201 275202 275203 275204 275205"],
+  ["UP", "Gonda", "Gonda", "271001 271002 271003 271122 271123 271124 271125 271126 271129 271202 271204 271209 271301 271302 271303 271304 271305 271308 271309 271310 271311 271312 271313 271319 271401 271402 271403 271502 271503 271504 271601 271602 271603"],
+  ["UP", "Gorakhpur", "Gorakhpur", "273001 273002 273003 273004 273005 273006 273007 273008 273009 273010 273012 273013 273014 273015 273016 273017 273152 273158 273165 273201 273202 273203 273209 273211 273212 273213 273306 273401 273402 273403 273404 273405 273406 273407 273408 273409 273411 273412 273413"],
+  ["UP", "Hamirpur", "Hamirpur", "210301 210341 210422 210428 210430 210431 210432 210501 210502 210505 210506 210507"],
+  ["UP", "Hapur", "Hapur", "201022 245101 245201 245205 245207 245208 245301 245304"],
+  ["UP", "Hardoi", "Hardoi", "241001 241121 241122 241123 241124 241125 241126 241127 241201 241202 241203 241204 241301 241302 241303 241304 241305 241401 241402 241403 241404 241405 241406 241407"],
+  ["UP", "Hathras", "Hathras", "202139 204101 204102 204211 204212 204213 204214 204215 204216 281104 281302 281306 281307"],
+  ["UP", "Jalaun", "Jalaun", "285001 285121 285122 285123 285124 285125 285126 285127 285128 285129 285130 285201 285202 285203 285204 285205 285206 285223"],
+  ["UP", "Jaunpur", "Jaunpur", "222001 222002 222003 222004 222105 222109 222125 222126 222127 222128 222129 222131 222132 222133 222135 222136 222137 222138 222139 222141 222142 222143 222144 222145 222146 222148 222149 222161 222162 222165 222170 222175 222180 222181 222201 222202 222203 222204 222205 223101 223102 223103 223104 223105"],
+  ["UP", "Jhansi", "Jhansi", "284001 284002 284003 284120 284121 284127 284128 284135 284201 284202 284203 284204 284205 284206 284301 284302 284303 284304 284305 284306 284401 284419"],
+  ["UP", "Kannauj", "Kannauj", "209720 209721 209722 209723 209725 209726 209727 209728 209729 209731 209732 209733 209734 209735 209736 209738 209747"],
+  ["UP", "Kanpur Dehat", "Kanpur Dehat", "209101 209111 209112 209115 209121 209125 209204 209208 209301 209302 209303 209306 209307 209310 209311 209312"],
+  ["UP", "Kanpur Nagar", "Kanpur Nagar", "208002 208003 208004 208005 208006 208007 208008 208009 208010 208011 208012 208013 208014 208015 208016 208017 208019 208020 208021 208022 208023 208024 208025 208026 208027 208028 209202 209203 209205 209206 209209 209210 209214 209217 209304 209305 209308 209401 209402"],
+  ["UP", "Kasganj", "Kasganj", "207123 207124 207242 207243 207245 207246 207402 207403"],
+  ["UP", "Kaushambi", "Kaushambi", "212201 212202 212203 212204 212205 212206 212207 212213 212214 212216 212217 212218"],
+  ["UP", "Kheri", "Kheri", "261501 261502 261505 261506 262701 262702 262721 262722 262723 262724 262725 262726 262727 262728 262801 262802 262803 262804 262805 262901 262902 262903 262904 262905 262906 262907 262908"],
+  ["UP", "Kushi Nagar", "Kushi Nagar", "274149 274203 274207 274301 274302 274303 274304 274305 274306 274307 274308 274309 274401 274402 274403 274406 274407 274409 274801 274802 900056"],
+  ["UP", "Lalitpur", "Lalitpur", "284122 284123 284124 284125 284126 284136 284402 284403 284404 284405 284406 284501"],
+  ["UP", "Lucknow", "Lucknow", "226001 226002 226003 226004 226005 226006 226007 226008 226009 226010 226011 226012 226013 226014 226015 226016 226017 226018 226019 226020 226021 226022 226023 226024 226025 226026 226027 226028 226029 226030 226031 226101 226102 226103 226104 226201 226202 226203 226301 226302 226303 226401 226501"],
+  ["UP", "Maharajganj", "Maharajganj", "273151 273155 273157 273161 273162 273163 273164 273207 273301 273302 273303 273304 273305 273308 273309 273310 273311 273312"],
+  ["UP", "Mahoba", "Mahoba", "210421 210423 210424 210425 210426 210427 210429 210433 210504"],
+  ["UP", "Mainpuri", "Mainpuri", "205001 205119 205121 205247 205261 205262 205263 205264 205265 205267 205268 205301 205303 205304"],
+  ["UP", "Mathura", "Mathura", "281001 281003 281004 281005 281006 281121 281122 281123 281201 281202 281203 281204 281205 281206 281301 281303 281305 281308 281401 281403 281404 281405 281406 281501 281502 281504"],
+  ["UP", "Mau", "Mau", "221601 221602 221603 221705 221706 275101 275102 275103 275105 275301 275302 275303 275304 275305 275306 275307 276129 276306 276402 276403 276405"],
+  ["UP", "Meerut", "Meerut", "245206 250001 250002 250003 250004 250005 250103 250104 250106 250110 250205 250221 250222 250223 250341 250342 250344 250401 250402 250404 250406 250501 250502 250617 250626"],
+  ["UP", "Mirzapur", "Mirzapur", "231001 231211 231301 231302 231303 231304 231305 231306 231307 231309 231311 231312 231313 231314 231501"],
+  ["UP", "Moradabad", "Moradabad", "244001 244102 244103 244104 244105 244401 244402 244411 244413 244415 244501 244504 244601 244602"],
+  ["UP", "Muzaffarnagar", "Muzaffarnagar", "251001 251002 251003 251201 251202 251203 251301 251306 251307 251308 251309 251310 251311 251314 251315 251316 251318 251319 251320 251327"],
+  ["UP", "Pilibhit", "Pilibhit", "262001 262121 262122 262123 262124 262201 262202 262203 262302 262305"],
+  ["UP", "Pratapgarh", "Pratapgarh", "229408 229410 230001 230002 230121 230124 230125 230126 230127 230128 230129 230130 230131 230132 230133 230134 230135 230136 230137 230138 230139 230141 230142 230143 230144 230201 230202 230204 230301 230302 230304 230306 230401 230402 230403 230404 230405 230501 230502 230503"],
+  ["UP", "Prayagraj", "Prayagraj", "211001 211002 211003 211004 211005 211006 211007 211008 211010 211011 211012 211013 211014 211015 211016 211017 211018 211019 211020 211021 211022 211023 212104 212105 212106 212107 212108 212109 212110 212111 212208 212212 212301 212302 212303 212305 212306 212307 212308 212401 212402 212404 212405 212502 212503 212507 221502 221503 221505 221507 221508 229411 229412 229413"],
+  ["UP", "Rae Bareli", "Rae Bareli", "229001 229010 229103 229120 229121 229122 229123 229124 229125 229127 229128 229129 229130 229201 229202 229203 229204 229205 229206 229207 229208 229209 229210 229211 229212 229215 229216 229301 229303 229306 229307 229308 229310 229311 229316 229401 229402 229404 229405 229406"],
+  ["UP", "Rampur", "Rampur", "244701 244901 244921 244922 244923 244924 244925 244926 244927 244928"],
+  ["UP", "Saharanpur", "Saharanpur", "247001 247002 247120 247121 247122 247129 247231 247232 247340 247341 247342 247343 247451 247452 247453 247551 247552 247554 247662 247669"],
+  ["UP", "Sambhal", "Sambhal", "242021 243638 243722 243727 243751 244301 244302 244303 244304 244410 244412 244414"],
+  ["UP", "Sant Kabeer Nagar", "Sant Kabeer Nagar", "272125 272126 272154 272162 272164 272165 272172 272173 272175 272176 272199 272270 272271"],
+  ["UP", "Shahjahanpur", "Shahjahanpur", "242001 242042 242127 242220 242221 242223 242226 242301 242303 242305 242306 242307 242401 242405 242406 242407"],
+  ["UP", "Shamli", "Shamli", "247771 247772 247773 247774 247775 247776 247777 247778 251305"],
+  ["UP", "Shravasti", "Shravasti", "271803 271804 271805 271831 271835 271840 271845"],
+  ["UP", "Siddharth Nagar", "Siddharth Nagar", "272152 272153 272189 272191 272192 272193 272195 272201 272202 272203 272204 272205 272206 272207 272208"],
+  ["UP", "Sitapur", "Sitapur", "261001 261121 261125 261131 261135 261136 261141 261145 261151 261201 261202 261203 261204 261205 261206 261207 261208 261301 261302 261303 261304 261401 261402 261403 261404 261405"],
+  ["UP", "Sonbhadra", "Sonbhadra", "231205 231206 231207 231208 231209 231210 231212 231213 231215 231216 231217 231218 231219 231220 231221 231222 231223 231224 231225 231226"],
+  ["UP", "Sultanpur", "Sultanpur", "222301 222302 222303 227304 227408 227805 227806 227808 227812 227814 227815 228001 228118 228119 228120 228121 228125 228131 228132 228133 228141 228142 228145 228151 228155 228161 228171 228172"],
+  ["UP", "Unnao", "Unnao", "209801 209821 209825 209827 209831 209841 209859 209860 209861 209862 209863 209864 209865 209866 209867 209868 209869 209870 209871 209881"],
+  ["UP", "Varanasi", "Varanasi", "221001 221002 221003 221004 221005 221006 221007 221008 221010 221011 221012 221101 221103 221104 221105 221106 221107 221108 221109 221111 221112 221116 221201 221202 221204 221206 221207 221208 221302 221305 221307 221311 221313 221403 221405 221407 232114"],
+  ["WB", "24 Paraganas North", "24 Paraganas North", "700028 700035 700036 700048 700049 700051 700052 700055 700056 700057 700058 700059 700064 700065 700074 700076 700077 700079 700080 700081 700083 700089 700090 700091 700097 700101 700102 700106 700108 700109 700110 700111 700112 700113 700114 700115 700116 700117 700118 700119 700120 700121 700122 700123 700124 700125 700126 700127 700128 700129 700130 700131 700132 700133 700134 700135 700136 700155 700156 700157 700158 700159 700160 700161 700162 700163 743122 743123 743124 743125 743126 743127 743128 743129 743130 743133 743134 743135 743136 743144 743145 743165 743166 743193 743194 743221 743222 743223 743232 743233 743234 743235 743245 743247 743248 743249 743251 743252 743262 743263 743268 743270 743271 743272 743273 743286 743287 743289 743290 743291 743292 743293 743294 743297 743401 743405 743411 743412 743422 743423 743424 743425 743426 743427 743428 743429 743435 743437 743438 743439 743442 743445 743446 743456 743701 743702 743704 743710 743711"],
+  ["WB", "24 Paraganas South", "24 Paraganas South", "700084 700093 700096 700103 700104 700137 700138 700139 700140 700141 700142 700143 700144 700145 700146 700147 700148 700149 700150 700151 700152 700153 700154 743312 743318 743329 743330 743331 743332 743336 743337 743338 743345 743347 743348 743349 743351 743354 743355 743356 743357 743363 743368 743370 743371 743372 743373 743374 743375 743376 743377 743378 743383 743387 743395 743399 743502 743503 743504 743513 743609 743610 743611 743613"],
+  ["WB", "Alipurduar", "Alipurduar", "735204 735208 735211 735213 735214 735215 735216 735217 735220 735226 735227 735228 736121 736122 736123 736182 736201 736202 736203 736204 736205 736206 736207 736208"],
+  ["WB", "Bankura", "Bankura", "722101 722102 722121 722122 722132 722133 722134 722135 722136 722137 722138 722139 722140 722141 722142 722143 722144 722146 722147 722148 722149 722150 722151 722152 722153 722154 722155 722156 722157 722158 722160 722161 722162 722164 722173 722176 722183 722201 722202 722203 722204 722205 722206 722207 722208"],
+  ["WB", "Birbhum", "Birbhum", "731101 731102 731103 731104 731121 731123 731124 731125 731126 731127 731129 731130 731132 731133 731201 731202 731204 731214 731215 731216 731218 731219 731220 731221 731222 731223 731224 731233 731234 731235 731236 731237 731238 731240 731241 731242 731243 731244 731245 731301 731302 731303 731304"],
+  ["WB", "Coochbehar", "Coochbehar", "735122 735301 735303 735304 736101 736131 736133 736134 736135 736145 736146 736156 736157 736158 736159 736160 736165 736167 736168 736169 736170 736171 736172 736176 736179"],
+  ["WB", "Darjeeling", "Darjeeling", "734001 734002 734003 734004 734005 734008 734009 734010 734011 734012 734013 734014 734101 734102 734103 734104 734105 734201 734203 734204 734209 734213 734214 734215 734216 734217 734218 734220 734221 734222 734223 734224 734226 734313 734421 734423 734424 734425 734426 734427 734429 734434"],
+  ["WB", "Dinajpur Dakshin", "Dinajpur Dakshin", "733101 733102 733103 733121 733124 733125 733126 733127 733132 733133 733140 733141 733142 733145"],
+  ["WB", "Dinajpur Uttar", "Dinajpur Uttar", "733123 733128 733129 733130 733134 733143 733156 733158 733201 733202 733207 733208 733209 733210 733215"],
+  ["WB", "Hooghly", "Hooghly", "712101 712102 712103 712104 712105 712121 712122 712123 712124 712125 712134 712135 712136 712137 712138 712139 712146 712147 712148 712149 712152 712201 712202 712203 712204 712221 712222 712223 712232 712233 712234 712235 712245 712246 712248 712249 712250 712258 712301 712302 712303 712304 712305 712306 712308 712310 712311 712401 712402 712403 712404 712405 712406 712407 712408 712409 712410 712412 712413 712414 712415 712416 712417 712501 712502 712503 712504 712512 712513 712514 712515 712601 712602 712611 712612 712613 712614 712615 712616 712617 712701 712702 712706"],
+  ["WB", "Howrah", "Howrah", "711101 711102 711103 711104 711105 711106 711107 711108 711109 711110 711111 711112 711113 711114 711115 711201 711202 711203 711204 711205 711206 711225 711226 711227 711301 711302 711303 711304 711305 711306 711307 711308 711309 711310 711312 711313 711314 711315 711316 711317 711322 711331 711401 711403 711404 711405 711408 711409 711410 711411 711412 711413 711414"],
+  ["WB", "Jalpaiguri", "Jalpaiguri", "734006 734007 734015 734501 735101 735102 735121 735132 735133 735134 735135 735202 735203 735205 735206 735207 735209 735210 735212 735218 735219 735221 735222 735223 735224 735225 735229 735230 735232 735233 735234 735302 735305"],
+  ["WB", "Jhargram", "Jhargram", "721125 721135 721143 721159 721501 721503 721504 721505 721506 721507 721513 721514 721515 721516 721517"],
+  ["WB", "Kalimpong", "Kalimpong", "734301 734311 734312 734314 734315 734316 734503 735231"],
+  ["WB", "Kolkata", "Kolkata", "700001 700002 700003 700004 700005 700006 700007 700008 700009 700010 700011 700012 700013 700014 700015 700016 700017 700018 700019 700020 700021 700022 700024 700025 700026 700027 700029 700030 700031 700032 700033 700034 700037 700038 700039 700040 700041 700042 700043 700044 700045 700046 700047 700050 700053 700054 700060 700061 700062 700063 700066 700067 700068 700069 700070 700071 700072 700073 700075 700078 700082 700085 700086 700087 700088 700092 700094 700095 700099 700100 700105 700107 900099"],
+  ["WB", "Maldah", "Maldah", "732101 732102 732103 732121 732122 732123 732124 732125 732126 732127 732128 732138 732139 732140 732141 732142 732144 732201 732202 732203 732204 732205 732206 732207 732208 732209 732210 732215 732216"],
+  ["WB", "Medinipur East", "Medinipur East", "721130 721131 721134 721137 721139 721151 721152 721154 721158 721171 721172 721401 721402 721403 721404 721405 721406 721422 721423 721425 721427 721428 721429 721430 721431 721432 721433 721434 721438 721439 721440 721441 721442 721444 721446 721447 721448 721449 721450 721452 721453 721454 721455 721456 721458 721463 721601 721602 721603 721604 721606 721607 721624 721625 721626 721627 721628 721629 721631 721632 721633 721634 721635 721636 721637 721638 721642 721643 721644 721645 721646 721647 721648 721649 721650 721651 721652 721653 721654 721655 721656 721657 721658 721659"],
+  ["WB", "Medinipur West", "Medinipur West", "721101 721102 721121 721122 721124 721126 721127 721128 721129 721132 721133 721136 721140 721144 721145 721146 721147 721148 721149 721150 721153 721155 721156 721157 721160 721161 721166 721201 721211 721212 721222 721232 721242 721253 721260 721301 721302 721303 721304 721305 721306 721420 721424 721426 721435 721436 721437 721443 721445 721451 721457 721467 721641"],
+  ["WB", "Murshidabad", "Murshidabad", "700023 713123 742101 742102 742103 742104 742113 742121 742122 742123 742132 742133 742134 742135 742136 742137 742138 742140 742147 742148 742149 742151 742159 742160 742161 742163 742164 742165 742166 742168 742174 742175 742184 742187 742189 742201 742202 742212 742213 742223 742224 742225 742226 742227 742235 742236 742237 742238 742301 742302 742303 742304 742305 742306 742308 742401 742402 742404 742405 742406 742407 742408 742409 742410"],
+  ["WB", "Nadia", "Nadia", "741101 741102 741103 741121 741122 741123 741124 741125 741126 741127 741137 741138 741139 741140 741150 741151 741152 741153 741154 741155 741156 741157 741158 741159 741160 741161 741162 741163 741164 741165 741166 741167 741181 741201 741202 741221 741222 741223 741232 741234 741235 741238 741245 741246 741247 741248 741249 741250 741251 741252 741253 741254 741255 741256 741257 741301 741302 741313 741315 741317 741401 741402 741404 741501 741502 741503 741504 741505 741506 741507 741508 741509"],
+  ["WB", "Paschim Bardhaman", "Paschim Bardhaman", "713201 713202 713203 713204 713205 713206 713207 713208 713209 713210 713211 713212 713213 713214 713215 713216 713217 713301 713302 713303 713304 713305 713315 713321 713322 713323 713324 713325 713326 713330 713331 713332 713333 713334 713335 713336 713337 713338 713339 713340 713341 713342 713343 713344 713346 713347 713357 713358 713359 713360 713361 713362 713363 713365 713369 713370 713371 713372 713373 713376 713378 713381 713384 713385 713386"],
+  ["WB", "Purba Bardhaman", "Purba Bardhaman", "713101 713102 713103 713104 713121 713122 713124 713125 713126 713127 713128 713129 713130 713131 713132 713140 713141 713142 713143 713144 713145 713146 713147 713148 713149 713150 713151 713152 713153 713154 713166 713401 713403 713404 713405 713406 713407 713408 713409 713420 713421 713422 713423 713424 713426 713427 713428 713502 713512 713513 713514 713515 713519 713520 741316 741319"],
+  ["WB", "Purulia", "Purulia", "723101 723102 723103 723104 723121 723126 723127 723128 723129 723130 723131 723132 723133 723134 723142 723143 723145 723146 723147 723148 723149 723151 723152 723153 723154 723155 723156 723201 723202 723212 723213 723215"],
+];
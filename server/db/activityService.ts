@@ -1,9 +1,67 @@
 import { 
-  type Activity, type InsertActivity,
-  activities
+  type Activity, type InsertActivity, type ActivityPage, type ActivityWithActor, type AuditChainVerification,
+  AuditEntity, activities, users
 } from "@shared/schema";
 import { db } from "../db";
-import { desc, eq, sql } from "drizzle-orm";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, lt, or, sql, type SQL } from "drizzle-orm";
+import { activityScopeCondition, type VisibilityScope } from "./scope";
+import { AuditLogImmutableError, GENESIS_HASH, checkChainLink, hashActivity } from "../auditChain";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Entries read per query while exporting
+const EXPORT_BATCH_SIZE = 500;
+
+// Entries read per query while verifying the hash chain
+const VERIFY_BATCH_SIZE = 1000;
+
+// Advisory lock key serializing appends to the hash chain
+const CHAIN_LOCK_KEY = 7_310_416;
+
+// The database, or a transaction on it
+type Executor = Pick<typeof db, "execute" | "select" | "insert">;
+
+/**
+ * Append an activity to the hash chain within a transaction. Appends take a lock for the rest of
+ * the transaction so that ids, timestamps and links all follow the same order.
+ */
+export async function appendActivity(tx: Executor, activityData: InsertActivity): Promise<Activity> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_KEY})`);
+
+  const [last] = await tx.select({ hash: activities.hash })
+    .from(activities)
+    .where(isNotNull(activities.hash))
+    .orderBy(desc(activities.id))
+    .limit(1);
+
+  const prevHash = last?.hash ?? GENESIS_HASH;
+  const timestamp = new Date();
+  const hash = hashActivity({ ...activityData, timestamp } as Activity, prevHash);
+
+  const [newActivity] = await tx.insert(activities)
+    .values([{ ...activityData, timestamp, prevHash, hash }])
+    .returning();
+  return newActivity;
+}
+
+/**
+ * Filters for searching activity logs
+ * - targetUserId matches events about a user
+ * - organizationId matches events by the organization's users, about the organization or about its users
+ * - from is inclusive and until exclusive
+ * - search matches descriptions case-insensitively
+ */
+export interface ActivityFilters {
+  actorId?: number;
+  actions?: string[];
+  targetUserId?: number;
+  organizationId?: number;
+  from?: Date;
+  until?: Date;
+  search?: string;
+  cursor?: number;
+  limit?: number;
+}
 
 // Helper function to map database rows to Activity objects
 function mapRowToActivity(row: any): Activity {
@@ -21,7 +79,15 @@ function mapRowToActivity(row: any): Activity {
     userId: row.user_id ? Number(row.user_id) : null,
     action: String(row.action),
     description: String(row.description),
-    timestamp
+    entityType: row.entity_type ?? null,
+    entityId: row.entity_id ?? null,
+    changes: row.changes ?? null,
+    ipAddress: row.ip_address ?? null,
+    userAgent: row.user_agent ?? null,
+    requestId: row.request_id ?? null,
+    timestamp,
+    prevHash: row.prev_hash ?? null,
+    hash: row.hash ?? null
   };
 }
 
@@ -31,20 +97,11 @@ function mapRowToActivity(row: any): Activity {
  */
 export class ActivityService {
   /**
-   * Create a new activity log entry
+   * Create a new activity log entry, with its structured audit detail when given
    */
   async createActivity(activityData: InsertActivity): Promise<Activity> {
     try {
-      const { userId, action, description } = activityData;
-      
-      // Use Drizzle ORM to insert the activity
-      const [newActivity] = await db.insert(activities).values([{
-        userId,
-        action,
-        description
-      }]).returning();
-      
-      return newActivity;
+      return await db.transaction(tx => appendActivity(tx, activityData));
     } catch (error) {
       console.error('Error in createActivity:', error);
       throw error;
@@ -52,20 +109,192 @@ export class ActivityService {
   }
 
   /**
-   * Get activity logs with optional limit
+   * Audit log entries are append-only: rewriting one is always refused
+   */
+  async updateActivity(_id: number, _activityData: Partial<InsertActivity>): Promise<never> {
+    throw new AuditLogImmutableError("update");
+  }
+
+  /**
+   * Audit log entries are append-only: removing one is always refused
+   */
+  async deleteActivity(_id: number): Promise<never> {
+    throw new AuditLogImmutableError("delete");
+  }
+
+  /**
+   * Walk the hash chain from the first sealed entry and report the first broken link.
+   * Entries logged before the chain started are counted but not checked.
    */
-  async getActivities(limit?: number): Promise<Activity[]> {
+  async verifyChain(): Promise<AuditChainVerification> {
     try {
-      // Use SQL directly for more flexibility
-      const query = limit 
-        ? sql`SELECT * FROM activities ORDER BY timestamp DESC LIMIT ${limit}` 
-        : sql`SELECT * FROM activities ORDER BY timestamp DESC`;
-        
-      const result = await db.execute(query);
-      
-      return result.rows.map(row => mapRowToActivity(row));
+      let expectedPrevHash: string | null = null;
+      let checkedCount = 0;
+      let legacyCount = 0;
+      let cursor = 0;
+
+      while (true) {
+        const batch = await db.select()
+          .from(activities)
+          .where(gt(activities.id, cursor))
+          .orderBy(asc(activities.id))
+          .limit(VERIFY_BATCH_SIZE);
+
+        for (const entry of batch) {
+          if (expectedPrevHash === null) {
+            if (!entry.hash) {
+              legacyCount++;
+              continue;
+            }
+            expectedPrevHash = GENESIS_HASH;
+          }
+
+          const linkBreak = checkChainLink(entry, expectedPrevHash);
+          if (linkBreak) {
+            return {
+              valid: false,
+              checkedCount,
+              legacyCount,
+              firstBreak: { activityId: entry.id, ...linkBreak },
+              verifiedAt: new Date().toISOString(),
+            };
+          }
+
+          checkedCount++;
+          expectedPrevHash = entry.hash!;
+        }
+
+        if (batch.length < VERIFY_BATCH_SIZE) {
+          break;
+        }
+        cursor = batch[batch.length - 1].id;
+      }
+
+      return { valid: true, checkedCount, legacyCount, firstBreak: null, verifiedAt: new Date().toISOString() };
+    } catch (error) {
+      console.error('Error in verifyChain:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search activity logs visible within a scope (global by default), newest first.
+   * Pages are keyed by activity id, which increases with time: pass the last id seen as the cursor.
+   */
+  async findActivities(filters: ActivityFilters = {}, scope?: VisibilityScope): Promise<ActivityPage> {
+    try {
+      const conditions: SQL[] = [];
+      const scopeCondition = activityScopeCondition(scope);
+
+      if (scopeCondition) {
+        conditions.push(scopeCondition);
+      }
+      if (filters.cursor !== undefined) {
+        conditions.push(lt(activities.id, filters.cursor));
+      }
+      if (filters.actorId !== undefined) {
+        conditions.push(eq(activities.userId, filters.actorId));
+      }
+      if (filters.actions && filters.actions.length > 0) {
+        conditions.push(inArray(activities.action, filters.actions));
+      }
+      if (filters.targetUserId !== undefined) {
+        conditions.push(and(
+          eq(activities.entityType, AuditEntity.USER),
+          eq(activities.entityId, String(filters.targetUserId))
+        )!);
+      }
+      if (filters.organizationId !== undefined) {
+        conditions.push(or(
+          sql`${activities.userId} IN (SELECT id FROM users WHERE organization_id = ${filters.organizationId})`,
+          and(
+            eq(activities.entityType, AuditEntity.ORGANIZATION),
+            eq(activities.entityId, String(filters.organizationId))
+          ),
+          and(
+            eq(activities.entityType, AuditEntity.USER),
+            sql`${activities.entityId} IN (SELECT id::text FROM users WHERE organization_id = ${filters.organizationId})`
+          )
+        )!);
+      }
+      if (filters.from) {
+        conditions.push(gte(activities.timestamp, filters.from));
+      }
+      if (filters.until) {
+        conditions.push(lt(activities.timestamp, filters.until));
+      }
+      if (filters.search) {
+        const pattern = `%${filters.search.replace(/[\\%_]/g, (match) => `\\${match}`)}%`;
+        conditions.push(ilike(activities.description, pattern));
+      }
+
+      const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+      const rows = await db.select({
+        activity: activities,
+        user: { id: users.id, username: users.username, fullName: users.fullName },
+      })
+        .from(activities)
+        .leftJoin(users, eq(activities.userId, users.id))
+        .where(and(...conditions))
+        .orderBy(desc(activities.id))
+        .limit(limit + 1);
+
+      // The extra row only tells whether another page follows
+      const items = rows.slice(0, limit).map(row => ({ ...row.activity, user: row.user }));
+      return {
+        items,
+        nextCursor: rows.length > limit ? items[items.length - 1].id : null,
+      };
+    } catch (error) {
+      console.error('Error in findActivities:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Walk every activity matching the filters, newest first, one page in memory at a time
+   */
+  async *iterateActivities(filters: ActivityFilters = {}, scope?: VisibilityScope): AsyncGenerator<ActivityWithActor> {
+    let cursor = filters.cursor;
+    do {
+      const page = await this.findActivities({ ...filters, cursor, limit: EXPORT_BATCH_SIZE }, scope);
+      yield* page.items;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+  }
+
+  /**
+   * Get an activity log entry with its actor, if it is visible within a scope
+   */
+  async getActivity(id: number, scope?: VisibilityScope): Promise<ActivityWithActor | undefined> {
+    try {
+      const scopeCondition = activityScopeCondition(scope);
+      const rows = await db.select({
+        activity: activities,
+        user: { id: users.id, username: users.username, fullName: users.fullName },
+      })
+        .from(activities)
+        .leftJoin(users, eq(activities.userId, users.id))
+        .where(and(eq(activities.id, id), scopeCondition));
+
+      return rows.length > 0 ? { ...rows[0].activity, user: rows[0].user } : undefined;
+    } catch (error) {
+      console.error('Error in getActivity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every action type that has been logged, alphabetically
+   */
+  async getActionTypes(): Promise<string[]> {
+    try {
+      const rows = await db.selectDistinct({ action: activities.action })
+        .from(activities)
+        .orderBy(asc(activities.action));
+      return rows.map(row => row.action);
     } catch (error) {
-      console.error('Error in getActivities:', error);
+      console.error('Error in getActionTypes:', error);
       throw error;
     }
   }
@@ -0,0 +1,181 @@
+import {
+  type DistributorLink, type DistributorLinkDetails, type InsertDistributorLink,
+  type DistributorLinkStatusType,
+  distributorCompanies, organizations
+} from "@shared/schema";
+import { db } from "../db";
+import { and, asc, eq, isNull, or, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+/**
+ * Filters for searching distributor links
+ * - organizationId matches links on either side
+ * - state matches links whose coverage includes the state
+ */
+export interface DistributorLinkFilters {
+  companyId?: number;
+  distributorId?: number;
+  organizationId?: number;
+  state?: string;
+  status?: DistributorLinkStatusType;
+}
+
+const distributor = alias(organizations, "distributor");
+const company = alias(organizations, "company");
+
+/**
+ * Distributor link service
+ * Handles which distributors carry which pharma companies using Drizzle ORM
+ */
+export class DistributorLinkService {
+  /**
+   * Get a distributor link by ID
+   */
+  async getLink(id: number): Promise<DistributorLink | undefined> {
+    try {
+      const result = await db.select().from(distributorCompanies).where(eq(distributorCompanies.id, id));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error('Error in getLink:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the link between a distributor and a company, if any
+   */
+  async getLinkBetween(distributorId: number, companyId: number): Promise<DistributorLink | undefined> {
+    try {
+      const result = await db.select().from(distributorCompanies).where(and(
+        eq(distributorCompanies.distributorId, distributorId),
+        eq(distributorCompanies.companyId, companyId)
+      ));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error('Error in getLinkBetween:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search distributor links, including the names of both organizations
+   */
+  async findLinks(filters: DistributorLinkFilters = {}): Promise<DistributorLinkDetails[]> {
+    try {
+      // Links of deleted organizations stay hidden until the organization is restored
+      const conditions: SQL[] = [isNull(distributor.deletedAt), isNull(company.deletedAt)];
+
+      if (filters.companyId !== undefined) {
+        conditions.push(eq(distributorCompanies.companyId, filters.companyId));
+      }
+      if (filters.distributorId !== undefined) {
+        conditions.push(eq(distributorCompanies.distributorId, filters.distributorId));
+      }
+      if (filters.organizationId !== undefined) {
+        conditions.push(or(
+          eq(distributorCompanies.companyId, filters.organizationId),
+          eq(distributorCompanies.distributorId, filters.organizationId)
+        )!);
+      }
+      if (filters.state) {
+        conditions.push(sql`${filters.state} = ANY(${distributorCompanies.coverageStates})`);
+      }
+      if (filters.status) {
+        conditions.push(eq(distributorCompanies.status, filters.status));
+      }
+
+      const rows = await db.select({
+        link: distributorCompanies,
+        distributorName: distributor.name,
+        companyName: company.name,
+      })
+        .from(distributorCompanies)
+        .innerJoin(distributor, eq(distributorCompanies.distributorId, distributor.id))
+        .innerJoin(company, eq(distributorCompanies.companyId, company.id))
+        .where(and(...conditions))
+        .orderBy(asc(company.name), asc(distributor.name));
+
+      return rows.map(row => ({ ...row.link, distributorName: row.distributorName, companyName: row.companyName }));
+    } catch (error) {
+      console.error('Error in findLinks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new distributor link
+   */
+  async createLink(linkData: InsertDistributorLink): Promise<DistributorLink> {
+    try {
+      const [newLink] = await db.insert(distributorCompanies).values([{
+        ...linkData,
+        status: linkData.status as DistributorLinkStatusType
+      }]).returning();
+
+      return newLink;
+    } catch (error) {
+      console.error('Error in createLink:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the terms of an existing distributor link.
+   * The distributor and company of a link cannot be changed.
+   */
+  async updateLink(id: number, linkData: Partial<InsertDistributorLink>): Promise<DistributorLink | undefined> {
+    try {
+      const updateData: Record<string, any> = {};
+
+      if (linkData.coverageStates !== undefined) {
+        updateData.coverageStates = linkData.coverageStates;
+      }
+
+      if (linkData.appointmentDate !== undefined) {
+        updateData.appointmentDate = linkData.appointmentDate;
+      }
+
+      if (linkData.status !== undefined) {
+        updateData.status = linkData.status as DistributorLinkStatusType;
+      }
+
+      if (linkData.agreementReference !== undefined) {
+        updateData.agreementReference = linkData.agreementReference;
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        // No fields to update, return existing link
+        return this.getLink(id);
+      }
+
+      const [updatedLink] = await db.update(distributorCompanies)
+        .set(updateData)
+        .where(eq(distributorCompanies.id, id))
+        .returning();
+
+      return updatedLink || undefined;
+    } catch (error) {
+      console.error('Error in updateLink:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a distributor link
+   */
+  async deleteLink(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(distributorCompanies)
+        .where(eq(distributorCompanies.id, id))
+        .returning({ id: distributorCompanies.id });
+
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error in deleteLink:', error);
+      throw error;
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const distributorLinkService = new DistributorLinkService();
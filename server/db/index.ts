@@ -1,14 +1,26 @@
 import { 
   type User, type InsertUser, 
   type Organization, type InsertOrganization,
-  type Activity, type InsertActivity 
+  type Activity, type InsertActivity, type ActivityPage, type ActivityWithActor, type AuditChainVerification, type UserDirectoryEntry, type UserPage,
+  type PermissionRecord, type UserRoleType,
+  type DistributorLink, type DistributorLinkDetails, type InsertDistributorLink,
+  type Territory, type InsertTerritory, type TerritoryWithUsage,
+  type UserInvitation, type InsertUserInvitation, type PasswordReset, type InsertPasswordReset
 } from "@shared/schema";
+import { type PermissionKey } from "@shared/permissions";
 import { IStorage } from "../storage";
 import { dbConnection } from "./connection";
 import { userService } from "./userService";
-import { organizationService } from "./organizationService";
-import { activityService } from "./activityService";
+import { organizationService, type OrganizationLookupOptions } from "./organizationService";
+import { activityService, type ActivityFilters } from "./activityService";
+import { permissionService, type PermissionMatrix } from "./permissionService";
+import { distributorLinkService, type DistributorLinkFilters } from "./distributorLinkService";
+import { territoryService } from "./territoryService";
+import { invitationService } from "./invitationService";
+import { passwordResetService } from "./passwordResetService";
 import { initializationService } from "./initialization";
+import { type VisibilityScope } from "./scope";
+import { type UserStats, type UserImportEntry, type UserFilters, type UserSort, type UserLookupOptions } from "./userService";
 
 /**
  * Database storage implementation
@@ -26,45 +38,138 @@ class DatabaseStorageImpl implements IStorage {
   }
 
   // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    return userService.getUser(id);
+  async getUser(id: number, options?: UserLookupOptions): Promise<User | undefined> {
+    return userService.getUser(id, options);
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return userService.getUserByUsername(username);
+  async getUserByUsername(username: string, options?: UserLookupOptions): Promise<User | undefined> {
+    return userService.getUserByUsername(username, options);
+  }
+
+  async getUserByEmail(email: string, options?: UserLookupOptions): Promise<User | undefined> {
+    return userService.getUserByEmail(email, options);
   }
 
   async createUser(userData: InsertUser): Promise<User> {
     return userService.createUser(userData);
   }
 
-  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
-    return userService.updateUser(id, userData);
+  async updateUser(
+    id: number,
+    userData: Partial<InsertUser>,
+    activityFor?: (updatedUser: User) => InsertActivity
+  ): Promise<User | undefined> {
+    return userService.updateUser(id, userData, activityFor);
+  }
+
+  async deleteUser(
+    id: number,
+    deletedBy: number,
+    successorId: number | null,
+    activityFor: (deletedUser: User, movedReports: User[]) => InsertActivity
+  ): Promise<User | undefined> {
+    return userService.deleteUser(id, deletedBy, successorId, activityFor);
+  }
+
+  async restoreUser(id: number, activityFor: (restoredUser: User) => InsertActivity): Promise<User | undefined> {
+    return userService.restoreUser(id, activityFor);
   }
 
-  async deleteUser(id: number): Promise<boolean> {
-    return userService.deleteUser(id);
+  async purgeUser(id: number, activity: InsertActivity): Promise<boolean> {
+    return userService.purgeUser(id, activity);
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return userService.getAllUsers();
+  async getAllUsers(scope?: VisibilityScope, options?: UserLookupOptions): Promise<User[]> {
+    return userService.getAllUsers(scope, options);
+  }
+
+  async findUsers(filters?: UserFilters, scope?: VisibilityScope): Promise<UserDirectoryEntry[]> {
+    return userService.findUsers(filters, scope);
+  }
+
+  async findUserPage(
+    filters: UserFilters,
+    sort: UserSort,
+    page: number,
+    pageSize: number,
+    scope?: VisibilityScope
+  ): Promise<UserPage> {
+    return userService.findUserPage(filters, sort, page, pageSize, scope);
+  }
+
+  async getUserStats(scope?: VisibilityScope): Promise<UserStats> {
+    return userService.getUserStats(scope);
   }
 
   async getUsersByRole(role: string): Promise<User[]> {
     return userService.getUsersByRole(role);
   }
 
-  async getUsersByOrganization(organizationId: number): Promise<User[]> {
-    return userService.getUsersByOrganization(organizationId);
+  async getUsersByOrganization(organizationId: number, scope?: VisibilityScope): Promise<User[]> {
+    return userService.getUsersByOrganization(organizationId, scope);
+  }
+
+  async countUsersByOrganization(organizationId: number): Promise<number> {
+    return userService.countUsersByOrganization(organizationId);
   }
 
   async getUsersByManager(managerId: number): Promise<User[]> {
     return userService.getUsersByManager(managerId);
   }
 
+  async getEligibleManagers(role: UserRoleType, organizationId: number): Promise<User[]> {
+    return userService.getEligibleManagers(role, organizationId);
+  }
+
+  async importUsers(entries: UserImportEntry[], activityFor: (user: User) => InsertActivity): Promise<User[]> {
+    return userService.importUsers(entries, activityFor);
+  }
+
+  async reassignUsers(userIds: number[], managerId: number, activity: InsertActivity): Promise<User[]> {
+    return userService.reassignUsers(userIds, managerId, activity);
+  }
+
+  // Invitation methods
+  async getOpenInvitation(userId: number): Promise<UserInvitation | undefined> {
+    return invitationService.getOpenInvitation(userId);
+  }
+
+  async inviteUser(
+    user: Omit<InsertUser, "password" | "status">,
+    invitationFor: (user: User) => InsertUserInvitation,
+    activityFor: (user: User, invitation: UserInvitation) => InsertActivity
+  ): Promise<{ user: User; invitation: UserInvitation }> {
+    return invitationService.inviteUser(user, invitationFor, activityFor);
+  }
+
+  async renewInvitation(id: number, tokenHash: string, expiresAt: Date): Promise<UserInvitation | undefined> {
+    return invitationService.renewInvitation(id, tokenHash, expiresAt);
+  }
+
+  async acceptInvitation(id: number, password: string, activityFor: (user: User) => InsertActivity): Promise<User | undefined> {
+    return invitationService.acceptInvitation(id, password, activityFor);
+  }
+
+  async revokeInvitation(id: number, activityFor: (user: User) => InsertActivity): Promise<User | undefined> {
+    return invitationService.revokeInvitation(id, activityFor);
+  }
+
+  // Password reset methods
+  async getPasswordResetByTokenHash(tokenHash: string): Promise<PasswordReset | undefined> {
+    return passwordResetService.getPasswordResetByTokenHash(tokenHash);
+  }
+
+  async createPasswordReset(reset: InsertPasswordReset, activity: InsertActivity): Promise<PasswordReset> {
+    return passwordResetService.createPasswordReset(reset, activity);
+  }
+
+  async resetPassword(id: number, password: string, activityFor: (user: User) => InsertActivity): Promise<User | undefined> {
+    return passwordResetService.resetPassword(id, password, activityFor);
+  }
+
   // Organization methods
-  async getOrganization(id: number): Promise<Organization | undefined> {
-    return organizationService.getOrganization(id);
+  async getOrganization(id: number, options?: OrganizationLookupOptions): Promise<Organization | undefined> {
+    return organizationService.getOrganization(id, options);
   }
 
   async createOrganization(organization: InsertOrganization): Promise<Organization> {
@@ -75,12 +180,77 @@ class DatabaseStorageImpl implements IStorage {
     return organizationService.updateOrganization(id, organization);
   }
 
-  async deleteOrganization(id: number): Promise<boolean> {
-    return organizationService.deleteOrganization(id);
+  async deleteOrganization(
+    id: number,
+    deletedBy: number,
+    activityFor: (deletedOrg: Organization) => InsertActivity
+  ): Promise<Organization | undefined> {
+    return organizationService.deleteOrganization(id, deletedBy, activityFor);
+  }
+
+  async restoreOrganization(
+    id: number,
+    activityFor: (restoredOrg: Organization) => InsertActivity
+  ): Promise<Organization | undefined> {
+    return organizationService.restoreOrganization(id, activityFor);
+  }
+
+  async getAllOrganizations(scope?: VisibilityScope): Promise<Organization[]> {
+    return organizationService.getAllOrganizations(scope);
+  }
+
+  async getDeletedOrganizations(scope?: VisibilityScope): Promise<Organization[]> {
+    return organizationService.getDeletedOrganizations(scope);
   }
 
-  async getAllOrganizations(): Promise<Organization[]> {
-    return organizationService.getAllOrganizations();
+  // Distributor link methods
+  async getDistributorLink(id: number): Promise<DistributorLink | undefined> {
+    return distributorLinkService.getLink(id);
+  }
+
+  async getDistributorLinkBetween(distributorId: number, companyId: number): Promise<DistributorLink | undefined> {
+    return distributorLinkService.getLinkBetween(distributorId, companyId);
+  }
+
+  async findDistributorLinks(filters?: DistributorLinkFilters): Promise<DistributorLinkDetails[]> {
+    return distributorLinkService.findLinks(filters);
+  }
+
+  async createDistributorLink(link: InsertDistributorLink): Promise<DistributorLink> {
+    return distributorLinkService.createLink(link);
+  }
+
+  async updateDistributorLink(id: number, link: Partial<InsertDistributorLink>): Promise<DistributorLink | undefined> {
+    return distributorLinkService.updateLink(id, link);
+  }
+
+  async deleteDistributorLink(id: number): Promise<boolean> {
+    return distributorLinkService.deleteLink(id);
+  }
+
+  // Territory methods
+  async getTerritory(id: number): Promise<Territory | undefined> {
+    return territoryService.getTerritory(id);
+  }
+
+  async getTerritoriesByIds(ids: number[]): Promise<Territory[]> {
+    return territoryService.getTerritoriesByIds(ids);
+  }
+
+  async getTerritories(organizationId: number): Promise<TerritoryWithUsage[]> {
+    return territoryService.getTerritories(organizationId);
+  }
+
+  async createTerritory(territory: InsertTerritory): Promise<Territory> {
+    return territoryService.createTerritory(territory);
+  }
+
+  async updateTerritory(id: number, territory: Partial<Pick<InsertTerritory, "name" | "code" | "parentId" | "pincodes">>): Promise<Territory | undefined> {
+    return territoryService.updateTerritory(id, territory);
+  }
+
+  async deleteTerritory(id: number): Promise<boolean> {
+    return territoryService.deleteTerritory(id);
   }
 
   // Activity methods
@@ -88,14 +258,55 @@ class DatabaseStorageImpl implements IStorage {
     return activityService.createActivity(activity);
   }
 
-  async getActivities(limit?: number): Promise<Activity[]> {
-    return activityService.getActivities(limit);
+  async findActivities(filters?: ActivityFilters, scope?: VisibilityScope): Promise<ActivityPage> {
+    return activityService.findActivities(filters, scope);
+  }
+
+  iterateActivities(filters?: ActivityFilters, scope?: VisibilityScope): AsyncIterable<ActivityWithActor> {
+    return activityService.iterateActivities(filters, scope);
+  }
+
+  async getActivity(id: number, scope?: VisibilityScope): Promise<ActivityWithActor | undefined> {
+    return activityService.getActivity(id, scope);
+  }
+
+  async getActionTypes(): Promise<string[]> {
+    return activityService.getActionTypes();
   }
 
   async getActivitiesByUser(userId: number): Promise<Activity[]> {
     return activityService.getActivitiesByUser(userId);
   }
 
+  async updateActivity(id: number, activity: Partial<InsertActivity>): Promise<never> {
+    return activityService.updateActivity(id, activity);
+  }
+
+  async deleteActivity(id: number): Promise<never> {
+    return activityService.deleteActivity(id);
+  }
+
+  async verifyAuditChain(): Promise<AuditChainVerification> {
+    return activityService.verifyChain();
+  }
+
+  // Permission methods
+  async getAllPermissions(): Promise<PermissionRecord[]> {
+    return permissionService.getAllPermissions();
+  }
+
+  async getPermissionsForRole(role: UserRoleType): Promise<PermissionKey[]> {
+    return permissionService.getPermissionsForRole(role);
+  }
+
+  async getRolePermissions(): Promise<PermissionMatrix> {
+    return permissionService.getRolePermissions();
+  }
+
+  async setRolePermissions(role: UserRoleType, keys: PermissionKey[]): Promise<PermissionKey[]> {
+    return permissionService.setRolePermissions(role, keys);
+  }
+
   // Database initialization
   async initializeDatabase(): Promise<void> {
     return initializationService.initializeDatabase();
@@ -3,9 +3,10 @@ import {
 } from "@shared/schema";
 import { db } from "../db";
 import { sql } from "drizzle-orm";
-import { hashPassword } from "./utils";
 import { organizationService } from "./organizationService";
 import { userService } from "./userService";
+import { permissionService } from "./permissionService";
+import { territoryService } from "./territoryService";
 
 /**
  * Database initialization service
@@ -16,9 +17,20 @@ export class InitializationService {
    * Initialize the database with required data
    * - Creates system organization if not exists
    * - Creates admin user if not exists
+   * - Seeds permissions missing from the permission matrix
+   * - Migrates free-text user regions onto territories
    */
   async initializeDatabase(): Promise<void> {
     try {
+      // Seed permissions on every startup so newly added permissions reach existing databases
+      await permissionService.seedPermissions();
+
+      // Move users still identified by a region string onto territory nodes
+      const migrated = await territoryService.migrateRegionStrings();
+      if (migrated > 0) {
+        console.log(`Assigned ${migrated} users to territories from their region`);
+      }
+
       // Check if we need to initialize (no organizations exist)
       const result = await db.execute(sql`SELECT COUNT(*) as count FROM organizations`);
       const count = result.rows[0].count;
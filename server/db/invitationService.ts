@@ -0,0 +1,162 @@
+import {
+  UserStatus,
+  type User, type InsertUser, type InsertActivity, type UserInvitation, type InsertUserInvitation, type UserRoleType,
+  users, userInvitations
+} from "@shared/schema";
+import { db } from "../db";
+import { and, desc, eq, gt, isNull, sql } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { hashPassword } from "../password";
+import { appendActivity } from "./activityService";
+
+// Neither accepted nor revoked; an expired invitation is still open and can be resent
+const isOpen = and(isNull(userInvitations.acceptedAt), isNull(userInvitations.revokedAt));
+
+/**
+ * Invitation service
+ * Handles the one-time links invited users follow to choose their password using Drizzle ORM
+ */
+export class InvitationService {
+  /**
+   * Get the open invitation of a user, if any
+   */
+  async getOpenInvitation(userId: number): Promise<UserInvitation | undefined> {
+    try {
+      const result = await db.select()
+        .from(userInvitations)
+        .where(and(eq(userInvitations.userId, userId), isOpen))
+        .orderBy(desc(userInvitations.id))
+        .limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error in getOpenInvitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a PENDING user with their invitation and record the activity, atomically.
+   * The user gets a random password nobody knows until they choose their own.
+   */
+  async inviteUser(
+    userData: Omit<InsertUser, "password" | "status">,
+    invitationFor: (user: User) => InsertUserInvitation,
+    activityFor: (user: User, invitation: UserInvitation) => InsertActivity
+  ): Promise<{ user: User; invitation: UserInvitation }> {
+    try {
+      const password = await hashPassword(randomBytes(32).toString("hex"));
+      return await db.transaction(async (tx) => {
+        const [user] = await tx.insert(users).values([{
+          ...userData,
+          role: userData.role as UserRoleType,
+          password,
+          status: UserStatus.PENDING,
+        }]).returning();
+        const [invitation] = await tx.insert(userInvitations).values(invitationFor(user)).returning();
+        await appendActivity(tx, activityFor(user, invitation));
+        return { user, invitation };
+      });
+    } catch (error) {
+      console.error('Error in inviteUser:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the token of an open invitation when it is sent again
+   */
+  async renewInvitation(id: number, tokenHash: string, expiresAt: Date): Promise<UserInvitation | undefined> {
+    try {
+      const result = await db.update(userInvitations)
+        .set({ tokenHash, expiresAt, sentAt: new Date(), sendCount: sql`${userInvitations.sendCount} + 1` })
+        .where(and(eq(userInvitations.id, id), isOpen))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error in renewInvitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Accept an open, unexpired invitation: the user gets the chosen password and becomes
+   * ACTIVE, and the activity is recorded, atomically
+   */
+  async acceptInvitation(
+    id: number,
+    password: string,
+    activityFor: (user: User) => InsertActivity
+  ): Promise<User | undefined> {
+    try {
+      const hashedPassword = await hashPassword(password);
+      return await db.transaction(async (tx) => {
+        const now = new Date();
+        const [invitation] = await tx.update(userInvitations)
+          .set({ acceptedAt: now })
+          .where(and(eq(userInvitations.id, id), isOpen, gt(userInvitations.expiresAt, now)))
+          .returning();
+        if (!invitation) {
+          return undefined;
+        }
+
+        const [user] = await tx.update(users)
+          .set({
+            password: hashedPassword,
+            status: UserStatus.ACTIVE,
+            statusReason: "Accepted the invitation",
+            statusChangedAt: now,
+          })
+          .where(and(eq(users.id, invitation.userId), eq(users.status, UserStatus.PENDING), isNull(users.deletedAt)))
+          .returning();
+        if (!user) {
+          // Rolls the acceptance back
+          throw new Error(`User ${invitation.userId} is no longer waiting for their invitation`);
+        }
+
+        await appendActivity(tx, activityFor(user));
+        return user;
+      });
+    } catch (error) {
+      console.error('Error in acceptInvitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke an open invitation and offboard the user who was invited, recording the activity atomically
+   */
+  async revokeInvitation(
+    id: number,
+    activityFor: (user: User) => InsertActivity
+  ): Promise<User | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const now = new Date();
+        const [invitation] = await tx.update(userInvitations)
+          .set({ revokedAt: now })
+          .where(and(eq(userInvitations.id, id), isOpen))
+          .returning();
+        if (!invitation) {
+          return undefined;
+        }
+
+        const [user] = await tx.update(users)
+          .set({ status: UserStatus.INACTIVE, statusReason: "Invitation revoked", statusChangedAt: now })
+          .where(and(eq(users.id, invitation.userId), eq(users.status, UserStatus.PENDING)))
+          .returning();
+        if (!user) {
+          throw new Error(`User ${invitation.userId} is no longer waiting for their invitation`);
+        }
+
+        await appendActivity(tx, activityFor(user));
+        return user;
+      });
+    } catch (error) {
+      console.error('Error in revokeInvitation:', error);
+      throw error;
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const invitationService = new InvitationService();
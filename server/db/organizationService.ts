@@ -1,9 +1,28 @@
 import { 
-  type Organization, type InsertOrganization, type OrganizationTypeType,
+  type Organization, type InsertOrganization, type OrganizationTypeType, type InsertActivity,
   organizations, OrganizationType
 } from "@shared/schema";
 import { db } from "../db";
-import { eq, SQL } from "drizzle-orm";
+import { and, asc, desc, eq, isNotNull, isNull, sql, SQL } from "drizzle-orm";
+import { organizationScopeCondition, type VisibilityScope } from "./scope";
+import { appendActivity } from "./activityService";
+
+// Organization fields that are copied as-is on update
+const profileFields = [
+  "name",
+  "drugLicenseForm20", "drugLicenseForm20Expiry",
+  "drugLicenseForm21", "drugLicenseForm21Expiry",
+  "gstin", "pan",
+  "address", "state", "city", "pincode",
+  "contactName", "contactEmail", "contactPhone",
+] as const satisfies readonly (keyof InsertOrganization)[];
+
+/**
+ * Options for looking organizations up; soft-deleted organizations are left out unless includeDeleted is set
+ */
+export interface OrganizationLookupOptions {
+  includeDeleted?: boolean;
+}
 
 /**
  * Organization management service
@@ -13,9 +32,11 @@ export class OrganizationService {
   /**
    * Get an organization by ID
    */
-  async getOrganization(id: number): Promise<Organization | undefined> {
+  async getOrganization(id: number, options: OrganizationLookupOptions = {}): Promise<Organization | undefined> {
     try {
-      const result = await db.select().from(organizations).where(eq(organizations.id, id));
+      const result = await db.select()
+        .from(organizations)
+        .where(and(eq(organizations.id, id), options.includeDeleted ? undefined : isNull(organizations.deletedAt)));
       return result.length > 0 ? result[0] : undefined;
     } catch (error) {
       console.error('Error in getOrganization:', error);
@@ -28,11 +49,11 @@ export class OrganizationService {
    */
   async createOrganization(orgData: InsertOrganization): Promise<Organization> {
     try {
-      const { name, type } = orgData;
+      const { type, ...profile } = orgData;
       
       // Use Drizzle ORM to insert the organization with proper typing
       const [newOrg] = await db.insert(organizations).values([{
-        name,
+        ...profile,
         type: type as OrganizationTypeType
       }]).returning();
       
@@ -51,14 +72,16 @@ export class OrganizationService {
       // Create a proper update object with type casting
       const updateData: Record<string, any> = {};
       
-      if (orgData.name !== undefined) {
-        updateData.name = orgData.name;
-      }
-      
       if (orgData.type !== undefined) {
         updateData.type = orgData.type as OrganizationTypeType;
       }
       
+      for (const field of profileFields) {
+        if (orgData[field] !== undefined) {
+          updateData[field] = orgData[field];
+        }
+      }
+      
       if (Object.keys(updateData).length === 0) {
         // No fields to update, return existing organization
         return this.getOrganization(id);
@@ -78,15 +101,26 @@ export class OrganizationService {
   }
 
   /**
-   * Delete an organization
+   * Soft-delete an organization and record the activity, atomically
    */
-  async deleteOrganization(id: number): Promise<boolean> {
+  async deleteOrganization(
+    id: number,
+    deletedBy: number,
+    activityFor: (deletedOrg: Organization) => InsertActivity
+  ): Promise<Organization | undefined> {
     try {
-      const result = await db.delete(organizations)
-        .where(eq(organizations.id, id))
-        .returning({ id: organizations.id });
-      
-      return result.length > 0;
+      return await db.transaction(async (tx) => {
+        const [deletedOrg] = await tx.update(organizations)
+          .set({ deletedAt: new Date(), deletedBy })
+          .where(and(eq(organizations.id, id), isNull(organizations.deletedAt)))
+          .returning();
+        if (!deletedOrg) {
+          return undefined;
+        }
+
+        await appendActivity(tx, activityFor(deletedOrg));
+        return deletedOrg;
+      });
     } catch (error) {
       console.error('Error in deleteOrganization:', error);
       throw error;
@@ -94,16 +128,63 @@ export class OrganizationService {
   }
 
   /**
-   * Get all organizations
+   * Restore a soft-deleted organization and record the activity, atomically
    */
-  async getAllOrganizations(): Promise<Organization[]> {
+  async restoreOrganization(
+    id: number,
+    activityFor: (restoredOrg: Organization) => InsertActivity
+  ): Promise<Organization | undefined> {
     try {
-      return await db.select().from(organizations);
+      return await db.transaction(async (tx) => {
+        const [restoredOrg] = await tx.update(organizations)
+          .set({ deletedAt: null, deletedBy: null })
+          .where(and(eq(organizations.id, id), isNotNull(organizations.deletedAt)))
+          .returning();
+        if (!restoredOrg) {
+          return undefined;
+        }
+
+        await appendActivity(tx, activityFor(restoredOrg));
+        return restoredOrg;
+      });
+    } catch (error) {
+      console.error('Error in restoreOrganization:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all organizations visible within a scope (global by default)
+   */
+  async getAllOrganizations(scope?: VisibilityScope): Promise<Organization[]> {
+    try {
+      return await db.select()
+        .from(organizations)
+        .where(and(organizationScopeCondition(scope), isNull(organizations.deletedAt)));
     } catch (error) {
       console.error('Error in getAllOrganizations:', error);
       throw error;
     }
   }
+
+  /**
+   * Get the soft-deleted organizations, most recently deleted first. Outside the global scope
+   * only the user's own organization can be managed, so no other one is listed.
+   */
+  async getDeletedOrganizations(scope?: VisibilityScope): Promise<Organization[]> {
+    try {
+      const ownOrganization = !scope || scope.kind === "global"
+        ? undefined
+        : scope.organizationId !== null ? eq(organizations.id, scope.organizationId) : sql`FALSE`;
+      return await db.select()
+        .from(organizations)
+        .where(and(isNotNull(organizations.deletedAt), ownOrganization))
+        .orderBy(desc(organizations.deletedAt), asc(organizations.name));
+    } catch (error) {
+      console.error('Error in getDeletedOrganizations:', error);
+      throw error;
+    }
+  }
 }
 
 // Create and export a singleton instance
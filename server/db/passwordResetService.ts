@@ -0,0 +1,96 @@
+import {
+  UserStatus,
+  type User, type InsertActivity, type PasswordReset, type InsertPasswordReset,
+  users, passwordResets
+} from "@shared/schema";
+import { db } from "../db";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { hashPassword } from "../password";
+import { appendActivity } from "./activityService";
+
+/**
+ * Password reset service
+ * Handles the one-time links users request when they forgot their password using Drizzle ORM
+ */
+export class PasswordResetService {
+  /**
+   * Get the unused, unexpired reset a token hash belongs to, if any
+   */
+  async getPasswordResetByTokenHash(tokenHash: string): Promise<PasswordReset | undefined> {
+    try {
+      const result = await db.select()
+        .from(passwordResets)
+        .where(and(
+          eq(passwordResets.tokenHash, tokenHash),
+          isNull(passwordResets.usedAt),
+          gt(passwordResets.expiresAt, new Date())
+        ))
+        .limit(1);
+      return result[0];
+    } catch (error) {
+      console.error('Error in getPasswordResetByTokenHash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a reset and record the activity, atomically.
+   * Unused resets the user requested before are dropped, so only the newest link works.
+   */
+  async createPasswordReset(data: InsertPasswordReset, activity: InsertActivity): Promise<PasswordReset> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.delete(passwordResets)
+          .where(and(eq(passwordResets.userId, data.userId), isNull(passwordResets.usedAt)));
+        const [reset] = await tx.insert(passwordResets).values(data).returning();
+        await appendActivity(tx, activity);
+        return reset;
+      });
+    } catch (error) {
+      console.error('Error in createPasswordReset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Use an unused, unexpired reset: the user gets the new password and no longer has to
+   * change it, and the activity is recorded, atomically
+   */
+  async resetPassword(
+    id: number,
+    password: string,
+    activityFor: (user: User) => InsertActivity
+  ): Promise<User | undefined> {
+    try {
+      const hashedPassword = await hashPassword(password);
+      return await db.transaction(async (tx) => {
+        const now = new Date();
+        const [reset] = await tx.update(passwordResets)
+          .set({ usedAt: now })
+          .where(and(eq(passwordResets.id, id), isNull(passwordResets.usedAt), gt(passwordResets.expiresAt, now)))
+          .returning();
+        if (!reset) {
+          return undefined;
+        }
+
+        const [user] = await tx.update(users)
+          .set({ password: hashedPassword, passwordResetRequired: false })
+          .where(and(eq(users.id, reset.userId), eq(users.status, UserStatus.ACTIVE), isNull(users.deletedAt)))
+          .returning();
+        if (!user) {
+          // Rolls the use of the reset back
+          throw new Error(`User ${reset.userId} can no longer reset their password`);
+        }
+
+        await appendActivity(tx, activityFor(user));
+        return user;
+      });
+    } catch (error) {
+      console.error('Error in resetPassword:', error);
+      throw error;
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const passwordResetService = new PasswordResetService();
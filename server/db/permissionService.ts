@@ -0,0 +1,127 @@
+import {
+  type PermissionRecord, type UserRoleType,
+  permissions, rolePermissions, UserRole
+} from "@shared/schema";
+import {
+  type PermissionKey,
+  Permission, PermissionDescriptions, DefaultRolePermissions
+} from "@shared/permissions";
+import { db } from "../db";
+import { eq, inArray } from "drizzle-orm";
+
+export type PermissionMatrix = Record<UserRoleType, PermissionKey[]>;
+
+/**
+ * Permission management service
+ * Handles the permission catalog and the role permission matrix using Drizzle ORM
+ */
+export class PermissionService {
+  /**
+   * Get all permissions in the catalog
+   */
+  async getAllPermissions(): Promise<PermissionRecord[]> {
+    try {
+      return await db.select().from(permissions).orderBy(permissions.id);
+    } catch (error) {
+      console.error('Error in getAllPermissions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the permission keys granted to a role
+   */
+  async getPermissionsForRole(role: UserRoleType): Promise<PermissionKey[]> {
+    try {
+      const rows = await db.select({ key: permissions.key })
+        .from(rolePermissions)
+        .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id))
+        .where(eq(rolePermissions.role, role));
+
+      return rows.map(row => row.key as PermissionKey);
+    } catch (error) {
+      console.error('Error in getPermissionsForRole:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the permission keys granted to every role
+   */
+  async getRolePermissions(): Promise<PermissionMatrix> {
+    try {
+      const rows = await db.select({ role: rolePermissions.role, key: permissions.key })
+        .from(rolePermissions)
+        .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id));
+
+      const matrix = Object.fromEntries(
+        Object.values(UserRole).map(role => [role, [] as PermissionKey[]])
+      ) as PermissionMatrix;
+
+      for (const row of rows) {
+        matrix[row.role]?.push(row.key as PermissionKey);
+      }
+
+      return matrix;
+    } catch (error) {
+      console.error('Error in getRolePermissions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the permissions granted to a role
+   */
+  async setRolePermissions(role: UserRoleType, keys: PermissionKey[]): Promise<PermissionKey[]> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.delete(rolePermissions).where(eq(rolePermissions.role, role));
+
+        if (keys.length > 0) {
+          const granted = await tx.select({ id: permissions.id })
+            .from(permissions)
+            .where(inArray(permissions.key, keys));
+
+          await tx.insert(rolePermissions).values(
+            granted.map(permission => ({ role, permissionId: permission.id }))
+          );
+        }
+
+        return keys;
+      });
+    } catch (error) {
+      console.error('Error in setRolePermissions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add missing permissions to the catalog and grant each newly added
+   * permission to its default roles. Existing grants are left untouched.
+   */
+  async seedPermissions(): Promise<void> {
+    try {
+      const added = await db.insert(permissions)
+        .values(Object.values(Permission).map(key => ({ key, description: PermissionDescriptions[key] })))
+        .onConflictDoNothing({ target: permissions.key })
+        .returning();
+
+      const grants = added.flatMap(permission =>
+        Object.values(UserRole)
+          .filter(role => DefaultRolePermissions[role].includes(permission.key as PermissionKey))
+          .map(role => ({ role, permissionId: permission.id }))
+      );
+
+      if (grants.length > 0) {
+        await db.insert(rolePermissions).values(grants).onConflictDoNothing();
+        console.log(`Seeded ${added.length} permissions`);
+      }
+    } catch (error) {
+      console.error('Error in seedPermissions:', error);
+      throw error;
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const permissionService = new PermissionService();
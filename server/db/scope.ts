@@ -0,0 +1,80 @@
+import { activities, organizations, users, DistributorLinkStatus } from "@shared/schema";
+import { eq, or, sql, type SQL } from "drizzle-orm";
+
+/**
+ * Row-level visibility scope of a user
+ * - global: every row in the database
+ * - organization: every user of one organization
+ * - subtree: a user and everyone reporting to them through the managerId chain
+ */
+export type VisibilityScope =
+  | { kind: "global" }
+  | { kind: "organization"; organizationId: number }
+  | { kind: "subtree"; rootUserId: number; organizationId: number | null };
+
+/**
+ * Subquery selecting the ids of a user and everyone below them in the managerId chain.
+ * UNION (rather than UNION ALL) stops the recursion on reporting cycles.
+ */
+export function subtreeUserIds(rootUserId: number): SQL {
+  return sql`
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM users WHERE id = ${rootUserId}
+      UNION
+      SELECT u.id FROM users u INNER JOIN subtree s ON u.manager_id = s.id
+    )
+    SELECT id FROM subtree
+  `;
+}
+
+/**
+ * Condition restricting the users table to a scope, or undefined for the global scope
+ */
+export function userScopeCondition(scope: VisibilityScope = { kind: "global" }): SQL | undefined {
+  switch (scope.kind) {
+    case "organization":
+      return eq(users.organizationId, scope.organizationId);
+    case "subtree":
+      return sql`${users.id} IN (${subtreeUserIds(scope.rootUserId)})`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Condition restricting the activities table to entries made by users within a scope
+ */
+export function activityScopeCondition(scope: VisibilityScope = { kind: "global" }): SQL | undefined {
+  switch (scope.kind) {
+    case "organization":
+      return sql`${activities.userId} IN (SELECT id FROM users WHERE organization_id = ${scope.organizationId})`;
+    case "subtree":
+      return sql`${activities.userId} IN (${subtreeUserIds(scope.rootUserId)})`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Condition restricting the organizations table to the organization a scope belongs to
+ * and the organizations actively linked to it as distributor or pharma company
+ */
+export function organizationScopeCondition(scope: VisibilityScope = { kind: "global" }): SQL | undefined {
+  if (scope.kind === "global") {
+    return undefined;
+  }
+  // Users without an organization see no organizations
+  if (scope.organizationId === null) {
+    return sql`FALSE`;
+  }
+  return or(
+    eq(organizations.id, scope.organizationId),
+    sql`${organizations.id} IN (
+      SELECT distributor_id FROM distributor_companies
+      WHERE company_id = ${scope.organizationId} AND status = ${DistributorLinkStatus.ACTIVE}
+      UNION
+      SELECT company_id FROM distributor_companies
+      WHERE distributor_id = ${scope.organizationId} AND status = ${DistributorLinkStatus.ACTIVE}
+    )`
+  );
+}
@@ -0,0 +1,201 @@
+import {
+  OrganizationType, TerritoryLevel,
+  type Territory, type InsertTerritory, type TerritoryWithUsage,
+  territories, users, organizations
+} from "@shared/schema";
+import { db } from "../db";
+import { and, asc, eq, inArray, isNull, sql } from "drizzle-orm";
+
+// Zone created for each company to hold regions migrated from free-text user regions
+export const LEGACY_ZONE_NAME = "Unmapped Regions";
+
+/**
+ * Territory service
+ * Handles the Zone → Region → Area → Headquarter → Patch hierarchy using Drizzle ORM
+ */
+export class TerritoryService {
+  /**
+   * Get a territory by ID
+   */
+  async getTerritory(id: number): Promise<Territory | undefined> {
+    try {
+      const result = await db.select().from(territories).where(eq(territories.id, id));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error('Error in getTerritory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get territories by ID
+   */
+  async getTerritoriesByIds(ids: number[]): Promise<Territory[]> {
+    try {
+      if (ids.length === 0) {
+        return [];
+      }
+      return await db.select().from(territories).where(inArray(territories.id, ids));
+    } catch (error) {
+      console.error('Error in getTerritoriesByIds:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every territory of an organization with its assigned user and child counts
+   */
+  async getTerritories(organizationId: number): Promise<TerritoryWithUsage[]> {
+    try {
+      return await db.select({
+        id: territories.id,
+        organizationId: territories.organizationId,
+        parentId: territories.parentId,
+        level: territories.level,
+        name: territories.name,
+        code: territories.code,
+        pincodes: territories.pincodes,
+        userCount: sql<number>`(SELECT COUNT(*) FROM users WHERE users.territory_id = ${territories.id} AND users.deleted_at IS NULL)`.mapWith(Number),
+        childCount: sql<number>`(SELECT COUNT(*) FROM territories AS child WHERE child.parent_id = ${territories.id})`.mapWith(Number),
+      })
+        .from(territories)
+        .where(eq(territories.organizationId, organizationId))
+        .orderBy(asc(territories.name));
+    } catch (error) {
+      console.error('Error in getTerritories:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new territory
+   */
+  async createTerritory(territoryData: InsertTerritory): Promise<Territory> {
+    try {
+      const result = await db.insert(territories).values(territoryData).returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error in createTerritory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a territory, change its pincode coverage or move it under another parent.
+   * The organization and level of a territory never change.
+   */
+  async updateTerritory(
+    id: number,
+    territoryData: Partial<Pick<InsertTerritory, "name" | "code" | "parentId" | "pincodes">>
+  ): Promise<Territory | undefined> {
+    try {
+      const result = await db.update(territories)
+        .set(territoryData)
+        .where(eq(territories.id, id))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error('Error in updateTerritory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a territory
+   */
+  async deleteTerritory(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(territories).where(eq(territories.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error in deleteTerritory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assign pharma company users who only have a free-text region to REGION territories.
+   * Regions are matched by name, case-insensitively; missing ones are created under a
+   * per-company "Unmapped Regions" zone for administrators to move to the right zone.
+   * Safe to run repeatedly: users that already have a territory are skipped.
+   */
+  async migrateRegionStrings(): Promise<number> {
+    try {
+      return await db.transaction(async (tx) => {
+        const pending = await tx.select({
+          id: users.id,
+          organizationId: users.organizationId,
+          region: users.region,
+        })
+          .from(users)
+          .innerJoin(organizations, eq(users.organizationId, organizations.id))
+          .where(and(
+            isNull(users.territoryId),
+            eq(organizations.type, OrganizationType.PHARMA_COMPANY),
+            sql`TRIM(COALESCE(${users.region}, '')) <> ''`
+          ));
+
+        const regionIds = new Map<string, number>();
+        const legacyZoneIds = new Map<number, number>();
+
+        for (const user of pending) {
+          const organizationId = user.organizationId!;
+          const name = user.region!.trim();
+          const key = `${organizationId}:${name.toLowerCase()}`;
+
+          if (!regionIds.has(key)) {
+            const [existing] = await tx.select({ id: territories.id })
+              .from(territories)
+              .where(and(
+                eq(territories.organizationId, organizationId),
+                eq(territories.level, TerritoryLevel.REGION),
+                sql`LOWER(${territories.name}) = ${name.toLowerCase()}`
+              ));
+
+            if (existing) {
+              regionIds.set(key, existing.id);
+            } else {
+              if (!legacyZoneIds.has(organizationId)) {
+                let [zone] = await tx.select({ id: territories.id })
+                  .from(territories)
+                  .where(and(
+                    eq(territories.organizationId, organizationId),
+                    eq(territories.level, TerritoryLevel.ZONE),
+                    eq(territories.name, LEGACY_ZONE_NAME)
+                  ));
+                if (!zone) {
+                  [zone] = await tx.insert(territories).values({
+                    organizationId,
+                    level: TerritoryLevel.ZONE,
+                    name: LEGACY_ZONE_NAME,
+                  }).returning({ id: territories.id });
+                }
+                legacyZoneIds.set(organizationId, zone.id);
+              }
+
+              const [region] = await tx.insert(territories).values({
+                organizationId,
+                parentId: legacyZoneIds.get(organizationId)!,
+                level: TerritoryLevel.REGION,
+                name,
+              }).returning();
+              regionIds.set(key, region.id);
+            }
+          }
+
+          await tx.update(users)
+            .set({ territoryId: regionIds.get(key)! })
+            .where(eq(users.id, user.id));
+        }
+
+        return pending.length;
+      });
+    } catch (error) {
+      console.error('Error in migrateRegionStrings:', error);
+      throw error;
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const territoryService = new TerritoryService();
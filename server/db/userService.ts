@@ -1,11 +1,105 @@
 import { 
-  UserStatus, UserRole,
-  type User, type InsertUser, type UserRoleType, type UserStatusType,
-  users
+  UserStatus, UserRole, UserSortField, SortDirection,
+  type User, type InsertUser, type UserRoleType, type UserStatusType, type InsertActivity, type UserDirectoryEntry,
+  type UserPage, type UserSortFieldType, type SortDirectionType,
+  users, organizations, territories, userInvitations
 } from "@shared/schema";
 import { db } from "../db";
-import { eq, SQL } from "drizzle-orm";
-import { hashPassword } from "./utils";
+import { and, asc, count, desc, eq, ilike, inArray, isNotNull, isNull, or, sql, SQL } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { ManagerRoles } from "@shared/org-chart";
+import { hashPassword } from "../password";
+import { userScopeCondition, type VisibilityScope } from "./scope";
+import { appendActivity } from "./activityService";
+
+/**
+ * A user to create in a bulk import. A manager who is created by the same import is given
+ * by the index of their entry, which must come earlier in the list.
+ */
+export interface UserImportEntry {
+  user: InsertUser;
+  managerIndex?: number;
+}
+
+/**
+ * Filters for listing users
+ * - managerId matches the manager's direct reports
+ * - territoryId matches users assigned to the territory or any territory below it
+ * - search matches full name, username or email case-insensitively
+ * - deleted lists soft-deleted users instead of current ones
+ * - invited keeps only users with an open invitation, or only those without one
+ */
+export interface UserFilters {
+  role?: UserRoleType;
+  organizationId?: number;
+  status?: UserStatusType;
+  managerId?: number;
+  territoryId?: number;
+  search?: string;
+  deleted?: boolean;
+  invited?: boolean;
+}
+
+/**
+ * Options for looking users up; soft-deleted users are left out unless includeDeleted is set,
+ * and users outside scope are left out when one is given
+ */
+export interface UserLookupOptions {
+  includeDeleted?: boolean;
+  scope?: VisibilityScope;
+}
+
+/**
+ * Order of a page of the user list
+ */
+export interface UserSort {
+  field: UserSortFieldType;
+  direction: SortDirectionType;
+}
+
+const managers = alias(users, "manager");
+
+const sortColumns: Record<UserSortFieldType, AnyPgColumn> = {
+  [UserSortField.FULL_NAME]: users.fullName,
+  [UserSortField.USERNAME]: users.username,
+  [UserSortField.EMAIL]: users.email,
+  [UserSortField.ROLE]: users.role,
+  [UserSortField.STATUS]: users.status,
+  [UserSortField.ORGANIZATION]: organizations.name,
+  [UserSortField.LAST_LOGIN]: users.lastLogin,
+};
+
+type DirectoryRow = {
+  user: User;
+  organizationName: string | null;
+  managerName: string | null;
+  territoryName: string | null;
+};
+
+// Soft-deleted users are left out of lookups unless asked for
+function deletedCondition(options: UserLookupOptions = {}): SQL | undefined {
+  return options.includeDeleted ? undefined : isNull(users.deletedAt);
+}
+
+// Conditions of a single-user lookup
+function lookupCondition(options: UserLookupOptions = {}): SQL | undefined {
+  return and(deletedCondition(options), userScopeCondition(options.scope));
+}
+
+function toDirectoryEntry({ user: { password, ...user }, organizationName, managerName, territoryName }: DirectoryRow): UserDirectoryEntry {
+  return { ...user, organizationName, managerName, territoryName };
+}
+
+/**
+ * User counts shown on the dashboard
+ */
+export interface UserStats {
+  totalUsers: number;
+  activeUsers: number;
+  inactiveUsers: number;
+  pendingUsers: number;
+  activeMRs: number;
+}
 
 /**
  * User management service
@@ -15,9 +109,9 @@ export class UserService {
   /**
    * Get a user by ID
    */
-  async getUser(id: number): Promise<User | undefined> {
+  async getUser(id: number, options?: UserLookupOptions): Promise<User | undefined> {
     try {
-      const result = await db.select().from(users).where(eq(users.id, id));
+      const result = await db.select().from(users).where(and(eq(users.id, id), lookupCondition(options)));
       return result.length > 0 ? result[0] : undefined;
     } catch (error) {
       console.error('Error in getUser:', error);
@@ -28,9 +122,9 @@ export class UserService {
   /**
    * Get a user by username
    */
-  async getUserByUsername(username: string): Promise<User | undefined> {
+  async getUserByUsername(username: string, options?: UserLookupOptions): Promise<User | undefined> {
     try {
-      const result = await db.select().from(users).where(eq(users.username, username));
+      const result = await db.select().from(users).where(and(eq(users.username, username), lookupCondition(options)));
       return result.length > 0 ? result[0] : undefined;
     } catch (error) {
       console.error('Error in getUserByUsername:', error);
@@ -38,6 +132,19 @@ export class UserService {
     }
   }
 
+  /**
+   * Get a user by email address
+   */
+  async getUserByEmail(email: string, options?: UserLookupOptions): Promise<User | undefined> {
+    try {
+      const result = await db.select().from(users).where(and(eq(users.email, email), lookupCondition(options)));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error('Error in getUserByEmail:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create a new user with password hashing
    */
@@ -46,11 +153,11 @@ export class UserService {
       const {
         username, password, fullName, email, role,
         status = UserStatus.ACTIVE, organizationId,
-        region, state, city, pincode, address, managerId
+        region, territoryId, state, city, pincode, address, managerId
       } = userData;
 
       // Hash the password before storing
-      const hashedPassword = hashPassword(password);
+      const hashedPassword = await hashPassword(password);
 
       // Use Drizzle ORM to insert the user
       const [newUser] = await db.insert(users).values([{
@@ -62,6 +169,7 @@ export class UserService {
         status: status as UserStatusType,
         organizationId,
         region,
+        territoryId,
         state,
         city,
         pincode,
@@ -77,9 +185,14 @@ export class UserService {
   }
 
   /**
-   * Update an existing user with password hashing
+   * Update an existing user with password hashing. With activityFor, the activity is recorded
+   * in the same transaction as the update.
    */
-  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+  async updateUser(
+    id: number,
+    userData: Partial<InsertUser>,
+    activityFor?: (updatedUser: User) => InsertActivity
+  ): Promise<User | undefined> {
     try {
       // Create a proper update object with type casting
       const updateData: Record<string, any> = {};
@@ -89,7 +202,7 @@ export class UserService {
       }
       
       if (userData.password !== undefined) {
-        updateData.password = hashPassword(userData.password);
+        updateData.password = await hashPassword(userData.password);
       }
       
       if (userData.fullName !== undefined) {
@@ -132,10 +245,26 @@ export class UserService {
         updateData.address = userData.address;
       }
       
+      if (userData.territoryId !== undefined) {
+        updateData.territoryId = userData.territoryId;
+      }
+      
       if (userData.managerId !== undefined) {
         updateData.managerId = userData.managerId;
       }
       
+      if (userData.passwordResetRequired !== undefined) {
+        updateData.passwordResetRequired = userData.passwordResetRequired;
+      }
+      
+      if (userData.statusReason !== undefined) {
+        updateData.statusReason = userData.statusReason;
+      }
+      
+      if (userData.statusChangedAt !== undefined) {
+        updateData.statusChangedAt = userData.statusChangedAt;
+      }
+      
       if (userData.lastLogin !== undefined) {
         updateData.lastLogin = userData.lastLogin;
       }
@@ -145,13 +274,20 @@ export class UserService {
         return this.getUser(id);
       }
       
-      // Use Drizzle ORM to update the user
-      const [updatedUser] = await db.update(users)
-        .set(updateData)
-        .where(eq(users.id, id))
-        .returning();
-      
-      return updatedUser || undefined;
+      return await db.transaction(async (tx) => {
+        const [updatedUser] = await tx.update(users)
+          .set(updateData)
+          .where(eq(users.id, id))
+          .returning();
+        if (!updatedUser) {
+          return undefined;
+        }
+
+        if (activityFor) {
+          await appendActivity(tx, activityFor(updatedUser));
+        }
+        return updatedUser;
+      });
     } catch (error) {
       console.error('Error in updateUser:', error);
       throw error;
@@ -159,12 +295,34 @@ export class UserService {
   }
 
   /**
-   * Delete a user
+   * Soft-delete a user, moving their direct reports to a successor, and record the activity, atomically
    */
-  async deleteUser(id: number): Promise<boolean> {
+  async deleteUser(
+    id: number,
+    deletedBy: number,
+    successorId: number | null,
+    activityFor: (deletedUser: User, movedReports: User[]) => InsertActivity
+  ): Promise<User | undefined> {
     try {
-      const result = await db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
-      return result.length > 0;
+      return await db.transaction(async (tx) => {
+        const [deletedUser] = await tx.update(users)
+          .set({ deletedAt: new Date(), deletedBy })
+          .where(and(eq(users.id, id), isNull(users.deletedAt)))
+          .returning();
+        if (!deletedUser) {
+          return undefined;
+        }
+
+        const movedReports = successorId !== null
+          ? await tx.update(users)
+            .set({ managerId: successorId })
+            .where(and(eq(users.managerId, id), isNull(users.deletedAt)))
+            .returning()
+          : [];
+
+        await appendActivity(tx, activityFor(deletedUser, movedReports));
+        return deletedUser;
+      });
     } catch (error) {
       console.error('Error in deleteUser:', error);
       throw error;
@@ -172,23 +330,214 @@ export class UserService {
   }
 
   /**
-   * Get all users
+   * Restore a soft-deleted user and record the activity, atomically.
+   * A manager who has been deleted in the meantime is not restored with them.
+   */
+  async restoreUser(id: number, activityFor: (restoredUser: User) => InsertActivity): Promise<User | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [restoredUser] = await tx.update(users)
+          .set({
+            deletedAt: null,
+            deletedBy: null,
+            managerId: sql`CASE WHEN EXISTS (
+              SELECT 1 FROM users manager WHERE manager.id = ${users.managerId} AND manager.deleted_at IS NULL
+            ) THEN ${users.managerId} END`,
+          })
+          .where(and(eq(users.id, id), isNotNull(users.deletedAt)))
+          .returning();
+        if (!restoredUser) {
+          return undefined;
+        }
+
+        await appendActivity(tx, activityFor(restoredUser));
+        return restoredUser;
+      });
+    } catch (error) {
+      console.error('Error in restoreUser:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently remove a soft-deleted user and record the activity, atomically.
+   * Audit entries keep the id of the purged user.
    */
-  async getAllUsers(): Promise<User[]> {
+  async purgeUser(id: number, activity: InsertActivity): Promise<boolean> {
     try {
-      return await db.select().from(users);
+      return await db.transaction(async (tx) => {
+        // Only other deleted users can still point at them
+        await tx.update(users).set({ managerId: null }).where(eq(users.managerId, id));
+
+        const result = await tx.delete(users)
+          .where(and(eq(users.id, id), isNotNull(users.deletedAt)))
+          .returning({ id: users.id });
+        if (result.length === 0) {
+          return false;
+        }
+
+        await appendActivity(tx, activity);
+        return true;
+      });
+    } catch (error) {
+      console.error('Error in purgeUser:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all users visible within a scope (global by default)
+   */
+  async getAllUsers(scope?: VisibilityScope, options?: UserLookupOptions): Promise<User[]> {
+    try {
+      return await db.select().from(users).where(and(userScopeCondition(scope), deletedCondition(options)));
     } catch (error) {
       console.error('Error in getAllUsers:', error);
       throw error;
     }
   }
 
+  /**
+   * Find users within a scope (global by default) with their organization, manager and territory names,
+   * ordered by full name
+   */
+  async findUsers(filters: UserFilters = {}, scope?: VisibilityScope): Promise<UserDirectoryEntry[]> {
+    try {
+      const rows = await this.selectDirectory()
+        .where(this.filterCondition(filters, scope))
+        .orderBy(asc(users.fullName), asc(users.id));
+
+      return rows.map(toDirectoryEntry);
+    } catch (error) {
+      console.error('Error in findUsers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one page of the users matching the filters within a scope, and how many match in total
+   */
+  async findUserPage(
+    filters: UserFilters,
+    sort: UserSort,
+    page: number,
+    pageSize: number,
+    scope?: VisibilityScope
+  ): Promise<UserPage> {
+    try {
+      const condition = this.filterCondition(filters, scope);
+      const order = sort.direction === SortDirection.DESC ? desc : asc;
+
+      const [rows, [{ total }]] = await Promise.all([
+        this.selectDirectory()
+          .where(condition)
+          // Ties are broken by id so pages never overlap
+          .orderBy(order(sortColumns[sort.field]), asc(users.id))
+          .limit(pageSize)
+          .offset((page - 1) * pageSize),
+        db.select({ total: count() }).from(users).where(condition),
+      ]);
+
+      return { items: rows.map(toDirectoryEntry), total, page, pageSize };
+    } catch (error) {
+      console.error('Error in findUserPage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Users joined with the names of their organization, manager and territory
+   */
+  private selectDirectory() {
+    return db.select({
+      user: users,
+      organizationName: organizations.name,
+      managerName: managers.fullName,
+      territoryName: territories.name,
+    })
+      .from(users)
+      .leftJoin(organizations, eq(users.organizationId, organizations.id))
+      .leftJoin(managers, eq(users.managerId, managers.id))
+      .leftJoin(territories, eq(users.territoryId, territories.id));
+  }
+
+  /**
+   * The condition matching users within a scope that pass the filters
+   */
+  private filterCondition(filters: UserFilters, scope?: VisibilityScope): SQL | undefined {
+    const conditions: (SQL | undefined)[] = [
+      userScopeCondition(scope),
+      filters.deleted ? isNotNull(users.deletedAt) : isNull(users.deletedAt),
+    ];
+
+    if (filters.role) {
+      conditions.push(eq(users.role, filters.role));
+    }
+    if (filters.organizationId !== undefined) {
+      conditions.push(eq(users.organizationId, filters.organizationId));
+    }
+    if (filters.status) {
+      conditions.push(eq(users.status, filters.status));
+    }
+    if (filters.managerId !== undefined) {
+      conditions.push(eq(users.managerId, filters.managerId));
+    }
+    if (filters.territoryId !== undefined) {
+      conditions.push(sql`${users.territoryId} IN (
+        WITH RECURSIVE subtree AS (
+          SELECT ${territories.id} AS id FROM ${territories} WHERE ${territories.id} = ${filters.territoryId}
+          UNION
+          SELECT child.id FROM ${territories} child JOIN subtree ON child.parent_id = subtree.id
+        )
+        SELECT id FROM subtree
+      )`);
+    }
+    if (filters.invited !== undefined) {
+      const openInvitation = sql`EXISTS (
+        SELECT 1 FROM ${userInvitations}
+        WHERE ${userInvitations.userId} = ${users.id}
+          AND ${userInvitations.acceptedAt} IS NULL AND ${userInvitations.revokedAt} IS NULL
+      )`;
+      conditions.push(filters.invited ? openInvitation : sql`NOT ${openInvitation}`);
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search.replace(/[\\%_]/g, (match) => `\\${match}`)}%`;
+      conditions.push(or(
+        ilike(users.fullName, pattern),
+        ilike(users.username, pattern),
+        ilike(users.email, pattern)
+      ));
+    }
+
+    return and(...conditions);
+  }
+
+  /**
+   * Count users by status, and active medical representatives, within a scope
+   */
+  async getUserStats(scope?: VisibilityScope): Promise<UserStats> {
+    try {
+      const [stats] = await db.select({
+        totalUsers: sql<number>`COUNT(*)::int`,
+        activeUsers: sql<number>`(COUNT(*) FILTER (WHERE ${users.status} = ${UserStatus.ACTIVE}))::int`,
+        inactiveUsers: sql<number>`(COUNT(*) FILTER (WHERE ${users.status} = ${UserStatus.INACTIVE}))::int`,
+        pendingUsers: sql<number>`(COUNT(*) FILTER (WHERE ${users.status} = ${UserStatus.PENDING}))::int`,
+        activeMRs: sql<number>`(COUNT(*) FILTER (WHERE ${users.role} = ${UserRole.MEDICAL_REPRESENTATIVE} AND ${users.status} = ${UserStatus.ACTIVE}))::int`,
+      }).from(users).where(and(userScopeCondition(scope), isNull(users.deletedAt)));
+
+      return stats;
+    } catch (error) {
+      console.error('Error in getUserStats:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get users by role
    */
   async getUsersByRole(role: string): Promise<User[]> {
     try {
-      return await db.select().from(users).where(eq(users.role, role as UserRoleType));
+      return await db.select().from(users).where(and(eq(users.role, role as UserRoleType), isNull(users.deletedAt)));
     } catch (error) {
       console.error('Error in getUsersByRole:', error);
       throw error;
@@ -196,28 +545,128 @@ export class UserService {
   }
 
   /**
-   * Get users by organization
+   * Get users by organization, limited to those inside the visibility scope when one is given
    */
-  async getUsersByOrganization(organizationId: number): Promise<User[]> {
+  async getUsersByOrganization(organizationId: number, scope?: VisibilityScope): Promise<User[]> {
     try {
-      return await db.select().from(users).where(eq(users.organizationId, organizationId));
+      return await db.select().from(users).where(and(
+        eq(users.organizationId, organizationId),
+        isNull(users.deletedAt),
+        userScopeCondition(scope)
+      ));
     } catch (error) {
       console.error('Error in getUsersByOrganization:', error);
       throw error;
     }
   }
 
+  /**
+   * Count the users belonging to an organization
+   */
+  async countUsersByOrganization(organizationId: number): Promise<number> {
+    try {
+      const [result] = await db.select({ count: sql<number>`COUNT(*)::int` })
+        .from(users)
+        .where(and(eq(users.organizationId, organizationId), isNull(users.deletedAt)));
+      return result.count;
+    } catch (error) {
+      console.error('Error in countUsersByOrganization:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get users by manager
    */
   async getUsersByManager(managerId: number): Promise<User[]> {
     try {
-      return await db.select().from(users).where(eq(users.managerId, managerId));
+      return await db.select().from(users).where(and(eq(users.managerId, managerId), isNull(users.deletedAt)));
     } catch (error) {
       console.error('Error in getUsersByManager:', error);
       throw error;
     }
   }
+
+  /**
+   * Get the active users who may manage a user with the given role in an organization
+   */
+  async getEligibleManagers(role: UserRoleType, organizationId: number): Promise<User[]> {
+    try {
+      const managerRole = ManagerRoles[role];
+      if (!managerRole) {
+        return [];
+      }
+
+      return await db.select()
+        .from(users)
+        .where(and(
+          eq(users.role, managerRole),
+          eq(users.organizationId, organizationId),
+          eq(users.status, UserStatus.ACTIVE),
+          isNull(users.deletedAt)
+        ))
+        .orderBy(users.fullName);
+    } catch (error) {
+      console.error('Error in getEligibleManagers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create users from an import in one transaction, recording an activity for each.
+   * Either every user is created or none is.
+   */
+  async importUsers(entries: UserImportEntry[], activityFor: (user: User) => InsertActivity): Promise<User[]> {
+    try {
+      const hashedPasswords = await Promise.all(entries.map(entry => hashPassword(entry.user.password)));
+
+      return await db.transaction(async (tx) => {
+        const created: User[] = [];
+        for (let index = 0; index < entries.length; index++) {
+          const entry = entries[index];
+          const managerId = entry.managerIndex !== undefined
+            ? created[entry.managerIndex].id
+            : entry.user.managerId ?? null;
+
+          const [newUser] = await tx.insert(users).values([{
+            ...entry.user,
+            password: hashedPasswords[index],
+            role: entry.user.role as UserRoleType,
+            status: (entry.user.status ?? UserStatus.ACTIVE) as UserStatusType,
+            managerId,
+          }]).returning();
+
+          await appendActivity(tx, activityFor(newUser));
+          created.push(newUser);
+        }
+        return created;
+      });
+    } catch (error) {
+      console.error('Error in importUsers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move users under a new manager and record the change as one activity, atomically
+   */
+  async reassignUsers(userIds: number[], managerId: number, activity: InsertActivity): Promise<User[]> {
+    try {
+      return await db.transaction(async (tx) => {
+        const reassigned = await tx.update(users)
+          .set({ managerId })
+          .where(inArray(users.id, userIds))
+          .returning();
+
+        await appendActivity(tx, activity);
+
+        return reassigned;
+      });
+    } catch (error) {
+      console.error('Error in reassignUsers:', error);
+      throw error;
+    }
+  }
 }
 
 // Create and export a singleton instance
@@ -1,17 +1,8 @@
-import { createHash } from "crypto";
 import { 
   type User, type Organization, type Activity,
   type UserRoleType, type UserStatusType, type OrganizationTypeType 
 } from "@shared/schema";
 
-/**
- * Hash a password using SHA-256
- * Note: In a production environment, use a more secure hashing algorithm like bcrypt
- */
-export function hashPassword(password: string): string {
-  return createHash('sha256').update(password).digest('hex');
-}
-
 /**
  * Convert database user row to User type
  * Maps snake_case database column names to camelCase TypeScript properties
@@ -27,12 +18,18 @@ export function mapUserFromDb(dbUser: any): User {
     status: dbUser.status as UserStatusType,
     organizationId: dbUser.organization_id || null,
     region: dbUser.region || null,
+    territoryId: dbUser.territory_id || null,
     state: dbUser.state || null,
     city: dbUser.city || null,
     pincode: dbUser.pincode || null,
     address: dbUser.address || null,
     managerId: dbUser.manager_id || null,
-    lastLogin: dbUser.last_login || null
+    lastLogin: dbUser.last_login || null,
+    statusReason: dbUser.status_reason || null,
+    statusChangedAt: dbUser.status_changed_at || null,
+    passwordResetRequired: dbUser.password_reset_required ?? false,
+    deletedAt: dbUser.deleted_at || null,
+    deletedBy: dbUser.deleted_by || null
   };
 }
 
@@ -43,7 +40,22 @@ export function mapOrganizationFromDb(dbOrg: any): Organization {
   return {
     id: dbOrg.id,
     name: dbOrg.name,
-    type: dbOrg.type as OrganizationTypeType
+    type: dbOrg.type as OrganizationTypeType,
+    drugLicenseForm20: dbOrg.drug_license_form_20 || null,
+    drugLicenseForm20Expiry: dbOrg.drug_license_form_20_expiry || null,
+    drugLicenseForm21: dbOrg.drug_license_form_21 || null,
+    drugLicenseForm21Expiry: dbOrg.drug_license_form_21_expiry || null,
+    gstin: dbOrg.gstin || null,
+    pan: dbOrg.pan || null,
+    address: dbOrg.address || null,
+    state: dbOrg.state || null,
+    city: dbOrg.city || null,
+    pincode: dbOrg.pincode || null,
+    contactName: dbOrg.contact_name || null,
+    contactEmail: dbOrg.contact_email || null,
+    contactPhone: dbOrg.contact_phone || null,
+    deletedAt: dbOrg.deleted_at || null,
+    deletedBy: dbOrg.deleted_by || null
   };
 }
 
@@ -56,6 +68,14 @@ export function mapActivityFromDb(dbActivity: any): Activity {
     userId: dbActivity.user_id || null,
     action: dbActivity.action,
     description: dbActivity.description,
-    timestamp: dbActivity.timestamp
+    entityType: dbActivity.entity_type || null,
+    entityId: dbActivity.entity_id || null,
+    changes: dbActivity.changes || null,
+    ipAddress: dbActivity.ip_address || null,
+    userAgent: dbActivity.user_agent || null,
+    requestId: dbActivity.request_id || null,
+    timestamp: dbActivity.timestamp,
+    prevHash: dbActivity.prev_hash || null,
+    hash: dbActivity.hash || null
   };
 }
\ No newline at end of file
@@ -3,6 +3,7 @@ import dotenv from "dotenv";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
+import { requestContext } from "./audit";
 import { migrate } from "drizzle-orm/postgres-js/migrator";
 
 // Load environment variables from .env file
@@ -11,6 +12,7 @@ dotenv.config();
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+app.use(requestContext);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -0,0 +1,105 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { UserStatus, type User, type UserInvitation } from "@shared/schema";
+import { storage } from "./storage";
+import { appLink, sendMail } from "./mail";
+
+// How long an invitation link can be used after it was sent
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type IssuedInvitationToken = {
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+};
+
+export type InvitationLookup =
+  | { invitation: UserInvitation; user: User }
+  | { error: string };
+
+function signingKey(): string {
+  return process.env.INVITATION_SECRET || process.env.SESSION_SECRET || "pharma-dist-secret-key";
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", signingKey()).update(payload).digest("base64url");
+}
+
+/**
+ * SHA-256 of a token, the only form in which tokens are stored
+ */
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create the signed token of an invitation link.
+ * Tokens look like <user id>.<expiry in ms>.<nonce>.<signature>.
+ */
+export function issueInvitationToken(userId: number, now = new Date()): IssuedInvitationToken {
+  const expiresAt = new Date(now.getTime() + INVITATION_TTL_MS);
+  const payload = [userId, expiresAt.getTime(), randomBytes(16).toString("base64url")].join(".");
+  const token = `${payload}.${sign(payload)}`;
+  return { token, tokenHash: hashInvitationToken(token), expiresAt };
+}
+
+/**
+ * Find the open invitation a token belongs to. The token must carry a valid signature,
+ * be unexpired and be the latest link sent for the invitation.
+ */
+export async function findInvitationByToken(token: string, now = new Date()): Promise<InvitationLookup> {
+  const parts = token.split(".");
+  if (parts.length !== 4) {
+    return { error: "This invitation link is not valid" };
+  }
+
+  const [userId, expiresAt, nonce, signature] = parts;
+  const expected = Buffer.from(sign([userId, expiresAt, nonce].join(".")));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { error: "This invitation link is not valid" };
+  }
+  if (Number(expiresAt) <= now.getTime()) {
+    return { error: "This invitation link has expired. Ask for a new one." };
+  }
+
+  // Accepted, revoked and resent invitations no longer match the token,
+  // and a user approved or offboarded in the meantime no longer waits for it
+  const invitation = await storage.getOpenInvitation(Number(userId));
+  const user = invitation ? await storage.getUser(invitation.userId) : undefined;
+  if (!invitation || !user || user.status !== UserStatus.PENDING || invitation.tokenHash !== hashInvitationToken(token)) {
+    return { error: "This invitation link has already been used or replaced by a newer one" };
+  }
+
+  return { invitation, user };
+}
+
+/**
+ * Email an invitation link to a user; returns whether the message could be sent
+ */
+export async function sendInvitation(
+  user: User,
+  { token, expiresAt }: IssuedInvitationToken,
+  invitedBy: string
+): Promise<boolean> {
+  const link = appLink("/invitation", { token });
+  try {
+    await sendMail({
+      to: user.email,
+      subject: "You have been invited to PharmaDist",
+      text: [
+        `Hello ${user.fullName},`,
+        "",
+        `${invitedBy} has invited you to PharmaDist. Your username is ${user.username}.`,
+        "Choose your password to activate your account:",
+        "",
+        link,
+        "",
+        `The link can be used once and expires on ${expiresAt.toUTCString()}.`,
+      ].join("\n"),
+    });
+    return true;
+  } catch (error) {
+    console.error(`Failed to send the invitation of user ${user.id}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,127 @@
+import { indiaLocations } from "./data/india-locations";
+import { pincodeDirectory } from "./data/india-pincodes";
+import {
+  LocationMatch,
+  type LocationCity, type LocationSearchResult, type LocationState, type PincodeLocation
+} from "@shared/locations";
+
+interface LocationIndex {
+  // Keyed by lower-case state name
+  citiesByState: Map<string, LocationCity[]>;
+  pincodes: Map<string, PincodeLocation>;
+}
+
+const states: LocationState[] = indiaLocations
+  .map(({ code, name, kind }) => ({ code, name, kind }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Index the generated pincode directory by state, city and pincode
+ */
+function buildIndex(): LocationIndex {
+  const stateNames = new Map(indiaLocations.map((record) => [record.code, record.name]));
+  const pincodes = new Map<string, PincodeLocation>();
+  const cities = new Map<string, LocationCity>();
+
+  for (const [code, district, cityName, pincodeList] of pincodeDirectory) {
+    const state = stateNames.get(code)!;
+    const districtPincodes = pincodeList.split(" ");
+    districtPincodes.forEach((pincode) => pincodes.set(pincode, { pincode, state, district, city: cityName }));
+
+    const key = `${state}|${cityName}`;
+    const city = cities.get(key) ?? { name: cityName, districts: [], state, pincodes: [] };
+    city.districts.push(district);
+    city.pincodes.push(...districtPincodes);
+    cities.set(key, city);
+  }
+
+  const citiesByState = new Map<string, LocationCity[]>();
+  for (const city of Array.from(cities.values())) {
+    city.pincodes.sort();
+    const key = city.state.toLowerCase();
+    citiesByState.set(key, [...(citiesByState.get(key) ?? []), city]);
+  }
+  citiesByState.forEach((list) => list.sort((a, b) => a.name.localeCompare(b.name)));
+
+  return { citiesByState, pincodes };
+}
+
+// Built once when the server starts
+const index = buildIndex();
+
+/**
+ * All states and union territories, alphabetically
+ */
+export function getStates(): LocationState[] {
+  return states;
+}
+
+/**
+ * Cities of a state or union territory, matched by name or code
+ */
+export function getCities(state: string): LocationCity[] {
+  const record = indiaLocations.find((candidate) => candidate.code === state.toUpperCase());
+  return index.citiesByState.get((record?.name ?? state).toLowerCase()) ?? [];
+}
+
+/**
+ * Resolve a six-digit pincode to its city, district and state, or null if India Post does not
+ * list it
+ */
+export function lookupPincode(pincode: string): PincodeLocation | null {
+  return index.pincodes.get(pincode) ?? null;
+}
+
+/**
+ * Find states, districts and cities whose names contain the query, names starting with it first.
+ * A numeric query is treated as a pincode or pincode prefix. A district is only listed apart
+ * from its city when their names differ.
+ */
+export function searchLocations(query: string, limit = 20): LocationSearchResult[] {
+  const term = query.trim().toLowerCase();
+  if (!term) {
+    return [];
+  }
+
+  const allCities = Array.from(index.citiesByState.values()).flat();
+  const cityResult = (city: LocationCity): LocationSearchResult => ({
+    match: LocationMatch.CITY,
+    name: city.name,
+    state: city.state,
+    district: city.districts.length === 1 ? city.districts[0] : null,
+    city: city.name,
+  });
+
+  if (/^\d+$/.test(term)) {
+    if (term.length === 6) {
+      const location = lookupPincode(term);
+      return location ? [{ match: LocationMatch.PINCODE, name: term, ...location }] : [];
+    }
+    return allCities
+      .filter((city) => city.pincodes.some((pincode) => pincode.startsWith(term)))
+      .slice(0, limit)
+      .map(cityResult);
+  }
+
+  const results: LocationSearchResult[] = [];
+  for (const record of indiaLocations) {
+    if (record.name.toLowerCase().includes(term) || record.code.toLowerCase() === term) {
+      results.push({ match: LocationMatch.STATE, name: record.name, state: record.name, district: null, city: null });
+    }
+  }
+  for (const city of allCities) {
+    if (city.name.toLowerCase().includes(term)) {
+      results.push(cityResult(city));
+    }
+    for (const district of city.districts) {
+      if (district !== city.name && district.toLowerCase().includes(term)) {
+        results.push({ match: LocationMatch.DISTRICT, name: district, state: city.state, district, city: city.name });
+      }
+    }
+  }
+
+  const rank = (result: LocationSearchResult) => (result.name.toLowerCase().startsWith(term) ? 0 : 1);
+  return results
+    .sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
@@ -0,0 +1,143 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import dotenv from "dotenv";
+
+// Load environment variables
+dotenv.config();
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/**
+ * Delivers outgoing mail. The transport is chosen with MAIL_TRANSPORT (smtp, file or console)
+ * and can be replaced with setMailTransport.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Thrown when a link for an email is needed but APP_URL is missing or not a URL
+ */
+export class AppUrlError extends Error {
+  constructor() {
+    super("Emails with links cannot be sent: APP_URL must be set to the public address of the application, e.g. https://pharmadist.example.com");
+    this.name = "AppUrlError";
+  }
+}
+
+/**
+ * The public address of the application. Links in emails are built from APP_URL only, never from
+ * request headers, which anyone can forge. It is read when needed, so that servers which send no
+ * links can run without it.
+ */
+export function appUrl(): URL {
+  try {
+    return new URL(process.env.APP_URL ?? "");
+  } catch {
+    throw new AppUrlError();
+  }
+}
+
+/**
+ * Absolute link to a page of the application, for emails
+ */
+export function appLink(pathname: string, params: Record<string, string> = {}): string {
+  const base = appUrl().href;
+  const link = new URL(pathname.replace(/^\//, ""), base.endsWith("/") ? base : `${base}/`);
+  for (const [name, value] of Object.entries(params)) {
+    link.searchParams.set(name, value);
+  }
+  return link.href;
+}
+
+function mailFrom(): string {
+  return process.env.MAIL_FROM || "PharmaDist <no-reply@pharmadist.local>";
+}
+
+/**
+ * Sends mail through an SMTP server configured with SMTP_HOST, SMTP_PORT, SMTP_SECURE,
+ * SMTP_USER and SMTP_PASSWORD
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: mailFrom(), ...message });
+  }
+}
+
+/**
+ * Writes each message as an .eml file to MAIL_OUTBOX_DIR instead of sending it, for local use
+ */
+export class FileMailTransport implements MailTransport {
+  // Builds the raw message without sending it anywhere
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: mailFrom(), ...message });
+    await mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${Date.now()}-${randomBytes(4).toString("hex")}.eml`);
+    await writeFile(file, info.message as Buffer);
+    console.log(`Mail to ${message.to} written to ${file}`);
+  }
+}
+
+/**
+ * Prints each message to the console, for development
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+function createMailTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+  switch (kind) {
+    case "smtp":
+      return new SmtpMailTransport();
+    case "file":
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+    case "console":
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT ${kind}; use smtp, file or console`);
+  }
+}
+
+let transport: MailTransport | undefined;
+
+/**
+ * Replace the transport used by sendMail, e.g. with another provider
+ */
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+/**
+ * Send a message with the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  transport ??= createMailTransport();
+  await transport.send(message);
+}
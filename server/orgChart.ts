@@ -0,0 +1,114 @@
+import { type Territory, type User } from "@shared/schema";
+import {
+  OrgChartIssue, ReportingRoles, isRoleAbove, roleRank,
+  type OrgChart, type OrgChartIssueType, type OrgChartNode
+} from "@shared/org-chart";
+
+/**
+ * Build the reporting tree of an organization from its members' managerId links.
+ * Managers outside the organization are ignored, so their reports become roots.
+ * A reporting cycle is broken at its lowest user id, which becomes a root.
+ * With a rootUserId, only that user's branch is returned, and only its issues are counted.
+ */
+export function buildOrgChart(
+  organizationId: number,
+  members: User[],
+  territories: Territory[] = [],
+  rootUserId?: number
+): OrgChart {
+  const byId = new Map(members.map((member) => [member.id, member]));
+  const territoryNames = new Map(territories.map((territory) => [territory.id, territory.name]));
+  const issues = new Map<number, OrgChartIssueType[]>();
+
+  const flag = (userId: number, issue: OrgChartIssueType) => {
+    const flagged = issues.get(userId) ?? [];
+    if (!flagged.includes(issue)) {
+      flagged.push(issue);
+    }
+    issues.set(userId, flagged);
+  };
+
+  const managerOf = (member: User): User | undefined =>
+    member.managerId !== null ? byId.get(member.managerId) : undefined;
+
+  // Walk up from every member, marking the users on each reporting cycle
+  const visited = new Map<number, "visiting" | "done">();
+  const cycleBreaks = new Set<number>();
+  for (const member of members) {
+    const path: number[] = [];
+    let current: User | undefined = member;
+    while (current && !visited.has(current.id)) {
+      visited.set(current.id, "visiting");
+      path.push(current.id);
+      current = managerOf(current);
+    }
+    if (current && visited.get(current.id) === "visiting") {
+      const cycle = path.slice(path.indexOf(current.id));
+      cycle.forEach((userId) => flag(userId, OrgChartIssue.CYCLE));
+      cycleBreaks.add(Math.min(...cycle));
+    }
+    path.forEach((userId) => visited.set(userId, "done"));
+  }
+
+  const children = new Map<number, User[]>();
+  const roots: User[] = [];
+  for (const member of members) {
+    const manager = managerOf(member);
+    if (manager && !isRoleAbove(manager.role, member.role)) {
+      flag(member.id, OrgChartIssue.RANK_VIOLATION);
+    }
+
+    if (!manager || cycleBreaks.has(member.id)) {
+      if (!manager && ReportingRoles.includes(member.role)) {
+        flag(member.id, OrgChartIssue.ORPHAN);
+      }
+      roots.push(member);
+    } else {
+      children.set(manager.id, [...(children.get(manager.id) ?? []), member]);
+    }
+  }
+
+  // Most senior first, then alphabetically
+  const bySeniority = (a: User, b: User) =>
+    roleRank(a.role) - roleRank(b.role) || a.fullName.localeCompare(b.fullName);
+
+  const toNode = (member: User): OrgChartNode => ({
+    id: member.id,
+    username: member.username,
+    fullName: member.fullName,
+    role: member.role,
+    status: member.status,
+    managerId: member.managerId,
+    region: member.region,
+    state: member.state,
+    city: member.city,
+    territoryName: member.territoryId !== null ? territoryNames.get(member.territoryId) ?? null : null,
+    issues: issues.get(member.id) ?? [],
+    children: (children.get(member.id) ?? []).sort(bySeniority).map(toNode),
+  });
+
+  const root = rootUserId !== undefined ? byId.get(rootUserId) : undefined;
+  const nodes = rootUserId !== undefined
+    ? (root ? [toNode(root)] : [])
+    : roots.sort(bySeniority).map(toNode);
+
+  const flagged: OrgChartIssueType[][] = [];
+  const collect = (node: OrgChartNode) => {
+    flagged.push(node.issues);
+    node.children.forEach(collect);
+  };
+  nodes.forEach(collect);
+
+  const issueCounts = Object.fromEntries(
+    Object.values(OrgChartIssue).map((issue) => [
+      issue,
+      flagged.filter((memberIssues) => memberIssues.includes(issue)).length,
+    ])
+  ) as Record<OrgChartIssueType, number>;
+
+  return {
+    organizationId,
+    roots: nodes,
+    issueCounts,
+  };
+}
@@ -0,0 +1,77 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: { N: number; r: number; p: number; maxmem: number },
+) => Promise<Buffer>;
+
+// Stored hashes look like scrypt$<N>$<r>$<p>$<salt hex>$<hash hex>
+const ALGORITHM = "scrypt";
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELISM = 1;
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+// Unsalted SHA-256 hex digests written before scrypt was introduced
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+function derive(password: string, salt: Buffer, N: number, r: number, p: number, keylen: number): Promise<Buffer> {
+  // scrypt needs 128 * N * r bytes; leave headroom above Node's 32 MiB default
+  const maxmem = 256 * N * r;
+  return scryptAsync(password, salt, keylen, { N, r, p, maxmem });
+}
+
+/**
+ * Hash a password with scrypt and a random per-password salt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await derive(password, salt, COST, BLOCK_SIZE, PARALLELISM, KEY_LENGTH);
+  return [ALGORITHM, COST, BLOCK_SIZE, PARALLELISM, salt.toString("hex"), hash.toString("hex")].join("$");
+}
+
+/**
+ * Check a password against a stored hash.
+ * Accepts both scrypt hashes and legacy unsalted SHA-256 hashes.
+ */
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<boolean> {
+  if (typeof password !== "string" || typeof stored !== "string") {
+    return false;
+  }
+
+  if (isLegacyHash(stored)) {
+    const candidate = createHash("sha256").update(password).digest();
+    return timingSafeEqual(candidate, Buffer.from(stored, "hex"));
+  }
+
+  const [algorithm, N, r, p, saltHex, hashHex] = stored.split("$");
+  if (algorithm !== ALGORITHM || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const candidate = await derive(password, Buffer.from(saltHex, "hex"), Number(N), Number(r), Number(p), expected.length);
+  return timingSafeEqual(candidate, expected);
+}
+
+/**
+ * Check whether a stored hash is a legacy unsalted SHA-256 hash
+ */
+function isLegacyHash(stored: string): boolean {
+  return LEGACY_SHA256_PATTERN.test(stored);
+}
+
+/**
+ * Check whether a stored hash should be replaced with one using the current parameters
+ */
+export function needsRehash(stored: string): boolean {
+  const [algorithm, N, r, p] = stored.split("$");
+  return algorithm !== ALGORITHM
+    || Number(N) !== COST
+    || Number(r) !== BLOCK_SIZE
+    || Number(p) !== PARALLELISM;
+}
@@ -0,0 +1,115 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request } from "express";
+import { AuditEntity, UserStatus, type User, type PasswordReset } from "@shared/schema";
+import { storage } from "./storage";
+import { appLink, sendMail } from "./mail";
+import { auditEvent } from "./audit";
+import { RateLimiter } from "./rateLimit";
+
+// How long a reset link can be used after it was requested
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// Forgot-password requests from one IP address, and reset links sent for one account
+export const forgotPasswordIpLimiter = new RateLimiter(10, 15 * 60 * 1000);
+export const forgotPasswordAccountLimiter = new RateLimiter(3, 60 * 60 * 1000);
+// Attempts to use a reset token from one IP address
+export const resetPasswordIpLimiter = new RateLimiter(20, 15 * 60 * 1000);
+
+export type IssuedPasswordResetToken = {
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+};
+
+export type PasswordResetLookup =
+  | { reset: PasswordReset; user: User }
+  | { error: string };
+
+/**
+ * SHA-256 of a token, the only form in which tokens are stored
+ */
+export function hashPasswordResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create the random token of a reset link
+ */
+export function issuePasswordResetToken(now = new Date()): IssuedPasswordResetToken {
+  const token = randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashPasswordResetToken(token),
+    expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MS),
+  };
+}
+
+/**
+ * Find the unused, unexpired reset a token belongs to, for a user who may still sign in
+ */
+export async function findPasswordReset(token: string): Promise<PasswordResetLookup> {
+  const reset = await storage.getPasswordResetByTokenHash(hashPasswordResetToken(token));
+  const user = reset ? await storage.getUser(reset.userId) : undefined;
+  if (!reset || !user || user.status !== UserStatus.ACTIVE) {
+    return { error: "This reset link is invalid or has expired. Request a new one." };
+  }
+  return { reset, user };
+}
+
+/**
+ * Email a reset link to a user; returns whether the message could be sent
+ */
+export async function sendPasswordReset(
+  user: User,
+  { token, expiresAt }: IssuedPasswordResetToken
+): Promise<boolean> {
+  const link = appLink("/reset-password", { token });
+  try {
+    await sendMail({
+      to: user.email,
+      subject: "Reset your PharmaDist password",
+      text: [
+        `Hello ${user.fullName},`,
+        "",
+        `Someone asked to reset the password of your PharmaDist account ${user.username}.`,
+        "Choose a new password here:",
+        "",
+        link,
+        "",
+        `The link can be used once and expires on ${expiresAt.toUTCString()}.`,
+        "If you did not ask for this, ignore this email; your password stays the same.",
+      ].join("\n"),
+    });
+    return true;
+  } catch (error) {
+    console.error(`Failed to send the password reset of user ${user.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Create a reset for a user who asked for one, record the request and email them the link.
+ * Never rejects: failures are logged, so callers can leave it running without awaiting it.
+ */
+export async function startPasswordReset(req: Request, user: User): Promise<void> {
+  // Built before the first await, while the request is still being handled
+  const issued = issuePasswordResetToken();
+  const activity = auditEvent(req, {
+    actorId: user.id,
+    action: "REQUEST_PASSWORD_RESET",
+    description: `A password reset was requested for user ${user.username}`,
+    entityType: AuditEntity.USER,
+    entityId: user.id,
+  });
+  const requestIp = req.ip ?? null;
+
+  try {
+    await storage.createPasswordReset(
+      { userId: user.id, tokenHash: issued.tokenHash, expiresAt: issued.expiresAt, requestIp },
+      activity
+    );
+    await sendPasswordReset(user, issued);
+  } catch (error) {
+    console.error(`Failed to start the password reset of user ${user.id}:`, error);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Counts attempts per key (an IP address, an account, ...) in a sliding window, in memory.
+ * Each server process keeps its own counts, which are lost on restart.
+ */
+export class RateLimiter {
+  private attempts = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  /**
+   * Record an attempt for a key; returns false when the key already used up its attempts
+   * in the window, in which case the attempt is not counted
+   */
+  attempt(key: string, now = Date.now()): boolean {
+    const recent = (this.attempts.get(key) ?? []).filter(time => time > now - this.windowMs);
+    if (recent.length >= this.limit) {
+      this.attempts.set(key, recent);
+      return false;
+    }
+
+    recent.push(now);
+    this.attempts.set(key, recent);
+    this.prune(now);
+    return true;
+  }
+
+  // Forget keys without recent attempts once many have piled up
+  private prune(now: number) {
+    if (this.attempts.size < 10000) {
+      return;
+    }
+    this.attempts.forEach((times, key) => {
+      if (times[times.length - 1] <= now - this.windowMs) {
+        this.attempts.delete(key);
+      }
+    });
+  }
+}
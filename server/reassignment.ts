@@ -0,0 +1,115 @@
+import { type User } from "@shared/schema";
+import { getManagerPairingError, type ReassignmentPreview, type ReassignmentUser } from "@shared/org-chart";
+import { storage } from "./storage";
+import { canUpdateUser } from "./authorization";
+
+function summarize(user: User): ReassignmentUser {
+  return { id: user.id, fullName: user.fullName, role: user.role };
+}
+
+/**
+ * Collect everyone below a user in the managerId chain
+ */
+async function getReports(userId: number): Promise<User[]> {
+  const reports: User[] = [];
+  const visited = new Set<number>([userId]);
+  const queue = [userId];
+
+  while (queue.length > 0) {
+    const direct = await storage.getUsersByManager(queue.shift()!);
+    for (const report of direct) {
+      if (!visited.has(report.id)) {
+        visited.add(report.id);
+        reports.push(report);
+        queue.push(report.id);
+      }
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Work out what moving the given users under a new manager would change,
+ * and which hierarchy rules or permissions the move would break.
+ * Users who already report to the manager are left out of the changes.
+ */
+export async function planReassignment(actor: User, userIds: number[], managerId: number): Promise<ReassignmentPreview> {
+  const preview: ReassignmentPreview = { manager: null, changes: [], carried: [], violations: [] };
+
+  const manager = await storage.getUser(managerId);
+  if (!manager) {
+    preview.violations.push({ userId: null, message: "The new manager does not exist" });
+    return preview;
+  }
+  preview.manager = summarize(manager);
+
+  const movedIds = new Set(userIds);
+  const carriedIds = new Set<number>();
+
+  for (const userId of Array.from(movedIds)) {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      preview.violations.push({ userId, message: `User ${userId} does not exist` });
+      continue;
+    }
+    if (user.managerId === manager.id) {
+      continue;
+    }
+
+    const fromManager = user.managerId !== null ? await storage.getUser(user.managerId) : undefined;
+    preview.changes.push({ ...summarize(user), fromManager: fromManager ? summarize(fromManager) : null });
+
+    const reports = await getReports(user.id);
+    for (const report of reports) {
+      if (!movedIds.has(report.id) && !carriedIds.has(report.id)) {
+        carriedIds.add(report.id);
+        preview.carried.push(summarize(report));
+      }
+    }
+
+    if (user.id === manager.id) {
+      preview.violations.push({ userId: user.id, message: `${user.fullName} cannot report to themselves` });
+    } else if (reports.some(report => report.id === manager.id)) {
+      preview.violations.push({
+        userId: user.id,
+        message: `${user.fullName} cannot report to ${manager.fullName}, who reports to them`,
+      });
+    }
+
+    const pairingError = getManagerPairingError(user, manager);
+    if (pairingError) {
+      preview.violations.push({ userId: user.id, message: `${user.fullName}: ${pairingError}` });
+    }
+
+    const authorization = await canUpdateUser(actor, user, { managerId: manager.id });
+    if (!authorization.allowed) {
+      preview.violations.push({ userId: user.id, message: authorization.reason });
+    }
+  }
+
+  return preview;
+}
+
+/**
+ * Check a manager chosen for a new or updated user, returning the reason it is invalid or null.
+ * Leaving the manager empty is always allowed; the org chart flags such users as orphans.
+ */
+export async function validateManager(
+  subject: Pick<User, "role" | "organizationId"> & { id?: number },
+  managerId: number | null | undefined
+): Promise<string | null> {
+  if (managerId === null || managerId === undefined) {
+    return null;
+  }
+  if (managerId === subject.id) {
+    return "A user cannot be their own manager";
+  }
+
+  const manager = await storage.getUser(managerId);
+  if (!manager) {
+    return "Manager not found";
+  }
+
+  return getManagerPairingError(subject, manager);
+}
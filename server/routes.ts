@@ -1,33 +1,152 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
+import { canCreateUser, canUpdateUser, canDeleteUser, getVisibilityScope } from "./authorization";
+import { buildOrgChart } from "./orgChart";
+import { planReassignment, validateManager } from "./reassignment";
+import {
+  checkTerritoryParent, hasSiblingNamed, validateTerritoryAssignment, findCoverageOverlaps, findCoveringTerritories
+} from "./territories";
+import { getStates, getCities, lookupPincode, searchLocations } from "./locations";
+import { auditEvent, diffFields, recordAudit } from "./audit";
+import { exportActivities, type ExportCriterion } from "./auditExport";
+import { type ActivityFilters } from "./db/activityService";
+import { planUserImport, readSpreadsheet } from "./userImport";
+import { exportUsers } from "./userExport";
+import { planBulkChange } from "./userBulk";
+import { issueInvitationToken, sendInvitation, type IssuedInvitationToken } from "./invitations";
+import { AppUrlError, appUrl } from "./mail";
 import { z } from "zod";
-import { UserRole, insertUserSchema, insertOrganizationSchema } from "@shared/schema";
+import {
+  UserRole, UserStatus, OrganizationType, DistributorLinkStatus, AuditEntity, AuditExportFormat, UserSortField, SortDirection, MAX_USER_PAGE_SIZE,
+  type User, type InsertUser, type UserRoleType, type PincodeCoverage,
+  insertUserSchema, insertOrganizationSchema, insertDistributorLinkSchema, insertTerritorySchema, PINCODE_PATTERN
+} from "@shared/schema";
+import { can, Permission, type PermissionKey } from "@shared/permissions";
+import { UserImportField } from "@shared/user-import";
+import { UserExportColumn, UserExportFormat } from "@shared/user-export";
+import {
+  BulkUserAction, BulkUserActionLabels, MAX_BULK_USERS, type BulkUserReport, type BulkUserResult
+} from "@shared/user-bulk";
+import { MAX_STATUS_REASON_LENGTH, UserStatusLabels, canChangeStatus, statusChangeLabel } from "@shared/user-lifecycle";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication and authorization
-  const { isAuthenticated, hasRole } = setupAuth(app);
+  const { isAuthenticated, hasPermission } = setupAuth(app);
+
+  // Filters of the user list, shared by the list and its export
+  const userFiltersSchema = z.object({
+    role: z.nativeEnum(UserRole).optional(),
+    organizationId: z.coerce.number().int().optional(),
+    status: z.nativeEnum(UserStatus).optional(),
+    managerId: z.coerce.number().int().optional(),
+    territoryId: z.coerce.number().int().optional(),
+    q: z.string().trim().optional(),
+    // Pending users who were invited, or who registered themselves
+    invited: z.enum(["true", "false"]).optional().transform(value => value === undefined ? undefined : value === "true"),
+  });
+
+  const userListSchema = userFiltersSchema.extend({
+    // Lists deleted users instead, for restoring them
+    deleted: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+    sort: z.nativeEnum(UserSortField).default(UserSortField.FULL_NAME),
+    direction: z.nativeEnum(SortDirection).default(SortDirection.ASC),
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(MAX_USER_PAGE_SIZE).default(25),
+  });
 
   // Users API
-  app.get("/api/users", isAuthenticated, async (req, res) => {
+  app.get("/api/users", hasPermission(Permission.USERS_VIEW), async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      // Remove password hashes from response
-      const safeUsers = users.map(user => {
-        const { password, ...userWithoutPassword } = user;
-        return userWithoutPassword;
-      });
-      res.json(safeUsers);
+      const { sort, direction, page, pageSize, q, ...filters } = userListSchema.parse(req.query);
+      if (filters.deleted && !can(req.user, Permission.USERS_DELETE)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const result = await storage.findUserPage(
+        { ...filters, search: q || undefined },
+        { field: sort, direction },
+        page,
+        pageSize,
+        getVisibilityScope(req.user!)
+      );
+      res.json(result);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch users" });
     }
   });
 
-  app.get("/api/users/:id", isAuthenticated, async (req, res) => {
+  const userExportSchema = userFiltersSchema.extend({
+    format: z.nativeEnum(UserExportFormat),
+    // One or more comma-separated columns, in the order they should appear
+    columns: z.string()
+      .transform(value => value.split(",").filter(Boolean))
+      .pipe(z.array(z.nativeEnum(UserExportColumn)).min(1)),
+  });
+
+  app.get("/api/users/export", hasPermission(Permission.USERS_VIEW), async (req, res) => {
+    try {
+      const { format, columns, q, ...filters } = userExportSchema.parse(req.query);
+      const users = await storage.findUsers({ ...filters, search: q || undefined }, getVisibilityScope(req.user!));
+
+      await exportUsers(res, format, Array.from(new Set(columns)), users, new Date());
+
+      const organization = filters.organizationId !== undefined ? await storage.getOrganization(filters.organizationId) : undefined;
+      const manager = filters.managerId !== undefined ? await storage.getUser(filters.managerId) : undefined;
+      const territory = filters.territoryId !== undefined ? await storage.getTerritory(filters.territoryId) : undefined;
+      const criteria = [
+        filters.role && `role ${filters.role}`,
+        filters.organizationId !== undefined && `organization ${organization?.name ?? filters.organizationId}`,
+        filters.status && `status ${filters.status}`,
+        filters.managerId !== undefined && `manager ${manager?.username ?? filters.managerId}`,
+        filters.territoryId !== undefined && `territory ${territory?.name ?? filters.territoryId}`,
+        q && `search "${q}"`,
+      ].filter(Boolean);
+      await recordAudit(req, {
+        action: "EXPORT_USERS",
+        description: `User ${req.user!.username} exported ${users.length} users as ${format.toUpperCase()}` +
+          (criteria.length > 0 ? ` (${criteria.join(", ")})` : ""),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export request", errors: error.errors });
+      }
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ message: "Failed to export users" });
+    }
+  });
+
+  app.get("/api/users/eligible-managers", hasPermission(Permission.USERS_VIEW), async (req, res) => {
+    try {
+      const { role, organizationId } = z.object({
+        role: z.nativeEnum(UserRole),
+        organizationId: z.coerce.number().int(),
+      }).parse(req.query);
+
+      if (!can(req.user, Permission.USERS_VIEW, { organizationId })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const managers = await storage.getEligibleManagers(role, organizationId);
+      res.json(managers.map(({ password, ...managerWithoutPassword }) => managerWithoutPassword));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid manager filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch eligible managers" });
+    }
+  });
+
+  app.get("/api/users/:id", hasPermission(Permission.USERS_VIEW), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
-      const user = await storage.getUser(userId);
+      // Users outside the caller's scope are reported as missing, like in the list
+      const user = await storage.getUser(userId, { scope: getVisibilityScope(req.user!) });
       
       if (!user) {
         return res.status(404).json({ message: "User not found" });
@@ -40,20 +159,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users", isAuthenticated, async (req, res) => {
+  /**
+   * Checks shared by creating and inviting a user, returning the error to respond with when one fails
+   */
+  async function checkNewUser(
+    actor: User,
+    data: Omit<InsertUser, "password">
+  ): Promise<{ status: number; message: string } | null> {
+    // Check the caller may create a user with this role and placement
+    const permission = await canCreateUser(actor, data as InsertUser);
+    if (!permission.allowed) {
+      return { status: 403, message: permission.reason };
+    }
+    
+    // Check the chosen manager may manage this role
+    const managerError = await validateManager({
+      role: data.role as UserRoleType,
+      organizationId: data.organizationId ?? null,
+    }, data.managerId);
+    if (managerError) {
+      return { status: 400, message: managerError };
+    }
+    
+    const territoryError = await validateTerritoryAssignment(data.organizationId ?? null, data.territoryId);
+    if (territoryError) {
+      return { status: 400, message: territoryError };
+    }
+    
+    // Check if user with this username or email already exists
+    // Deleted users keep their username and email until they are purged
+    if (await storage.getUserByUsername(data.username, { includeDeleted: true })) {
+      return { status: 400, message: "Username already exists" };
+    }
+    if (await storage.getUserByEmail(data.email, { includeDeleted: true })) {
+      return { status: 400, message: "Email already exists" };
+    }
+    
+    return null;
+  }
+
+  app.post("/api/users", hasPermission(Permission.USERS_CREATE), async (req, res) => {
     try {
       // Validate request body
       const validatedData = insertUserSchema.parse(req.body);
       
-      // Check if user with this username or email already exists
-      const existingUsername = await storage.getUserByUsername(validatedData.username);
-      if (existingUsername) {
-        return res.status(400).json({ message: "Username already exists" });
-      }
-      
-      const existingEmail = (await storage.getAllUsers()).find(u => u.email === validatedData.email);
-      if (existingEmail) {
-        return res.status(400).json({ message: "Email already exists" });
+      const rejection = await checkNewUser(req.user!, validatedData);
+      if (rejection) {
+        return res.status(rejection.status).json({ message: rejection.message });
       }
       
       // Create user
@@ -63,10 +215,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       // Log activity
-      await storage.createActivity({
-        userId: (req.user as any).id,
+      await recordAudit(req, {
         action: "CREATE_USER",
-        description: `User ${(req.user as any).username} created a new user ${newUser.username} with role ${newUser.role}`
+        description: `User ${req.user!.username} created a new user ${newUser.username} with role ${newUser.role}`,
+        entityType: AuditEntity.USER,
+        entityId: newUser.id,
+        changes: diffFields(null, newUser),
       });
       
       const { password, ...userWithoutPassword } = newUser;
@@ -79,29 +233,223 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/users/:id", isAuthenticated, async (req, res) => {
+  // Invite a user by email: they are created PENDING and choose their password from a one-time link
+  const inviteUserSchema = insertUserSchema.omit({ password: true, status: true });
+
+  app.post("/api/users/invite", hasPermission(Permission.USERS_CREATE), async (req, res) => {
+    try {
+      // Fail before creating the user when the invitation link cannot be built
+      appUrl();
+      const validatedData = inviteUserSchema.parse(req.body);
+      
+      const rejection = await checkNewUser(req.user!, validatedData);
+      if (rejection) {
+        return res.status(rejection.status).json({ message: rejection.message });
+      }
+      
+      let issued: IssuedInvitationToken | undefined;
+      const { user } = await storage.inviteUser(
+        validatedData,
+        user => {
+          issued = issueInvitationToken(user.id);
+          return { userId: user.id, invitedBy: req.user!.id, tokenHash: issued.tokenHash, expiresAt: issued.expiresAt };
+        },
+        user => auditEvent(req, {
+          action: "INVITE_USER",
+          description: `User ${req.user!.username} invited ${user.username} (${user.email}) with role ${user.role}`,
+          entityType: AuditEntity.USER,
+          entityId: user.id,
+          changes: diffFields(null, user),
+        })
+      );
+      
+      // The invitation stays open when the email fails, so it can be resent
+      const delivered = await sendInvitation(user, issued!, req.user!.fullName);
+      
+      const { password, ...userWithoutPassword } = user;
+      res.status(201).json({ ...userWithoutPassword, delivered });
+    } catch (error) {
+      if (error instanceof AppUrlError) {
+        return res.status(503).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to invite user" });
+    }
+  });
+
+  // Send a new invitation link; links sent before stop working
+  app.post("/api/users/:id/invitation/resend", hasPermission(Permission.USERS_CREATE), async (req, res) => {
+    try {
+      appUrl();
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      const invitation = user ? await storage.getOpenInvitation(user.id) : undefined;
+      
+      if (!user || !invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const permission = await canUpdateUser(req.user!, user, {});
+      if (!permission.allowed) {
+        return res.status(403).json({ message: permission.reason });
+      }
+      
+      const issued = issueInvitationToken(user.id);
+      const renewed = await storage.renewInvitation(invitation.id, issued.tokenHash, issued.expiresAt);
+      if (!renewed) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const delivered = await sendInvitation(user, issued, req.user!.fullName);
+      if (!delivered) {
+        return res.status(502).json({ message: "The invitation email could not be sent" });
+      }
+      
+      await recordAudit(req, {
+        action: "RESEND_INVITATION",
+        description: `User ${req.user!.username} resent the invitation of ${user.username} to ${user.email}`,
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+      });
+      
+      res.json({ expiresAt: renewed.expiresAt, sendCount: renewed.sendCount });
+    } catch (error) {
+      if (error instanceof AppUrlError) {
+        return res.status(503).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to resend invitation" });
+    }
+  });
+
+  // Revoking an invitation makes its links unusable and offboards the invited user
+  app.delete("/api/users/:id/invitation", hasPermission(Permission.USERS_CREATE), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      const invitation = user ? await storage.getOpenInvitation(user.id) : undefined;
+      
+      if (!user || !invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const permission = await canUpdateUser(req.user!, user, { status: UserStatus.INACTIVE });
+      if (!permission.allowed) {
+        return res.status(403).json({ message: permission.reason });
+      }
+      
+      const revokedUser = await storage.revokeInvitation(invitation.id, revoked => auditEvent(req, {
+        action: "REVOKE_INVITATION",
+        description: `User ${req.user!.username} revoked the invitation of ${user.username}`,
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+        changes: diffFields(user, revoked),
+      }));
+      
+      if (!revokedUser) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const { password, ...userWithoutPassword } = revokedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // Fields an editor may change. The username is fixed, passwords change through
+  // POST /api/user/password or a forced reset, and audit and lifecycle fields are set by the server.
+  // The status is accepted only to reject changes to it below.
+  const userUpdateSchema = insertUserSchema.pick({
+    fullName: true,
+    email: true,
+    role: true,
+    status: true,
+    organizationId: true,
+    region: true,
+    territoryId: true,
+    state: true,
+    city: true,
+    pincode: true,
+    address: true,
+    managerId: true,
+  }).partial();
+
+  app.put("/api/users/:id", hasPermission(Permission.USERS_EDIT), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
+      const changes = userUpdateSchema.parse(req.body);
       const user = await storage.getUser(userId);
       
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Update user
-      const updatedUser = await storage.updateUser(userId, req.body);
+      // The edit form sends an empty password when none was entered
+      if (req.body.password) {
+        return res.status(400).json({
+          message: user.id === req.user!.id
+            ? "Change your own password from your account, giving your current password"
+            : "Passwords cannot be set by editing a user; force a password reset instead"
+        });
+      }
       
-      // Log activity
-      await storage.createActivity({
-        userId: (req.user as any).id,
-        action: "UPDATE_USER",
-        description: `User ${(req.user as any).username} updated user ${user.username}`
-      });
+      // Status changes follow the lifecycle and need a reason, see POST /api/users/:id/status
+      if (changes.status !== undefined && changes.status !== user.status) {
+        return res.status(400).json({ message: "Change the status of a user with a status action and a reason" });
+      }
+      
+      // Check the caller may make these changes to this user
+      const permission = await canUpdateUser(req.user!, user, changes);
+      if (!permission.allowed) {
+        return res.status(403).json({ message: permission.reason });
+      }
+      
+      // Re-check the manager whenever the role, organization or manager changes
+      const placement = {
+        id: user.id,
+        role: (changes.role ?? user.role) as UserRoleType,
+        organizationId: changes.organizationId !== undefined ? changes.organizationId : user.organizationId,
+        managerId: changes.managerId !== undefined ? changes.managerId : user.managerId,
+      };
+      if (
+        placement.role !== user.role ||
+        placement.organizationId !== user.organizationId ||
+        placement.managerId !== user.managerId
+      ) {
+        const managerError = await validateManager(placement, placement.managerId);
+        if (managerError) {
+          return res.status(400).json({ message: managerError });
+        }
+      }
+      
+      const territoryId = changes.territoryId !== undefined ? changes.territoryId : user.territoryId;
+      if (placement.organizationId !== user.organizationId || territoryId !== user.territoryId) {
+        const territoryError = await validateTerritoryAssignment(placement.organizationId, territoryId);
+        if (territoryError) {
+          return res.status(400).json({ message: territoryError });
+        }
+      }
+      
+      // Update user
+      const updatedUser = await storage.updateUser(userId, changes);
       
       if (!updatedUser) {
         return res.status(500).json({ message: "Failed to update user" });
       }
       
+      // Log activity with exactly the fields that changed
+      const changed = diffFields(user, updatedUser);
+      await recordAudit(req, {
+        action: "UPDATE_USER",
+        description: `User ${req.user!.username} updated user ${user.username}` +
+          (changed ? ` (${Object.keys(changed).join(", ")})` : ""),
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+        changes: changed,
+      });
+      
       const { password, ...userWithoutPassword } = updatedUser;
       res.json(userWithoutPassword);
     } catch (error) {
@@ -112,9 +460,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/users/:id", isAuthenticated, async (req, res) => {
+  // Move a user along the lifecycle, e.g. approve a pending account or suspend an active one
+  const statusChangeSchema = z.object({
+    status: z.nativeEnum(UserStatus),
+    reason: z.string().trim().min(1, "A reason is required").max(MAX_STATUS_REASON_LENGTH),
+  });
+
+  app.post("/api/users/:id/status", hasPermission(Permission.USERS_EDIT), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { status, reason } = statusChangeSchema.parse(req.body);
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot change the status of your own account" });
+      }
+      if (!canChangeStatus(user.status, status)) {
+        return res.status(409).json({
+          message: `A ${UserStatusLabels[user.status].toLowerCase()} user cannot become ${UserStatusLabels[status].toLowerCase()}`
+        });
+      }
+      
+      // Approving is up to the would-be manager or anyone else who may edit the user
+      const permission = await canUpdateUser(req.user!, user, { status });
+      if (!permission.allowed) {
+        return res.status(403).json({ message: permission.reason });
+      }
+      
+      const updatedUser = await storage.updateUser(userId, { status, statusReason: reason, statusChangedAt: new Date() });
+      
+      if (!updatedUser) {
+        return res.status(500).json({ message: "Failed to change user status" });
+      }
+      
+      await recordAudit(req, {
+        action: "CHANGE_USER_STATUS",
+        description: `User ${req.user!.username} changed user ${user.username} from ` +
+          `${UserStatusLabels[user.status]} to ${UserStatusLabels[status]} ` +
+          `(${statusChangeLabel(user.status, status)}): ${reason}`,
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+        changes: diffFields(user, updatedUser),
+      });
+      
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status change", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to change user status" });
+    }
+  });
+
+  // Deleting is a soft delete; a manager's direct reports move to the successor given as ?successorId=
+  app.delete("/api/users/:id", hasPermission(Permission.USERS_DELETE), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
+      const { successorId } = z.object({ successorId: z.coerce.number().int().optional() }).parse(req.query);
       const user = await storage.getUser(userId);
       
       if (!user) {
@@ -122,40 +528,395 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Can't delete yourself
-      if (user.id === (req.user as any).id) {
+      if (user.id === req.user!.id) {
         return res.status(400).json({ message: "Cannot delete your own account" });
       }
       
-      const success = await storage.deleteUser(userId);
+      // Check the caller may delete this user
+      const permission = await canDeleteUser(req.user!, user);
+      if (!permission.allowed) {
+        return res.status(403).json({ message: permission.reason });
+      }
       
-      if (!success) {
-        return res.status(500).json({ message: "Failed to delete user" });
+      // Direct reports need a new manager before their manager can go
+      const reports = await storage.getUsersByManager(user.id);
+      let successorName: string | null = null;
+      if (reports.length > 0) {
+        if (successorId === undefined) {
+          return res.status(409).json({
+            message: `${user.fullName} has ${reports.length} direct report(s). Choose a successor for them.`,
+            reportCount: reports.length,
+          });
+        }
+        if (successorId === user.id) {
+          return res.status(400).json({ message: "A user cannot be their own successor" });
+        }
+        const preview = await planReassignment(req.user!, reports.map(report => report.id), successorId);
+        if (preview.violations.length > 0) {
+          return res.status(409).json({
+            message: preview.violations.map(violation => violation.message).join("; "),
+            preview,
+          });
+        }
+        successorName = preview.manager!.fullName;
       }
       
-      // Log activity
-      await storage.createActivity({
-        userId: (req.user as any).id,
-        action: "DELETE_USER",
-        description: `User ${(req.user as any).username} deleted user ${user.username}`
-      });
+      const deletedUser = await storage.deleteUser(
+        user.id,
+        req.user!.id,
+        reports.length > 0 ? successorId! : null,
+        (deleted, movedReports) => auditEvent(req, {
+          action: "DELETE_USER",
+          description: `User ${req.user!.username} deleted user ${user.username}` +
+            (movedReports.length > 0 ? ` and moved ${movedReports.length} direct report(s) to ${successorName}` : ""),
+          entityType: AuditEntity.USER,
+          entityId: user.id,
+          changes: {
+            ...diffFields(user, deleted),
+            // One managerId change per moved report, keyed by user id
+            ...Object.fromEntries(movedReports.map(report => [
+              `${report.id}.managerId`,
+              { old: user.id, new: report.managerId },
+            ])),
+          },
+        })
+      );
+      
+      if (!deletedUser) {
+        return res.status(500).json({ message: "Failed to delete user" });
+      }
       
       res.status(200).json({ message: "User deleted successfully" });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid successor", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to delete user" });
     }
   });
 
+  app.post("/api/users/:id/restore", hasPermission(Permission.USERS_DELETE), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId, { includeDeleted: true });
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.deletedAt === null) {
+        return res.status(400).json({ message: "User is not deleted" });
+      }
+      
+      const permission = await canDeleteUser(req.user!, user);
+      if (!permission.allowed) {
+        return res.status(403).json({ message: permission.reason });
+      }
+
+      // The user's organization may have been deleted after them
+      if (user.organizationId && !(await storage.getOrganization(user.organizationId))) {
+        return res.status(409).json({ message: "Restore the user's organization before restoring them" });
+      }
+
+      const restoredUser = await storage.restoreUser(user.id, restored => auditEvent(req, {
+        action: "RESTORE_USER",
+        description: `User ${req.user!.username} restored user ${user.username}`,
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+        changes: diffFields(user, restored),
+      }));
+      
+      if (!restoredUser) {
+        return res.status(500).json({ message: "Failed to restore user" });
+      }
+      
+      const { password, ...userWithoutPassword } = restoredUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore user" });
+    }
+  });
+
+  // Purging removes a deleted user for good; only super admins may do it
+  app.delete("/api/users/:id/purge", hasPermission(Permission.USERS_DELETE), async (req, res) => {
+    try {
+      if (req.user!.role !== UserRole.SUPER_ADMIN) {
+        return res.status(403).json({ message: "Only a super admin can purge users" });
+      }
+      
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId, { includeDeleted: true });
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.deletedAt === null) {
+        return res.status(409).json({ message: "Delete the user before purging them" });
+      }
+      
+      const purged = await storage.purgeUser(user.id, auditEvent(req, {
+        action: "PURGE_USER",
+        description: `User ${req.user!.username} permanently purged user ${user.username}`,
+        entityType: AuditEntity.USER,
+        entityId: user.id,
+        changes: diffFields(user, null),
+      }));
+      
+      if (!purged) {
+        return res.status(500).json({ message: "Failed to purge user" });
+      }
+      
+      res.status(200).json({ message: "User purged successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to purge user" });
+    }
+  });
+
+  // Reporting line reassignment API
+  const reassignmentSchema = z.object({
+    userIds: z.array(z.number().int()).min(1),
+    managerId: z.number().int(),
+  });
+
+  app.post("/api/users/reassign/preview", hasPermission(Permission.USERS_EDIT), async (req, res) => {
+    try {
+      const { userIds, managerId } = reassignmentSchema.parse(req.body);
+      res.json(await planReassignment(req.user!, userIds, managerId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reassignment data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to preview reassignment" });
+    }
+  });
+
+  app.post("/api/users/reassign", hasPermission(Permission.USERS_EDIT), async (req, res) => {
+    try {
+      const { userIds, managerId } = reassignmentSchema.parse(req.body);
+      const preview = await planReassignment(req.user!, userIds, managerId);
+
+      if (preview.violations.length > 0) {
+        return res.status(409).json({
+          message: preview.violations.map(violation => violation.message).join("; "),
+          preview,
+        });
+      }
+
+      if (!preview.manager || preview.changes.length === 0) {
+        return res.status(400).json({ message: "No reporting lines would change" });
+      }
+
+      // Apply every managerId change and log a single grouped activity
+      const reassigned = await storage.reassignUsers(
+        preview.changes.map(change => change.id),
+        preview.manager.id,
+        auditEvent(req, {
+          action: "REASSIGN_USERS",
+          description: `User ${req.user!.username} moved ${preview.changes.map(change => change.fullName).join(", ")} under ${preview.manager.fullName}`,
+          entityType: AuditEntity.USER,
+          entityId: preview.manager.id,
+          // One managerId change per moved user, keyed by user id
+          changes: Object.fromEntries(preview.changes.map(change => [
+            `${change.id}.managerId`,
+            { old: change.fromManager?.id ?? null, new: preview.manager!.id },
+          ])),
+        })
+      );
+
+      res.json(reassigned.map(({ password, ...userWithoutPassword }) => userWithoutPassword));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reassignment data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reassign users" });
+    }
+  });
+
+  // Bulk actions on selected users, checked and logged user by user
+  const bulkUserSchema = z.object({
+    action: z.nativeEnum(BulkUserAction),
+    userIds: z.array(z.number().int()).min(1).max(MAX_BULK_USERS),
+    organizationId: z.number().int().optional(),
+    managerId: z.number().int().nullable().optional(),
+    territoryId: z.number().int().nullable().optional(),
+    // Why the status changes, for activate and deactivate
+    reason: z.string().trim().min(1).max(MAX_STATUS_REASON_LENGTH).optional(),
+  }).superRefine((data, ctx) => {
+    const required = {
+      [BulkUserAction.ACTIVATE]: "reason",
+      [BulkUserAction.DEACTIVATE]: "reason",
+      [BulkUserAction.CHANGE_ORGANIZATION]: "organizationId",
+      [BulkUserAction.REASSIGN_MANAGER]: "managerId",
+      [BulkUserAction.MOVE_TERRITORY]: "territoryId",
+    } as const;
+    const field = required[data.action as keyof typeof required];
+    if (field && data[field] === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} is required for this action` });
+    }
+  });
+
+  app.post("/api/users/bulk", hasPermission(Permission.USERS_EDIT), async (req, res) => {
+    try {
+      const request = bulkUserSchema.parse(req.body);
+      if (request.action === BulkUserAction.DELETE && !can(req.user, Permission.USERS_DELETE)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (
+        request.action === BulkUserAction.CHANGE_ORGANIZATION &&
+        !(await storage.getOrganization(request.organizationId!))
+      ) {
+        return res.status(400).json({ message: "Organization not found" });
+      }
+
+      const label = BulkUserActionLabels[request.action].toLowerCase();
+      const results: BulkUserResult[] = [];
+      for (const userId of Array.from(new Set(request.userIds))) {
+        const user = await storage.getUser(userId);
+        if (!user) {
+          results.push({ userId, username: null, success: false, error: "User not found" });
+          continue;
+        }
+
+        // One failing user does not stop the others
+        try {
+          const change = await planBulkChange(req.user!, user, request);
+          if (change.kind === "rejected") {
+            results.push({ userId, username: user.username, success: false, error: change.reason });
+          } else if (change.kind === "unchanged") {
+            results.push({ userId, username: user.username, success: true, unchanged: true });
+          } else if (change.kind === "delete") {
+            const deletedUser = await storage.deleteUser(user.id, req.user!.id, null, deleted => auditEvent(req, {
+              action: "DELETE_USER",
+              description: `User ${req.user!.username} deleted user ${user.username} in a bulk action`,
+              entityType: AuditEntity.USER,
+              entityId: user.id,
+              changes: diffFields(user, deleted),
+            }));
+            if (!deletedUser) {
+              throw new Error(`User ${user.id} could not be deleted`);
+            }
+            results.push({ userId, username: user.username, success: true });
+          } else {
+            const updatedUser = await storage.updateUser(user.id, change.changes, updated => auditEvent(req, {
+              action: "UPDATE_USER",
+              description: `User ${req.user!.username} updated user ${user.username} in a bulk ${label}`,
+              entityType: AuditEntity.USER,
+              entityId: user.id,
+              changes: diffFields(user, updated),
+            }));
+            if (!updatedUser) {
+              throw new Error(`User ${user.id} could not be updated`);
+            }
+            results.push({ userId, username: user.username, success: true });
+          }
+        } catch (error) {
+          console.error(`Bulk ${request.action} failed for user ${userId}:`, error);
+          results.push({ userId, username: user.username, success: false, error: `Failed to ${label} user` });
+        }
+      }
+
+      const report: BulkUserReport = {
+        action: request.action,
+        results,
+        succeededCount: results.filter(result => result.success).length,
+        failedCount: results.filter(result => !result.success).length,
+      };
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bulk action", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to apply bulk action" });
+    }
+  });
+
+  // Bulk import: the file is the raw request body; the dry run validates every row without saving
+  const userImportQuerySchema = z.object({
+    dryRun: z.enum(["true", "false"]).default("true").transform(value => value === "true"),
+    // Column header → field, overriding the headers recognized automatically
+    mapping: z.string().optional().transform((value, ctx) => {
+      if (!value) return undefined;
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Mapping must be JSON" });
+        return z.NEVER;
+      }
+    }).pipe(z.record(z.nativeEnum(UserImportField).nullable()).optional()),
+  });
+
+  app.post(
+    "/api/users/import",
+    hasPermission(Permission.USERS_CREATE),
+    express.raw({ type: () => true, limit: "5mb" }),
+    async (req, res) => {
+      try {
+        const { dryRun, mapping } = userImportQuerySchema.parse(req.query);
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload a CSV or XLSX file" });
+        }
+
+        let sheet;
+        try {
+          sheet = await readSpreadsheet(req.body);
+        } catch (error) {
+          return res.status(400).json({ message: "The file could not be read as CSV or XLSX" });
+        }
+
+        const { report, entries } = await planUserImport(req.user!, sheet, mapping);
+        report.dryRun = dryRun;
+        if (dryRun || entries.length === 0) {
+          return res.json(report);
+        }
+
+        // Create every valid row at once, with the usual audit entry for each user
+        const created = await storage.importUsers(entries, user => auditEvent(req, {
+          action: "CREATE_USER",
+          description: `User ${req.user!.username} imported a new user ${user.username} with role ${user.role}`,
+          entityType: AuditEntity.USER,
+          entityId: user.id,
+          changes: diffFields(null, user),
+        }));
+        report.createdCount = created.length;
+
+        await recordAudit(req, {
+          action: "IMPORT_USERS",
+          description: `User ${req.user!.username} imported ${created.length} users` +
+            (report.invalidCount > 0 ? `, skipping ${report.invalidCount} rows with errors` : ""),
+        });
+
+        res.status(201).json(report);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid import request", errors: error.errors });
+        }
+        // A username or email taken since the dry run fails the whole transaction
+        if ((error as { code?: string }).code === "23505") {
+          return res.status(409).json({ message: "Some usernames or emails were taken in the meantime; run the dry run again" });
+        }
+        res.status(500).json({ message: "Failed to import users" });
+      }
+    }
+  );
+
   // Organizations API
-  app.get("/api/organizations", isAuthenticated, async (req, res) => {
+  app.get("/api/organizations", hasPermission(Permission.ORGANIZATIONS_VIEW), async (req, res) => {
     try {
-      const organizations = await storage.getAllOrganizations();
+      const organizations = await storage.getAllOrganizations(getVisibilityScope(req.user!));
       res.json(organizations);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch organizations" });
     }
   });
 
-  app.get("/api/organizations/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/organizations/deleted", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
+    try {
+      res.json(await storage.getDeletedOrganizations(getVisibilityScope(req.user!)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch deleted organizations" });
+    }
+  });
+
+  app.get("/api/organizations/:id", hasPermission(Permission.ORGANIZATIONS_VIEW), async (req, res) => {
     try {
       const orgId = parseInt(req.params.id);
       const org = await storage.getOrganization(orgId);
@@ -164,13 +925,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Organization not found" });
       }
       
+      if (!can(req.user, Permission.ORGANIZATIONS_VIEW, { organizationId: org.id })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
       res.json(org);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch organization" });
     }
   });
 
-  app.post("/api/organizations", isAuthenticated, async (req, res) => {
+  app.post("/api/organizations", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
     try {
       // Validate request body
       const validatedData = insertOrganizationSchema.parse(req.body);
@@ -179,10 +944,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newOrg = await storage.createOrganization(validatedData);
       
       // Log activity
-      await storage.createActivity({
-        userId: (req.user as any).id,
+      await recordAudit(req, {
         action: "CREATE_ORGANIZATION",
-        description: `User ${(req.user as any).username} created a new organization ${newOrg.name}`
+        description: `User ${req.user!.username} created a new organization ${newOrg.name}`,
+        entityType: AuditEntity.ORGANIZATION,
+        entityId: newOrg.id,
+        changes: diffFields(null, newOrg),
       });
       
       res.status(201).json(newOrg);
@@ -194,62 +961,808 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Activities API
-  app.get("/api/activities", isAuthenticated, async (req, res) => {
+  app.put("/api/organizations/:id", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const activities = await storage.getActivities(limit);
+      const orgId = parseInt(req.params.id);
+      const org = await storage.getOrganization(orgId);
       
-      // Enhance activities with user data
-      const enhancedActivities = await Promise.all(activities.map(async (activity) => {
-        const user = await storage.getUser(activity.userId);
-        return {
-          ...activity,
-          user: user ? { id: user.id, username: user.username, fullName: user.fullName } : undefined
-        };
-      }));
+      if (!org) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
       
-      res.json(enhancedActivities);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch activities" });
-    }
-  });
+      if (!can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: org.id })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      // Validate request body
+      const validatedData = insertOrganizationSchema.partial().parse(req.body);
+      
+      // Update organization
+      const updatedOrg = await storage.updateOrganization(orgId, validatedData);
+      
+      if (!updatedOrg) {
+        return res.status(500).json({ message: "Failed to update organization" });
+      }
+      
+      // Log activity
+      await recordAudit(req, {
+        action: "UPDATE_ORGANIZATION",
+        description: `User ${req.user!.username} updated organization ${updatedOrg.name}`,
+        entityType: AuditEntity.ORGANIZATION,
+        entityId: org.id,
+        changes: diffFields(org, updatedOrg),
+      });
+      
+      res.json(updatedOrg);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid organization data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update organization" });
+    }
+  });
+
+  app.delete("/api/organizations/:id", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
+    try {
+      const orgId = parseInt(req.params.id);
+      const org = await storage.getOrganization(orgId);
+      
+      if (!org) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      
+      if (!can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: org.id })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      // Refuse to delete an organization that still has members
+      const memberCount = await storage.countUsersByOrganization(orgId);
+      if (memberCount > 0) {
+        return res.status(409).json({
+          message: `Organization ${org.name} still has ${memberCount} user(s). Move or remove them before deleting it.`,
+          memberCount
+        });
+      }
+      
+      const deletedOrg = await storage.deleteOrganization(orgId, req.user!.id, deleted => auditEvent(req, {
+        action: "DELETE_ORGANIZATION",
+        description: `User ${req.user!.username} deleted organization ${org.name}`,
+        entityType: AuditEntity.ORGANIZATION,
+        entityId: org.id,
+        changes: diffFields(org, deleted),
+      }));
+      
+      if (!deletedOrg) {
+        return res.status(500).json({ message: "Failed to delete organization" });
+      }
+      
+      res.status(200).json({ message: "Organization deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete organization" });
+    }
+  });
+
+  app.post("/api/organizations/:id/restore", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
+    try {
+      const orgId = parseInt(req.params.id);
+      const org = await storage.getOrganization(orgId, { includeDeleted: true });
+      
+      if (!org) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (!can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: org.id })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (org.deletedAt === null) {
+        return res.status(400).json({ message: "Organization is not deleted" });
+      }
+      
+      const restoredOrg = await storage.restoreOrganization(orgId, restored => auditEvent(req, {
+        action: "RESTORE_ORGANIZATION",
+        description: `User ${req.user!.username} restored organization ${org.name}`,
+        entityType: AuditEntity.ORGANIZATION,
+        entityId: org.id,
+        changes: diffFields(org, restored),
+      }));
+      
+      if (!restoredOrg) {
+        return res.status(500).json({ message: "Failed to restore organization" });
+      }
+      
+      res.json(restoredOrg);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore organization" });
+    }
+  });
+
+  app.get("/api/organizations/:id/users", hasPermission(Permission.USERS_VIEW), async (req, res) => {
+    try {
+      const orgId = parseInt(req.params.id);
+      const org = await storage.getOrganization(orgId);
+      
+      if (!org) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      
+      if (!can(req.user, Permission.ORGANIZATIONS_VIEW, { organizationId: org.id })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const members = await storage.getUsersByOrganization(orgId, getVisibilityScope(req.user!));
+      // Remove password hashes from response
+      const safeMembers = members.map(user => {
+        const { password, ...userWithoutPassword } = user;
+        return userWithoutPassword;
+      });
+      res.json(safeMembers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch organization members" });
+    }
+  });
+
+  app.get("/api/organizations/:id/tree", hasPermission(Permission.USERS_VIEW), async (req, res) => {
+    try {
+      const orgId = parseInt(req.params.id);
+      const org = await storage.getOrganization(orgId);
+
+      if (!org) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      if (!can(req.user, Permission.ORGANIZATIONS_VIEW, { organizationId: org.id })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      // Subtree-scoped users see only their own branch, built from the whole organization so
+      // their position in it (and any issue with it) is unchanged
+      const scope = getVisibilityScope(req.user!);
+      const members = await storage.getUsersByOrganization(orgId);
+      const territories = await storage.getTerritories(orgId);
+      res.json(buildOrgChart(orgId, members, territories, scope.kind === "subtree" ? scope.rootUserId : undefined));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build organization chart" });
+    }
+  });
+
+  // Distributor links API
+  app.get("/api/distributor-links", hasPermission(Permission.ORGANIZATIONS_VIEW), async (req, res) => {
+    try {
+      const filters = z.object({
+        companyId: z.coerce.number().int().optional(),
+        distributorId: z.coerce.number().int().optional(),
+        organizationId: z.coerce.number().int().optional(),
+        state: z.string().optional(),
+        status: z.nativeEnum(DistributorLinkStatus).optional(),
+      }).parse(req.query);
+      
+      // Outside the global scope only links involving the caller's own organization are visible
+      const scope = getVisibilityScope(req.user!);
+      if (scope.kind !== "global") {
+        if (req.user!.organizationId === null) {
+          return res.json([]);
+        }
+        if (filters.organizationId !== undefined && filters.organizationId !== req.user!.organizationId) {
+          return res.json([]);
+        }
+        filters.organizationId = req.user!.organizationId;
+      }
+      
+      const links = await storage.findDistributorLinks(filters);
+      res.json(links);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch distributor links" });
+    }
+  });
+
+  app.post("/api/distributor-links", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
+    try {
+      // Validate request body
+      const validatedData = insertDistributorLinkSchema.parse(req.body);
+      
+      const distributor = await storage.getOrganization(validatedData.distributorId);
+      const company = await storage.getOrganization(validatedData.companyId);
+      
+      if (!distributor || distributor.type !== OrganizationType.DISTRIBUTOR) {
+        return res.status(400).json({ message: "Distributor not found" });
+      }
+      if (!company || company.type !== OrganizationType.PHARMA_COMPANY) {
+        return res.status(400).json({ message: "Pharma company not found" });
+      }
+      // A link belongs to both organizations, so the user must be able to manage each of them
+      if (!can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: distributor.id }) ||
+          !can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: company.id })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const existingLink = await storage.getDistributorLinkBetween(distributor.id, company.id);
+      if (existingLink) {
+        return res.status(409).json({ message: `${distributor.name} is already linked to ${company.name}` });
+      }
+      
+      const newLink = await storage.createDistributorLink(validatedData);
+      
+      // Log activity
+      await recordAudit(req, {
+        action: "CREATE_DISTRIBUTOR_LINK",
+        description: `User ${req.user!.username} appointed ${distributor.name} as distributor for ${company.name}`,
+        entityType: AuditEntity.DISTRIBUTOR_LINK,
+        entityId: newLink.id,
+        changes: diffFields(null, newLink),
+      });
+      
+      res.status(201).json(newLink);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid distributor link data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create distributor link" });
+    }
+  });
+
+  app.put("/api/distributor-links/:id", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
+    try {
+      const linkId = parseInt(req.params.id);
+      const link = await storage.getDistributorLink(linkId);
+      
+      if (!link) {
+        return res.status(404).json({ message: "Distributor link not found" });
+      }
+      
+      if (!can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: link.distributorId }) ||
+          !can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: link.companyId })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      // The distributor and company of a link are fixed
+      const validatedData = insertDistributorLinkSchema
+        .omit({ distributorId: true, companyId: true })
+        .partial()
+        .parse(req.body);
+      
+      const updatedLink = await storage.updateDistributorLink(linkId, validatedData);
+      
+      if (!updatedLink) {
+        return res.status(500).json({ message: "Failed to update distributor link" });
+      }
+      
+      // Log activity
+      const distributor = await storage.getOrganization(link.distributorId);
+      const company = await storage.getOrganization(link.companyId);
+      await recordAudit(req, {
+        action: "UPDATE_DISTRIBUTOR_LINK",
+        description: `User ${req.user!.username} updated the appointment of ${distributor?.name} for ${company?.name} (${updatedLink.status})`,
+        entityType: AuditEntity.DISTRIBUTOR_LINK,
+        entityId: link.id,
+        changes: diffFields(link, updatedLink),
+      });
+      
+      res.json(updatedLink);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid distributor link data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update distributor link" });
+    }
+  });
+
+  app.delete("/api/distributor-links/:id", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
+    try {
+      const linkId = parseInt(req.params.id);
+      const link = await storage.getDistributorLink(linkId);
+      
+      if (!link) {
+        return res.status(404).json({ message: "Distributor link not found" });
+      }
+      
+      if (!can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: link.distributorId }) ||
+          !can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: link.companyId })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const success = await storage.deleteDistributorLink(linkId);
+      
+      if (!success) {
+        return res.status(500).json({ message: "Failed to delete distributor link" });
+      }
+      
+      // Log activity
+      const distributor = await storage.getOrganization(link.distributorId);
+      const company = await storage.getOrganization(link.companyId);
+      await recordAudit(req, {
+        action: "DELETE_DISTRIBUTOR_LINK",
+        description: `User ${req.user!.username} removed ${distributor?.name} as distributor for ${company?.name}`,
+        entityType: AuditEntity.DISTRIBUTOR_LINK,
+        entityId: link.id,
+        changes: diffFields(link, null),
+      });
+      
+      res.status(200).json({ message: "Distributor link deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete distributor link" });
+    }
+  });
+
+  // Territories API
+  app.get("/api/territories", hasPermission(Permission.ORGANIZATIONS_VIEW), async (req, res) => {
+    try {
+      const { organizationId } = z.object({
+        organizationId: z.coerce.number().int(),
+      }).parse(req.query);
+      
+      if (!can(req.user, Permission.ORGANIZATIONS_VIEW, { organizationId })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const territories = await storage.getTerritories(organizationId);
+      res.json(territories);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch territories" });
+    }
+  });
+
+  app.get("/api/territories/overlaps", hasPermission(Permission.ORGANIZATIONS_VIEW), async (req, res) => {
+    try {
+      const { organizationId } = z.object({
+        organizationId: z.coerce.number().int(),
+      }).parse(req.query);
+      
+      if (!can(req.user, Permission.ORGANIZATIONS_VIEW, { organizationId })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const territories = await storage.getTerritories(organizationId);
+      res.json(findCoverageOverlaps(territories));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to check territory coverage" });
+    }
+  });
+
+  // Who covers a pincode for a company: the covering territories and the users assigned to them
+  app.get("/api/territories/coverage", hasPermission(Permission.USERS_VIEW), async (req, res) => {
+    try {
+      const { organizationId, pincode } = z.object({
+        organizationId: z.coerce.number().int(),
+        pincode: z.string().trim().regex(PINCODE_PATTERN, "Pincode must be 6 digits"),
+      }).parse(req.query);
+      
+      if (!can(req.user, Permission.USERS_VIEW, { organizationId })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const territories = findCoveringTerritories(await storage.getTerritories(organizationId), pincode);
+      const order = new Map(territories.map((territory, index) => [territory.id, index]));
+      const members = territories.length > 0
+        ? await storage.getUsersByOrganization(organizationId, getVisibilityScope(req.user!))
+        : [];
+      
+      const coverage: PincodeCoverage = {
+        pincode,
+        organizationId,
+        territories,
+        users: members
+          .filter(member => member.status === UserStatus.ACTIVE && member.territoryId !== null && order.has(member.territoryId))
+          .sort((a, b) => order.get(a.territoryId!)! - order.get(b.territoryId!)!)
+          .map(member => ({
+            id: member.id,
+            fullName: member.fullName,
+            username: member.username,
+            role: member.role,
+            territoryId: member.territoryId,
+            territoryName: territories[order.get(member.territoryId!)!].name,
+          })),
+      };
+      res.json(coverage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coverage query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to look up pincode coverage" });
+    }
+  });
+
+  app.post("/api/territories", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
+    try {
+      const territoryData = insertTerritorySchema.parse(req.body);
+      
+      const organization = await storage.getOrganization(territoryData.organizationId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (organization.type !== OrganizationType.PHARMA_COMPANY) {
+        return res.status(400).json({ message: "Territories can only be defined for pharma companies" });
+      }
+      if (!can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: organization.id })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const parentError = await checkTerritoryParent(organization.id, territoryData.level, territoryData.parentId);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+      
+      if (await hasSiblingNamed(organization.id, territoryData.parentId ?? null, territoryData.name)) {
+        return res.status(409).json({ message: `A territory named ${territoryData.name} already exists here` });
+      }
+      
+      const territory = await storage.createTerritory(territoryData);
+      
+      // Log activity
+      await recordAudit(req, {
+        action: "CREATE_TERRITORY",
+        description: `User ${req.user!.username} created ${territory.level.toLowerCase()} ${territory.name} for ${organization.name}`,
+        entityType: AuditEntity.TERRITORY,
+        entityId: territory.id,
+        changes: diffFields(null, territory),
+      });
+      
+      res.status(201).json(territory);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid territory data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create territory" });
+    }
+  });
+
+  app.put("/api/territories/:id", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
+    try {
+      const territoryId = parseInt(req.params.id);
+      const territory = await storage.getTerritory(territoryId);
+      
+      if (!territory) {
+        return res.status(404).json({ message: "Territory not found" });
+      }
+      if (!can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: territory.organizationId })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      // Only the name, code, coverage and parent can change; the level is fixed
+      const changes = insertTerritorySchema.pick({ name: true, code: true, parentId: true, pincodes: true }).partial().parse(req.body);
+      
+      const parentId = changes.parentId !== undefined ? changes.parentId : territory.parentId;
+      if (changes.parentId !== undefined) {
+        const parentError = await checkTerritoryParent(territory.organizationId, territory.level, parentId);
+        if (parentError) {
+          return res.status(400).json({ message: parentError });
+        }
+      }
+      
+      const name = changes.name ?? territory.name;
+      if (await hasSiblingNamed(territory.organizationId, parentId ?? null, name, territory.id)) {
+        return res.status(409).json({ message: `A territory named ${name} already exists here` });
+      }
+      
+      const updatedTerritory = await storage.updateTerritory(territoryId, changes);
+      
+      if (!updatedTerritory) {
+        return res.status(500).json({ message: "Failed to update territory" });
+      }
+      
+      // Log activity
+      await recordAudit(req, {
+        action: "UPDATE_TERRITORY",
+        description: `User ${req.user!.username} updated ${territory.level.toLowerCase()} ${updatedTerritory.name}`,
+        entityType: AuditEntity.TERRITORY,
+        entityId: territory.id,
+        changes: diffFields(territory, updatedTerritory),
+      });
+      
+      res.json(updatedTerritory);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid territory data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update territory" });
+    }
+  });
+
+  app.delete("/api/territories/:id", hasPermission(Permission.ORGANIZATIONS_MANAGE), async (req, res) => {
+    try {
+      const territoryId = parseInt(req.params.id);
+      const territory = await storage.getTerritory(territoryId);
+      
+      if (!territory) {
+        return res.status(404).json({ message: "Territory not found" });
+      }
+      if (!can(req.user, Permission.ORGANIZATIONS_MANAGE, { organizationId: territory.organizationId })) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      // Territories still in use must be emptied first
+      const usage = (await storage.getTerritories(territory.organizationId)).find(t => t.id === territoryId);
+      if (usage && usage.childCount > 0) {
+        return res.status(409).json({
+          message: `Cannot delete ${territory.name}: move or delete its ${usage.childCount} sub-territories first`,
+          childCount: usage.childCount,
+        });
+      }
+      if (usage && usage.userCount > 0) {
+        return res.status(409).json({
+          message: `Cannot delete ${territory.name}: ${usage.userCount} users are still assigned to it`,
+          userCount: usage.userCount,
+        });
+      }
+      
+      const success = await storage.deleteTerritory(territoryId);
+      
+      if (!success) {
+        return res.status(500).json({ message: "Failed to delete territory" });
+      }
+      
+      // Log activity
+      await recordAudit(req, {
+        action: "DELETE_TERRITORY",
+        description: `User ${req.user!.username} deleted ${territory.level.toLowerCase()} ${territory.name}`,
+        entityType: AuditEntity.TERRITORY,
+        entityId: territory.id,
+        changes: diffFields(territory, null),
+      });
+      
+      res.status(200).json({ message: "Territory deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete territory" });
+    }
+  });
+
+  // Locations API (bundled reference data for Indian addresses)
+  app.get("/api/locations/states", isAuthenticated, (req, res) => {
+    res.json(getStates());
+  });
+
+  app.get("/api/locations/cities", isAuthenticated, (req, res) => {
+    try {
+      const { state } = z.object({ state: z.string().trim().min(1) }).parse(req.query);
+      res.json(getCities(state));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "A state is required", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch cities" });
+    }
+  });
+
+  app.get("/api/locations/pincodes/:pin", isAuthenticated, (req, res) => {
+    if (!PINCODE_PATTERN.test(req.params.pin)) {
+      return res.status(400).json({ message: "Pincode must be 6 digits" });
+    }
+
+    const location = lookupPincode(req.params.pin);
+    if (!location) {
+      return res.status(404).json({ message: "Pincode not found" });
+    }
+
+    res.json(location);
+  });
+
+  app.get("/api/locations/search", isAuthenticated, (req, res) => {
+    try {
+      const { q, limit } = z.object({
+        q: z.string().trim().min(2),
+        limit: z.coerce.number().int().min(1).max(50).optional(),
+      }).parse(req.query);
+      res.json(searchLocations(q, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Search needs at least 2 characters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search locations" });
+    }
+  });
+
+  // Activities API (the audit log)
+  const activityFiltersSchema = z.object({
+    actorId: z.coerce.number().int().optional(),
+    // One or more comma-separated action types
+    action: z.string().trim().optional(),
+    targetUserId: z.coerce.number().int().optional(),
+    organizationId: z.coerce.number().int().optional(),
+    from: z.string().date().optional(),
+    to: z.string().date().optional(),
+    q: z.string().trim().optional(),
+    cursor: z.coerce.number().int().optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  });
+
+  // Turn validated query parameters into service filters
+  const toActivityFilters = ({ action, from, to, q, ...filters }: z.infer<typeof activityFiltersSchema>): ActivityFilters => {
+    // The date range covers whole days: "to" includes everything up to the following midnight
+    const until = to ? new Date(to) : undefined;
+    until?.setUTCDate(until.getUTCDate() + 1);
+
+    return {
+      ...filters,
+      actions: action ? action.split(",").filter(Boolean) : undefined,
+      from: from ? new Date(from) : undefined,
+      until,
+      search: q || undefined,
+    };
+  };
+
+  app.get("/api/activities", hasPermission(Permission.ACTIVITIES_VIEW), async (req, res) => {
+    try {
+      const filters = toActivityFilters(activityFiltersSchema.parse(req.query));
+      const page = await storage.findActivities(filters, getVisibilityScope(req.user!));
+      
+      // The recent activity feed only shows what happened; field diffs and request origins are audit detail
+      if (!can(req.user, Permission.AUDIT_VIEW)) {
+        page.items = page.items.map(item => ({ ...item, changes: null, ipAddress: null, userAgent: null }));
+      }
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch activities" });
+    }
+  });
+
+  app.get("/api/activities/actions", hasPermission(Permission.AUDIT_VIEW), async (req, res) => {
+    try {
+      res.json(await storage.getActionTypes());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch action types" });
+    }
+  });
+
+  const activityExportSchema = activityFiltersSchema.omit({ cursor: true, limit: true }).extend({
+    format: z.nativeEnum(AuditExportFormat),
+  });
+
+  app.get("/api/activities/export", hasPermission(Permission.AUDIT_VIEW), async (req, res) => {
+    try {
+      const { format, ...query } = activityExportSchema.parse(req.query);
+      const filters = toActivityFilters(query);
+
+      // Spell out the filters for the report header and the export's own audit entry
+      const criteria: ExportCriterion[] = [];
+      if (query.from || query.to) {
+        criteria.push({ label: "Period", value: `${query.from ?? "start"} to ${query.to ?? "today"}` });
+      }
+      if (query.organizationId !== undefined) {
+        const organization = await storage.getOrganization(query.organizationId);
+        criteria.push({ label: "Organization", value: organization?.name ?? `#${query.organizationId}` });
+      }
+      if (query.actorId !== undefined) {
+        const actor = await storage.getUser(query.actorId);
+        criteria.push({ label: "Actor", value: actor?.fullName ?? `#${query.actorId}` });
+      }
+      if (query.targetUserId !== undefined) {
+        const target = await storage.getUser(query.targetUserId);
+        criteria.push({ label: "Target user", value: target?.fullName ?? `#${query.targetUserId}` });
+      }
+      if (filters.actions) {
+        criteria.push({ label: "Actions", value: filters.actions.join(", ") });
+      }
+      if (filters.search) {
+        criteria.push({ label: "Search", value: `"${filters.search}"` });
+      }
+
+      const count = await exportActivities(res, format, storage.iterateActivities(filters, getVisibilityScope(req.user!)), {
+        criteria,
+        generatedAt: new Date(),
+        exportedBy: `${req.user!.fullName} (${req.user!.username})`,
+      });
+
+      await recordAudit(req, {
+        action: "EXPORT_AUDIT_LOG",
+        description: `Exported ${count} audit entries as ${format.toUpperCase()}` +
+          (criteria.length > 0 ? ` (${criteria.map(criterion => `${criterion.label}: ${criterion.value}`).join("; ")})` : ""),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export request", errors: error.errors });
+      }
+      // Once streaming has started the only way to signal failure is to cut the download short
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+
+  app.post("/api/activities/verify", hasPermission(Permission.AUDIT_VERIFY), async (req, res) => {
+    try {
+      const verification = await storage.verifyAuditChain();
+
+      await recordAudit(req, {
+        action: "VERIFY_AUDIT_CHAIN",
+        description: verification.valid
+          ? `Verified the audit log hash chain (${verification.checkedCount} entries intact)`
+          : `Audit log hash chain broken at entry ${verification.firstBreak!.activityId}`,
+      });
+
+      res.json(verification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify audit log" });
+    }
+  });
+
+  app.get("/api/activities/:id", hasPermission(Permission.AUDIT_VIEW), async (req, res) => {
+    try {
+      const activity = await storage.getActivity(parseInt(req.params.id), getVisibilityScope(req.user!));
+      
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      
+      res.json(activity);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch activity" });
+    }
+  });
 
   // Dashboard stats
   app.get("/api/stats", isAuthenticated, async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      const organizations = await storage.getAllOrganizations();
-      
-      // Count users by role and status
-      const totalUsers = users.length;
-      const activeUsers = users.filter(u => u.status === "ACTIVE").length;
-      const inactiveUsers = users.filter(u => u.status === "INACTIVE").length;
-      const pendingUsers = users.filter(u => u.status === "PENDING").length;
+      const scope = getVisibilityScope(req.user!);
+      const userStats = await storage.getUserStats(scope);
+      const organizations = await storage.getAllOrganizations(scope);
       
       // Count pharma companies and distributors
       const pharmaCompanies = organizations.filter(o => o.type === "PHARMA_COMPANY").length;
       const distributors = organizations.filter(o => o.type === "DISTRIBUTOR").length;
       
-      // Count medical representatives
-      const activeMRs = users.filter(u => 
-        u.role === UserRole.MEDICAL_REPRESENTATIVE && u.status === "ACTIVE"
-      ).length;
-      
       res.json({
-        totalUsers,
-        activeUsers,
-        inactiveUsers,
-        pendingUsers,
+        ...userStats,
         pharmaCompanies,
-        distributors,
-        activeMRs
+        distributors
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch statistics" });
     }
   });
 
+  // Permissions API
+  app.get("/api/permissions", hasPermission(Permission.PERMISSIONS_MANAGE), async (req, res) => {
+    try {
+      const permissions = await storage.getAllPermissions();
+      const matrix = await storage.getRolePermissions();
+      res.json({ permissions, matrix });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  app.put("/api/permissions/roles/:role", hasPermission(Permission.PERMISSIONS_MANAGE), async (req, res) => {
+    try {
+      const role = z.nativeEnum(UserRole).parse(req.params.role);
+      const keys = z.array(z.nativeEnum(Permission)).parse(req.body.permissions);
+      
+      // Never let the matrix lock every administrator out of editing it
+      if (role === UserRole.SUPER_ADMIN && !keys.includes(Permission.PERMISSIONS_MANAGE)) {
+        return res.status(400).json({ message: "Super Admins must keep the permission to manage permissions" });
+      }
+      
+      const previousPermissions = await storage.getPermissionsForRole(role);
+      const granted = await storage.setRolePermissions(role, Array.from(new Set<PermissionKey>(keys)));
+      
+      // Log activity
+      await recordAudit(req, {
+        action: "UPDATE_ROLE_PERMISSIONS",
+        description: `User ${req.user!.username} updated permissions of role ${role}`,
+        entityType: AuditEntity.ROLE,
+        entityId: role,
+        changes: { permissions: { old: previousPermissions, new: granted } },
+      });
+      
+      res.json({ role, permissions: granted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid permission data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update permissions" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
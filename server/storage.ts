@@ -1,35 +1,116 @@
 import { 
   type User, type InsertUser, type Organization, type InsertOrganization, 
-  type Activity, type InsertActivity 
+  type Activity, type InsertActivity, type ActivityPage, type ActivityWithActor, type AuditChainVerification, type UserDirectoryEntry, type UserPage,
+  type PermissionRecord, type UserRoleType,
+  type DistributorLink, type DistributorLinkDetails, type InsertDistributorLink,
+  type Territory, type InsertTerritory, type TerritoryWithUsage,
+  type UserInvitation, type InsertUserInvitation, type PasswordReset, type InsertPasswordReset
 } from "@shared/schema";
+import { type PermissionKey } from "@shared/permissions";
 import session from "express-session";
+import { type VisibilityScope } from "./db/scope";
+import { type UserStats, type UserImportEntry, type UserFilters, type UserSort, type UserLookupOptions } from "./db/userService";
+import { type OrganizationLookupOptions } from "./db/organizationService";
+import { type PermissionMatrix } from "./db/permissionService";
+import { type DistributorLinkFilters } from "./db/distributorLinkService";
+import { type ActivityFilters } from "./db/activityService";
 
 // Import the database storage implementation
 import { DatabaseStorage } from './db/index';
 
 export interface IStorage {
   // User management
-  getUser(id: number): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
+  getUser(id: number, options?: UserLookupOptions): Promise<User | undefined>;
+  getUserByUsername(username: string, options?: UserLookupOptions): Promise<User | undefined>;
+  getUserByEmail(email: string, options?: UserLookupOptions): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
-  deleteUser(id: number): Promise<boolean>;
-  getAllUsers(): Promise<User[]>;
+  updateUser(
+    id: number,
+    user: Partial<InsertUser>,
+    activityFor?: (updatedUser: User) => InsertActivity
+  ): Promise<User | undefined>;
+  deleteUser(
+    id: number,
+    deletedBy: number,
+    successorId: number | null,
+    activityFor: (deletedUser: User, movedReports: User[]) => InsertActivity
+  ): Promise<User | undefined>;
+  restoreUser(id: number, activityFor: (restoredUser: User) => InsertActivity): Promise<User | undefined>;
+  purgeUser(id: number, activity: InsertActivity): Promise<boolean>;
+  getAllUsers(scope?: VisibilityScope, options?: UserLookupOptions): Promise<User[]>;
+  findUsers(filters?: UserFilters, scope?: VisibilityScope): Promise<UserDirectoryEntry[]>;
+  findUserPage(filters: UserFilters, sort: UserSort, page: number, pageSize: number, scope?: VisibilityScope): Promise<UserPage>;
+  getUserStats(scope?: VisibilityScope): Promise<UserStats>;
   getUsersByRole(role: string): Promise<User[]>;
-  getUsersByOrganization(organizationId: number): Promise<User[]>;
+  getUsersByOrganization(organizationId: number, scope?: VisibilityScope): Promise<User[]>;
+  countUsersByOrganization(organizationId: number): Promise<number>;
   getUsersByManager(managerId: number): Promise<User[]>;
+  getEligibleManagers(role: UserRoleType, organizationId: number): Promise<User[]>;
+  importUsers(entries: UserImportEntry[], activityFor: (user: User) => InsertActivity): Promise<User[]>;
+  reassignUsers(userIds: number[], managerId: number, activity: InsertActivity): Promise<User[]>;
+
+  // Invitations
+  getOpenInvitation(userId: number): Promise<UserInvitation | undefined>;
+  inviteUser(
+    user: Omit<InsertUser, "password" | "status">,
+    invitationFor: (user: User) => InsertUserInvitation,
+    activityFor: (user: User, invitation: UserInvitation) => InsertActivity
+  ): Promise<{ user: User; invitation: UserInvitation }>;
+  renewInvitation(id: number, tokenHash: string, expiresAt: Date): Promise<UserInvitation | undefined>;
+  acceptInvitation(id: number, password: string, activityFor: (user: User) => InsertActivity): Promise<User | undefined>;
+  revokeInvitation(id: number, activityFor: (user: User) => InsertActivity): Promise<User | undefined>;
+
+  // Password resets
+  getPasswordResetByTokenHash(tokenHash: string): Promise<PasswordReset | undefined>;
+  createPasswordReset(reset: InsertPasswordReset, activity: InsertActivity): Promise<PasswordReset>;
+  resetPassword(id: number, password: string, activityFor: (user: User) => InsertActivity): Promise<User | undefined>;
   
   // Organization management
-  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganization(id: number, options?: OrganizationLookupOptions): Promise<Organization | undefined>;
   createOrganization(organization: InsertOrganization): Promise<Organization>;
   updateOrganization(id: number, organization: Partial<InsertOrganization>): Promise<Organization | undefined>;
-  deleteOrganization(id: number): Promise<boolean>;
-  getAllOrganizations(): Promise<Organization[]>;
+  deleteOrganization(
+    id: number,
+    deletedBy: number,
+    activityFor: (deletedOrg: Organization) => InsertActivity
+  ): Promise<Organization | undefined>;
+  restoreOrganization(id: number, activityFor: (restoredOrg: Organization) => InsertActivity): Promise<Organization | undefined>;
+  getAllOrganizations(scope?: VisibilityScope): Promise<Organization[]>;
+  getDeletedOrganizations(scope?: VisibilityScope): Promise<Organization[]>;
+  
+  // Distributor links
+  getDistributorLink(id: number): Promise<DistributorLink | undefined>;
+  getDistributorLinkBetween(distributorId: number, companyId: number): Promise<DistributorLink | undefined>;
+  findDistributorLinks(filters?: DistributorLinkFilters): Promise<DistributorLinkDetails[]>;
+  createDistributorLink(link: InsertDistributorLink): Promise<DistributorLink>;
+  updateDistributorLink(id: number, link: Partial<InsertDistributorLink>): Promise<DistributorLink | undefined>;
+  deleteDistributorLink(id: number): Promise<boolean>;
+  
+  // Territories
+  getTerritory(id: number): Promise<Territory | undefined>;
+  getTerritoriesByIds(ids: number[]): Promise<Territory[]>;
+  getTerritories(organizationId: number): Promise<TerritoryWithUsage[]>;
+  createTerritory(territory: InsertTerritory): Promise<Territory>;
+  updateTerritory(id: number, territory: Partial<Pick<InsertTerritory, "name" | "code" | "parentId" | "pincodes">>): Promise<Territory | undefined>;
+  deleteTerritory(id: number): Promise<boolean>;
   
   // Activity tracking
   createActivity(activity: InsertActivity): Promise<Activity>;
-  getActivities(limit?: number): Promise<Activity[]>;
+  findActivities(filters?: ActivityFilters, scope?: VisibilityScope): Promise<ActivityPage>;
+  iterateActivities(filters?: ActivityFilters, scope?: VisibilityScope): AsyncIterable<ActivityWithActor>;
+  getActivity(id: number, scope?: VisibilityScope): Promise<ActivityWithActor | undefined>;
+  getActionTypes(): Promise<string[]>;
   getActivitiesByUser(userId: number): Promise<Activity[]>;
+  // The audit log is append-only: these always reject
+  updateActivity(id: number, activity: Partial<InsertActivity>): Promise<never>;
+  deleteActivity(id: number): Promise<never>;
+  verifyAuditChain(): Promise<AuditChainVerification>;
+
+  // Permission matrix
+  getAllPermissions(): Promise<PermissionRecord[]>;
+  getPermissionsForRole(role: UserRoleType): Promise<PermissionKey[]>;
+  getRolePermissions(): Promise<PermissionMatrix>;
+  setRolePermissions(role: UserRoleType, keys: PermissionKey[]): Promise<PermissionKey[]>;
 
   // Session store
   sessionStore: session.Store;
@@ -0,0 +1,20 @@
+import type { Writable } from "stream";
+
+/**
+ * Wait for a stream to accept more data after a write it buffered, or for it to close.
+ * Returns false once the client has gone away.
+ */
+export async function drained(out: Writable): Promise<boolean> {
+  if (out.writableNeedDrain && !out.destroyed) {
+    await new Promise<void>(resolve => {
+      const done = () => {
+        out.off("drain", done);
+        out.off("close", done);
+        resolve();
+      };
+      out.on("drain", done);
+      out.on("close", done);
+    });
+  }
+  return !out.destroyed;
+}
@@ -0,0 +1,156 @@
+import { TerritoryLevelOrder, type CoverageOverlap, type Territory, type TerritoryLevelType } from "@shared/schema";
+import { parsePincodeRange } from "@shared/locations";
+import { storage } from "./storage";
+
+function formatLevel(level: string): string {
+  return level.charAt(0) + level.slice(1).toLowerCase();
+}
+
+/**
+ * Check that a territory of the given level may sit under the given parent.
+ * Zones are top-level; every other level belongs to a territory of the level directly above it
+ * in the same organization. Returns the reason the placement is invalid, or null.
+ */
+export async function checkTerritoryParent(
+  organizationId: number,
+  level: TerritoryLevelType,
+  parentId: number | null | undefined
+): Promise<string | null> {
+  const parentLevel = TerritoryLevelOrder[TerritoryLevelOrder.indexOf(level) - 1];
+
+  if (parentId === null || parentId === undefined) {
+    return parentLevel ? `A ${formatLevel(level)} must belong to a ${formatLevel(parentLevel)}` : null;
+  }
+  if (!parentLevel) {
+    return `A ${formatLevel(level)} cannot belong to another territory`;
+  }
+
+  const parent = await storage.getTerritory(parentId);
+  if (!parent) {
+    return "Parent territory not found";
+  }
+  if (parent.organizationId !== organizationId) {
+    return "Parent territory belongs to a different organization";
+  }
+  if (parent.level !== parentLevel) {
+    return `A ${formatLevel(level)} must belong to a ${formatLevel(parentLevel)}, not a ${formatLevel(parent.level)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether another territory under the same parent already uses a name
+ */
+export async function hasSiblingNamed(
+  organizationId: number,
+  parentId: number | null,
+  name: string,
+  excludeId?: number
+): Promise<boolean> {
+  const siblings = (await storage.getTerritories(organizationId))
+    .filter(territory => territory.parentId === parentId && territory.id !== excludeId);
+  return siblings.some(territory => territory.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+/**
+ * Check a territory assigned to a user belongs to the user's organization.
+ * Returns the reason the assignment is invalid, or null.
+ */
+export async function validateTerritoryAssignment(
+  organizationId: number | null,
+  territoryId: number | null | undefined
+): Promise<string | null> {
+  if (territoryId === null || territoryId === undefined) {
+    return null;
+  }
+
+  const territory = await storage.getTerritory(territoryId);
+  if (!territory) {
+    return "Territory not found";
+  }
+  if (territory.organizationId !== organizationId) {
+    return "Territory belongs to a different organization";
+  }
+
+  return null;
+}
+
+/**
+ * The territory followed by its ancestors up to the zone
+ */
+function getLineage(territory: Territory, territoryById: Map<number, Territory>): Territory[] {
+  const lineage: Territory[] = [];
+  for (
+    let current: Territory | undefined = territory;
+    current && !lineage.includes(current);
+    current = current.parentId !== null ? territoryById.get(current.parentId) : undefined
+  ) {
+    lineage.push(current);
+  }
+  return lineage;
+}
+
+/**
+ * Find pincodes claimed by two territories of one company that sit in different branches.
+ * A territory repeating pincodes of its own ancestors or descendants is not an overlap.
+ */
+export function findCoverageOverlaps(territories: Territory[]): CoverageOverlap[] {
+  const territoryById = new Map(territories.map(territory => [territory.id, territory]));
+  const covering = territories.filter(territory => territory.pincodes.length > 0);
+  const overlaps: CoverageOverlap[] = [];
+
+  for (let i = 0; i < covering.length; i++) {
+    for (let j = i + 1; j < covering.length; j++) {
+      const [a, b] = [covering[i], covering[j]];
+      if (getLineage(a, territoryById).includes(b) || getLineage(b, territoryById).includes(a)) {
+        continue;
+      }
+
+      for (const [aFrom, aTo] of a.pincodes.map(parsePincodeRange)) {
+        for (const [bFrom, bTo] of b.pincodes.map(parsePincodeRange)) {
+          const from = Math.max(aFrom, bFrom);
+          const to = Math.min(aTo, bTo);
+          if (from <= to) {
+            overlaps.push({
+              from: from.toString(),
+              to: to.toString(),
+              territories: [
+                { id: a.id, name: a.name, level: a.level },
+                { id: b.id, name: b.name, level: b.level },
+              ],
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return overlaps;
+}
+
+/**
+ * The territories covering a pincode: the deepest ones whose own coverage includes it,
+ * each followed by its ancestors. Empty when no territory of the company covers the pincode.
+ */
+export function findCoveringTerritories(territories: Territory[], pincode: string): Territory[] {
+  const value = parseInt(pincode);
+  const territoryById = new Map(territories.map(territory => [territory.id, territory]));
+  const matches = territories.filter(territory =>
+    territory.pincodes.map(parsePincodeRange).some(([from, to]) => from <= value && value <= to)
+  );
+  const depth = (territory: Territory) => TerritoryLevelOrder.indexOf(territory.level);
+  const deepest = Math.max(...matches.map(depth));
+
+  const result: Territory[] = [];
+  for (const territory of matches.filter(match => depth(match) === deepest)) {
+    for (const covering of getLineage(territory, territoryById)) {
+      if (!result.includes(covering)) {
+        result.push(covering);
+      }
+    }
+  }
+
+  // Most specific first
+  return result.sort((a, b) => depth(b) - depth(a));
+}
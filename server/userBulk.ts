@@ -0,0 +1,119 @@
+import { UserStatus, type InsertUser, type User, type UserStatusType } from "@shared/schema";
+import { BulkUserAction, type BulkUserRequest } from "@shared/user-bulk";
+import { UserStatusLabels, canChangeStatus } from "@shared/user-lifecycle";
+import { storage } from "./storage";
+import { canDeleteUser, canUpdateUser } from "./authorization";
+import { validateManager } from "./reassignment";
+import { validateTerritoryAssignment } from "./territories";
+
+/**
+ * What a bulk action does to one user
+ */
+export type BulkChange =
+  | { kind: "update"; changes: Partial<InsertUser> }
+  | { kind: "delete" }
+  | { kind: "unchanged" }
+  | { kind: "rejected"; reason: string };
+
+function reject(reason: string): BulkChange {
+  return { kind: "rejected", reason };
+}
+
+/**
+ * The fields a bulk action sets on a user
+ */
+function requestedChanges(target: User, request: BulkUserRequest): Partial<InsertUser> {
+  switch (request.action) {
+    case BulkUserAction.ACTIVATE:
+      return { status: UserStatus.ACTIVE };
+    case BulkUserAction.DEACTIVATE:
+      return { status: UserStatus.INACTIVE };
+    case BulkUserAction.CHANGE_ORGANIZATION:
+      // The manager and territory belong to the old organization, so the user leaves both
+      return request.organizationId === target.organizationId
+        ? {}
+        : { organizationId: request.organizationId, managerId: null, territoryId: null };
+    case BulkUserAction.REASSIGN_MANAGER:
+      return { managerId: request.managerId ?? null };
+    case BulkUserAction.MOVE_TERRITORY:
+      return { territoryId: request.territoryId ?? null };
+    case BulkUserAction.FORCE_PASSWORD_RESET:
+      return { passwordResetRequired: true };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Decide what a bulk action does to one user, with the same checks as editing or deleting
+ * that user on their own. Fields that already hold the requested value are left out.
+ */
+export async function planBulkChange(actor: User, target: User, request: BulkUserRequest): Promise<BulkChange> {
+  if (request.action === BulkUserAction.DELETE) {
+    if (target.id === actor.id) {
+      return reject("Cannot delete your own account");
+    }
+    const permission = await canDeleteUser(actor, target);
+    if (!permission.allowed) {
+      return reject(permission.reason);
+    }
+    // A successor for the direct reports can only be chosen when deleting the manager on their own
+    const reports = await storage.getUsersByManager(target.id);
+    return reports.length > 0
+      ? reject(`Has ${reports.length} direct report(s); delete this user on their own to choose a successor`)
+      : { kind: "delete" };
+  }
+
+  const changes: Partial<InsertUser> = Object.fromEntries(
+    Object.entries(requestedChanges(target, request))
+      .filter(([field, value]) => target[field as keyof User] !== value)
+  );
+  if (Object.keys(changes).length === 0) {
+    return { kind: "unchanged" };
+  }
+
+  // Direct reports would be left with a manager in another organization
+  if (changes.organizationId !== undefined) {
+    const reports = await storage.getUsersByManager(target.id);
+    if (reports.length > 0) {
+      return reject(`Has ${reports.length} direct report(s); assign them another manager before moving this user`);
+    }
+  }
+
+  // Status changes follow the user lifecycle and record why they were made
+  if (changes.status !== undefined) {
+    if (target.id === actor.id) {
+      return reject("You cannot change the status of your own account");
+    }
+    const status = changes.status as UserStatusType;
+    if (!canChangeStatus(target.status, status)) {
+      return reject(`A ${UserStatusLabels[target.status].toLowerCase()} user cannot become ${UserStatusLabels[status].toLowerCase()}`);
+    }
+    changes.statusReason = request.reason ?? null;
+    changes.statusChangedAt = new Date();
+  }
+
+  const permission = await canUpdateUser(actor, target, changes);
+  if (!permission.allowed) {
+    return reject(permission.reason);
+  }
+
+  const organizationId = changes.organizationId !== undefined ? changes.organizationId : target.organizationId;
+  if (changes.managerId !== undefined) {
+    const managerError = await validateManager(
+      { id: target.id, role: target.role, organizationId: organizationId ?? null },
+      changes.managerId
+    );
+    if (managerError) {
+      return reject(managerError);
+    }
+  }
+  if (changes.territoryId !== undefined) {
+    const territoryError = await validateTerritoryAssignment(organizationId ?? null, changes.territoryId);
+    if (territoryError) {
+      return reject(territoryError);
+    }
+  }
+
+  return { kind: "update", changes };
+}
@@ -0,0 +1,75 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import { format } from "date-fns";
+import type { UserDirectoryEntry } from "@shared/schema";
+import {
+  UserExportColumn, UserExportColumnLabels, UserExportFormat,
+  type UserExportColumnType, type UserExportFormatType
+} from "@shared/user-export";
+import { csvLine, UTF8_BOM } from "./csv";
+import { drained } from "./streams";
+
+const contentTypes: Record<UserExportFormatType, string> = {
+  [UserExportFormat.CSV]: "text/csv; charset=utf-8",
+  [UserExportFormat.XLSX]: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Column widths of the XLSX sheet, in characters
+const xlsxWidths: Partial<Record<UserExportColumnType, number>> = {
+  [UserExportColumn.ID]: 8,
+  [UserExportColumn.EMAIL]: 30,
+  [UserExportColumn.ROLE]: 24,
+  [UserExportColumn.ORGANIZATION]: 28,
+  [UserExportColumn.ADDRESS]: 40,
+  [UserExportColumn.LAST_LOGIN]: 20,
+};
+
+/**
+ * Write the chosen columns of the given users to the response as a CSV or XLSX download.
+ * Columns are UserDirectoryEntry fields, so the password can never be among them.
+ */
+export async function exportUsers(
+  res: Response,
+  exportFormat: UserExportFormatType,
+  columns: UserExportColumnType[],
+  users: UserDirectoryEntry[],
+  generatedAt: Date
+): Promise<void> {
+  const filename = `users-${format(generatedAt, "yyyyMMdd-HHmmss")}.${exportFormat}`;
+  res.setHeader("Content-Type", contentTypes[exportFormat]);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+  if (exportFormat === UserExportFormat.CSV) {
+    res.write(UTF8_BOM + csvLine(columns.map(column => UserExportColumnLabels[column])));
+    for (const user of users) {
+      res.write(csvLine(columns.map(column => {
+        const value = user[column];
+        return value instanceof Date ? value.toISOString() : value;
+      })));
+      // Let the client catch up rather than buffering the whole file
+      if (!(await drained(res))) {
+        return;
+      }
+    }
+    res.end();
+    return;
+  }
+
+  // Rows are committed as they are added, so the workbook is streamed rather than built in memory
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const sheet = workbook.addWorksheet("Users");
+  sheet.columns = columns.map(column => ({
+    header: UserExportColumnLabels[column],
+    key: column,
+    width: xlsxWidths[column] ?? 18,
+    style: column === UserExportColumn.LAST_LOGIN ? { numFmt: "dd mmm yyyy hh:mm" } : undefined,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+
+  for (const user of users) {
+    sheet.addRow(Object.fromEntries(columns.map(column => [column, user[column] ?? null]))).commit();
+  }
+  sheet.commit();
+  await workbook.commit();
+}
@@ -0,0 +1,426 @@
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import {
+  UserRole, UserStatus, PINCODE_PATTERN, insertUserSchema,
+  type InsertUser, type Organization, type TerritoryWithUsage, type User, type UserRoleType, type UserStatusType
+} from "@shared/schema";
+import { getManagerPairingError } from "@shared/org-chart";
+import {
+  MAX_IMPORT_ROWS, RequiredImportFields, UserImportField, UserImportFieldLabels, suggestImportField,
+  type UserImportFieldType, type UserImportMapping, type UserImportReport, type UserImportRowResult
+} from "@shared/user-import";
+import { storage } from "./storage";
+import { canCreateUser } from "./authorization";
+import { type UserImportEntry } from "./db/userService";
+
+// One line of an import file, numbered as the file shows it
+export interface SheetRow {
+  row: number;
+  cells: string[];
+}
+
+export interface UserImportPlan {
+  report: UserImportReport;
+  // Valid rows in creation order, managers before the people reporting to them
+  entries: UserImportEntry[];
+}
+
+// Abbreviations field teams use for roles
+const roleAbbreviations: Record<string, UserRoleType> = {
+  BUH: UserRole.BUSINESS_UNIT_HEAD,
+  RSM: UserRole.REGIONAL_SALES_MANAGER,
+  ASM: UserRole.AREA_SALES_MANAGER,
+  MR: UserRole.MEDICAL_REPRESENTATIVE,
+};
+
+const emailSchema = z.string().email();
+
+// A row being validated, with the manager it names resolved once all rows are known
+interface PlannedRow {
+  result: UserImportRowResult;
+  user: InsertUser;
+  managerRef: string | null;
+  managerId: number | null;
+  managerRow: number | null;
+}
+
+/**
+ * Split CSV text into rows of cells, allowing quoted cells with commas, quotes and line breaks.
+ * A header with more semicolons than commas is taken as semicolon-separated, as spreadsheets
+ * in some locales save it.
+ */
+function parseCsv(text: string): SheetRow[] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: SheetRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      cells.push(cell);
+      rows.push({ row: rowStart, cells });
+      cells = [];
+      cell = "";
+      line++;
+      rowStart = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || cells.length > 0) {
+    cells.push(cell);
+    rows.push({ row: rowStart, cells });
+  }
+
+  return rows;
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook as text cells
+ */
+async function parseXlsx(body: Buffer): Promise<SheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(body);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return [];
+  }
+
+  const rows: SheetRow[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      cells.push(row.getCell(column).text ?? "");
+    }
+    rows.push({ row: rowNumber, cells });
+  });
+  return rows;
+}
+
+/**
+ * Read an uploaded CSV or XLSX file into rows. XLSX files are recognized by their ZIP signature.
+ */
+export async function readSpreadsheet(body: Buffer): Promise<SheetRow[]> {
+  const rows = body[0] === 0x50 && body[1] === 0x4b
+    ? await parseXlsx(body)
+    : parseCsv(body.toString("utf8").replace(/^\uFEFF/, ""));
+
+  return rows
+    .map(({ row, cells }) => ({ row, cells: cells.map(cell => cell.trim()) }))
+    .filter(({ cells }) => cells.some(Boolean));
+}
+
+function parseEnumValue<T extends string>(value: string, allowed: T[], abbreviations: Record<string, T> = {}): T | null {
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, "_");
+  return abbreviations[normalized] ?? allowed.find(candidate => candidate === normalized) ?? null;
+}
+
+/**
+ * Validate the rows of a user import file and work out what importing it would create.
+ * Managers are matched by username or email, either to existing users or to other rows of the file;
+ * organizations by name and territories by code or name within the organization.
+ * Each row is checked the way creating the user by hand would be, on behalf of the actor.
+ */
+export async function planUserImport(actor: User, sheet: SheetRow[], mapping?: UserImportMapping): Promise<UserImportPlan> {
+  const [headerRow, ...dataRows] = sheet;
+  const headers = headerRow?.cells ?? [];
+  const columns = headers.map(header => ({
+    header,
+    field: mapping && header in mapping ? mapping[header] : suggestImportField(header),
+  }));
+
+  const report: UserImportReport = {
+    dryRun: true,
+    columns,
+    fileErrors: [],
+    rows: [],
+    validCount: 0,
+    invalidCount: 0,
+    createdCount: 0,
+  };
+
+  if (dataRows.length === 0) {
+    report.fileErrors.push("The file has no rows to import");
+  } else if (dataRows.length > MAX_IMPORT_ROWS) {
+    report.fileErrors.push(`The file has ${dataRows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`);
+  }
+  for (const field of RequiredImportFields) {
+    if (!columns.some(column => column.field === field)) {
+      report.fileErrors.push(`No column is mapped to ${UserImportFieldLabels[field]}`);
+    }
+  }
+  for (const field of Object.values(UserImportField)) {
+    const mapped = columns.filter(column => column.field === field);
+    if (mapped.length > 1) {
+      report.fileErrors.push(`${UserImportFieldLabels[field]} is mapped from more than one column: ${mapped.map(column => column.header).join(", ")}`);
+    }
+  }
+  if (report.fileErrors.length > 0) {
+    return { report, entries: [] };
+  }
+
+  // Deleted users still hold their username and email, but cannot become managers
+  const existingUsers = await storage.getAllUsers(undefined, { includeDeleted: true });
+  const organizations = await storage.getAllOrganizations();
+  const usersByLogin = new Map<string, User>();
+  for (const user of existingUsers.filter(candidate => candidate.deletedAt === null)) {
+    usersByLogin.set(user.username.toLowerCase(), user);
+    usersByLogin.set(user.email.toLowerCase(), user);
+  }
+  const organizationsByName = new Map<string, Organization>(
+    organizations.map(organization => [organization.name.toLowerCase(), organization])
+  );
+  const existingUsernames = new Set(existingUsers.map(user => user.username.toLowerCase()));
+  const existingEmails = new Set(existingUsers.map(user => user.email.toLowerCase()));
+  const territoriesByOrganization = new Map<number, TerritoryWithUsage[]>();
+
+  // Rows of the file by username and email, for duplicates and for managers named by other rows
+  const fileUsernames = new Map<string, number>();
+  const fileEmails = new Map<string, number>();
+  const rowsByLogin = new Map<string, number>();
+  const planned: PlannedRow[] = [];
+
+  for (const { row, cells } of dataRows) {
+    const value = (field: UserImportFieldType) => {
+      const index = columns.findIndex(column => column.field === field);
+      return index >= 0 ? cells[index] ?? "" : "";
+    };
+    const optional = (field: UserImportFieldType) => value(field) || null;
+    const errors: string[] = [];
+
+    for (const field of RequiredImportFields) {
+      if (!value(field)) {
+        errors.push(`${UserImportFieldLabels[field]} is required`);
+      }
+    }
+
+    const username = value(UserImportField.USERNAME);
+    const email = value(UserImportField.EMAIL);
+    if (email && !emailSchema.safeParse(email).success) {
+      errors.push(`"${email}" is not a valid email address`);
+    }
+
+    const role = value(UserImportField.ROLE)
+      ? parseEnumValue(value(UserImportField.ROLE), Object.values(UserRole), roleAbbreviations)
+      : null;
+    if (value(UserImportField.ROLE) && !role) {
+      errors.push(`Invalid role "${value(UserImportField.ROLE)}"`);
+    }
+
+    const status = value(UserImportField.STATUS)
+      ? parseEnumValue(value(UserImportField.STATUS), Object.values(UserStatus))
+      : UserStatus.ACTIVE;
+    if (!status) {
+      errors.push(`Invalid status "${value(UserImportField.STATUS)}"`);
+    }
+
+    const pincode = optional(UserImportField.PINCODE);
+    if (pincode && !PINCODE_PATTERN.test(pincode)) {
+      errors.push(`Pincode "${pincode}" must be 6 digits`);
+    }
+
+    let organization: Organization | undefined;
+    if (value(UserImportField.ORGANIZATION)) {
+      organization = organizationsByName.get(value(UserImportField.ORGANIZATION).toLowerCase());
+      if (!organization) {
+        errors.push(`Unknown organization "${value(UserImportField.ORGANIZATION)}"`);
+      }
+    }
+
+    let territoryId: number | null = null;
+    const territoryRef = value(UserImportField.TERRITORY);
+    if (territoryRef && !organization) {
+      errors.push("A territory needs an organization");
+    } else if (territoryRef && organization) {
+      if (!territoriesByOrganization.has(organization.id)) {
+        territoriesByOrganization.set(organization.id, await storage.getTerritories(organization.id));
+      }
+      const matches = territoriesByOrganization.get(organization.id)!.filter(territory =>
+        territory.code?.toLowerCase() === territoryRef.toLowerCase() ||
+        territory.name.toLowerCase() === territoryRef.toLowerCase()
+      );
+      if (matches.length === 0) {
+        errors.push(`Unknown territory "${territoryRef}" in ${organization.name}`);
+      } else if (matches.length > 1) {
+        errors.push(`More than one territory of ${organization.name} is named "${territoryRef}"; use its code`);
+      } else {
+        territoryId = matches[0].id;
+      }
+    }
+
+    // Usernames and emails must be new, and unique within the file
+    for (const [label, login, existing, inFile] of [
+      ["Username", username, existingUsernames, fileUsernames],
+      ["Email", email, existingEmails, fileEmails],
+    ] as const) {
+      const key = login.toLowerCase();
+      if (!key) continue;
+      if (existing.has(key)) {
+        errors.push(`${label} "${login}" already exists`);
+      } else if (inFile.has(key)) {
+        errors.push(`${label} "${login}" is also used on row ${inFile.get(key)}`);
+      } else {
+        inFile.set(key, row);
+      }
+    }
+    for (const login of [username, email]) {
+      if (login && !rowsByLogin.has(login.toLowerCase())) {
+        rowsByLogin.set(login.toLowerCase(), planned.length);
+      }
+    }
+
+    const user: InsertUser = {
+      username,
+      password: value(UserImportField.PASSWORD),
+      fullName: value(UserImportField.FULL_NAME),
+      email,
+      role: role ?? value(UserImportField.ROLE),
+      status: status ?? undefined,
+      organizationId: organization?.id ?? null,
+      region: optional(UserImportField.REGION),
+      territoryId,
+      state: optional(UserImportField.STATE),
+      city: optional(UserImportField.CITY),
+      pincode,
+      address: optional(UserImportField.ADDRESS),
+      managerId: null,
+    };
+    const parsed = insertUserSchema.safeParse(user);
+    if (!parsed.success) {
+      errors.push(...parsed.error.errors.map(issue => `${issue.path.join(".")}: ${issue.message}`));
+    }
+
+    planned.push({
+      result: {
+        row,
+        username: username || null,
+        fullName: optional(UserImportField.FULL_NAME),
+        role: role ?? optional(UserImportField.ROLE),
+        organization: optional(UserImportField.ORGANIZATION),
+        manager: optional(UserImportField.MANAGER),
+        errors,
+      },
+      user,
+      managerRef: optional(UserImportField.MANAGER),
+      managerId: null,
+      managerRow: null,
+    });
+  }
+
+  // Resolve managers, following managers named by other rows first so their problems carry down
+  const resolved = new Set<number>();
+  const resolving = new Set<number>();
+  const resolveManager = async (index: number): Promise<void> => {
+    if (resolved.has(index)) {
+      return;
+    }
+    const entry = planned[index];
+    const errors = entry.result.errors;
+    const subject = { role: entry.user.role as UserRoleType, organizationId: entry.user.organizationId ?? null };
+    resolving.add(index);
+
+    if (entry.managerRef) {
+      const key = entry.managerRef.toLowerCase();
+      const existing = usersByLogin.get(key);
+      const managerRow = rowsByLogin.get(key);
+
+      if (existing) {
+        entry.managerId = existing.id;
+        const pairingError = getManagerPairingError(subject, existing);
+        if (pairingError) errors.push(pairingError);
+      } else if (managerRow === index) {
+        errors.push("A user cannot be their own manager");
+      } else if (managerRow !== undefined) {
+        if (resolving.has(managerRow)) {
+          errors.push(`Circular manager reference through row ${planned[managerRow].result.row}`);
+        } else {
+          await resolveManager(managerRow);
+          const manager = planned[managerRow];
+          entry.managerRow = managerRow;
+          if (manager.result.errors.length > 0) {
+            errors.push(`Manager on row ${manager.result.row} has errors`);
+          } else {
+            const pairingError = getManagerPairingError(subject, {
+              fullName: manager.user.fullName,
+              organizationId: manager.user.organizationId ?? null,
+              role: manager.user.role as UserRoleType,
+              status: (manager.user.status ?? UserStatus.ACTIVE) as UserStatusType,
+            });
+            if (pairingError) errors.push(pairingError);
+          }
+        }
+      } else {
+        errors.push(`Unknown manager "${entry.managerRef}"`);
+      }
+    }
+
+    // Authorize against the nearest existing manager up the chain of rows
+    if (errors.length === 0) {
+      let ancestorId = entry.managerId;
+      for (let row = entry.managerRow; row !== null; row = planned[row].managerRow) {
+        ancestorId = planned[row].managerId;
+      }
+      const permission = await canCreateUser(actor, { ...entry.user, managerId: ancestorId });
+      if (!permission.allowed) {
+        errors.push(permission.reason);
+      }
+    }
+
+    resolving.delete(index);
+    resolved.add(index);
+  };
+
+  // Valid rows in creation order: a row's manager is always placed before it
+  const entries: UserImportEntry[] = [];
+  const entryIndexes = new Map<number, number>();
+  const place = (index: number) => {
+    if (entryIndexes.has(index)) {
+      return;
+    }
+    const entry = planned[index];
+    if (entry.managerRow !== null) {
+      place(entry.managerRow);
+    }
+    entryIndexes.set(index, entries.length);
+    entries.push({
+      user: { ...entry.user, managerId: entry.managerId },
+      managerIndex: entry.managerRow !== null ? entryIndexes.get(entry.managerRow) : undefined,
+    });
+  };
+
+  for (let index = 0; index < planned.length; index++) {
+    await resolveManager(index);
+  }
+  planned.forEach((entry, index) => {
+    if (entry.result.errors.length === 0) {
+      place(index);
+    }
+  });
+
+  report.rows = planned.map(entry => entry.result);
+  report.validCount = entries.length;
+  report.invalidCount = planned.length - entries.length;
+  return { report, entries };
+}
@@ -0,0 +1,55 @@
+// Whether a location is a state or a union territory
+export const StateKind = {
+  STATE: "STATE",
+  UNION_TERRITORY: "UNION_TERRITORY",
+} as const;
+
+export type StateKindType = typeof StateKind[keyof typeof StateKind];
+
+// Kinds of place returned by a location search
+export const LocationMatch = {
+  STATE: "STATE",
+  DISTRICT: "DISTRICT",
+  CITY: "CITY",
+  PINCODE: "PINCODE",
+} as const;
+
+export type LocationMatchType = typeof LocationMatch[keyof typeof LocationMatch];
+
+export interface LocationState {
+  code: string;
+  name: string;
+  kind: StateKindType;
+}
+
+// A city is a postal district, or for a few metros several districts together
+export interface LocationCity {
+  name: string;
+  districts: string[];
+  state: string;
+  pincodes: string[];
+}
+
+// Result of a reverse pincode lookup
+export interface PincodeLocation {
+  pincode: string;
+  state: string;
+  district: string;
+  city: string;
+}
+
+export interface LocationSearchResult {
+  match: LocationMatchType;
+  name: string;
+  state: string;
+  district: string | null;
+  city: string | null;
+}
+
+/**
+ * Inclusive numeric bounds of a pincode entry such as "400051" or "400001-400010"
+ */
+export function parsePincodeRange(entry: string): [number, number] {
+  const [from, to = from] = entry.split("-").map((value) => parseInt(value.trim()));
+  return [from, to];
+}
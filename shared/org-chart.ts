@@ -0,0 +1,99 @@
+import { UserRole, UserStatus, type User, type UserRoleType } from "./schema";
+
+// Problems detected in an organization's reporting structure
+export const OrgChartIssue = {
+  ORPHAN: "ORPHAN",
+  CYCLE: "CYCLE",
+  RANK_VIOLATION: "RANK_VIOLATION",
+} as const;
+
+export type OrgChartIssueType = typeof OrgChartIssue[keyof typeof OrgChartIssue];
+
+// The role each role reports to, always within the same organization
+export const ManagerRoles: Partial<Record<UserRoleType, UserRoleType>> = {
+  [UserRole.REGIONAL_SALES_MANAGER]: UserRole.BUSINESS_UNIT_HEAD,
+  [UserRole.AREA_SALES_MANAGER]: UserRole.REGIONAL_SALES_MANAGER,
+  [UserRole.MEDICAL_REPRESENTATIVE]: UserRole.AREA_SALES_MANAGER,
+  [UserRole.DISTRIBUTOR_EXECUTIVE]: UserRole.DISTRIBUTOR_HEAD,
+};
+
+// Roles expected to report to a manager within their own organization
+export const ReportingRoles = Object.keys(ManagerRoles) as UserRoleType[];
+
+/**
+ * The role that reports to a manager of the given role, or undefined when nobody reports to it
+ */
+export function reportingRoleFor(managerRole: UserRoleType): UserRoleType | undefined {
+  return ReportingRoles.find(role => ManagerRoles[role] === managerRole);
+}
+
+const roleOrder: UserRoleType[] = Object.values(UserRole);
+
+/**
+ * Seniority of a role following the declaration order of UserRole (0 is the most senior)
+ */
+export function roleRank(role: UserRoleType): number {
+  return roleOrder.indexOf(role);
+}
+
+/**
+ * Whether a manager's role ranks strictly above the role of someone reporting to them
+ */
+export function isRoleAbove(managerRole: UserRoleType, reportRole: UserRoleType): boolean {
+  return roleRank(managerRole) < roleRank(reportRole);
+}
+
+type PairingUser = Pick<User, "role" | "organizationId">;
+
+/**
+ * Explain why a manager cannot manage a user, or return null for a valid pairing
+ */
+export function getManagerPairingError(
+  user: PairingUser,
+  manager: PairingUser & Pick<User, "fullName" | "status">
+): string | null {
+  const managerRole = ManagerRoles[user.role];
+  if (!managerRole) {
+    return `${formatRoleName(user.role)} users do not report to a manager`;
+  }
+  if (manager.role !== managerRole) {
+    return `${formatRoleName(user.role)} users must report to a ${formatRoleName(managerRole)}`;
+  }
+  if (manager.organizationId !== user.organizationId) {
+    return `${manager.fullName} belongs to a different organization`;
+  }
+  if (manager.status !== UserStatus.ACTIVE) {
+    return `${manager.fullName} is not an active user`;
+  }
+  return null;
+}
+
+function formatRoleName(role: string): string {
+  return role.replace(/_/g, " ");
+}
+
+export type OrgChartNode = Pick<
+  User,
+  "id" | "username" | "fullName" | "role" | "status" | "managerId" | "region" | "state" | "city"
+> & {
+  territoryName: string | null;
+  issues: OrgChartIssueType[];
+  children: OrgChartNode[];
+};
+
+export type OrgChart = {
+  organizationId: number;
+  roots: OrgChartNode[];
+  issueCounts: Record<OrgChartIssueType, number>;
+};
+
+export type ReassignmentUser = Pick<User, "id" | "fullName" | "role">;
+
+export type ReassignmentPreview = {
+  manager: ReassignmentUser | null;
+  // Users whose managerId changes
+  changes: (ReassignmentUser & { fromManager: ReassignmentUser | null })[];
+  // Reports who move along with the reassigned users
+  carried: ReassignmentUser[];
+  violations: { userId: number | null; message: string }[];
+};
@@ -0,0 +1,97 @@
+import { UserRole, type User, type UserRoleType } from "./schema";
+
+// Define permissions that can be granted to roles
+export const Permission = {
+  USERS_VIEW: "users.view",
+  USERS_CREATE: "users.create",
+  USERS_EDIT: "users.edit",
+  USERS_DELETE: "users.delete",
+  ORGANIZATIONS_VIEW: "organizations.view",
+  ORGANIZATIONS_MANAGE: "organizations.manage",
+  ACTIVITIES_VIEW: "activities.view",
+  AUDIT_VIEW: "audit.view",
+  AUDIT_VERIFY: "audit.verify",
+  PERMISSIONS_MANAGE: "permissions.manage",
+  SYSTEM_VIEW: "system.view",
+} as const;
+
+export type PermissionKey = typeof Permission[keyof typeof Permission];
+
+// Human readable descriptions stored alongside each permission
+export const PermissionDescriptions: Record<PermissionKey, string> = {
+  [Permission.USERS_VIEW]: "View users",
+  [Permission.USERS_CREATE]: "Create users",
+  [Permission.USERS_EDIT]: "Edit and deactivate users",
+  [Permission.USERS_DELETE]: "Delete users",
+  [Permission.ORGANIZATIONS_VIEW]: "View organizations",
+  [Permission.ORGANIZATIONS_MANAGE]: "Create, edit and delete organizations",
+  [Permission.ACTIVITIES_VIEW]: "View recent activity",
+  [Permission.AUDIT_VIEW]: "View audit logs",
+  [Permission.AUDIT_VERIFY]: "Verify the integrity of the audit log",
+  [Permission.PERMISSIONS_MANAGE]: "Edit the roles and permissions matrix",
+  [Permission.SYSTEM_VIEW]: "View system status",
+};
+
+const everyoneViews: PermissionKey[] = [
+  Permission.USERS_VIEW,
+  Permission.ORGANIZATIONS_VIEW,
+  Permission.ACTIVITIES_VIEW,
+];
+
+// Permissions granted to each role when the matrix is first seeded
+export const DefaultRolePermissions: Record<UserRoleType, PermissionKey[]> = {
+  [UserRole.SUPER_ADMIN]: Object.values(Permission),
+  [UserRole.BUSINESS_UNIT_HEAD]: [
+    ...everyoneViews,
+    Permission.USERS_CREATE,
+    Permission.USERS_EDIT,
+    Permission.USERS_DELETE,
+  ],
+  [UserRole.REGIONAL_SALES_MANAGER]: [...everyoneViews, Permission.USERS_CREATE, Permission.USERS_EDIT],
+  [UserRole.AREA_SALES_MANAGER]: [...everyoneViews, Permission.USERS_CREATE, Permission.USERS_EDIT],
+  [UserRole.MEDICAL_REPRESENTATIVE]: [...everyoneViews],
+  [UserRole.DISTRIBUTOR_HEAD]: [
+    ...everyoneViews,
+    Permission.USERS_CREATE,
+    Permission.USERS_EDIT,
+    Permission.USERS_DELETE,
+  ],
+  [UserRole.DISTRIBUTOR_EXECUTIVE]: [...everyoneViews],
+};
+
+// A user together with the permissions granted to their role
+export type PermissionHolder = {
+  role: UserRoleType;
+  organizationId: number | null;
+  permissions?: readonly string[];
+};
+
+// The signed-in user as returned by the API, with their role's permissions
+export type AuthenticatedUser = Omit<User, "password"> & {
+  permissions: PermissionKey[];
+};
+
+// Anything owned by an organization
+export type PermissionResource = {
+  organizationId?: number | null;
+};
+
+/**
+ * Check whether a user holds a permission, optionally for a resource.
+ * Resources outside the user's own organization are only accessible to super admins.
+ */
+export function can(
+  user: PermissionHolder | null | undefined,
+  permission: PermissionKey,
+  resource?: PermissionResource,
+): boolean {
+  if (!user?.permissions?.includes(permission)) {
+    return false;
+  }
+
+  if (resource?.organizationId !== undefined && user.role !== UserRole.SUPER_ADMIN) {
+    return resource.organizationId === user.organizationId;
+  }
+
+  return true;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, jsonb, primaryKey, unique, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -28,16 +28,124 @@ export type OrganizationTypeType = typeof OrganizationType[keyof typeof Organiza
 export const UserStatus = {
   ACTIVE: "ACTIVE",
   INACTIVE: "INACTIVE",
-  PENDING: "PENDING"
+  PENDING: "PENDING",
+  SUSPENDED: "SUSPENDED"
 } as const;
 
 export type UserStatusType = typeof UserStatus[keyof typeof UserStatus];
 
+// Define distributor appointment status
+export const DistributorLinkStatus = {
+  ACTIVE: "ACTIVE",
+  SUSPENDED: "SUSPENDED",
+  TERMINATED: "TERMINATED"
+} as const;
+
+export type DistributorLinkStatusType = typeof DistributorLinkStatus[keyof typeof DistributorLinkStatus];
+
+// Define sales territory levels, from the broadest to the most local
+export const TerritoryLevel = {
+  ZONE: "ZONE",
+  REGION: "REGION",
+  AREA: "AREA",
+  HEADQUARTER: "HEADQUARTER",
+  PATCH: "PATCH"
+} as const;
+
+export type TerritoryLevelType = typeof TerritoryLevel[keyof typeof TerritoryLevel];
+
+// Territory levels in hierarchy order; each level's parent is the level before it
+export const TerritoryLevelOrder: TerritoryLevelType[] = Object.values(TerritoryLevel);
+
+// Kinds of record an audit event can target
+export const AuditEntity = {
+  USER: "USER",
+  ORGANIZATION: "ORGANIZATION",
+  DISTRIBUTOR_LINK: "DISTRIBUTOR_LINK",
+  TERRITORY: "TERRITORY",
+  ROLE: "ROLE",
+} as const;
+
+export type AuditEntityType = typeof AuditEntity[keyof typeof AuditEntity];
+
+// Field-level diff of an audited record: the old and new value of every changed field
+export type AuditChanges = Record<string, { old: unknown; new: unknown }>;
+
+// Ways an activity can break the audit log's hash chain
+export const AuditChainBreak = {
+  // The entry carries no hash although sealed entries precede it
+  UNSEALED: "UNSEALED",
+  // The entry does not point at the hash of the entry before it
+  PREVIOUS_HASH_MISMATCH: "PREVIOUS_HASH_MISMATCH",
+  // The entry's content no longer matches its hash
+  HASH_MISMATCH: "HASH_MISMATCH",
+} as const;
+
+export type AuditChainBreakType = typeof AuditChainBreak[keyof typeof AuditChainBreak];
+
+// File formats the audit log can be exported in
+export const AuditExportFormat = {
+  CSV: "csv",
+  NDJSON: "ndjson",
+  PDF: "pdf",
+} as const;
+
+export type AuditExportFormatType = typeof AuditExportFormat[keyof typeof AuditExportFormat];
+
+// Columns the user list can be sorted by
+export const UserSortField = {
+  FULL_NAME: "fullName",
+  USERNAME: "username",
+  EMAIL: "email",
+  ROLE: "role",
+  STATUS: "status",
+  ORGANIZATION: "organization",
+  LAST_LOGIN: "lastLogin",
+} as const;
+
+export type UserSortFieldType = typeof UserSortField[keyof typeof UserSortField];
+
+export const SortDirection = {
+  ASC: "asc",
+  DESC: "desc",
+} as const;
+
+export type SortDirectionType = typeof SortDirection[keyof typeof SortDirection];
+
+// Largest page of users the list endpoint returns
+export const MAX_USER_PAGE_SIZE = 500;
+
+// Indian tax and postal identifier formats
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+export const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+export const PINCODE_PATTERN = /^[1-9][0-9]{5}$/;
+// A single pincode or an inclusive range such as "400001-400010"
+export const PINCODE_RANGE_PATTERN = /^[1-9][0-9]{5}(-[1-9][0-9]{5})?$/;
+
 // Organizations table
 export const organizations = pgTable("organizations", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   type: text("type").notNull().$type<OrganizationTypeType>(),
+  // Drug licenses issued on Form 20 and Form 21 under the Drugs and Cosmetics Rules
+  drugLicenseForm20: text("drug_license_form_20"),
+  drugLicenseForm20Expiry: date("drug_license_form_20_expiry", { mode: "string" }),
+  drugLicenseForm21: text("drug_license_form_21"),
+  drugLicenseForm21Expiry: date("drug_license_form_21_expiry", { mode: "string" }),
+  gstin: text("gstin"),
+  pan: text("pan"),
+  // Registered address
+  address: text("address"),
+  state: text("state"),
+  city: text("city"),
+  pincode: text("pincode"),
+  // Contact details
+  contactName: text("contact_name"),
+  contactEmail: text("contact_email"),
+  contactPhone: text("contact_phone"),
+  // Soft delete: set when the organization is deleted and cleared when it is restored
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by"),
 });
 
 // Users table
@@ -50,28 +158,169 @@ export const users = pgTable("users", {
   role: text("role").notNull().$type<UserRoleType>(),
   status: text("status").notNull().$type<UserStatusType>().default("ACTIVE"),
   organizationId: integer("organization_id").references(() => organizations.id),
+  // Free-text region kept for distributor users and unmigrated records; pharma users use territoryId
   region: text("region"),
+  territoryId: integer("territory_id").references((): AnyPgColumn => territories.id, { onDelete: "set null" }),
   state: text("state"),
   city: text("city"),
   pincode: text("pincode"),
   address: text("address"),
   managerId: integer("manager_id"),
   lastLogin: timestamp("last_login"),
+  // Why and when the status last changed (see shared/user-lifecycle.ts)
+  statusReason: text("status_reason"),
+  statusChangedAt: timestamp("status_changed_at"),
+  // Set by an administrator; the user must choose a new password before doing anything else
+  passwordResetRequired: boolean("password_reset_required").notNull().default(false),
+  // Soft delete: set when the user is deleted and cleared when they are restored
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by"),
+}, (table) => [
+  // Filters and the default sort of the user list
+  index("users_role_idx").on(table.role),
+  index("users_status_idx").on(table.status),
+  index("users_organization_id_idx").on(table.organizationId),
+  index("users_manager_id_idx").on(table.managerId),
+  index("users_territory_id_idx").on(table.territoryId),
+  index("users_full_name_idx").on(table.fullName, table.id),
+]);
+
+// User invitations table (one-time links for invited users to choose their password)
+export const userInvitations = pgTable("user_invitations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  invitedBy: integer("invited_by"),
+  // SHA-256 of the signed token last sent; resending replaces it, so only the newest link works
+  tokenHash: text("token_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+  sendCount: integer("send_count").notNull().default(1),
+  expiresAt: timestamp("expires_at").notNull(),
+  // At most one of these is set; an invitation with neither is still open
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => [
+  index("user_invitations_user_id_idx").on(table.userId),
+]);
+
+// Password resets table (one-time links for users who forgot their password)
+export const passwordResets = pgTable("password_resets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // SHA-256 of the token sent by email; the token itself is never stored
+  tokenHash: text("token_hash").notNull().unique(),
+  requestIp: text("request_ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+}, (table) => [
+  index("password_resets_user_id_idx").on(table.userId),
+]);
+
+// Territories table (sales territory hierarchy owned by a pharma company)
+export const territories = pgTable("territories", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  parentId: integer("parent_id").references((): AnyPgColumn => territories.id),
+  level: text("level").notNull().$type<TerritoryLevelType>(),
+  name: text("name").notNull(),
+  code: text("code"),
+  // Pincodes the territory covers, each a single pincode or an inclusive range
+  pincodes: text("pincodes").array().notNull().default([]),
 });
 
 // Activities table
 export const activities = pgTable("activities", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").references(() => users.id),
+  // No foreign key: entries outlive users purged from the database, and the id is part of the sealed content
+  userId: integer("user_id"),
   action: text("action").notNull(),
   description: text("description").notNull(),
+  // Structured audit detail: the record acted on, what changed and where the request came from
+  entityType: text("entity_type").$type<AuditEntityType>(),
+  entityId: text("entity_id"),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  requestId: text("request_id"),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+  // Tamper evidence: the hash of the previous entry and of this entry's content chained to it.
+  // Entries logged before the chain existed have neither.
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
+});
+
+// Distributor companies table (which distributors carry which pharma companies)
+export const distributorCompanies = pgTable("distributor_companies", {
+  id: serial("id").primaryKey(),
+  distributorId: integer("distributor_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  companyId: integer("company_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  // States the distributor covers for the company
+  coverageStates: text("coverage_states").array().notNull().default([]),
+  appointmentDate: date("appointment_date", { mode: "string" }),
+  status: text("status").notNull().$type<DistributorLinkStatusType>().default("ACTIVE"),
+  agreementReference: text("agreement_reference"),
+}, (table) => [
+  unique().on(table.distributorId, table.companyId),
+]);
+
+// Permissions table
+export const permissions = pgTable("permissions", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  description: text("description").notNull(),
 });
 
+// Role permissions table (which permissions each role holds)
+export const rolePermissions = pgTable("role_permissions", {
+  role: text("role").notNull().$type<UserRoleType>(),
+  permissionId: integer("permission_id").notNull().references(() => permissions.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.role, table.permissionId] }),
+]);
+
+// Optional text fields arrive from forms as empty strings; store those as null
+const emptyToNull = (value: unknown) => (typeof value === "string" && value.trim() === "" ? null : value);
+const optionalText = (schema: z.ZodString) => z.preprocess(emptyToNull, schema.nullish());
+
 // Zod schemas for validation
-export const insertUserSchema = createInsertSchema(users).omit({ id: true });
-export const insertOrganizationSchema = createInsertSchema(organizations).omit({ id: true });
-export const insertActivitySchema = createInsertSchema(activities).omit({ id: true, timestamp: true });
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, deletedAt: true, deletedBy: true });
+export const insertUserInvitationSchema = createInsertSchema(userInvitations).omit({
+  id: true, createdAt: true, sentAt: true, sendCount: true, acceptedAt: true, revokedAt: true
+});
+export const insertPasswordResetSchema = createInsertSchema(passwordResets).omit({
+  id: true, createdAt: true, usedAt: true
+});
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  gstin: optionalText(z.string().trim().toUpperCase().regex(GSTIN_PATTERN, "Invalid GSTIN format")),
+  pan: optionalText(z.string().trim().toUpperCase().regex(PAN_PATTERN, "Invalid PAN format")),
+  pincode: optionalText(z.string().trim().regex(PINCODE_PATTERN, "Pincode must be 6 digits")),
+  contactEmail: optionalText(z.string().trim().email("Invalid email address")),
+  drugLicenseForm20Expiry: optionalText(z.string().date("Invalid date")),
+  drugLicenseForm21Expiry: optionalText(z.string().date("Invalid date")),
+}).omit({ id: true, deletedAt: true, deletedBy: true });
+export const insertDistributorLinkSchema = createInsertSchema(distributorCompanies, {
+  coverageStates: z.array(z.string().min(1)).default([]),
+  appointmentDate: optionalText(z.string().date("Invalid date")),
+  status: z.nativeEnum(DistributorLinkStatus).default(DistributorLinkStatus.ACTIVE),
+  agreementReference: optionalText(z.string().trim()),
+}).omit({ id: true });
+export const insertTerritorySchema = createInsertSchema(territories, {
+  level: z.nativeEnum(TerritoryLevel),
+  name: z.string().trim().min(1, "Name is required"),
+  code: optionalText(z.string().trim()),
+  pincodes: z.array(
+    z.string().trim()
+      .regex(PINCODE_RANGE_PATTERN, "Use a 6-digit pincode or a range like 400001-400010")
+      .refine((entry) => {
+        const [from, to = from] = entry.split("-");
+        return from <= to;
+      }, "A pincode range must start at or below its end")
+  ).default([]),
+}).omit({ id: true });
+export const insertActivitySchema = createInsertSchema(activities, {
+  entityType: z.nativeEnum(AuditEntity).nullish(),
+}).omit({ id: true, timestamp: true, prevHash: true, hash: true });
 
 // Export types
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -80,3 +329,51 @@ export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type Organization = typeof organizations.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 export type Activity = typeof activities.$inferSelect;
+export type ActivityWithActor = Activity & { user: Pick<User, "id" | "username" | "fullName"> | null };
+// One page of the audit log; pass nextCursor back as the cursor to fetch the following page
+export type ActivityPage = { items: ActivityWithActor[]; nextCursor: number | null };
+// Result of walking the audit log's hash chain from the first sealed entry
+export type AuditChainVerification = {
+  valid: boolean;
+  // Sealed entries whose links were checked, up to the first break
+  checkedCount: number;
+  // Entries logged before the chain started, which carry no hash
+  legacyCount: number;
+  firstBreak: {
+    activityId: number;
+    reason: AuditChainBreakType;
+    expectedHash: string;
+    actualHash: string | null;
+  } | null;
+  verifiedAt: string;
+};
+export type InsertDistributorLink = z.infer<typeof insertDistributorLinkSchema>;
+export type DistributorLink = typeof distributorCompanies.$inferSelect;
+export type DistributorLinkDetails = DistributorLink & { distributorName: string; companyName: string };
+export type UserInvitation = typeof userInvitations.$inferSelect;
+export type InsertUserInvitation = z.infer<typeof insertUserInvitationSchema>;
+export type PasswordReset = typeof passwordResets.$inferSelect;
+export type InsertPasswordReset = z.infer<typeof insertPasswordResetSchema>;
+export type InsertTerritory = z.infer<typeof insertTerritorySchema>;
+export type Territory = typeof territories.$inferSelect;
+export type UserListItem = Omit<User, "password"> & { territoryName: string | null };
+// A user with the names of their organization, manager and territory resolved
+export type UserDirectoryEntry = UserListItem & { organizationName: string | null; managerName: string | null };
+// One page of the user list and the number of users matching its filters
+export type UserPage = { items: UserDirectoryEntry[]; total: number; page: number; pageSize: number };
+export type TerritoryWithUsage = Territory & { userCount: number; childCount: number };
+// Pincodes claimed by two territories of the same company that are not in the same branch
+export type CoverageOverlap = {
+  from: string;
+  to: string;
+  territories: [Pick<Territory, "id" | "name" | "level">, Pick<Territory, "id" | "name" | "level">];
+};
+// Answer to "who covers this pincode": the most specific covering territories and their ancestors,
+// with the active users assigned to them, most specific first
+export type PincodeCoverage = {
+  pincode: string;
+  organizationId: number;
+  territories: Territory[];
+  users: (Pick<User, "id" | "fullName" | "username" | "role" | "territoryId"> & { territoryName: string })[];
+};
+export type PermissionRecord = typeof permissions.$inferSelect;
@@ -0,0 +1,54 @@
+// Operations that can be applied to many selected users at once
+export const BulkUserAction = {
+  ACTIVATE: "activate",
+  DEACTIVATE: "deactivate",
+  CHANGE_ORGANIZATION: "changeOrganization",
+  REASSIGN_MANAGER: "reassignManager",
+  MOVE_TERRITORY: "moveTerritory",
+  FORCE_PASSWORD_RESET: "forcePasswordReset",
+  DELETE: "delete",
+} as const;
+
+export type BulkUserActionType = typeof BulkUserAction[keyof typeof BulkUserAction];
+
+export const BulkUserActionLabels: Record<BulkUserActionType, string> = {
+  [BulkUserAction.ACTIVATE]: "Activate",
+  [BulkUserAction.DEACTIVATE]: "Deactivate",
+  [BulkUserAction.CHANGE_ORGANIZATION]: "Change organization",
+  [BulkUserAction.REASSIGN_MANAGER]: "Reassign manager",
+  [BulkUserAction.MOVE_TERRITORY]: "Move territory",
+  [BulkUserAction.FORCE_PASSWORD_RESET]: "Force password reset",
+  [BulkUserAction.DELETE]: "Delete",
+};
+
+// Largest number of users a single bulk request may touch
+export const MAX_BULK_USERS = 500;
+
+/**
+ * A bulk operation and its target; organizationId, managerId and territoryId
+ * are the new values for the actions that change them, and reason explains a status change
+ */
+export type BulkUserRequest = {
+  action: BulkUserActionType;
+  userIds: number[];
+  organizationId?: number;
+  managerId?: number | null;
+  territoryId?: number | null;
+  reason?: string;
+};
+
+// Outcome for one user; unchanged users already had the requested value
+export type BulkUserResult = {
+  userId: number;
+  username: string | null;
+  success: boolean;
+  unchanged?: boolean;
+  error?: string;
+};
+
+export type BulkUserReport = {
+  action: BulkUserActionType;
+  results: BulkUserResult[];
+  succeededCount: number;
+  failedCount: number;
+};
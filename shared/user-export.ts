@@ -0,0 +1,58 @@
+// File formats the user list can be exported in
+export const UserExportFormat = {
+  CSV: "csv",
+  XLSX: "xlsx",
+} as const;
+
+export type UserExportFormatType = typeof UserExportFormat[keyof typeof UserExportFormat];
+
+// Columns that can be chosen for a user export. Passwords are never exportable.
+export const UserExportColumn = {
+  ID: "id",
+  USERNAME: "username",
+  FULL_NAME: "fullName",
+  EMAIL: "email",
+  ROLE: "role",
+  STATUS: "status",
+  ORGANIZATION: "organizationName",
+  MANAGER: "managerName",
+  TERRITORY: "territoryName",
+  REGION: "region",
+  STATE: "state",
+  CITY: "city",
+  PINCODE: "pincode",
+  ADDRESS: "address",
+  LAST_LOGIN: "lastLogin",
+} as const;
+
+export type UserExportColumnType = typeof UserExportColumn[keyof typeof UserExportColumn];
+
+export const UserExportColumnLabels: Record<UserExportColumnType, string> = {
+  [UserExportColumn.ID]: "ID",
+  [UserExportColumn.USERNAME]: "Username",
+  [UserExportColumn.FULL_NAME]: "Full Name",
+  [UserExportColumn.EMAIL]: "Email",
+  [UserExportColumn.ROLE]: "Role",
+  [UserExportColumn.STATUS]: "Status",
+  [UserExportColumn.ORGANIZATION]: "Organization",
+  [UserExportColumn.MANAGER]: "Manager",
+  [UserExportColumn.TERRITORY]: "Territory",
+  [UserExportColumn.REGION]: "Region",
+  [UserExportColumn.STATE]: "State",
+  [UserExportColumn.CITY]: "City",
+  [UserExportColumn.PINCODE]: "Pincode",
+  [UserExportColumn.ADDRESS]: "Address",
+  [UserExportColumn.LAST_LOGIN]: "Last Login",
+};
+
+// Columns ticked when the export dialog opens
+export const DefaultUserExportColumns: UserExportColumnType[] = [
+  UserExportColumn.USERNAME,
+  UserExportColumn.FULL_NAME,
+  UserExportColumn.EMAIL,
+  UserExportColumn.ROLE,
+  UserExportColumn.STATUS,
+  UserExportColumn.ORGANIZATION,
+  UserExportColumn.MANAGER,
+  UserExportColumn.TERRITORY,
+];
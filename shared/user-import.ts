@@ -0,0 +1,107 @@
+// Columns of a user import file. Organization, manager and territory are given by name
+// and resolved to ids; everything else maps straight onto the user record.
+export const UserImportField = {
+  USERNAME: "username",
+  PASSWORD: "password",
+  FULL_NAME: "fullName",
+  EMAIL: "email",
+  ROLE: "role",
+  STATUS: "status",
+  ORGANIZATION: "organization",
+  MANAGER: "manager",
+  TERRITORY: "territory",
+  REGION: "region",
+  STATE: "state",
+  CITY: "city",
+  PINCODE: "pincode",
+  ADDRESS: "address",
+} as const;
+
+export type UserImportFieldType = typeof UserImportField[keyof typeof UserImportField];
+
+export const UserImportFieldLabels: Record<UserImportFieldType, string> = {
+  [UserImportField.USERNAME]: "Username",
+  [UserImportField.PASSWORD]: "Password",
+  [UserImportField.FULL_NAME]: "Full Name",
+  [UserImportField.EMAIL]: "Email",
+  [UserImportField.ROLE]: "Role",
+  [UserImportField.STATUS]: "Status",
+  [UserImportField.ORGANIZATION]: "Organization (name)",
+  [UserImportField.MANAGER]: "Manager (username or email)",
+  [UserImportField.TERRITORY]: "Territory (code or name)",
+  [UserImportField.REGION]: "Region",
+  [UserImportField.STATE]: "State",
+  [UserImportField.CITY]: "City",
+  [UserImportField.PINCODE]: "Pincode",
+  [UserImportField.ADDRESS]: "Address",
+};
+
+// Columns every import file must map
+export const RequiredImportFields: UserImportFieldType[] = [
+  UserImportField.USERNAME,
+  UserImportField.PASSWORD,
+  UserImportField.FULL_NAME,
+  UserImportField.EMAIL,
+  UserImportField.ROLE,
+];
+
+// Largest file accepted in one import
+export const MAX_IMPORT_ROWS = 2000;
+
+// Header spellings recognized for each field besides its own name and label
+const headerAliases: Partial<Record<UserImportFieldType, string[]>> = {
+  [UserImportField.USERNAME]: ["login", "userid"],
+  [UserImportField.FULL_NAME]: ["name", "employeename"],
+  [UserImportField.EMAIL]: ["emailaddress", "mail"],
+  [UserImportField.ROLE]: ["designation"],
+  [UserImportField.ORGANIZATION]: ["organisation", "company", "distributor"],
+  [UserImportField.MANAGER]: ["reportsto", "reportingmanager", "managerusername", "manageremail"],
+  [UserImportField.TERRITORY]: ["territorycode", "headquarter", "hq", "patch"],
+  [UserImportField.PINCODE]: ["pin", "pincodes", "postalcode", "zip"],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Guess the field a column header refers to, or null when it matches none
+ */
+export function suggestImportField(header: string): UserImportFieldType | null {
+  const normalized = normalizeHeader(header);
+  if (!normalized) {
+    return null;
+  }
+
+  return Object.values(UserImportField).find(field =>
+    normalizeHeader(field) === normalized ||
+    normalizeHeader(UserImportFieldLabels[field]) === normalized ||
+    headerAliases[field]?.includes(normalized)
+  ) ?? null;
+}
+
+// Which field each column header of the file feeds; unmapped columns are ignored
+export type UserImportMapping = Record<string, UserImportFieldType | null>;
+
+export type UserImportRowResult = {
+  // Line of the file, counting the header as line 1
+  row: number;
+  username: string | null;
+  fullName: string | null;
+  role: string | null;
+  organization: string | null;
+  manager: string | null;
+  errors: string[];
+};
+
+// Outcome of validating, and unless it was a dry run importing, a user file
+export type UserImportReport = {
+  dryRun: boolean;
+  columns: { header: string; field: UserImportFieldType | null }[];
+  // Problems with the file as a whole, such as required columns left unmapped
+  fileErrors: string[];
+  rows: UserImportRowResult[];
+  validCount: number;
+  invalidCount: number;
+  createdCount: number;
+};
@@ -0,0 +1,59 @@
+import { UserStatus, type UserStatusType } from "./schema";
+
+// The statuses a user may move to from each status. PENDING accounts wait for approval,
+// SUSPENDED users are locked out for a while and INACTIVE users have been offboarded.
+export const UserStatusTransitions: Record<UserStatusType, UserStatusType[]> = {
+  [UserStatus.PENDING]: [UserStatus.ACTIVE, UserStatus.INACTIVE],
+  [UserStatus.ACTIVE]: [UserStatus.SUSPENDED, UserStatus.INACTIVE],
+  [UserStatus.SUSPENDED]: [UserStatus.ACTIVE, UserStatus.INACTIVE],
+  [UserStatus.INACTIVE]: [UserStatus.ACTIVE],
+};
+
+export const UserStatusLabels: Record<UserStatusType, string> = {
+  [UserStatus.ACTIVE]: "Active",
+  [UserStatus.INACTIVE]: "Inactive",
+  [UserStatus.PENDING]: "Pending",
+  [UserStatus.SUSPENDED]: "Suspended",
+};
+
+// Why a user cannot sign in; only ACTIVE users may
+export const LoginBlockedMessages: Partial<Record<UserStatusType, string>> = {
+  [UserStatus.INACTIVE]: "Your account has been deactivated. Contact your administrator.",
+  [UserStatus.PENDING]: "Your account is waiting for approval by your manager.",
+  [UserStatus.SUSPENDED]: "Your account has been suspended. Contact your administrator.",
+};
+
+// Longest reason that can be given for a status change
+export const MAX_STATUS_REASON_LENGTH = 500;
+
+/**
+ * Whether a user may move from one status to another
+ */
+export function canChangeStatus(from: UserStatusType, to: UserStatusType): boolean {
+  return UserStatusTransitions[from]?.includes(to) ?? false;
+}
+
+/**
+ * Name of the action that moves a user from one status to another, e.g. "Approve"
+ */
+export function statusChangeLabel(from: UserStatusType, to: UserStatusType): string {
+  if (from === UserStatus.PENDING) {
+    return to === UserStatus.ACTIVE ? "Approve" : "Reject";
+  }
+  switch (to) {
+    case UserStatus.SUSPENDED:
+      return "Suspend";
+    case UserStatus.INACTIVE:
+      return "Offboard";
+    case UserStatus.ACTIVE:
+      return from === UserStatus.SUSPENDED ? "Reinstate" : "Reactivate";
+    default:
+      return `Set ${UserStatusLabels[to]}`;
+  }
+}
+
+// A status change requested for one user
+export type UserStatusChange = {
+  status: UserStatusType;
+  reason: string;
+};